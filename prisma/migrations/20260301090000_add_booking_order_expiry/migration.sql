@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "BookingOrder" ADD COLUMN     "expiredAt" TIMESTAMP(3),
+ADD COLUMN     "expiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "BookingOrder_status_expiresAt_idx" ON "BookingOrder"("status", "expiresAt");
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "PriceQuote" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "couponCode" TEXT,
+    "taxPercent" INTEGER NOT NULL,
+    "baseAmount" INTEGER NOT NULL,
+    "taxAmount" INTEGER NOT NULL,
+    "discount" INTEGER NOT NULL,
+    "totalAmount" INTEGER NOT NULL,
+    "lines" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "bookingOrderId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PriceQuote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceQuote_bookingOrderId_key" ON "PriceQuote"("bookingOrderId");
+
+-- CreateIndex
+CREATE INDEX "PriceQuote_expiresAt_idx" ON "PriceQuote"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "PriceQuote" ADD CONSTRAINT "PriceQuote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PriceQuote" ADD CONSTRAINT "PriceQuote_bookingOrderId_fkey" FOREIGN KEY ("bookingOrderId") REFERENCES "BookingOrder"("id") ON DELETE SET NULL ON UPDATE CASCADE;
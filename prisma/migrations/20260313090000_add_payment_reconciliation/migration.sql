@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "ReconciliationRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "ReconciliationIssue" AS ENUM ('PAID_NOT_RECORDED', 'STATUS_MISMATCH', 'AMOUNT_MISMATCH', 'ORPHANED_SESSION', 'LOOKUP_FAILED');
+
+-- CreateTable
+CREATE TABLE "ReconciliationReport" (
+    "id" TEXT NOT NULL,
+    "reportDate" TIMESTAMP(3) NOT NULL,
+    "status" "ReconciliationRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "checkedCount" INTEGER NOT NULL DEFAULT 0,
+    "mismatchCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReconciliationReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ReconciliationItem" (
+    "id" TEXT NOT NULL,
+    "reportId" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "bookingOrderId" TEXT NOT NULL,
+    "provider" "PaymentMethod" NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "issue" "ReconciliationIssue" NOT NULL,
+    "localStatus" "PaymentStatus" NOT NULL,
+    "providerStatus" "PaymentStatus",
+    "localAmount" INTEGER,
+    "providerAmount" INTEGER,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReconciliationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReconciliationReport_reportDate_key" ON "ReconciliationReport"("reportDate");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_reportId_idx" ON "ReconciliationItem"("reportId");
+
+-- AddForeignKey
+ALTER TABLE "ReconciliationItem" ADD CONSTRAINT "ReconciliationItem_reportId_fkey" FOREIGN KEY ("reportId") REFERENCES "ReconciliationReport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
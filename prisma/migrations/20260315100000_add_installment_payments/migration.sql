@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "PaymentPlan" AS ENUM ('FULL', 'INSTALLMENTS');
+
+-- CreateEnum
+CREATE TYPE "OrderPaymentStatus" AS ENUM ('UNPAID', 'PARTIALLY_PAID', 'PAID');
+
+-- CreateEnum
+CREATE TYPE "InstallmentType" AS ENUM ('DEPOSIT', 'ADVANCE', 'INSTALLMENT');
+
+-- CreateEnum
+CREATE TYPE "InstallmentStatus" AS ENUM ('PENDING', 'PAID', 'OVERDUE', 'CANCELLED');
+
+-- DropIndex
+DROP INDEX "Payment_bookingOrderId_key";
+
+-- AlterTable
+ALTER TABLE "BookingOrder" ADD COLUMN     "depositAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "paidAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "paymentPlan" "PaymentPlan" NOT NULL DEFAULT 'FULL',
+ADD COLUMN     "paymentStatus" "OrderPaymentStatus" NOT NULL DEFAULT 'UNPAID';
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "amount" INTEGER,
+ADD COLUMN     "installmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PaymentInstallment" (
+    "id" TEXT NOT NULL,
+    "bookingOrderId" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "type" "InstallmentType" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "paidAmount" INTEGER NOT NULL DEFAULT 0,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "status" "InstallmentStatus" NOT NULL DEFAULT 'PENDING',
+    "paidAt" TIMESTAMP(3),
+    "remindersSent" INTEGER NOT NULL DEFAULT 0,
+    "lastRemindedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentInstallment_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill what existing orders have already paid
+UPDATE "BookingOrder" o
+SET "paidAmount" = p."paid",
+    "paymentStatus" = CASE WHEN p."paid" >= o."totalAmount" THEN 'PAID'::"OrderPaymentStatus" ELSE 'PARTIALLY_PAID'::"OrderPaymentStatus" END
+FROM (
+    SELECT "bookingOrderId", SUM(COALESCE("amountPaid", 0)) AS "paid"
+    FROM "Payment"
+    WHERE "paymentStatus" IN ('SUCCESS', 'PARTIALLY_REFUNDED', 'REFUNDED')
+    GROUP BY "bookingOrderId"
+) p
+WHERE p."bookingOrderId" = o."id" AND p."paid" > 0;
+
+-- CreateIndex
+CREATE INDEX "Payment_bookingOrderId_idx" ON "Payment"("bookingOrderId");
+
+-- CreateIndex
+CREATE INDEX "Payment_transactionId_idx" ON "Payment"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "PaymentInstallment_status_dueDate_idx" ON "PaymentInstallment"("status", "dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentInstallment_bookingOrderId_sequence_key" ON "PaymentInstallment"("bookingOrderId", "sequence");
+
+-- AddForeignKey
+ALTER TABLE "Payment" ADD CONSTRAINT "Payment_installmentId_fkey" FOREIGN KEY ("installmentId") REFERENCES "PaymentInstallment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentInstallment" ADD CONSTRAINT "PaymentInstallment_bookingOrderId_fkey" FOREIGN KEY ("bookingOrderId") REFERENCES "BookingOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
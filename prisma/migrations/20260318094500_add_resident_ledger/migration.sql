@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "RentInvoiceStatus" AS ENUM ('OPEN', 'PARTIALLY_PAID', 'PAID', 'OVERDUE', 'VOID');
+
+-- CreateEnum
+CREATE TYPE "LedgerEntryType" AS ENUM ('CHARGE', 'PAYMENT', 'LATE_FEE', 'CREDIT');
+
+-- CreateTable
+CREATE TABLE "RentInvoice" (
+    "id" TEXT NOT NULL,
+    "invoiceNumber" TEXT NOT NULL,
+    "bookingId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "lateFee" INTEGER NOT NULL DEFAULT 0,
+    "paidAmount" INTEGER NOT NULL DEFAULT 0,
+    "status" "RentInvoiceStatus" NOT NULL DEFAULT 'OPEN',
+    "transactionId" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RentInvoice_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "bookingId" TEXT,
+    "invoiceId" TEXT,
+    "type" "LedgerEntryType" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "description" TEXT NOT NULL,
+    "reference" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RentInvoice_invoiceNumber_key" ON "RentInvoice"("invoiceNumber");
+
+-- CreateIndex
+CREATE INDEX "RentInvoice_status_dueDate_idx" ON "RentInvoice"("status", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "RentInvoice_userId_idx" ON "RentInvoice"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RentInvoice_bookingId_periodStart_key" ON "RentInvoice"("bookingId", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_userId_createdAt_idx" ON "LedgerEntry"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_reference_idx" ON "LedgerEntry"("reference");
+
+-- AddForeignKey
+ALTER TABLE "RentInvoice" ADD CONSTRAINT "RentInvoice_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RentInvoice" ADD CONSTRAINT "RentInvoice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "RentInvoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "BillingDocumentType" AS ENUM ('INVOICE', 'RECEIPT');
+
+-- CreateTable
+CREATE TABLE "BillingDocument" (
+    "id" TEXT NOT NULL,
+    "type" "BillingDocumentType" NOT NULL,
+    "number" TEXT NOT NULL,
+    "bookingOrderId" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "taxPercent" INTEGER NOT NULL,
+    "emailedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BillingDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "DocumentSequence" (
+    "type" "BillingDocumentType" NOT NULL,
+    "lastNumber" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DocumentSequence_pkey" PRIMARY KEY ("type")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BillingDocument_number_key" ON "BillingDocument"("number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BillingDocument_paymentId_key" ON "BillingDocument"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "BillingDocument_bookingOrderId_type_idx" ON "BillingDocument"("bookingOrderId", "type");
+
+-- AddForeignKey
+ALTER TABLE "BillingDocument" ADD CONSTRAINT "BillingDocument_bookingOrderId_fkey" FOREIGN KEY ("bookingOrderId") REFERENCES "BookingOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BillingDocument" ADD CONSTRAINT "BillingDocument_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the counters so numbering never races on a missing row
+INSERT INTO "DocumentSequence" ("type", "lastNumber") VALUES ('INVOICE', 0), ('RECEIPT', 0);
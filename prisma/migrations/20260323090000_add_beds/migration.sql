@@ -0,0 +1,81 @@
+-- CreateEnum
+CREATE TYPE "BedStatus" AS ENUM ('AVAILABLE', 'OUT_OF_SERVICE');
+
+-- CreateTable
+CREATE TABLE "Bed" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "position" TEXT,
+    "attributes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "status" "BedStatus" NOT NULL DEFAULT 'AVAILABLE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Bed_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_BedToBooking" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_BedToBooking_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Bed_roomId_label_key" ON "Bed"("roomId", "label");
+
+-- CreateIndex
+CREATE INDEX "_BedToBooking_B_index" ON "_BedToBooking"("B");
+
+-- AddForeignKey
+ALTER TABLE "Bed" ADD CONSTRAINT "Bed_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BedToBooking" ADD CONSTRAINT "_BedToBooking_A_fkey" FOREIGN KEY ("A") REFERENCES "Bed"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BedToBooking" ADD CONSTRAINT "_BedToBooking_B_fkey" FOREIGN KEY ("B") REFERENCES "Booking"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: one bed per Room.beds, labelled "Bed 1".."Bed n"
+INSERT INTO "Bed" ("id", "roomId", "label", "updatedAt")
+SELECT gen_random_uuid()::text, r."id", 'Bed ' || n, CURRENT_TIMESTAMP
+FROM "Room" r
+CROSS JOIN LATERAL generate_series(1, r."beds") AS n;
+
+-- Backfill: give live bookings beds in order of check-in, skipping beds
+-- already given to an overlapping booking of the same room
+DO $$
+DECLARE
+  b RECORD;
+  seat INTEGER;
+  free_bed TEXT;
+BEGIN
+  FOR b IN
+    SELECT "id", "roomId", "checkIn", "checkOut", "seatsSelected"
+    FROM "Booking"
+    WHERE "status" IN ('PENDING', 'RESERVED', 'CONFIRMED', 'COMPLETED')
+      AND ("checkOut" IS NULL OR "checkOut" > CURRENT_TIMESTAMP)
+    ORDER BY "checkIn", "createdAt"
+  LOOP
+    FOR seat IN 1..b."seatsSelected" LOOP
+      SELECT bed."id" INTO free_bed
+      FROM "Bed" bed
+      WHERE bed."roomId" = b."roomId"
+        AND NOT EXISTS (
+          SELECT 1
+          FROM "_BedToBooking" bb
+          JOIN "Booking" other ON other."id" = bb."B"
+          WHERE bb."A" = bed."id"
+            AND other."checkIn" < COALESCE(b."checkOut", 'infinity'::timestamp)
+            AND COALESCE(other."checkOut", 'infinity'::timestamp) > b."checkIn"
+        )
+      ORDER BY length(bed."label"), bed."label"
+      LIMIT 1;
+
+      EXIT WHEN free_bed IS NULL;
+      INSERT INTO "_BedToBooking" ("A", "B") VALUES (free_bed, b."id");
+    END LOOP;
+  END LOOP;
+END $$;
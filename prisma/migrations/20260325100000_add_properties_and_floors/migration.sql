@@ -0,0 +1,107 @@
+-- CreateTable
+CREATE TABLE "Property" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "addressLine" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "phone" TEXT,
+    "email" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Property_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Floor" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "level" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Floor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_PropertyStaff" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_PropertyStaff_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN "propertyId" TEXT,
+ADD COLUMN "floorId" TEXT;
+
+-- AlterTable
+ALTER TABLE "SeatPricing" ADD COLUMN "propertyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "TaxConfig" ADD COLUMN "propertyId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Coupon" ADD COLUMN "propertyId" TEXT;
+
+-- Backfill: existing rooms belong to the original hostel, one floor per distinct Room.floor
+INSERT INTO "Property" ("id", "name", "code", "addressLine", "city", "updatedAt")
+SELECT gen_random_uuid()::text, 'Main Hostel', 'MAIN', 'Not set', 'Not set', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "Room");
+
+INSERT INTO "Floor" ("id", "propertyId", "name", "updatedAt")
+SELECT gen_random_uuid()::text, p."id", f."floor", CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "floor" FROM "Room") f
+CROSS JOIN "Property" p
+WHERE p."code" = 'MAIN';
+
+UPDATE "Room" r
+SET "floorId" = f."id", "propertyId" = f."propertyId"
+FROM "Floor" f
+WHERE f."name" = r."floor";
+
+ALTER TABLE "Room" ALTER COLUMN "propertyId" SET NOT NULL,
+ALTER COLUMN "floorId" SET NOT NULL,
+DROP COLUMN "floor";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Property_code_key" ON "Property"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Floor_propertyId_name_key" ON "Floor"("propertyId", "name");
+
+-- CreateIndex
+CREATE INDEX "Room_propertyId_idx" ON "Room"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "Room_floorId_idx" ON "Room"("floorId");
+
+-- CreateIndex
+CREATE INDEX "_PropertyStaff_B_index" ON "_PropertyStaff"("B");
+
+-- AddForeignKey
+ALTER TABLE "Room" ADD CONSTRAINT "Room_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Room" ADD CONSTRAINT "Room_floorId_fkey" FOREIGN KEY ("floorId") REFERENCES "Floor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Floor" ADD CONSTRAINT "Floor_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SeatPricing" ADD CONSTRAINT "SeatPricing_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TaxConfig" ADD CONSTRAINT "TaxConfig_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Coupon" ADD CONSTRAINT "Coupon_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_PropertyStaff" ADD CONSTRAINT "_PropertyStaff_A_fkey" FOREIGN KEY ("A") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_PropertyStaff" ADD CONSTRAINT "_PropertyStaff_B_fkey" FOREIGN KEY ("B") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
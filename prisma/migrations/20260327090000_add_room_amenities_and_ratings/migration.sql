@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "Amenity" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "icon" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Amenity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_AmenityToRoom" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_AmenityToRoom_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "averageRating" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN "reviewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Seed the standard amenities
+INSERT INTO "Amenity" ("id", "code", "name", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'AC', 'Air conditioning', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'ATTACHED_WASHROOM', 'Attached washroom', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'WIFI', 'Wi-Fi', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'MEALS', 'Meals', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'LAUNDRY', 'Laundry', CURRENT_TIMESTAMP);
+
+-- Backfill ratings from approved reviews
+UPDATE "Room" r
+SET "averageRating" = s."avg", "reviewCount" = s."count"
+FROM (
+    SELECT "roomId", ROUND(AVG("rating")::numeric, 2)::double precision AS "avg", COUNT(*)::int AS "count"
+    FROM "Review"
+    WHERE "status" = 'APPROVED'
+    GROUP BY "roomId"
+) s
+WHERE s."roomId" = r."id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Amenity_code_key" ON "Amenity"("code");
+
+-- CreateIndex
+CREATE INDEX "Room_tags_idx" ON "Room" USING GIN ("tags");
+
+-- CreateIndex
+CREATE INDEX "_AmenityToRoom_B_index" ON "_AmenityToRoom"("B");
+
+-- AddForeignKey
+ALTER TABLE "_AmenityToRoom" ADD CONSTRAINT "_AmenityToRoom_A_fkey" FOREIGN KEY ("A") REFERENCES "Amenity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_AmenityToRoom" ADD CONSTRAINT "_AmenityToRoom_B_fkey" FOREIGN KEY ("B") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- AlterEnum
+ALTER TYPE "RoomStatus" ADD VALUE 'MAINTENANCE';
+
+-- CreateTable
+CREATE TABLE "MaintenanceBlock" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "wholeRoom" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MaintenanceBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_BedToMaintenanceBlock" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_BedToMaintenanceBlock_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "MaintenanceBlock_roomId_startDate_idx" ON "MaintenanceBlock"("roomId", "startDate");
+
+-- CreateIndex
+CREATE INDEX "_BedToMaintenanceBlock_B_index" ON "_BedToMaintenanceBlock"("B");
+
+-- AddForeignKey
+ALTER TABLE "MaintenanceBlock" ADD CONSTRAINT "MaintenanceBlock_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenanceBlock" ADD CONSTRAINT "MaintenanceBlock_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BedToMaintenanceBlock" ADD CONSTRAINT "_BedToMaintenanceBlock_A_fkey" FOREIGN KEY ("A") REFERENCES "Bed"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BedToMaintenanceBlock" ADD CONSTRAINT "_BedToMaintenanceBlock_B_fkey" FOREIGN KEY ("B") REFERENCES "MaintenanceBlock"("id") ON DELETE CASCADE ON UPDATE CASCADE;
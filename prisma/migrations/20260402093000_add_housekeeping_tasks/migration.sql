@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "HousekeepingTaskType" AS ENUM ('TURNOVER', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "HousekeepingTaskStatus" AS ENUM ('OPEN', 'IN_PROGRESS', 'DONE', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Bed" ADD COLUMN "isReady" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "HousekeepingTask" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "bookingId" TEXT,
+    "type" "HousekeepingTaskType" NOT NULL,
+    "status" "HousekeepingTaskStatus" NOT NULL DEFAULT 'OPEN',
+    "notes" TEXT,
+    "checklist" JSONB NOT NULL DEFAULT '[]',
+    "assignedToId" TEXT,
+    "createdById" TEXT,
+    "dueAt" TIMESTAMP(3),
+    "assignedAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HousekeepingTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_BedToHousekeepingTask" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_BedToHousekeepingTask_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "HousekeepingTask_roomId_status_idx" ON "HousekeepingTask"("roomId", "status");
+
+-- CreateIndex
+CREATE INDEX "HousekeepingTask_assignedToId_status_idx" ON "HousekeepingTask"("assignedToId", "status");
+
+-- CreateIndex
+CREATE INDEX "HousekeepingTask_bookingId_idx" ON "HousekeepingTask"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "_BedToHousekeepingTask_B_index" ON "_BedToHousekeepingTask"("B");
+
+-- AddForeignKey
+ALTER TABLE "HousekeepingTask" ADD CONSTRAINT "HousekeepingTask_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HousekeepingTask" ADD CONSTRAINT "HousekeepingTask_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HousekeepingTask" ADD CONSTRAINT "HousekeepingTask_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "HousekeepingTask" ADD CONSTRAINT "HousekeepingTask_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BedToHousekeepingTask" ADD CONSTRAINT "_BedToHousekeepingTask_A_fkey" FOREIGN KEY ("A") REFERENCES "Bed"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_BedToHousekeepingTask" ADD CONSTRAINT "_BedToHousekeepingTask_B_fkey" FOREIGN KEY ("B") REFERENCES "HousekeepingTask"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "IdDocumentType" AS ENUM ('CNIC', 'PASSPORT');
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "checkedInAt" TIMESTAMP(3),
+ADD COLUMN "checkedInById" TEXT,
+ADD COLUMN "checkedOutAt" TIMESTAMP(3),
+ADD COLUMN "checkedOutById" TEXT,
+ADD COLUMN "idDocumentType" "IdDocumentType",
+ADD COLUMN "idDocumentNumber" TEXT,
+ADD COLUMN "idDocumentScanKey" TEXT,
+ADD COLUMN "noShowAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Booking_status_checkIn_idx" ON "Booking"("status", "checkIn");
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_checkedInById_fkey" FOREIGN KEY ("checkedInById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_checkedOutById_fkey" FOREIGN KEY ("checkedOutById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
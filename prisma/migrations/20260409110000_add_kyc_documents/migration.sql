@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "KycDocumentType" AS ENUM ('CNIC_FRONT', 'CNIC_BACK', 'STUDENT_ID', 'GUARDIAN_CNIC');
+
+-- CreateEnum
+CREATE TYPE "KycDocumentStatus" AS ENUM ('PENDING', 'VERIFIED', 'REJECTED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "KycDocument" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" "KycDocumentType" NOT NULL,
+    "status" "KycDocumentStatus" NOT NULL DEFAULT 'PENDING',
+    "storageKey" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "documentNumber" TEXT,
+    "expiresAt" TIMESTAMP(3),
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "rejectionReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KycDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KycDocument_storageKey_key" ON "KycDocument"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "KycDocument_userId_type_idx" ON "KycDocument"("userId", "type");
+
+-- CreateIndex
+CREATE INDEX "KycDocument_status_expiresAt_idx" ON "KycDocument"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "KycDocument" ADD CONSTRAINT "KycDocument_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KycDocument" ADD CONSTRAINT "KycDocument_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "MediaAssetStatus" AS ENUM ('PENDING', 'READY');
+
+-- CreateTable
+CREATE TABLE "MediaAsset" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT,
+    "status" "MediaAssetStatus" NOT NULL DEFAULT 'READY',
+    "originalName" TEXT,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MediaAsset_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+-- Existing media keeps its S3 URL; src/scripts/backfillMediaAssets.ts links
+-- it to a MediaAsset once it has checked the file is in storage
+ALTER TABLE "RoomImage" ADD COLUMN "assetId" TEXT,
+ALTER COLUMN "url" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "RoomVideo" ADD COLUMN "assetId" TEXT,
+ALTER COLUMN "url" DROP NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MediaAsset_key_key" ON "MediaAsset"("key");
+
+-- CreateIndex
+CREATE INDEX "MediaAsset_status_createdAt_idx" ON "MediaAsset"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomImage_assetId_key" ON "RoomImage"("assetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomVideo_assetId_key" ON "RoomVideo"("assetId");
+
+-- AddForeignKey
+ALTER TABLE "MediaAsset" ADD CONSTRAINT "MediaAsset_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomImage" ADD CONSTRAINT "RoomImage_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "MediaAsset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomVideo" ADD CONSTRAINT "RoomVideo_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "MediaAsset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "MediaProcessingStatus" AS ENUM ('PENDING', 'PROCESSING', 'READY', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "ImageVariantSize" AS ENUM ('THUMBNAIL', 'CARD', 'FULL');
+
+-- AlterTable: existing images start PENDING and are picked up by the
+-- image processing worker's sweep
+ALTER TABLE "RoomImage" ADD COLUMN "processingStatus" "MediaProcessingStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "processingError" TEXT,
+ADD COLUMN "processedAt" TIMESTAMP(3),
+ADD COLUMN "width" INTEGER,
+ADD COLUMN "height" INTEGER,
+ADD COLUMN "blurhash" TEXT,
+ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT '1970-01-01 00:00:00';
+
+ALTER TABLE "RoomImage" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateTable
+CREATE TABLE "RoomImageVariant" (
+    "id" TEXT NOT NULL,
+    "roomImageId" TEXT NOT NULL,
+    "size" "ImageVariantSize" NOT NULL,
+    "format" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "assetId" TEXT NOT NULL,
+
+    CONSTRAINT "RoomImageVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RoomImage_roomId_processingStatus_idx" ON "RoomImage"("roomId", "processingStatus");
+
+-- CreateIndex
+CREATE INDEX "RoomImage_processingStatus_updatedAt_idx" ON "RoomImage"("processingStatus", "updatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomImageVariant_assetId_key" ON "RoomImageVariant"("assetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RoomImageVariant_roomImageId_size_format_key" ON "RoomImageVariant"("roomImageId", "size", "format");
+
+-- AddForeignKey
+ALTER TABLE "RoomImageVariant" ADD CONSTRAINT "RoomImageVariant_roomImageId_fkey" FOREIGN KEY ("roomImageId") REFERENCES "RoomImage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomImageVariant" ADD CONSTRAINT "RoomImageVariant_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "MediaAsset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
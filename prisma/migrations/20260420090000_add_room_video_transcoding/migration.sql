@@ -0,0 +1,26 @@
+-- AlterTable: existing videos start PENDING and are picked up by the media
+-- processing worker's sweep; the original plays meanwhile
+ALTER TABLE "RoomVideo" ADD COLUMN "processingStatus" "MediaProcessingStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "processingError" TEXT,
+ADD COLUMN "processedAt" TIMESTAMP(3),
+ADD COLUMN "durationSeconds" DOUBLE PRECISION,
+ADD COLUMN "width" INTEGER,
+ADD COLUMN "height" INTEGER,
+ADD COLUMN "manifestKey" TEXT,
+ADD COLUMN "posterKey" TEXT,
+ADD COLUMN "renditions" JSONB,
+ADD COLUMN "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT '1970-01-01 00:00:00';
+
+ALTER TABLE "RoomVideo" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "MediaAsset" ADD COLUMN "outputOfVideoId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "RoomVideo_processingStatus_updatedAt_idx" ON "RoomVideo"("processingStatus", "updatedAt");
+
+-- CreateIndex
+CREATE INDEX "MediaAsset_outputOfVideoId_idx" ON "MediaAsset"("outputOfVideoId");
+
+-- AddForeignKey
+ALTER TABLE "MediaAsset" ADD CONSTRAINT "MediaAsset_outputOfVideoId_fkey" FOREIGN KEY ("outputOfVideoId") REFERENCES "RoomVideo"("id") ON DELETE SET NULL ON UPDATE CASCADE;
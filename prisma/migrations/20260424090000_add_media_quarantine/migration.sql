@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "MediaOrphanReason" AS ENUM ('UNTRACKED_FILE', 'UNATTACHED_ASSET');
+
+-- CreateTable
+CREATE TABLE "MediaQuarantine" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "reason" "MediaOrphanReason" NOT NULL,
+    "size" INTEGER,
+    "quarantinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deleteAfter" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MediaQuarantine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MediaQuarantine_key_key" ON "MediaQuarantine"("key");
+
+-- CreateIndex
+CREATE INDEX "MediaQuarantine_deleteAfter_idx" ON "MediaQuarantine"("deleteAfter");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "phoneVerifiedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "User_phone_idx" ON "User"("phone");
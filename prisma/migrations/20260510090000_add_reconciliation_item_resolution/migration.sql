@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ReconciliationItem" ADD COLUMN "resolvedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "ReconciliationItem_paymentId_issue_idx" ON "ReconciliationItem"("paymentId", "issue");
@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "BillingDocument" DROP CONSTRAINT "BillingDocument_bookingOrderId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "BillingDocument" ADD CONSTRAINT "BillingDocument_bookingOrderId_fkey" FOREIGN KEY ("bookingOrderId") REFERENCES "BookingOrder"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
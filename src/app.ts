@@ -19,7 +19,20 @@ import stripeWebhookRouter from "./modules/payments/routes/stripe-webhook.routes
 import aiAssistantRoutes from "./modules/ai/aiAssistant.routes"
 import cartItemsRoutes from "./modules/cart/routes.cart"
 import contactRoutes from "./modules/contact/contact.routes"
+import couponRoutes from "./modules/coupons/coupon.routes"
+import cancellationPolicyRoutes from "./modules/bookings/cancellationPolicy/cancellationPolicy.routes"
+import refundRoutes from "./modules/refunds/refund.routes"
+import reconciliationRoutes from "./modules/reconciliation/reconciliation.routes"
+import residentRoutes from "./modules/residents/resident.routes"
+import propertyRoutes from "./modules/properties/property.routes"
+import amenityRoutes from "./modules/amenities/amenity.routes"
+import maintenanceRoutes from "./modules/maintenance/maintenance.routes"
+import housekeepingRoutes from "./modules/housekeeping/housekeeping.routes"
+import kycRoutes from "./modules/kyc/kyc.routes"
+import storageRoutes from "./modules/storage/storage.routes"
+import mediaRoutes from "./modules/media/media.routes"
 import { errorHandler } from "./middlewares/error.middleware";
+import { LOCAL_MEDIA_ROUTE, getLocalMediaRoot, hasLocalStore } from "./utils/storage/storage.factory";
 
 const app = express();
 
@@ -78,18 +91,48 @@ app.use(morganLogger);
 app.use("/api", apiRateLimiter);
 
 app.get("/health", (req, res) => res.json({ status: "ok" }));
+
+// Room media on local disk (development); S3 serves it otherwise
+const localMediaRoot = getLocalMediaRoot();
+if (localMediaRoot) {
+  app.use(
+    LOCAL_MEDIA_ROUTE,
+    express.static(localMediaRoot, {
+      index: false,
+      dotfiles: "deny",
+      setHeaders: (res) => res.setHeader("X-Content-Type-Options", "nosniff"),
+    })
+  );
+}
+
 app.use("/api/users", authRateLimiter, authRoutes)
+app.use("/api/properties", propertyRoutes);
+app.use("/api/amenities", amenityRoutes);
+app.use("/api/maintenance", maintenanceRoutes);
+app.use("/api/housekeeping", housekeepingRoutes);
 app.use("/api/rooms",roomRoutes)
 app.use("/api/cart",cartItemsRoutes)
 app.use("/api/rooms/uploads",roomImageRoutes)
 app.use("/api/seat-pricing", seatPricingRoutes);
 app.use("/api/tax-config", taxConfigRoutes);
+app.use("/api/coupons", couponRoutes);
+app.use("/api/cancellation-policies", cancellationPolicyRoutes);
+app.use("/api/refunds", refundRoutes);
+app.use("/api/reconciliation", reconciliationRoutes);
+app.use("/api/residents", residentRoutes);
+app.use("/api/kyc", kycRoutes);
+// Signed uploads / downloads, only when a store keeps its files on local disk
+if (hasLocalStore()) {
+  app.use("/api/storage", storageRoutes);
+}
+app.use("/api/media", mediaRoutes);
 app.use("/api/bookings", bookingRoutes);
 app.use("/api/reviews", reviewsRoutes);
 app.use("/api/notifications", notificationRoutes);
 app.use("/api/dashboard", dasdboardRoutes);
 // app.use("/api/webhooks", );
 app.use("/api/payments", stripePaymentRouter);
+app.use("/api/payments", paymentRoutes);
 app.use("/api/ai-assistant", aiAssistantRoutes);
 app.use("/api/contact", contactRoutes);
 
@@ -1,7 +0,0 @@
-import AWS from "aws-sdk";
-
-export const s3 = new AWS.S3({
-  accessKeyId: process.env.AWS_ACCESS_KEY!,
-  secretAccessKey: process.env.AWS_SECRET_KEY!,
-  region: process.env.AWS_REGION!,
-});
@@ -1,7 +1,13 @@
 import multer from "multer";
+import os from "os";
+import { ApiError } from "../utils/ApiError";
+import { verifyLocalUpload } from "../utils/storage/storage.local";
 
 const storage = multer.memoryStorage();
 
+// Large files go to a temp file instead of being held in memory
+const diskStorage = multer.diskStorage({ destination: os.tmpdir() });
+
 
 // 🖼️ Images
 export const uploadImages = multer({
@@ -17,7 +23,7 @@ export const uploadImages = multer({
 
 // 🎥 Videos
 export const uploadVideos = multer({
-  storage,
+  storage: diskStorage,
   limits: { fileSize: 200 * 1024 * 1024 }, // 200MB
   fileFilter: (_, file, cb) => {
     console.log(file.mimetype); 
@@ -31,9 +37,30 @@ export const uploadDocs = multer({
   storage,
   limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
   fileFilter: (_, file, cb) => {
-    const docs = ["application/pdf"];
+    // Scanned ID cards come in as photos as often as PDFs
+    const docs = ["application/pdf", "image/jpeg", "image/png"];
     docs.includes(file.mimetype)
       ? cb(null, true)
-      : cb(new Error("Only PDFs allowed"));
+      : cb(new Error("Only PDF, JPEG or PNG documents allowed"));
+  },
+  });
+
+// ⬆️ Presigned form uploads to the local storage driver
+// The signed fields come before the file in the form, so an unsigned or
+// expired upload, or a file of another type than was signed, is refused
+// before anything is written to disk
+export const uploadDirect = multer({
+  storage: diskStorage,
+  limits: { fileSize: 250 * 1024 * 1024 }, // 250MB; each form also signs its own limit
+  fileFilter: (req, file, cb) => {
+    try {
+      const { contentType } = verifyLocalUpload(req.body);
+      if (file.mimetype.toLowerCase() !== contentType.toLowerCase()) {
+        throw new ApiError(400, `File must be of type ${contentType}`);
+      }
+      cb(null, true);
+    } catch (error) {
+      cb(error as Error);
+    }
   },
-  });
\ No newline at end of file
+});
\ No newline at end of file
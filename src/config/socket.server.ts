@@ -3,6 +3,7 @@ import http from "http";
 import jwt from "jsonwebtoken";
 import cookie from "cookie";
 import { CustomJwtPayload } from "../types/jwt";
+import { isSessionActive } from "../modules/users/session.service";
 
 interface AuthenticatedSocket extends Socket {
   user?: CustomJwtPayload;
@@ -23,7 +24,7 @@ export const initSocketServer = (httpServer: http.Server) => {
   /* =========================
      🔐 SOCKET AUTH MIDDLEWARE
      ========================= */
-  io.use((socket: AuthenticatedSocket, next) => {
+  io.use(async (socket: AuthenticatedSocket, next) => {
     try {
       const cookies = socket.handshake.headers?.cookie;
       if (!cookies) {
@@ -43,6 +44,11 @@ export const initSocketServer = (httpServer: http.Server) => {
         process.env.JWT_SECRET!
       ) as CustomJwtPayload;
 
+      // Signed-out or revoked sessions keep valid-looking tokens until expiry
+      if (!(await isSessionActive(decoded, socket.handshake.address))) {
+        return next(new Error("Session has ended"));
+      }
+
       socket.user = decoded;
       socket.token = token;
 
@@ -68,6 +74,12 @@ export const initSocketServer = (httpServer: http.Server) => {
     socket.join(userId);
     console.log(`🏠 Joined personal room: ${userId}`);
 
+    /* =========================
+       🔑 SESSION ROOM
+       ========================= */
+    // Revoking the session disconnects everything in here
+    socket.join(`session:${socket.user!.sid}`);
+
     /* =========================
        👥 ALL USERS ROOM
        ========================= */
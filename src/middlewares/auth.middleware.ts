@@ -2,6 +2,7 @@ import { Request, Response,NextFunction } from "express";
 import prisma from "../config/prismaClient";
 import jwt from "jsonwebtoken";
 import { CustomJwtPayload } from "../types/jwt";
+import { isSessionActive } from "../modules/users/session.service";
 
 const authenticateUser = async (req:Request,res:Response,next:NextFunction):Promise<Response | void> =>{
     const token= req.cookies.accessToken ||req.cookies.refreshToken || req.header('Authorization')?.replace('Bearer ','');
@@ -13,6 +14,9 @@ const authenticateUser = async (req:Request,res:Response,next:NextFunction):Prom
       throw new Error("JWT_SECRET is missing");
     }
         const decoded=jwt.verify(token,process.env.JWT_SECRET) as CustomJwtPayload;
+        if(!(await isSessionActive(decoded,req.ip))){
+            return res.status(401).json({message:'Session has ended, please log in again'});
+        }
         const user=await prisma.user.findUnique({
             where:{id:decoded.userId}
         });
@@ -21,7 +25,7 @@ const authenticateUser = async (req:Request,res:Response,next:NextFunction):Prom
         if(!user){
             return res.status(401).json({message:'Invalid token: user not found'});
         }
-        req.user={userId:user.id,email:user.email,role:user.role};
+        req.user={userId:user.id,email:user.email,role:user.role,sessionId:decoded.sid};
         next();
     }
     catch(error){
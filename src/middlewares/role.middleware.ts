@@ -2,6 +2,7 @@ import { Request, Response,NextFunction } from "express";
 import prisma from "../config/prismaClient";
 import jwt from "jsonwebtoken";
 import { CustomJwtPayload } from "../types/jwt";
+import { isSessionActive } from "../modules/users/session.service";
 
 const authenticateUserWithRole = (roles: string[] = ["USER"])=> async (req:Request,res:Response,next:NextFunction):Promise<Response | void> =>{
     const authHeader = req.header("Authorization");
@@ -18,10 +19,13 @@ const token = req.cookies.accessToken || req.cookies.refreshToken ||
     }
         const decoded=jwt.verify(token,process.env.JWT_SECRET) as CustomJwtPayload;
         console.log(decoded)
+        if (!(await isSessionActive(decoded, req.ip))) {
+                return res.status(401).json({ message: 'Session has ended, please log in again' });
+            }
         if (!roles.includes(decoded.role)) {
                 return res.status(403).json({ message: 'Forbidden: You do not have the required permissions' });
             }
-            req.user={userId:decoded.userId,email:decoded.email,role:decoded.role};
+            req.user={userId:decoded.userId,email:decoded.email,role:decoded.role,sessionId:decoded.sid};
             console.log(req.user)
             next();
     }
@@ -8,10 +8,10 @@ const router = Router();
  * Dashboard Routes
  */
 
-// Get dashboard data - ADMIN only
+// Get dashboard data - ADMIN or COORDINATOR, scoped to their properties
 router.get(
   "/",
-  authenticateUserWithRole(["ADMIN"]),
+  authenticateUserWithRole(["ADMIN", "COORDINATOR"]),
   getDashboardData
 );
 
@@ -4,6 +4,7 @@ import { BookingStatus, RoomStatus } from "@prisma/client";
 import { asyncHandler } from "../../utils/asyncHandler";
 import { ApiError } from "../../utils/ApiError";
 import { logger } from "../../utils/logger";
+import { resolvePropertyScope } from "../properties/property.service";
 
 export const getDashboardData = asyncHandler(
   async (
@@ -11,6 +12,11 @@ export const getDashboardData = asyncHandler(
     res: Response,
     next: NextFunction
   ): Promise<void> => {
+    // Scoped staff only see their own properties; ?propertyId narrows further
+    const scope = await resolvePropertyScope(req);
+    const roomWhere = scope ? { propertyId: { in: scope } } : {};
+    const bookingWhere = scope ? { room: roomWhere } : {};
+
     // Set today's date for comparison
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -23,6 +29,7 @@ export const getDashboardData = asyncHandler(
     // 1️⃣ Today's Booked Rooms (CONFIRMED bookings created today)
     const todayBookedRooms = await prisma.booking.count({
       where: {
+        ...bookingWhere,
         status: BookingStatus.CONFIRMED,
         createdAt: { gte: today, lt: tomorrow },
       },
@@ -31,6 +38,7 @@ export const getDashboardData = asyncHandler(
     // 2️⃣ Pending Bookings Count
     const pendingBookingsCount = await prisma.booking.count({
       where: {
+        ...bookingWhere,
         status: BookingStatus.PENDING,
       },
     });
@@ -38,6 +46,7 @@ export const getDashboardData = asyncHandler(
     // 3️⃣ Available Rooms Count
     const availableRoomsCount = await prisma.room.count({
       where: {
+        ...roomWhere,
         status: RoomStatus.AVAILABLE,
       },
     });
@@ -48,6 +57,7 @@ export const getDashboardData = asyncHandler(
         baseAmount: true,
       },
       where: {
+        ...bookingWhere,
         status: BookingStatus.COMPLETED,
       },
     });
@@ -58,7 +68,7 @@ export const getDashboardData = asyncHandler(
 
     // 5️⃣ Pending Bookings (send full details to frontend)
     const pendingBookings = await prisma.booking.findMany({
-      where: { status: BookingStatus.PENDING },
+      where: { ...bookingWhere, status: BookingStatus.PENDING },
       include: {
         user: {
           select: { id: true, name: true, email: true, phone: true },
@@ -68,7 +78,8 @@ export const getDashboardData = asyncHandler(
             id: true,
             title: true,
             type: true,
-            floor: true,
+            floor: { select: { id: true, name: true } },
+            property: { select: { id: true, name: true } },
             beds: true,
           },
         },
@@ -82,7 +93,7 @@ export const getDashboardData = asyncHandler(
 
     // 6️⃣ Confirmed Bookings (send full details to frontend)
     const confirmedBookings = await prisma.booking.findMany({
-      where: { status: BookingStatus.CONFIRMED },
+      where: { ...bookingWhere, status: BookingStatus.CONFIRMED },
       include: {
         user: {
           select: { id: true, name: true, email: true, phone: true },
@@ -92,7 +103,8 @@ export const getDashboardData = asyncHandler(
             id: true,
             title: true,
             type: true,
-            floor: true,
+            floor: { select: { id: true, name: true } },
+            property: { select: { id: true, name: true } },
             beds: true,
           },
         },
@@ -108,12 +120,13 @@ export const getDashboardData = asyncHandler(
 
     // 7️⃣ Total Occupied Rooms (BOOKED status)
     const occupiedRoomsCount = await prisma.room.count({
-      where: { status: RoomStatus.BOOKED },
+      where: { ...roomWhere, status: RoomStatus.BOOKED },
     });
 
     // 8️⃣ Seat data by room type (total seats and occupied seats)
     const roomsByType = await prisma.room.groupBy({
       by: ["type"],
+      where: roomWhere,
       _sum: {
         beds: true,
         bookedSeats: true,
@@ -135,7 +148,8 @@ export const getDashboardData = asyncHandler(
 
     // 9️⃣ Floor-wise room availability
     const floorStatus = await prisma.room.groupBy({
-      by: ["floor"],
+      by: ["floorId"],
+      where: roomWhere,
       _count: {
         id: true,
       },
@@ -145,8 +159,16 @@ export const getDashboardData = asyncHandler(
       },
     });
 
+    const floors = await prisma.floor.findMany({
+      where: { id: { in: floorStatus.map((floor) => floor.floorId) } },
+      select: { id: true, name: true, level: true, property: { select: { id: true, name: true } } },
+    });
+    const floorById = new Map(floors.map((floor) => [floor.id, floor]));
+
     const floorStatusData = floorStatus.map((floor) => ({
-      floorName: floor.floor,
+      floorId: floor.floorId,
+      floorName: floorById.get(floor.floorId)?.name,
+      property: floorById.get(floor.floorId)?.property,
       totalRooms: floor._count.id,
       totalSeats: floor._sum.beds || 0,
       occupiedSeats: floor._sum.bookedSeats || 0,
@@ -157,6 +179,7 @@ export const getDashboardData = asyncHandler(
 
     // 🔟 Get recent reviews with user and room details
     const reviews = await prisma.review.findMany({
+      where: bookingWhere,
       include: {
         user: {
           select: {
@@ -179,11 +202,11 @@ export const getDashboardData = asyncHandler(
 
     // Count reviews by status
     const approvedReviewsCount = await prisma.review.count({
-      where: { status: "APPROVED" },
+      where: { ...bookingWhere, status: "APPROVED" },
     });
 
     const pendingReviewsCount = await prisma.review.count({
-      where: { status: "PENDING" },
+      where: { ...bookingWhere, status: "PENDING" },
     });
 
     // ============== RESPONSE ==============
@@ -209,7 +232,7 @@ export const getDashboardData = asyncHandler(
           },
           confirmed: {
             count: await prisma.booking.count({
-              where: { status: BookingStatus.CONFIRMED },
+              where: { ...bookingWhere, status: BookingStatus.CONFIRMED },
             }),
             list: confirmedBookings,
           },
@@ -217,7 +240,7 @@ export const getDashboardData = asyncHandler(
 
         // Room Occupancy Details
         roomOccupancy: {
-          totalRooms: await prisma.room.count(),
+          totalRooms: await prisma.room.count({ where: roomWhere }),
           availableRooms: availableRoomsCount,
           occupiedRooms: occupiedRoomsCount,
           seatsByRoomType: seatDataByRoomType,
@@ -20,6 +20,8 @@ async function getAvailableRooms() {
       where: { status: "AVAILABLE" },
       include: {
         images: { take: 1 },
+        property: { select: { name: true, city: true } },
+        floor: { select: { name: true } },
         reviews: {
           where: { status: "APPROVED" },
           take: 3,
@@ -34,7 +36,8 @@ async function getAvailableRooms() {
       type: room.type,
       beds: room.beds,
       washrooms: room.washrooms,
-      floor: room.floor,
+      property: `${room.property.name}, ${room.property.city}`,
+      floor: room.floor.name,
       shortTermPrice: room.shortTermPrice,
       longTermPrice: room.longTermPrice,
       availableSeats: room.availableSeats,
@@ -57,10 +60,11 @@ async function getPricingInfo() {
   try {
     const pricing = await prisma.seatPricing.findMany({
       where: { isActive: true },
+      include: { property: { select: { name: true } } },
     });
 
     const taxConfig = await prisma.taxConfig.findFirst({
-      where: { isActive: true },
+      where: { isActive: true, propertyId: null },
     });
 
     return {
@@ -68,6 +72,7 @@ async function getPricingInfo() {
         roomType: p.roomType,
         stayType: p.stayType,
         price: p.price,
+        property: p.property?.name ?? "All properties",
       })),
       tax: taxConfig?.percent || 16,
     };
@@ -88,6 +93,8 @@ async function getRoomsByType(roomType: string) {
         status: "AVAILABLE",
       },
       include: {
+        property: { select: { name: true, city: true } },
+        floor: { select: { name: true } },
         reviews: {
           where: { status: "APPROVED" },
         },
@@ -98,7 +105,8 @@ async function getRoomsByType(roomType: string) {
       id: room.id,
       title: room.title,
       beds: room.beds,
-      floor: room.floor,
+      property: `${room.property.name}, ${room.property.city}`,
+      floor: room.floor.name,
       description: room.description,
       shortTermPrice: room.shortTermPrice,
       longTermPrice: room.longTermPrice,
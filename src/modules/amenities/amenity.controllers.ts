@@ -0,0 +1,100 @@
+import { NextFunction, Request, Response } from "express";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { bumpRoomsCacheVersion } from "../rooms/room.service";
+import { CreateAmenityDTO, UpdateAmenityDTO } from "./amenityDTOS/amenity.dtos";
+
+/**
+ * GET /amenities
+ */
+export const getAmenities = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const amenities = await prisma.amenity.findMany({
+      orderBy: { name: "asc" },
+      include: { _count: { select: { rooms: true } } },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Amenities fetched successfully",
+      data: amenities,
+    });
+  }
+);
+
+/**
+ * POST /amenities
+ */
+export const createAmenity = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const data = req.body as CreateAmenityDTO;
+
+    const existing = await prisma.amenity.findUnique({ where: { code: data.code } });
+    if (existing) {
+      throw new ApiError(409, "An amenity with this code already exists");
+    }
+
+    const amenity = await prisma.amenity.create({ data });
+
+    res.status(201).json({
+      success: true,
+      message: "Amenity created successfully",
+      data: amenity,
+    });
+  }
+);
+
+/**
+ * PATCH /amenities/:id
+ */
+export const updateAmenity = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const data = req.body as UpdateAmenityDTO;
+
+    const amenity = await prisma.amenity.findUnique({ where: { id } });
+    if (!amenity) {
+      throw new ApiError(404, "Amenity not found");
+    }
+
+    if (data.code && data.code !== amenity.code) {
+      const existing = await prisma.amenity.findUnique({ where: { code: data.code } });
+      if (existing) {
+        throw new ApiError(409, "An amenity with this code already exists");
+      }
+    }
+
+    const updated = await prisma.amenity.update({ where: { id }, data });
+    await bumpRoomsCacheVersion();
+
+    res.status(200).json({
+      success: true,
+      message: "Amenity updated successfully",
+      data: updated,
+    });
+  }
+);
+
+/**
+ * DELETE /amenities/:id
+ * Also removes the amenity from every room that has it
+ */
+export const deleteAmenity = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+
+    const amenity = await prisma.amenity.findUnique({ where: { id } });
+    if (!amenity) {
+      throw new ApiError(404, "Amenity not found");
+    }
+
+    await prisma.amenity.delete({ where: { id } });
+    await bumpRoomsCacheVersion();
+
+    res.status(200).json({
+      success: true,
+      message: "Amenity deleted successfully",
+    });
+  }
+);
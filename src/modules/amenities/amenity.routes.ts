@@ -0,0 +1,26 @@
+import { Router } from "express";
+import { getAmenities, createAmenity, updateAmenity, deleteAmenity } from "./amenity.controllers";
+import authenticateUser from "../../middlewares/auth.middleware";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { createAmenitySchema, updateAmenitySchema } from "./amenityDTOS/amenity.dtos";
+
+const router = Router();
+
+/**
+ * Amenity Routes
+ */
+
+// List amenities - authenticated users
+router.get("/", authenticateUser, getAmenities);
+
+// Create amenity - ADMIN only
+router.post("/", authenticateUserWithRole(["ADMIN"]), validate(createAmenitySchema), createAmenity);
+
+// Update amenity - ADMIN only
+router.patch("/:id", authenticateUserWithRole(["ADMIN"]), validate(updateAmenitySchema), updateAmenity);
+
+// Delete amenity - ADMIN only
+router.delete("/:id", authenticateUserWithRole(["ADMIN"]), deleteAmenity);
+
+export default router;
@@ -0,0 +1,19 @@
+import { z } from "zod";
+
+export const createAmenitySchema = z.object({
+  // Stable filter key, e.g. "ATTACHED_WASHROOM"
+  code: z
+    .string()
+    .trim()
+    .min(2, "Code must be at least 2 characters")
+    .max(40)
+    .regex(/^[A-Za-z0-9_]+$/, "Code may only contain letters, digits and underscores")
+    .transform((code) => code.toUpperCase()),
+  name: z.string().trim().min(1, "Amenity name is required").max(100),
+  icon: z.string().trim().max(100).optional(),
+});
+
+export const updateAmenitySchema = createAmenitySchema.partial();
+
+export type CreateAmenityDTO = z.infer<typeof createAmenitySchema>;
+export type UpdateAmenityDTO = z.infer<typeof updateAmenitySchema>;
@@ -0,0 +1,118 @@
+import PDFDocument from "pdfkit";
+import { BillingDocumentType } from "@prisma/client";
+import type { BillingDocumentWithOrder } from "./billing.service";
+
+const PAGE_MARGIN = 50;
+const COLUMNS = [
+  { label: "Room", x: 50, width: 150 },
+  { label: "Seats", x: 200, width: 40 },
+  { label: "Dates", x: 240, width: 120 },
+  { label: "Base", x: 360, width: 60 },
+  { label: "Tax", x: 420, width: 50 },
+  { label: "Discount", x: 470, width: 70 },
+] as const;
+
+const formatAmount = (amount: number) => `PKR ${amount.toLocaleString("en-PK")}`;
+const formatDate = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : "Open-ended");
+
+/**
+ * Renders an invoice or receipt to a PDF buffer.
+ */
+export const renderBillingDocumentPdf = (document: BillingDocumentWithOrder): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+    const chunks: Buffer[] = [];
+
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+
+    const order = document.bookingOrder;
+    const isReceipt = document.type === BillingDocumentType.RECEIPT;
+
+    // Header
+    pdf.font("Helvetica-Bold").fontSize(20).text(isReceipt ? "Payment Receipt" : "Invoice");
+    pdf.moveDown(0.5);
+    pdf.font("Helvetica").fontSize(10);
+    pdf.text(`${isReceipt ? "Receipt" : "Invoice"} No: ${document.number}`);
+    pdf.text(`Issued: ${formatDate(document.createdAt)}`);
+    pdf.text(`Order: ${order.orderNumber}`);
+    pdf.moveDown();
+
+    pdf.font("Helvetica-Bold").text("Billed to");
+    pdf.font("Helvetica").text(order.user.name).text(order.user.email).text(order.user.phone);
+    pdf.moveDown();
+
+    // Line items, one per booking
+    const headerY = pdf.y;
+    pdf.font("Helvetica-Bold");
+    for (const column of COLUMNS) {
+      pdf.text(column.label, column.x, headerY, { width: column.width });
+    }
+    pdf.moveTo(PAGE_MARGIN, pdf.y + 2).lineTo(545, pdf.y + 2).stroke();
+    pdf.moveDown(0.5);
+
+    pdf.font("Helvetica");
+    for (const booking of order.bookings) {
+      const rowY = pdf.y;
+      const cells = [
+        `${booking.room.title} (${booking.bookingType === "LONG_TERM" ? "long stay" : "short stay"})`,
+        String(booking.seatsSelected),
+        `${formatDate(booking.checkIn)} to ${formatDate(booking.checkOut)}`,
+        formatAmount(booking.baseAmount),
+        formatAmount(booking.taxAmount ?? 0),
+        formatAmount(booking.discount ?? 0),
+      ];
+
+      let rowBottom = rowY;
+      cells.forEach((cell, i) => {
+        pdf.text(cell, COLUMNS[i].x, rowY, { width: COLUMNS[i].width });
+        rowBottom = Math.max(rowBottom, pdf.y);
+      });
+      pdf.y = rowBottom + 4;
+    }
+    pdf.moveTo(PAGE_MARGIN, pdf.y).lineTo(545, pdf.y).stroke();
+    pdf.moveDown();
+
+    // Totals
+    const sum = (pick: (booking: (typeof order.bookings)[number]) => number) =>
+      order.bookings.reduce((total, booking) => total + pick(booking), 0);
+
+    const totals: [string, number][] = [
+      ["Subtotal", sum((booking) => booking.baseAmount)],
+      [`Tax (${document.taxPercent}%)`, sum((booking) => booking.taxAmount ?? 0)],
+      ["Discount", -sum((booking) => booking.discount ?? 0)],
+      ["Order total", order.totalAmount],
+    ];
+    if (order.depositAmount > 0) {
+      totals.push(["Security deposit", order.depositAmount]);
+    }
+
+    if (isReceipt && document.payment) {
+      totals.push(["Amount paid", document.payment.amountPaid ?? 0]);
+      if (document.payment.refundedAmount > 0) {
+        totals.push(["Refunded", -document.payment.refundedAmount]);
+      }
+    } else {
+      totals.push(["Paid to date", order.paidAmount]);
+      totals.push(["Balance due", Math.max(order.totalAmount + order.depositAmount - order.paidAmount, 0)]);
+    }
+
+    for (const [label, amount] of totals) {
+      const rowY = pdf.y;
+      pdf.font(label === "Order total" ? "Helvetica-Bold" : "Helvetica");
+      pdf.text(label, 330, rowY, { width: 110 });
+      pdf.text(formatAmount(amount), 440, rowY, { width: 105, align: "right" });
+    }
+
+    if (isReceipt && document.payment) {
+      pdf.moveDown();
+      pdf.font("Helvetica").text(
+        `Paid by ${document.payment.paymentMethod} on ${formatDate(document.payment.createdAt)}, reference ${document.payment.transactionId}`,
+        PAGE_MARGIN,
+        pdf.y
+      );
+    }
+
+    pdf.end();
+  });
@@ -0,0 +1,206 @@
+import { BillingDocumentType, PaymentStatus, Prisma } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+import sendEmail from "../../utils/sendEmailLink";
+import { getActiveTaxPercent } from "../pricing/pricing.service";
+import { renderBillingDocumentPdf } from "./billing.pdf";
+
+type Tx = Prisma.TransactionClient;
+
+const DOCUMENT_PREFIX: Record<BillingDocumentType, string> = {
+  INVOICE: "INV",
+  RECEIPT: "RCT",
+};
+
+// Payments that were taken, even if later (partly) refunded
+const RECEIPTABLE_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCESS,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+export const billingDocumentInclude = {
+  bookingOrder: {
+    include: {
+      user: { select: { id: true, name: true, email: true, phone: true } },
+      bookings: {
+        orderBy: { createdAt: "asc" },
+        include: { room: { select: { id: true, title: true, type: true } } },
+      },
+    },
+  },
+  payment: true,
+} satisfies Prisma.BillingDocumentInclude;
+
+export type BillingDocumentWithOrder = Prisma.BillingDocumentGetPayload<{
+  include: typeof billingDocumentInclude;
+}>;
+
+/**
+ * Next number for a document type. The counter row stays locked until the
+ * transaction ends, so numbers are handed out in order and never skipped.
+ */
+const nextDocumentNumber = async (tx: Tx, type: BillingDocumentType) => {
+  const sequence = await tx.documentSequence.update({
+    where: { type },
+    data: { lastNumber: { increment: 1 } },
+  });
+
+  return `${DOCUMENT_PREFIX[type]}-${String(sequence.lastNumber).padStart(6, "0")}`;
+};
+
+/**
+ * Tax rate the order was priced at: from its price quote when it had one,
+ * otherwise the rate in force now at its property.
+ */
+const getOrderTaxPercent = async (tx: Tx, bookingOrderId: string) => {
+  const [quote, booking] = await Promise.all([
+    tx.priceQuote.findUnique({
+      where: { bookingOrderId },
+      select: { taxPercent: true },
+    }),
+    tx.booking.findFirst({
+      where: { bookingOrderId },
+      select: { room: { select: { propertyId: true } } },
+    }),
+  ]);
+
+  return quote?.taxPercent ?? getActiveTaxPercent(tx, booking?.room.propertyId);
+};
+
+/**
+ * Returns the order's invoice, issuing it with the next invoice number the
+ * first time it is asked for.
+ */
+export const issueOrderInvoice = async (bookingOrderId: string): Promise<BillingDocumentWithOrder> => {
+  const documentId = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "BookingOrder" WHERE id = ${bookingOrderId} FOR UPDATE`;
+
+    const existing = await tx.billingDocument.findFirst({
+      where: { bookingOrderId, type: BillingDocumentType.INVOICE },
+      select: { id: true },
+    });
+    if (existing) return existing.id;
+
+    const order = await tx.bookingOrder.findUnique({ where: { id: bookingOrderId }, select: { id: true } });
+    if (!order) {
+      throw new ApiError(404, "Order not found");
+    }
+
+    const document = await tx.billingDocument.create({
+      data: {
+        type: BillingDocumentType.INVOICE,
+        number: await nextDocumentNumber(tx, BillingDocumentType.INVOICE),
+        bookingOrderId,
+        taxPercent: await getOrderTaxPercent(tx, bookingOrderId),
+      },
+    });
+
+    return document.id;
+  });
+
+  return prisma.billingDocument.findUniqueOrThrow({
+    where: { id: documentId },
+    include: billingDocumentInclude,
+  });
+};
+
+/**
+ * Returns the receipt of a successful payment, issuing it the first time.
+ */
+export const issuePaymentReceipt = async (paymentId: string): Promise<BillingDocumentWithOrder> => {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    select: { id: true, bookingOrderId: true, paymentStatus: true },
+  });
+
+  if (!payment) {
+    throw new ApiError(404, "Payment not found");
+  }
+
+  if (!RECEIPTABLE_PAYMENT_STATUSES.includes(payment.paymentStatus)) {
+    throw new ApiError(409, "Receipts are only available for successful payments");
+  }
+
+  const documentId = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "BookingOrder" WHERE id = ${payment.bookingOrderId} FOR UPDATE`;
+
+    const existing = await tx.billingDocument.findUnique({
+      where: { paymentId },
+      select: { id: true },
+    });
+    if (existing) return existing.id;
+
+    const document = await tx.billingDocument.create({
+      data: {
+        type: BillingDocumentType.RECEIPT,
+        number: await nextDocumentNumber(tx, BillingDocumentType.RECEIPT),
+        bookingOrderId: payment.bookingOrderId,
+        paymentId,
+        taxPercent: await getOrderTaxPercent(tx, payment.bookingOrderId),
+      },
+    });
+
+    return document.id;
+  });
+
+  return prisma.billingDocument.findUniqueOrThrow({
+    where: { id: documentId },
+    include: billingDocumentInclude,
+  });
+};
+
+/**
+ * RabbitMQ handler for PAYMENT.RECEIPT: emails the payment receipt and the
+ * order invoice as PDFs. Throwing hands the message back for a retry.
+ */
+export const handleReceiptEmailEvent = async (data: { paymentId?: string }) => {
+  if (!data?.paymentId) {
+    logger.warn("PAYMENT.RECEIPT event without paymentId", { data });
+    return;
+  }
+
+  let receipt: BillingDocumentWithOrder;
+  try {
+    receipt = await issuePaymentReceipt(data.paymentId);
+  } catch (error) {
+    // A missing or failed payment will not get a receipt on retry either
+    if (error instanceof ApiError) {
+      logger.warn("Skipping payment receipt email", { paymentId: data.paymentId, reason: error.message });
+      return;
+    }
+    throw error;
+  }
+
+  if (receipt.emailedAt) return;
+
+  const invoice = await issueOrderInvoice(receipt.bookingOrderId);
+  const { user, orderNumber } = receipt.bookingOrder;
+
+  const [receiptPdf, invoicePdf] = await Promise.all([
+    renderBillingDocumentPdf(receipt),
+    renderBillingDocumentPdf(invoice),
+  ]);
+
+  await sendEmail(
+    user.email,
+    `Payment receipt ${receipt.number} for order ${orderNumber}`,
+    `
+    <p>Hi ${user.name},</p>
+    <p>Thank you for your payment of PKR ${receipt.payment?.amountPaid ?? 0} for order <b>${orderNumber}</b>.</p>
+    <p>Your receipt and invoice are attached.</p>
+    `,
+    [
+      { filename: `${receipt.number}.pdf`, content: receiptPdf, contentType: "application/pdf" },
+      { filename: `${invoice.number}.pdf`, content: invoicePdf, contentType: "application/pdf" },
+    ]
+  );
+
+  await prisma.billingDocument.update({
+    where: { id: receipt.id },
+    data: { emailedAt: new Date() },
+  });
+
+  logger.info("Payment receipt emailed", { paymentId: data.paymentId, receiptNumber: receipt.number });
+};
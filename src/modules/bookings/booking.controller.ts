@@ -1,12 +1,39 @@
 import { NextFunction, Request, Response } from "express";
 import  prisma  from "../../config/prismaClient";
-import { BookingType, BookingStatus } from "@prisma/client";
+import { BookingType, BookingStatus, PaymentPlan } from "@prisma/client";
 import { asyncHandler } from "../../utils/asyncHandler";
 import { ApiError } from "../../utils/ApiError";
 import { syncRoomSeats } from "../../utils/SeatManager";
+import {
+  SEAT_HOLDING_STATUSES,
+  assertSeatsAvailable,
+  refreshRoomSeatCounters,
+} from "../rooms/room.service";
 import { logger } from "../../utils/logger";
 import { nanoid } from "nanoid";
 import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+import { checkInBooking as recordCheckIn, checkOutBooking as recordCheckOut, computeOrderExpiry } from "./booking.service";
+import { recordCouponRedemption } from "../coupons/coupon.service";
+import { cancelOrderWithRefund } from "../refunds/refund.service";
+import {
+  PlanStay,
+  buildInstallmentSchedule,
+  createPaymentPlan,
+} from "../payments/services/payment-plan.service";
+import { cancelOrderDTO, checkInBookingDTO } from "./bookingDTOS/booking.dtos";
+import {
+  PricingItemInput,
+  createPriceQuote,
+  markPriceQuoteUsed,
+  resolveOrderPricing,
+} from "../pricing/pricing.service";
+import { issueOrderInvoice, issuePaymentReceipt } from "../billing/billing.service";
+import { assertPhoneVerified } from "../users/phoneVerification.service";
+import { renderBillingDocumentPdf } from "../billing/billing.pdf";
+import { assertPropertyAccess, resolvePropertyScope } from "../properties/property.service";
+import { getPrivateStorage } from "../../utils/storage/storage.factory";
+import { guestVisibleImages, roomImageQuery, roomMediaQuery, toRoomImage, toRoomVideo } from "../media/media.service";
+import { createTurnoverTask, needsTurnover, publishHousekeepingTasks } from "../housekeeping/housekeeping.service";
 
 /**
  * Helper function to generate order number
@@ -17,6 +44,25 @@ const generateOrderNumber = async (tx: any) => {
   return `ORD-${year}-${String(count + 1).padStart(6, "0")}`;
 };
 
+/**
+ * Maps booking request lines to pricing items
+ */
+const toPricingItems = (bookings: any[]): PricingItemInput[] =>
+  bookings.map((b) => ({
+    roomId: b.roomId,
+    bookingType: b.bookingType,
+    seats: b.seatsSelected,
+    checkIn: b.checkIn ? new Date(b.checkIn) : null,
+    checkOut: b.checkOut ? new Date(b.checkOut) : null,
+  }));
+
+const toPlanStays = (bookings: any[]): PlanStay[] =>
+  bookings.map((b) => ({
+    bookingType: b.bookingType,
+    checkIn: b.checkIn ? new Date(b.checkIn) : null,
+    checkOut: b.checkOut ? new Date(b.checkOut) : null,
+  }));
+
 
 
 
@@ -41,8 +87,8 @@ export const getBookingOrderDetails = asyncHandler(
           include: {
             room: {
               include: {
-                images: true,
-                videos: true,
+                images: { where: guestVisibleImages, ...roomImageQuery },
+                videos: roomMediaQuery,
               },
             },
           },
@@ -62,8 +108,84 @@ export const getBookingOrderDetails = asyncHandler(
 
     res.status(200).json({
       success: true,
-      data: order,
+      data: {
+        ...order,
+        bookings: order.bookings.map((booking) => ({
+          ...booking,
+          room: {
+            ...booking.room,
+            images: booking.room.images.map(toRoomImage),
+            videos: booking.room.videos.map(toRoomVideo),
+          },
+        })),
+      },
+    });
+  }
+);
+
+/**
+ * Loads an order for its owner or an admin; used by the document downloads
+ */
+const findAccessibleOrder = async (req: Request, orderId: string) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    throw new ApiError(401, "Unauthorized - User ID not found");
+  }
+
+  const order = await prisma.bookingOrder.findUnique({
+    where: { id: orderId },
+    select: { id: true, userId: true },
+  });
+
+  if (!order) {
+    throw new ApiError(404, "Order not found");
+  }
+
+  if (order.userId !== userId && req.user?.role !== "ADMIN") {
+    throw new ApiError(403, "Forbidden - You do not have access to this order");
+  }
+
+  return order;
+};
+
+/**
+ * GET /bookings/order/:orderId/invoice
+ * Downloads the order invoice as a PDF
+ */
+export const getOrderInvoice = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const order = await findAccessibleOrder(req, req.params.orderId);
+
+    const invoice = await issueOrderInvoice(order.id);
+    const pdf = await renderBillingDocumentPdf(invoice);
+
+    res.status(200).type("application/pdf").attachment(`${invoice.number}.pdf`).send(pdf);
+  }
+);
+
+/**
+ * GET /bookings/order/:orderId/receipts/:paymentId
+ * Downloads the receipt of one payment of the order as a PDF
+ */
+export const getPaymentReceipt = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { paymentId } = req.params;
+    const order = await findAccessibleOrder(req, req.params.orderId);
+
+    const payment = await prisma.payment.findFirst({
+      where: { id: paymentId, bookingOrderId: order.id },
+      select: { id: true },
     });
+
+    if (!payment) {
+      throw new ApiError(404, "Payment not found");
+    }
+
+    const receipt = await issuePaymentReceipt(payment.id);
+    const pdf = await renderBillingDocumentPdf(receipt);
+
+    res.status(200).type("application/pdf").attachment(`${receipt.number}.pdf`).send(pdf);
   }
 );
 
@@ -153,6 +275,12 @@ export const getAllOrders = asyncHandler(
     // WHERE CLAUSE
     const where: any = {};
 
+    // Orders never span properties, so any booking's room decides it
+    const scope = await resolvePropertyScope(req);
+    if (scope) {
+      where.bookings = { some: { room: { propertyId: { in: scope } } } };
+    }
+
     if (status) {
       where.status = status;
     }
@@ -213,55 +341,44 @@ export const getAllOrders = asyncHandler(
 );
 export const previewBooking = asyncHandler(
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    const { price, couponCode } = req.body;
-
-    const baseAmount = price;
-    
-    // TAX CALCULATION (Dynamic)
-    const taxConfig = await prisma.taxConfig.findFirst({
-      where: { isActive: true },
-      select: { percent: true },
-    });
-
-    const taxPercent = taxConfig?.percent ?? 16;
-    const tax = Math.floor((baseAmount * taxPercent) / 100);
-
-    // Total before coupon
-    let totalAmount = baseAmount + tax;
-
-    // COUPON LOGIC (INLINE)
-    let couponDiscount = 0;
-    let couponApplied = false;
+    const userId = req.user?.userId;
+    const { bookings, couponCode, paymentPlan } = req.body;
 
-    if (couponCode) {
-      const couponsFromEnv =
-        process.env.COUPON_CODES?.split(",").map(c => c.trim()) || [];
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
 
-      const discountPercent =
-        Number(process.env.COUPON_DISCOUNT_PERCENT) || 5;
+    // Stored quote: the same user ordering with its quoteId locks this price for a short window
+    const quote = await createPriceQuote({
+      items: toPricingItems(bookings),
+      couponCode,
+      userId,
+    });
 
-      if (couponsFromEnv.includes(couponCode)) {
-        couponDiscount = Math.floor(
-          (totalAmount * discountPercent) / 100
-        );
+    // Show the schedule the order would get; due dates count from now
+    const installmentPlan =
+      paymentPlan === PaymentPlan.INSTALLMENTS
+        ? buildInstallmentSchedule({
+            totalAmount: quote.totalAmount,
+            stays: toPlanStays(bookings),
+            firstDueDate: computeOrderExpiry(bookings.map((b: any) => b.bookingType)),
+          })
+        : null;
 
-        totalAmount = totalAmount - couponDiscount;
-        couponApplied = true;
-      } else {
-        throw new ApiError(400, "This Coupon no more exist or is invalid");
-      }
-    }
-    
     res.status(200).json({
       success: true,
       message: "Booking preview calculated successfully",
       data: {
-        baseAmount,
-        tax,
-        taxPercent,
-        couponDiscount,
-        couponApplied,
-        totalAmount,
+        quoteId: quote.quoteId,
+        expiresAt: quote.expiresAt,
+        baseAmount: quote.baseAmount,
+        tax: quote.taxAmount,
+        taxPercent: quote.taxPercent,
+        couponDiscount: quote.discount,
+        couponApplied: quote.coupon !== null,
+        totalAmount: quote.totalAmount,
+        lines: quote.lines,
+        installmentPlan,
       }
     });
   }
@@ -275,55 +392,90 @@ export const createMultipleBookings = asyncHandler(
       throw new ApiError(401, "Unauthorized");
     }
 
-    const { bookings, totalAmount } = req.body;
+    const { bookings, quoteId, paymentPlan } = req.body;
     if (!Array.isArray(bookings) || bookings.length === 0) {
       throw new ApiError(400, "Bookings required");
     }
 
+    // 📱 Residents book with a verified phone
+    if (userRole === "USER") {
+      await assertPhoneVerified(userId);
+    }
+
+    // One coupon per order; older clients send it on each booking
+    const couponCode: string | undefined =
+      req.body.couponCode ?? bookings.find((b: any) => b.couponCode)?.couponCode;
+
     const result = await prisma.$transaction(async (tx) => {
 const orderNumber = `ORD-${nanoid(10)}`;
 
-      // 🟢 CREATE ORDER
+      // 💰 Totals are always computed server-side (or taken from a locked quote)
+      const totals = await resolveOrderPricing({
+        tx,
+        quoteId,
+        items: toPricingItems(bookings),
+        couponCode,
+        userId,
+      });
+
+      // 🟢 CREATE ORDER (held until expiresAt, then auto-cancelled if unpaid)
       const order = await tx.bookingOrder.create({
         data: {
           userId,
           orderNumber,
-          totalAmount,
+          totalAmount: totals.totalAmount,
           status: "PENDING",
+          expiresAt: computeOrderExpiry(bookings.map((b: any) => b.bookingType)),
         },
       });
 
-      const createdBookings = [];
+      if (totals.quoteId) {
+        await markPriceQuoteUsed(tx, totals.quoteId, order.id);
+      }
 
-      for (const booking of bookings) {
-        const room = await tx.room.findUnique({
-          where: { id: booking.roomId },
-          select: { beds: true, bookedSeats: true, status: true },
+      if (totals.coupon) {
+        await recordCouponRedemption(tx, {
+          couponId: totals.coupon.couponId,
+          userId,
+          bookingOrderId: order.id,
+          discount: totals.coupon.discount,
         });
+      }
 
-        if (!room) throw new Error("ROOM_NOT_FOUND");
-        if (room.status !== "AVAILABLE") throw new Error("ROOM_NOT_AVAILABLE");
+      const createdBookings = [];
 
-        const availableSeats = room.beds - room.bookedSeats;
-        if (availableSeats < booking.seatsSelected) {
-          throw new Error("INSUFFICIENT_SEATS");
-        }
+      for (const [index, booking] of bookings.entries()) {
+        const line = totals.lines[index];
+        const checkInDate = new Date(booking.checkIn);
+        const checkOutDate = booking.checkOut ? new Date(booking.checkOut) : null;
+
+        // Seats are checked against overlapping bookings on the calendar,
+        // including bookings created earlier in this same order.
+        const bedIds = await assertSeatsAvailable({
+          tx,
+          roomId: booking.roomId,
+          seats: booking.seatsSelected,
+          checkIn: checkInDate,
+          checkOut: checkOutDate,
+          bedIds: booking.bedIds,
+        });
 
         const newBooking = await tx.booking.create({
           data: {
             userId,
             roomId: booking.roomId,
             bookingOrderId: order.id,
+            beds: { connect: bedIds.map((id) => ({ id })) },
 
             bookingType: booking.bookingType,
-            checkIn: new Date(booking.checkIn),
-            checkOut: booking.checkOut ? new Date(booking.checkOut) : null,
+            checkIn: checkInDate,
+            checkOut: checkOutDate,
 
             seatsSelected: booking.seatsSelected,
-            baseAmount: booking.baseAmount,
-            taxAmount: booking.taxAmount,
-            discount: booking.discount,
-            couponCode: booking.couponCode,
+            baseAmount: line.baseAmount,
+            taxAmount: line.taxAmount,
+            discount: line.discount,
+            couponCode: line.discount > 0 ? totals.coupon?.code : null,
             source: booking.source,
             status: "PENDING",
           },
@@ -332,6 +484,8 @@ const orderNumber = `ORD-${nanoid(10)}`;
         createdBookings.push(newBooking);
       }
 
+      await createPaymentPlan(tx, { order, paymentPlan, stays: createdBookings });
+
       return { order, bookings: createdBookings };
     });
     await publishToQueue("ORDER.CREATED", {
@@ -367,60 +521,86 @@ export const createBooking = asyncHandler(
       throw new ApiError(401, "You are not authenticated");
     }
 
+    // 📱 Residents book with a verified phone
+    if (req.user?.role === "USER") {
+      await assertPhoneVerified(userId);
+    }
+
     const {
       roomId,
       bookingType,
       checkIn,
       checkOut,
-      baseAmount,
-      taxAmount,
-      discount,
+      couponCode,
+      quoteId,
       seatsSelected,
-      totalAmount,
       source,
+      paymentPlan,
+      bedIds,
     } = req.body;
 
     const booking = await prisma.$transaction(async (tx) => {
+      // 💰 Totals are always computed server-side (or taken from a locked quote)
+      const totals = await resolveOrderPricing({
+        tx,
+        quoteId,
+        items: toPricingItems([{ roomId, bookingType, seatsSelected, checkIn, checkOut }]),
+        couponCode,
+        userId,
+      });
+      const [line] = totals.lines;
+
       // Create booking order first
       const orderNumber = await generateOrderNumber(tx);
       const order = await tx.bookingOrder.create({
         data: {
           userId,
           orderNumber,
-          totalAmount,
+          totalAmount: totals.totalAmount,
           status: "PENDING",
+          expiresAt: computeOrderExpiry([bookingType]),
         },
       });
 
-      // Fetch room
-      const room = await tx.room.findUnique({
-        where: { id: roomId },
-        select: {
-          id: true,
-          beds: true,
-          bookedSeats: true,
-          status: true,
-        },
-      });
+      if (totals.quoteId) {
+        await markPriceQuoteUsed(tx, totals.quoteId, order.id);
+      }
 
-      if (!room) throw new Error("ROOM_NOT_FOUND");
-      if (room.status !== "AVAILABLE") throw new Error("ROOM_NOT_AVAILABLE");
+      if (totals.coupon) {
+        await recordCouponRedemption(tx, {
+          couponId: totals.coupon.couponId,
+          userId,
+          bookingOrderId: order.id,
+          discount: totals.coupon.discount,
+        });
+      }
 
-      const availableSeats = room.beds - room.bookedSeats;
-      if (availableSeats === 0) throw new Error("ROOM_FULL");
-      if (availableSeats < seatsSelected) throw new Error("INSUFFICIENT_SEATS");
+      const checkInDate = new Date(checkIn);
+      const checkOutDate = checkOut ? new Date(checkOut) : null;
+
+      // Check seats for the requested dates and pick the beds
+      const assignedBedIds = await assertSeatsAvailable({
+        tx,
+        roomId,
+        seats: seatsSelected,
+        checkIn: checkInDate,
+        checkOut: checkOutDate,
+        bedIds,
+      });
 
       // Create booking
       const newBooking = await tx.booking.create({
         data: {
           userId,
           roomId,
+          beds: { connect: assignedBedIds.map((id) => ({ id })) },
           bookingType,
-          checkIn: new Date(checkIn),
-          checkOut: checkOut ? new Date(checkOut) : null,
-          baseAmount,
-          taxAmount,
-          discount,
+          checkIn: checkInDate,
+          checkOut: checkOutDate,
+          baseAmount: line.baseAmount,
+          taxAmount: line.taxAmount,
+          discount: line.discount,
+          couponCode: totals.coupon?.code,
           seatsSelected,
           source,
           status: "PENDING",
@@ -428,6 +608,8 @@ export const createBooking = asyncHandler(
         },
       });
 
+      await createPaymentPlan(tx, { order, paymentPlan, stays: [newBooking] });
+
       return newBooking;
     });
 
@@ -447,6 +629,7 @@ export const updateBooking = asyncHandler(
     /* ---------- Fetch Booking ---------- */
     const booking = await prisma.booking.findUnique({
       where: { id },
+      include: { beds: { select: { id: true } } },
     });
 
     if (!booking) {
@@ -499,6 +682,11 @@ export const updateBooking = asyncHandler(
       }
     }
 
+    // 📱 Only guests with a verified phone get confirmed
+    if (parsedData.status === "CONFIRMED" && booking.status !== "CONFIRMED") {
+      await assertPhoneVerified(booking.userId);
+    }
+
     if (
       parsedData.bookingType === BookingType.SHORT_TERM &&
       !parsedData.checkOut
@@ -511,6 +699,7 @@ export const updateBooking = asyncHandler(
     }
 
     /* ---------- Transaction ---------- */
+    const turnoverTaskIds: string[] = [];
     const updatedBooking = await prisma.$transaction(async (tx) => {
       const newStatus = parsedData.status ?? booking.status;
       if (
@@ -525,17 +714,6 @@ export const updateBooking = asyncHandler(
         }
       }
 
-      // 🧠 Seat handling (centralized)
-      if (parsedData.status) {
-        await syncRoomSeats({
-          tx,
-          roomId: booking.roomId,
-          seats: booking.seatsSelected,
-          previousStatus: booking.status,
-          newStatus,
-        });
-      }
-
       const data: any = { ...parsedData };
 
       if (data.checkIn) data.checkIn = new Date(data.checkIn);
@@ -547,12 +725,64 @@ export const updateBooking = asyncHandler(
         data.cancelledAt = new Date();
       }
 
-      return tx.booking.update({
+      const checkIn: Date = data.checkIn ?? booking.checkIn;
+      const checkOut: Date | null = "checkOut" in data ? data.checkOut : booking.checkOut;
+      const seats: number = data.seatsSelected ?? booking.seatsSelected;
+
+      // 📅 Dates or seats moved on a live booking → re-check the calendar
+      const stayChanged =
+        data.checkIn !== undefined ||
+        "checkOut" in data ||
+        data.seatsSelected !== undefined;
+
+      if (
+        stayChanged &&
+        SEAT_HOLDING_STATUSES.includes(booking.status) &&
+        SEAT_HOLDING_STATUSES.includes(newStatus)
+      ) {
+        // Keeps the guest's beds when they are still free for the new dates
+        const bedIds = await assertSeatsAvailable({
+          tx,
+          roomId: booking.roomId,
+          seats,
+          checkIn,
+          checkOut,
+          preferBedIds: booking.beds.map((bed) => bed.id),
+          excludeBookingIds: [booking.id],
+        });
+        data.beds = { set: bedIds.map((bedId) => ({ id: bedId })) };
+      }
+
+      const updated = await tx.booking.update({
         where: { id },
         data,
       });
+
+      // 🧠 Seat handling (centralized)
+      if (parsedData.status) {
+        await syncRoomSeats({
+          tx,
+          roomId: booking.roomId,
+          seats,
+          previousStatus: booking.status,
+          newStatus,
+          bookingId: booking.id,
+          checkIn,
+          checkOut,
+        });
+      }
+
+      // 🧹 Guest has left the beds → raise the cleaning task
+      if (parsedData.status && needsTurnover(booking, newStatus)) {
+        const taskId = await createTurnoverTask(tx, booking.id);
+        if (taskId) turnoverTaskIds.push(taskId);
+      }
+
+      return updated;
     });
 
+    await publishHousekeepingTasks(turnoverTaskIds);
+
     res.status(200).json({
       success: true,
       message: "Booking updated successfully",
@@ -571,7 +801,10 @@ export const getSingleBooking = asyncHandler(
       where: { id },
       include: {
         room: true,
+        beds: { select: { id: true, label: true, position: true } },
         user: true,
+        checkedInBy: { select: { id: true, name: true } },
+        checkedOutBy: { select: { id: true, name: true } },
         bookingOrder: {
           select: {
             id: true,
@@ -587,10 +820,19 @@ export const getSingleBooking = asyncHandler(
       throw new ApiError(404, "Booking not found");
     }
 
+    const { idDocumentScanKey, ...bookingData } = booking;
+    const isStaff = req.user?.role === "ADMIN" || req.user?.role === "COORDINATOR";
+
+    // The ID scan is only ever shown to staff, through a short-lived link
+    const idDocumentScanUrl =
+      isStaff && idDocumentScanKey
+        ? await getPrivateStorage().presignDownload(idDocumentScanKey, { expiresInSeconds: 5 * 60 })
+        : null;
+
     res.status(200).json({
       success: true,
       message: "Booking fetched successfully",
-      data: booking
+      data: { ...bookingData, idDocumentScanUrl }
     });
   }
 );
@@ -603,6 +845,7 @@ export const getAllBookings = asyncHandler(
       bookingType = "",
       source = "",
       orderId = "",
+      noShow = "",
       page = "1",
       limit = "10",
     } = req.query as Record<string, string>;
@@ -619,6 +862,11 @@ export const getAllBookings = asyncHandler(
       where.bookingOrderId = orderId;
     }
 
+    const scope = await resolvePropertyScope(req);
+    if (scope) {
+      where.room = { propertyId: { in: scope } };
+    }
+
     if (status) {
       where.status = status;
     }
@@ -631,6 +879,12 @@ export const getAllBookings = asyncHandler(
       where.source = source;
     }
 
+    // Flagged guests that still have not arrived
+    if (noShow === "true") {
+      where.noShowAt = { not: null };
+      where.checkedInAt = null;
+    }
+
     if (search) {
       where.OR = [
         {
@@ -717,20 +971,13 @@ export const deleteBooking = asyncHandler(
     }
 
     await prisma.$transaction(async (tx) => {
-      // Release seats
-      await tx.room.update({
-        where: { id: booking.roomId },
-        data: {
-          bookedSeats: {
-            decrement: booking.seatsSelected,
-          },
-        },
-      });
-
       // Delete booking
       await tx.booking.delete({
         where: { id },
       });
+
+      // Release seats
+      await refreshRoomSeatCounters(tx, booking.roomId);
     });
 
     res.status(200).json({
@@ -772,26 +1019,15 @@ export const deleteOrder = asyncHandler(
       throw new ApiError(400, "Order must be cancelled before deletion");
     }
 
+    const billingDocuments = await prisma.billingDocument.count({
+      where: { bookingOrderId: orderId },
+    });
+    if (billingDocuments > 0) {
+      throw new ApiError(409, "Orders with issued invoices or receipts cannot be deleted");
+    }
+
     // Delete order and associated bookings in a transaction
     await prisma.$transaction(async (tx) => {
-      // Release seats for each booking in the order
-      for (const booking of order.bookings) {
-        const wasConfirmed =
-          booking.status === "CONFIRMED" ||
-          booking.status === "COMPLETED";
-
-        if (!wasConfirmed) continue; // 🔥 IMPORTANT
-
-        await tx.room.update({
-          where: { id: booking.roomId },
-          data: {
-            bookedSeats: { decrement: booking.seatsSelected },
-            availableSeats: { increment: booking.seatsSelected },
-            status: "AVAILABLE",
-          },
-        });
-      }
-
       // Delete all bookings in the order
       await tx.booking.deleteMany({
         where: { bookingOrderId: orderId },
@@ -801,6 +1037,12 @@ export const deleteOrder = asyncHandler(
       await tx.bookingOrder.delete({
         where: { id: orderId },
       });
+
+      // Release seats for each room in the order
+      const roomIds = new Set(order.bookings.map((booking) => booking.roomId));
+      for (const roomId of roomIds) {
+        await refreshRoomSeatCounters(tx, roomId);
+      }
     });
 
     res.status(200).json({
@@ -856,33 +1098,54 @@ export const updateOrder = asyncHandler(
       throw new ApiError(403, "You cannot update someone else's order");
     }
 
+    // 📱 Only guests with a verified phone get confirmed
+    if (status === "CONFIRMED" && order.status !== "CONFIRMED") {
+      await assertPhoneVerified(order.userId);
+    }
+
     /* ---------- Transaction ---------- */
+    const turnoverTaskIds: string[] = [];
     const updatedOrder = await prisma.$transaction(async (tx) => {
       /* ---- Sync seats for each booking ---- */
       for (const booking of order.bookings) {
+        await tx.booking.update({
+          where: { id: booking.id },
+          data: {
+            status,
+            cancelledAt: status === "CANCELLED" ? new Date() : null,
+          },
+        });
+
         await syncRoomSeats({
           tx,
           roomId: booking.roomId,
           seats: booking.seatsSelected,
           previousStatus: booking.status,
           newStatus: status,
+          bookingId: booking.id,
+          checkIn: booking.checkIn,
+          checkOut: booking.checkOut,
         });
 
-        await tx.booking.update({
-          where: { id: booking.id },
-          data: {
-            status,
-            cancelledAt: status === "CANCELLED" ? new Date() : null,
-          },
-        });
+        if (needsTurnover(booking, status)) {
+          const taskId = await createTurnoverTask(tx, booking.id);
+          if (taskId) turnoverTaskIds.push(taskId);
+        }
       }
 
       /* ---- Update Order ---- */
+      // Moving an order (back) to PENDING/RESERVED starts a fresh hold window
+      const isHold = status === "PENDING" || status === "RESERVED";
+
       return tx.bookingOrder.update({
         where: { id: orderId },
         data: {
           status,
           updatedAt: new Date(),
+          ...(isHold && {
+            expiresAt: computeOrderExpiry(order.bookings.map((b) => b.bookingType)),
+            expiredAt: null,
+          }),
         },
         include: {
           user: {
@@ -893,10 +1156,127 @@ export const updateOrder = asyncHandler(
       });
     });
 
+    await publishHousekeepingTasks(turnoverTaskIds);
+
     res.status(200).json({
       success: true,
       message: "Order updated successfully",
       data: updatedOrder,
     });
   }
-);
\ No newline at end of file
+);
+
+/**
+ * POST /bookings/orders/:orderId/cancel
+ * Cancels an order, releases its seats and refunds per the cancellation policy
+ */
+export const cancelOrder = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { orderId } = req.params;
+    const { reason, amount } = req.body as cancelOrderDTO;
+    const user = req.user;
+
+    if (!user) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const result = await cancelOrderWithRefund({
+      orderId,
+      user,
+      reason,
+      amount,
+    });
+
+    const refundStatuses = result.refunds.map((refund) => refund.status);
+    const message =
+      refundStatuses.includes("PENDING_APPROVAL")
+        ? "Order cancelled, refund is waiting for admin approval"
+        : refundStatuses.includes("FAILED")
+          ? "Order cancelled, refund could not be processed and will be retried"
+          : refundStatuses.length > 0
+            ? "Order cancelled and refunded"
+            : "Order cancelled";
+
+    res.status(200).json({
+      success: true,
+      message,
+      data: result,
+    });
+  }
+);
+
+/**
+ * Loads a booking's property and checks the staff member manages it.
+ */
+const assertBookingAccess = async (req: Request, bookingId: string) => {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: { room: { select: { propertyId: true } } },
+  });
+
+  if (!booking) {
+    throw new ApiError(404, "Booking not found");
+  }
+
+  await assertPropertyAccess(req.user, booking.room.propertyId);
+};
+
+/**
+ * POST /bookings/:id/check-in
+ * Multipart: idDocumentType, idDocumentNumber and the `idScan` file
+ */
+export const checkInBooking = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const { idDocumentType, idDocumentNumber } = req.body as checkInBookingDTO;
+    const staffId = req.user?.userId;
+
+    if (!staffId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    if (!req.file) {
+      throw new ApiError(400, "A scan of the ID document is required");
+    }
+
+    await assertBookingAccess(req, id);
+
+    const booking = await recordCheckIn({
+      bookingId: id,
+      staffId,
+      idDocumentType,
+      idDocumentNumber,
+      idScan: req.file,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Guest checked in successfully",
+      data: booking,
+    });
+  }
+);
+
+/**
+ * POST /bookings/:id/check-out
+ */
+export const checkOutBooking = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const staffId = req.user?.userId;
+
+    if (!staffId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    await assertBookingAccess(req, id);
+
+    const booking = await recordCheckOut({ bookingId: id, staffId });
+
+    res.status(200).json({
+      success: true,
+      message: "Guest checked out successfully",
+      data: booking,
+    });
+  }
+);
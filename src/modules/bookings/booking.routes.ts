@@ -8,13 +8,21 @@ import {
   previewBooking,
   createMultipleBookings,
   getBookingOrderDetails,
+  getOrderInvoice,
+  getPaymentReceipt,
   getAllOrders,
   getUserOrders,
   deleteOrder,
   updateOrder,
+  cancelOrder,
+  checkInBooking,
+  checkOutBooking,
 } from "./booking.controller";
 import authenticateUserWithRole from "../../middlewares/role.middleware";
 import authenticateUser from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { uploadDocs } from "../../config/multer";
+import { cancelOrderSchema, checkInBookingSchema, previewBookingSchema } from "./bookingDTOS/booking.dtos";
 
 const router = Router();
 
@@ -26,28 +34,44 @@ const router = Router();
 router.post("/", authenticateUserWithRole(["USER", "ADMIN"]), createBooking);
 router.post("/create-multiple", authenticateUserWithRole(["USER","COORDINATOR", "ADMIN"]), createMultipleBookings);
 
-// Preview booking - public route
-router.post("/preview", previewBooking);
+// Preview booking - authenticated users (the price quote is tied to the user)
+router.post("/preview", authenticateUser, validate(previewBookingSchema), previewBooking);
 
-// Get all bookings - ADMIN only
-router.get("/", authenticateUserWithRole(["ADMIN"]), getAllBookings);
+// Get all bookings - ADMIN or COORDINATOR, scoped to their properties
+router.get("/", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), getAllBookings);
 
 // Get user's own orders - USER endpoint
 router.get("/my-orders", authenticateUser, getUserOrders);
 
-// Get all orders - ADMIN only
-router.get("/orders/admin/all", authenticateUserWithRole(["ADMIN"]), getAllOrders);
+// Get all orders - ADMIN or COORDINATOR, scoped to their properties
+router.get("/orders/admin/all", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), getAllOrders);
 
 // Get single booking - authenticated users
 router.get("/:id", authenticateUser, getSingleBooking);
 router.get("/order/:orderId", authenticateUser, getBookingOrderDetails);
 
+// Order invoice and payment receipts as PDF - order owner or ADMIN
+router.get("/order/:orderId/invoice", authenticateUser, getOrderInvoice);
+router.get("/order/:orderId/receipts/:paymentId", authenticateUser, getPaymentReceipt);
+
 // Update booking - ADMIN only
 router.patch("/:id", authenticateUserWithRole(["ADMIN"]), updateBooking);
 
 // Delete booking - ADMIN only
 router.delete("/:id", authenticateUserWithRole(["ADMIN"]), deleteBooking);
 
+// Record arrival with ID document scan - ADMIN or COORDINATOR only
+router.post(
+  "/:id/check-in",
+  authenticateUserWithRole(["ADMIN", "COORDINATOR"]),
+  uploadDocs.single("idScan"),
+  validate(checkInBookingSchema),
+  checkInBooking
+);
+
+// Record departure and complete the booking - ADMIN or COORDINATOR only
+router.post("/:id/check-out", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), checkOutBooking);
+
 /**
  * Order Routes
  */
@@ -55,6 +79,9 @@ router.delete("/:id", authenticateUserWithRole(["ADMIN"]), deleteBooking);
 // Update order - USER or ADMIN
 router.patch("/orders/:orderId", authenticateUserWithRole(["USER", "ADMIN"]), updateOrder);
 
+// Cancel order and refund per cancellation policy - USER or ADMIN
+router.post("/orders/:orderId/cancel", authenticateUserWithRole(["USER", "ADMIN"]), validate(cancelOrderSchema), cancelOrder);
+
 // Delete order - USER or ADMIN
 router.delete("/orders/:orderId", authenticateUserWithRole(["USER", "ADMIN"]), deleteOrder);
 
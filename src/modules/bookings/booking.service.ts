@@ -1 +1,367 @@
-// placeholder
+import { BookingStatus, BookingType, IdDocumentType, PaymentStatus } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+import { syncRoomSeats } from "../../utils/SeatManager";
+import { logger } from "../../utils/logger";
+import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+import { buildStorageKey, getPrivateStorage } from "../../utils/storage/storage.factory";
+import { cancelOpenInstallments } from "../payments/services/payment-plan.service";
+import { addUtcDays, refreshRoomSeatCounters, startOfUtcDay } from "../rooms/room.service";
+import { createTurnoverTask, publishHousekeepingTasks } from "../housekeeping/housekeeping.service";
+
+/**
+ * How long an unpaid order keeps its seats, per stay type.
+ * Override with ORDER_HOLD_MINUTES_SHORT_TERM / ORDER_HOLD_MINUTES_LONG_TERM.
+ */
+const DEFAULT_HOLD_MINUTES: Record<BookingType, number> = {
+  SHORT_TERM: 30,
+  LONG_TERM: 120,
+};
+
+const DEFAULT_NO_SHOW_GRACE_HOURS = 24;
+
+const EXPIRABLE_STATUSES: BookingStatus[] = [
+  BookingStatus.PENDING,
+  BookingStatus.RESERVED,
+];
+
+export const getHoldMinutes = (bookingType: BookingType): number => {
+  const fromEnv = Number(process.env[`ORDER_HOLD_MINUTES_${bookingType}`]);
+  return fromEnv > 0 ? fromEnv : DEFAULT_HOLD_MINUTES[bookingType];
+};
+
+/**
+ * An order is held for the shortest window among its bookings.
+ */
+export const computeOrderExpiry = (
+  bookingTypes: BookingType[],
+  from: Date = new Date()
+): Date => {
+  const types = bookingTypes.length > 0 ? bookingTypes : [BookingType.SHORT_TERM];
+  const minutes = Math.min(...types.map(getHoldMinutes));
+  return new Date(from.getTime() + minutes * 60 * 1000);
+};
+
+/**
+ * Cancels a single unpaid order whose hold window has passed.
+ * Returns false when the order was already paid, cancelled or handled elsewhere,
+ * so running it twice (or on two servers) is harmless.
+ */
+export const expireOrder = async (orderId: string): Promise<boolean> => {
+  const now = new Date();
+
+  const expired = await prisma.$transaction(async (tx) => {
+    const order = await tx.bookingOrder.findUnique({
+      where: { id: orderId },
+      include: {
+        bookings: true,
+        payments: {
+          where: { paymentStatus: PaymentStatus.SUCCESS },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (!order || !EXPIRABLE_STATUSES.includes(order.status)) return null;
+
+    // A payment landed before we got here → let the webhook confirm it
+    if (order.payments.length > 0) return null;
+
+    // Claim the order; only one worker can win this update
+    const claimed = await tx.bookingOrder.updateMany({
+      where: { id: orderId, status: { in: EXPIRABLE_STATUSES } },
+      data: { status: BookingStatus.CANCELLED, expiredAt: now },
+    });
+
+    if (claimed.count === 0) return null;
+
+    await cancelOpenInstallments(tx, orderId);
+
+    for (const booking of order.bookings) {
+      if (!EXPIRABLE_STATUSES.includes(booking.status)) continue;
+
+      await tx.booking.update({
+        where: { id: booking.id },
+        data: { status: BookingStatus.CANCELLED, cancelledAt: now },
+      });
+
+      await syncRoomSeats({
+        tx,
+        roomId: booking.roomId,
+        seats: booking.seatsSelected,
+        previousStatus: booking.status,
+        newStatus: BookingStatus.CANCELLED,
+      });
+    }
+
+    return order;
+  });
+
+  if (!expired) return false;
+
+  logger.info("Booking order expired", {
+    orderId: expired.id,
+    orderNumber: expired.orderNumber,
+  });
+
+  try {
+    await publishToQueue("ORDER.EXPIRED", {
+      userId: expired.userId,
+      title: "Order Expired",
+      audience: "USER",
+      severity: "WARNING",
+      message: `Your order ${expired.orderNumber} was cancelled because payment was not received in time.`,
+      orderId: expired.id,
+      orderNumber: expired.orderNumber,
+    });
+  } catch (error) {
+    // The order is already cancelled; a missed notification must not undo that
+    logger.error("Failed to publish ORDER.EXPIRED", error, { orderId: expired.id });
+  }
+
+  return true;
+};
+
+/**
+ * Finds every unpaid order past its hold window and expires it.
+ * Orders created before expiresAt existed fall back to createdAt + longest hold.
+ */
+export const expireStaleOrders = async (): Promise<number> => {
+  const now = new Date();
+  const longestHoldMinutes = Math.max(
+    ...Object.values(BookingType).map(getHoldMinutes)
+  );
+  const legacyCutoff = new Date(now.getTime() - longestHoldMinutes * 60 * 1000);
+
+  const staleOrders = await prisma.bookingOrder.findMany({
+    where: {
+      status: { in: EXPIRABLE_STATUSES },
+      OR: [
+        { expiresAt: { lte: now } },
+        { expiresAt: null, createdAt: { lte: legacyCutoff } },
+      ],
+    },
+    select: { id: true },
+    take: 100,
+  });
+
+  let expiredCount = 0;
+  for (const order of staleOrders) {
+    try {
+      if (await expireOrder(order.id)) expiredCount++;
+    } catch (error) {
+      logger.error("Failed to expire booking order", error, { orderId: order.id });
+    }
+  }
+
+  return expiredCount;
+};
+
+/**
+ * Records the guest's arrival with their ID document. Only confirmed
+ * bookings can check in, from the planned check-in day, once their beds
+ * have been cleaned.
+ */
+export const checkInBooking = async ({
+  bookingId,
+  staffId,
+  idDocumentType,
+  idDocumentNumber,
+  idScan,
+}: {
+  bookingId: string;
+  staffId: string;
+  idDocumentType: IdDocumentType;
+  idDocumentNumber: string;
+  idScan: Express.Multer.File;
+}) => {
+  const now = new Date();
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { beds: { select: { label: true, isReady: true } } },
+  });
+
+  if (!booking) {
+    throw new ApiError(404, "Booking not found");
+  }
+
+  if (booking.checkedInAt) {
+    throw new ApiError(409, "Guest is already checked in");
+  }
+
+  if (booking.status !== BookingStatus.CONFIRMED) {
+    throw new ApiError(409, "Only confirmed bookings can be checked in");
+  }
+
+  if (now < startOfUtcDay(booking.checkIn)) {
+    throw new ApiError(400, `Check-in opens on ${booking.checkIn.toISOString().slice(0, 10)}`);
+  }
+
+  if (booking.checkOut && now >= booking.checkOut) {
+    throw new ApiError(409, "This stay has already ended");
+  }
+
+  const notReady = booking.beds.filter((bed) => !bed.isReady);
+  if (notReady.length > 0) {
+    throw new ApiError(
+      409,
+      `${notReady.map((bed) => bed.label).join(", ")} still being cleaned, finish the housekeeping task first`
+    );
+  }
+
+  // ID scans go to private storage, never the public media bucket
+  const idDocumentScanKey = buildStorageKey(`identity-documents/${bookingId}`, idScan.mimetype);
+  await getPrivateStorage().put(idDocumentScanKey, idScan.buffer, { contentType: idScan.mimetype });
+
+  // Claim the check-in so a double submit cannot record it twice
+  const claimed = await prisma.booking.updateMany({
+    where: { id: bookingId, status: BookingStatus.CONFIRMED, checkedInAt: null },
+    data: {
+      checkedInAt: now,
+      checkedInById: staffId,
+      idDocumentType,
+      idDocumentNumber,
+      idDocumentScanKey,
+      noShowAt: null,
+    },
+  });
+
+  if (claimed.count === 0) {
+    await getPrivateStorage().remove(idDocumentScanKey);
+    throw new ApiError(409, "Booking was checked in or changed by another request");
+  }
+
+  logger.info("Guest checked in", { bookingId, staffId });
+
+  return prisma.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+    include: { beds: { select: { id: true, label: true } } },
+  });
+};
+
+/**
+ * Records the guest's departure and completes the booking. Leaving before
+ * the planned check-out frees the beds from today. Raises the turnover task,
+ * and completes the order once none of its bookings are still live.
+ */
+export const checkOutBooking = async ({ bookingId, staffId }: { bookingId: string; staffId: string }) => {
+  const now = new Date();
+
+  const { taskId } = await prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUnique({ where: { id: bookingId } });
+
+    if (!booking) {
+      throw new ApiError(404, "Booking not found");
+    }
+
+    await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${booking.roomId} FOR UPDATE`;
+
+    if (!booking.checkedInAt) {
+      throw new ApiError(409, "Guest has not checked in");
+    }
+
+    if (booking.checkedOutAt) {
+      throw new ApiError(409, "Guest has already checked out");
+    }
+
+    // Departure day; a same-day stay still counts its first night
+    const departure = new Date(
+      Math.max(startOfUtcDay(now).getTime(), addUtcDays(startOfUtcDay(booking.checkIn), 1).getTime())
+    );
+    const leavesEarly = !booking.checkOut || booking.checkOut > departure;
+
+    const claimed = await tx.booking.updateMany({
+      where: { id: bookingId, checkedOutAt: null },
+      data: {
+        status: BookingStatus.COMPLETED,
+        checkedOutAt: now,
+        checkedOutById: staffId,
+        ...(leavesEarly && { checkOut: departure }),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ApiError(409, "Booking was checked out by another request");
+    }
+
+    await refreshRoomSeatCounters(tx, booking.roomId);
+
+    const liveBookings = await tx.booking.count({
+      where: {
+        bookingOrderId: booking.bookingOrderId,
+        status: { notIn: [BookingStatus.COMPLETED, BookingStatus.CANCELLED] },
+      },
+    });
+
+    if (liveBookings === 0) {
+      await tx.bookingOrder.updateMany({
+        where: { id: booking.bookingOrderId, status: BookingStatus.CONFIRMED },
+        data: { status: BookingStatus.COMPLETED },
+      });
+    }
+
+    return { taskId: await createTurnoverTask(tx, bookingId) };
+  });
+
+  await publishHousekeepingTasks(taskId ? [taskId] : []);
+  logger.info("Guest checked out", { bookingId, staffId });
+
+  return prisma.booking.findUniqueOrThrow({
+    where: { id: bookingId },
+    include: { beds: { select: { id: true, label: true } } },
+  });
+};
+
+/**
+ * Flags confirmed bookings whose guest has not checked in NO_SHOW_GRACE_HOURS
+ * after the planned check-in, and alerts admins once per booking. The
+ * booking is left as it is; staff decide whether to cancel it.
+ */
+export const flagNoShows = async (now: Date = new Date()): Promise<number> => {
+  const fromEnv = Number(process.env.NO_SHOW_GRACE_HOURS);
+  const graceHours = fromEnv > 0 ? fromEnv : DEFAULT_NO_SHOW_GRACE_HOURS;
+  const cutoff = new Date(now.getTime() - graceHours * 60 * 60 * 1000);
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: BookingStatus.CONFIRMED,
+      checkedInAt: null,
+      noShowAt: null,
+      checkIn: { lte: cutoff },
+    },
+    select: {
+      id: true,
+      checkIn: true,
+      room: { select: { title: true } },
+      user: { select: { id: true, name: true } },
+      bookingOrder: { select: { orderNumber: true } },
+    },
+    take: 100,
+  });
+
+  let flagged = 0;
+  for (const booking of bookings) {
+    const claimed = await prisma.booking.updateMany({
+      where: { id: booking.id, noShowAt: null, checkedInAt: null },
+      data: { noShowAt: now },
+    });
+    if (claimed.count === 0) continue;
+    flagged++;
+
+    try {
+      await publishToQueue("BOOKING.NO_SHOW", {
+        userId: booking.user.id,
+        title: "Guest No-Show",
+        audience: "ADMIN",
+        severity: "WARNING",
+        message: `${booking.user.name} has not checked in to ${booking.room.title} (order ${booking.bookingOrder.orderNumber}), due ${booking.checkIn.toISOString().slice(0, 10)}.`,
+        bookingId: booking.id,
+      });
+    } catch (error) {
+      // The booking is already flagged; a missed alert must not undo that
+      logger.error("Failed to publish BOOKING.NO_SHOW", error, { bookingId: booking.id });
+    }
+  }
+
+  return flagged;
+};
@@ -3,15 +3,27 @@ import {
   BookingType,
   BookingSource,
   BookingStatus,
+  IdDocumentType,
+  PaymentPlan,
 } from "@prisma/client";
 
 /**
  * CREATE BOOKING
  */
+const pricingItemSchema = z.object({
+  roomId: z.string().uuid("Invalid roomId"),
+  bookingType: z.nativeEnum(BookingType),
+  seatsSelected: z.number().int().min(1, "At least 1 seat must be selected"),
+  checkIn: z.string().optional(),
+  checkOut: z.string().optional(),
+});
+
 export const previewBookingSchema = z
   .object({
-    price: z.number(),
+    bookings: z.array(pricingItemSchema).min(1, "At least one booking is required"),
     couponCode: z.string().min(0).optional(),
+    // INSTALLMENTS also returns the deposit/installment schedule
+    paymentPlan: z.nativeEnum(PaymentPlan).optional(),
   });
 
 export const createBookingSchema = z
@@ -25,15 +37,19 @@ export const createBookingSchema = z
 
     checkOut: z.string().optional(),
 
-    baseAmount: z.number().min(0, "Base amount must be >= 0"),
-    taxAmount: z.number().min(0).optional(),
-    discount: z.number().min(0).optional(),
     couponCode: z.string().min(0).optional(),
+    // Price quote from /bookings/preview; locks the previewed total
+    quoteId: z.string().uuid("Invalid quoteId").optional(),
 
     seatsSelected: z.number().min(1, "At least 1 seat must be selected"),
-    totalAmount: z.number().min(0, "Total amount must be >= 0"),
+
+    // Beds picked from the room's bed map; free beds are assigned when omitted
+    bedIds: z.array(z.string().uuid("Invalid bedId")).optional(),
 
     source: z.nativeEnum(BookingSource).optional(),
+
+    // Long stays may pay a deposit + advance now and the rest monthly
+    paymentPlan: z.nativeEnum(PaymentPlan).optional(),
   });
  
 
@@ -58,7 +74,46 @@ export const updateBookingSchema = z.object({
   source: z.nativeEnum(BookingSource).optional(),
 });
 
+/**
+ * CANCEL ORDER
+ */
+export const cancelOrderSchema = z.object({
+  reason: z.string().max(500).optional(),
+  // Refund to ask for; defaults to what the cancellation policy allows
+  amount: z.number().int().min(0).optional(),
+});
+
+/**
+ * CHECK-IN
+ * Sent as multipart form data alongside the `idScan` file
+ */
+export const checkInBookingSchema = z
+  .object({
+    idDocumentType: z.nativeEnum(IdDocumentType, {
+      errorMap: () => ({ message: "ID document type must be CNIC or PASSPORT" }),
+    }),
+    idDocumentNumber: z.string().trim().toUpperCase(),
+  })
+  .superRefine((data, ctx) => {
+    const valid =
+      data.idDocumentType === IdDocumentType.CNIC
+        ? /^\d{5}-?\d{7}-?\d$/.test(data.idDocumentNumber)
+        : /^[A-Z0-9]{6,20}$/.test(data.idDocumentNumber);
+
+    if (!valid) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["idDocumentNumber"],
+        message:
+          data.idDocumentType === IdDocumentType.CNIC
+            ? "CNIC must be 13 digits, e.g. 35202-1234567-1"
+            : "Passport number must be 6-20 letters or digits",
+      });
+    }
+  });
 
 export type createBookingDTO = z.infer<typeof createBookingSchema>;
 export type updateBookingDTO = z.infer<typeof updateBookingSchema>;
 export type previewBookingDTO = z.infer<typeof previewBookingSchema>;
+export type cancelOrderDTO = z.infer<typeof cancelOrderSchema>;
+export type checkInBookingDTO = z.infer<typeof checkInBookingSchema>;
@@ -0,0 +1,107 @@
+import { NextFunction, Request, Response } from "express";
+import prisma from "../../../config/prismaClient";
+import { asyncHandler } from "../../../utils/asyncHandler";
+import { ApiError } from "../../../utils/ApiError";
+import { getCancellationRules } from "../../refunds/refund.service";
+import {
+  CreateCancellationPolicyDTO,
+  UpdateCancellationPolicyDTO,
+} from "./cancellationPolicyDTOS/cancellationPolicy.dtos";
+
+/**
+ * CREATE cancellation policy (admin)
+ * Replaces the active policy for the same booking type
+ */
+export const createCancellationPolicy = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const data = req.body as CreateCancellationPolicyDTO;
+
+    const policy = await prisma.$transaction(async (tx) => {
+      if (data.isActive !== false) {
+        await tx.cancellationPolicy.updateMany({
+          where: { bookingType: data.bookingType, isActive: true },
+          data: { isActive: false },
+        });
+      }
+
+      return tx.cancellationPolicy.create({ data });
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Cancellation policy created successfully",
+      data: policy,
+    });
+  }
+);
+
+/**
+ * GET effective rules per booking type (falls back to defaults)
+ */
+export const getActiveCancellationPolicies = asyncHandler(
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const rules = await getCancellationRules();
+
+    res.status(200).json({
+      success: true,
+      message: "Cancellation policies fetched successfully",
+      data: rules,
+    });
+  }
+);
+
+/**
+ * GET all cancellation policies (admin)
+ */
+export const getAllCancellationPolicies = asyncHandler(
+  async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const policies = await prisma.cancellationPolicy.findMany({
+      orderBy: [{ bookingType: "asc" }, { createdAt: "desc" }],
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Cancellation policies fetched successfully",
+      data: policies,
+    });
+  }
+);
+
+/**
+ * UPDATE cancellation policy (admin)
+ */
+export const updateCancellationPolicy = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const data = req.body as UpdateCancellationPolicyDTO;
+
+    const existing = await prisma.cancellationPolicy.findUnique({ where: { id } });
+    if (!existing) {
+      throw new ApiError(404, "Cancellation policy not found");
+    }
+
+    const fullRefundDays = data.fullRefundDays ?? existing.fullRefundDays;
+    const partialRefundDays = data.partialRefundDays ?? existing.partialRefundDays;
+    if (partialRefundDays > fullRefundDays) {
+      throw new ApiError(400, "Partial refund days cannot exceed full refund days");
+    }
+
+    const policy = await prisma.$transaction(async (tx) => {
+      // If activating → deactivate others of the same booking type
+      if (data.isActive === true) {
+        await tx.cancellationPolicy.updateMany({
+          where: { bookingType: existing.bookingType, isActive: true, id: { not: id } },
+          data: { isActive: false },
+        });
+      }
+
+      return tx.cancellationPolicy.update({ where: { id }, data });
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Cancellation policy updated successfully",
+      data: policy,
+    });
+  }
+);
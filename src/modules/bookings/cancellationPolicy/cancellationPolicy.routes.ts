@@ -0,0 +1,33 @@
+import { Router } from "express";
+import {
+  createCancellationPolicy,
+  getActiveCancellationPolicies,
+  getAllCancellationPolicies,
+  updateCancellationPolicy,
+} from "./cancellationPolicy.controllers";
+import authenticateUserWithRole from "../../../middlewares/role.middleware";
+import { validate } from "../../../middlewares/validate.middleware";
+import {
+  createCancellationPolicySchema,
+  updateCancellationPolicySchema,
+} from "./cancellationPolicyDTOS/cancellationPolicy.dtos";
+
+const router = Router();
+
+/**
+ * Cancellation Policy Routes
+ */
+
+// Get effective policies - Public access (shown before booking)
+router.get("/active", getActiveCancellationPolicies);
+
+// Get all policies - ADMIN only
+router.get("/", authenticateUserWithRole(["ADMIN"]), getAllCancellationPolicies);
+
+// Create policy - ADMIN only
+router.post("/", authenticateUserWithRole(["ADMIN"]), validate(createCancellationPolicySchema), createCancellationPolicy);
+
+// Update policy - ADMIN only
+router.patch("/:id", authenticateUserWithRole(["ADMIN"]), validate(updateCancellationPolicySchema), updateCancellationPolicy);
+
+export default router;
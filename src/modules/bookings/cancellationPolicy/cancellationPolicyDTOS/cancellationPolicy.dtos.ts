@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { BookingType } from "@prisma/client";
+
+const cancellationPolicyBaseSchema = z.object({
+  bookingType: z.nativeEnum(BookingType),
+
+  // Full refund when cancelled at least this many days before check-in
+  fullRefundDays: z.number().int().min(0, "Full refund days must be >= 0"),
+
+  // Partial refund between partialRefundDays and fullRefundDays
+  partialRefundDays: z.number().int().min(0).optional(),
+  partialRefundPercent: z
+    .number()
+    .int()
+    .min(0, "Partial refund percent must be >= 0")
+    .max(100, "Partial refund percent cannot exceed 100")
+    .optional(),
+
+  isActive: z.boolean().optional(),
+});
+
+const hasValidWindows = (data: { fullRefundDays?: number; partialRefundDays?: number }) =>
+  data.fullRefundDays === undefined ||
+  data.partialRefundDays === undefined ||
+  data.partialRefundDays <= data.fullRefundDays;
+
+export const createCancellationPolicySchema = cancellationPolicyBaseSchema.refine(
+  hasValidWindows,
+  {
+    message: "Partial refund days cannot exceed full refund days",
+    path: ["partialRefundDays"],
+  }
+);
+
+export const updateCancellationPolicySchema = cancellationPolicyBaseSchema
+  .omit({ bookingType: true })
+  .partial()
+  .refine(hasValidWindows, {
+    message: "Partial refund days cannot exceed full refund days",
+    path: ["partialRefundDays"],
+  });
+
+export type CreateCancellationPolicyDTO = z.infer<typeof createCancellationPolicySchema>;
+export type UpdateCancellationPolicyDTO = z.infer<typeof updateCancellationPolicySchema>;
@@ -7,6 +7,7 @@ import {
 import prisma from "../../../config/prismaClient";
 import { sendCreated, sendNotFound, sendOK } from "../../../utils/response";
 import { logger } from "../../../utils/logger";
+import { assertPropertySettingAccess } from "../../properties/property.service";
 import { nextToken } from "aws-sdk/clients/iotfleetwise";
 import { networkInterfaces } from "os";
 
@@ -17,15 +18,18 @@ export const createTaxConfig = async (req: Request, res: Response,next:NextFunct
     try {
         const parsedData = createTaxConfigSchema.parse(req.body);
 
-  // 🔒 Deactivate previous active tax
+  await assertPropertySettingAccess(req.user, parsedData.propertyId);
+
+  // 🔒 Deactivate previous active tax of the same property (or the default)
   await prisma.taxConfig.updateMany({
-    where: { isActive: true },
+    where: { isActive: true, propertyId: parsedData.propertyId ?? null },
     data: { isActive: false },
   });
 
   const taxConfig = await prisma.taxConfig.create({
     data: {
       percent: parsedData.percent,
+      propertyId: parsedData.propertyId,
       isActive: true,
     },
   });
@@ -44,8 +48,13 @@ export const createTaxConfig = async (req: Request, res: Response,next:NextFunct
  */
 export const getActiveTaxConfig = async (_req: Request, res: Response,next:NextFunction) => {
     try {
+        const { propertyId } = _req.query as Record<string, string>;
         const taxConfig = await prisma.taxConfig.findMany({
-    where: { isActive: true },
+    where: {
+      isActive: true,
+      ...(propertyId && { OR: [{ propertyId }, { propertyId: null }] }),
+    },
+    include: { property: { select: { id: true, name: true } } },
   });
 
 if (!taxConfig || taxConfig.length === 0) {
@@ -69,10 +78,17 @@ export const updateTaxConfig = async (req: Request, res: Response,next:NextFunct
         const { id } = req.params;
   const parsedData = updateTaxConfigSchema.parse(req.body);
 
-  // If activating → deactivate others
+  const existing = await prisma.taxConfig.findUnique({ where: { id } });
+  if (!existing) {
+    return sendNotFound(res, "Tax config not found");
+  }
+
+  await assertPropertySettingAccess(req.user, existing.propertyId);
+
+  // If activating → deactivate others of the same property
   if (parsedData.isActive === true) {
     await prisma.taxConfig.updateMany({
-      where: { isActive: true },
+      where: { isActive: true, propertyId: existing.propertyId, NOT: { id } },
       data: { isActive: false },
     });
   }
@@ -5,6 +5,9 @@ export const createTaxConfigSchema = z.object({
     .number()
     .min(0, "Tax percent must be >= 0")
     .max(100, "Tax percent cannot exceed 100"),
+
+  // Rate for one property; omit for the default rate
+  propertyId: z.string().uuid("Invalid propertyId").optional(),
 });
 
 export const updateTaxConfigSchema = z.object({
@@ -1,8 +1,40 @@
 import { NextFunction, Request, Response } from "express";
+import { BookingType, RoomStatus } from "@prisma/client";
 import prisma from "../../config/prismaClient";
 import { asyncHandler } from "../../utils/asyncHandler";
 import { ApiError } from "../../utils/ApiError";
 import { logger } from "../../utils/logger";
+import { priceOrder } from "../pricing/pricing.service";
+import { assertRoomOpenForStay } from "../rooms/room.service";
+
+/**
+ * Cart lines use the same pricing as orders (tax included, no coupon).
+ * priceWithTax is per seat for the whole stay; total covers all seats.
+ */
+const priceCartLine = async (item: {
+  roomId: string;
+  stayType: BookingType;
+  selectedSeats: number;
+  checkInDate?: Date | null;
+  checkOutDate?: Date | null;
+}) => {
+  const quote = await priceOrder({
+    items: [
+      {
+        roomId: item.roomId,
+        bookingType: item.stayType,
+        seats: item.selectedSeats,
+        checkIn: item.checkInDate,
+        checkOut: item.checkOutDate,
+      },
+    ],
+  });
+
+  return {
+    priceWithTax: quote.totalAmount / item.selectedSeats,
+    total: quote.totalAmount,
+  };
+};
 
 export const getCart = asyncHandler(async (
   req: Request,
@@ -44,7 +76,7 @@ export const addToCart = asyncHandler(async (
     throw new ApiError(401, "Unauthorized");
   }
 
-  const { roomId, stayType, selectedSeats, quantity } = req.body;
+  const { roomId, stayType, selectedSeats, quantity, checkInDate, checkOutDate } = req.body;
 
   if (!roomId || !stayType || !selectedSeats || !quantity) {
     logger.warn("Add to cart failed - invalid payload", {
@@ -74,6 +106,12 @@ export const addToCart = asyncHandler(async (
     throw new ApiError(404, "Room not found");
   }
 
+  // availableSeats already leaves out beds under maintenance today
+  if (room.status === RoomStatus.MAINTENANCE) {
+    logger.warn("Add to cart failed - room under maintenance", { userId, roomId });
+    throw new ApiError(409, "Room is under maintenance");
+  }
+
   if (selectedSeats > room.availableSeats) {
     logger.warn("Add to cart failed - seats exceed availability", {
       userId,
@@ -84,17 +122,38 @@ export const addToCart = asyncHandler(async (
     throw new ApiError(400, `Only ${room.availableSeats} seats available`);
   }
 
-  const priceWithTax =
-    stayType === "SHORT_TERM" ? room.shortTermPrice : room.longTermPrice;
+  const checkIn = checkInDate ? new Date(checkInDate) : null;
+  const checkOut = checkOutDate ? new Date(checkOutDate) : null;
 
-  if (priceWithTax === null || priceWithTax === undefined) {
-    logger.warn("Add to cart failed - room pricing not configured", {
-      userId,
-      roomId,
-      stayType,
-    });
-    throw new ApiError(400, "Room pricing is not configured");
+  if ((checkIn && isNaN(checkIn.getTime())) || (checkOut && isNaN(checkOut.getTime()))) {
+    throw new ApiError(400, "Invalid check-in or check-out date");
   }
+  if (checkOut && !checkIn) {
+    throw new ApiError(400, "Check-in date is required with a check-out date");
+  }
+
+  // Maintenance over the stay, checked the same way booking checks it
+  if (checkIn) {
+    const openBeds = await assertRoomOpenForStay(prisma, roomId, checkIn, checkOut);
+
+    if (selectedSeats > openBeds) {
+      logger.warn("Add to cart failed - seats under maintenance for the stay", {
+        userId,
+        roomId,
+        selectedSeats,
+        openBeds,
+      });
+      throw new ApiError(409, `Only ${openBeds} seats are free of maintenance for the selected dates`);
+    }
+  }
+
+  const { priceWithTax, total } = await priceCartLine({
+    roomId,
+    stayType,
+    selectedSeats,
+    checkInDate: checkIn,
+    checkOutDate: checkOut,
+  });
 
   let cart = await prisma.cart.findUnique({
     where: { userId },
@@ -111,7 +170,9 @@ export const addToCart = asyncHandler(async (
   const existing = cart.items.find(
     (ci) =>
       ci.roomId === roomId &&
-      ci.stayType === stayType 
+      ci.stayType === stayType &&
+      ci.checkInDate?.getTime() === checkIn?.getTime() &&
+      ci.checkOutDate?.getTime() === checkOut?.getTime()
   );
 
   if (existing) {
@@ -121,7 +182,9 @@ export const addToCart = asyncHandler(async (
       where: { id: existing.id },
       data: {
         quantity: newQty,
-        total: priceWithTax * selectedSeats, 
+        selectedSeats,
+        priceWithTax,
+        total,
       },
     });
   } else {
@@ -133,7 +196,9 @@ export const addToCart = asyncHandler(async (
         selectedSeats,
         quantity,
         priceWithTax,
-        total: priceWithTax * selectedSeats,
+        total,
+        checkInDate: checkIn,
+        checkOutDate: checkOut,
       },
     });
   }
@@ -192,14 +257,18 @@ export const updateCartItem = asyncHandler(async (
   const newQty = quantity ?? item.quantity;
   const newSeats = selectedSeats ?? item.selectedSeats;
 
-  const newTotal = item.priceWithTax * newSeats;
+  const { priceWithTax, total } = await priceCartLine({
+    ...item,
+    selectedSeats: newSeats,
+  });
 
   const updated = await prisma.cartItem.update({
     where: { id: itemId },
     data: {
       quantity: newQty,
       selectedSeats: newSeats,
-      total: newTotal,
+      priceWithTax,
+      total,
     },
   });
 
@@ -0,0 +1,197 @@
+import { NextFunction, Request, Response } from "express";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { CreateCouponDTO, UpdateCouponDTO } from "./couponDTOS/coupon.dtos";
+import { assertPropertySettingAccess, resolveSettingScope } from "../properties/property.service";
+
+export const createCoupon = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const data = req.body as CreateCouponDTO;
+
+    await assertPropertySettingAccess(req.user, data.propertyId);
+
+    const existing = await prisma.coupon.findUnique({
+      where: { code: data.code },
+    });
+
+    if (existing) {
+      throw new ApiError(409, "A coupon with this code already exists");
+    }
+
+    const coupon = await prisma.coupon.create({
+      data: {
+        ...data,
+        roomTypes: data.roomTypes ?? [],
+        bookingTypes: data.bookingTypes ?? [],
+      },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Coupon created successfully",
+      data: coupon,
+    });
+  }
+);
+
+export const getAllCoupons = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const {
+      search = "",
+      isActive,
+      page = "1",
+      limit = "10",
+    } = req.query as Record<string, string>;
+
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(100, Math.max(Number(limit) || 10, 1));
+    const skip = (pageNumber - 1) * pageSize;
+
+    // "default" lists coupons valid at every property
+    const where: any = await resolveSettingScope(req);
+
+    if (search) {
+      where.code = { contains: search, mode: "insensitive" };
+    }
+
+    if (isActive !== undefined && isActive !== "") {
+      where.isActive = isActive === "true";
+    }
+
+    const [coupons, total] = await Promise.all([
+      prisma.coupon.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "desc" },
+        include: {
+          property: { select: { id: true, name: true } },
+          _count: { select: { redemptions: true } },
+        },
+      }),
+      prisma.coupon.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: "Coupons fetched successfully",
+      data: {
+        items: coupons,
+        total,
+        page: pageNumber,
+        limit: pageSize,
+      },
+    });
+  }
+);
+
+export const getCouponById = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id },
+      include: {
+        redemptions: {
+          orderBy: { createdAt: "desc" },
+          take: 50,
+          include: {
+            user: { select: { id: true, name: true, email: true } },
+            bookingOrder: { select: { id: true, orderNumber: true, status: true } },
+          },
+        },
+      },
+    });
+
+    if (!coupon) {
+      throw new ApiError(404, "Coupon not found");
+    }
+
+    await assertPropertySettingAccess(req.user, coupon.propertyId);
+
+    res.status(200).json({
+      success: true,
+      message: "Coupon fetched successfully",
+      data: coupon,
+    });
+  }
+);
+
+export const updateCoupon = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const data = req.body as UpdateCouponDTO;
+
+    const coupon = await prisma.coupon.findUnique({ where: { id } });
+
+    if (!coupon) {
+      throw new ApiError(404, "Coupon not found");
+    }
+
+    // Moving a coupon needs access to both properties
+    await assertPropertySettingAccess(req.user, coupon.propertyId);
+    if (data.propertyId !== undefined && data.propertyId !== coupon.propertyId) {
+      await assertPropertySettingAccess(req.user, data.propertyId);
+    }
+
+    if (data.code && data.code !== coupon.code) {
+      const taken = await prisma.coupon.findUnique({ where: { code: data.code } });
+      if (taken) {
+        throw new ApiError(409, "A coupon with this code already exists");
+      }
+    }
+
+    const discountType = data.discountType ?? coupon.discountType;
+    const value = data.value ?? coupon.value;
+    if (discountType === "PERCENTAGE" && value > 100) {
+      throw new ApiError(400, "Percentage discount cannot exceed 100");
+    }
+
+    const validFrom = data.validFrom !== undefined ? data.validFrom : coupon.validFrom;
+    const validUntil = data.validUntil !== undefined ? data.validUntil : coupon.validUntil;
+    if (validFrom && validUntil && validUntil <= validFrom) {
+      throw new ApiError(400, "validUntil must be after validFrom");
+    }
+
+    const updated = await prisma.coupon.update({
+      where: { id },
+      data,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Coupon updated successfully",
+      data: updated,
+    });
+  }
+);
+
+export const deleteCoupon = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+
+    const coupon = await prisma.coupon.findUnique({
+      where: { id },
+      include: { _count: { select: { redemptions: true } } },
+    });
+
+    if (!coupon) {
+      throw new ApiError(404, "Coupon not found");
+    }
+
+    await assertPropertySettingAccess(req.user, coupon.propertyId);
+
+    // Redemptions are part of order history, so used coupons are only switched off
+    if (coupon._count.redemptions > 0) {
+      throw new ApiError(400, "This coupon has already been redeemed. Deactivate it instead.");
+    }
+
+    await prisma.coupon.delete({ where: { id } });
+
+    res.status(200).json({
+      success: true,
+      message: "Coupon deleted successfully",
+    });
+  }
+);
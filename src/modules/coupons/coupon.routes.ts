@@ -0,0 +1,34 @@
+import { Router } from "express";
+import {
+  createCoupon,
+  getAllCoupons,
+  getCouponById,
+  updateCoupon,
+  deleteCoupon,
+} from "./coupon.controllers";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { createCouponSchema, updateCouponSchema } from "./couponDTOS/coupon.dtos";
+
+const router = Router();
+
+/**
+ * Coupon Routes - All routes require ADMIN role
+ */
+
+// Create coupon - ADMIN only
+router.post("/", authenticateUserWithRole(["ADMIN"]), validate(createCouponSchema), createCoupon);
+
+// Get all coupons - ADMIN only
+router.get("/", authenticateUserWithRole(["ADMIN"]), getAllCoupons);
+
+// Get single coupon with recent redemptions - ADMIN only
+router.get("/:id", authenticateUserWithRole(["ADMIN"]), getCouponById);
+
+// Update coupon - ADMIN only
+router.patch("/:id", authenticateUserWithRole(["ADMIN"]), validate(updateCouponSchema), updateCoupon);
+
+// Delete coupon - ADMIN only
+router.delete("/:id", authenticateUserWithRole(["ADMIN"]), deleteCoupon);
+
+export default router;
@@ -0,0 +1,164 @@
+import { BookingStatus, BookingType, Coupon, Prisma, RoomType } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+
+type Tx = Prisma.TransactionClient;
+
+export interface CouponLineItem {
+  roomType?: RoomType;
+  bookingType?: BookingType;
+  /** Line amount the discount is taken from (base + tax) */
+  amount: number;
+}
+
+export interface AppliedCoupon {
+  couponId: string;
+  code: string;
+  discount: number;
+  /** Discount per line item, same order as the input items */
+  lineDiscounts: number[];
+}
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase();
+
+const isLineEligible = (coupon: Coupon, item: CouponLineItem) => {
+  if (coupon.roomTypes.length > 0 && (!item.roomType || !coupon.roomTypes.includes(item.roomType))) {
+    return false;
+  }
+  if (coupon.bookingTypes.length > 0 && (!item.bookingType || !coupon.bookingTypes.includes(item.bookingType))) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Redemptions of cancelled orders give the usage back.
+ */
+const countActiveRedemptions = (client: Tx, couponId: string, userId?: string) =>
+  client.couponRedemption.count({
+    where: {
+      couponId,
+      ...(userId && { userId }),
+      bookingOrder: { status: { not: BookingStatus.CANCELLED } },
+    },
+  });
+
+/**
+ * Validates a coupon for a user and a set of line items and works out the discount.
+ * Pass a transaction when the result is going to be redeemed: the coupon row is
+ * locked so redemption limits hold under concurrent checkouts.
+ */
+export const applyCoupon = async ({
+  tx,
+  code,
+  userId,
+  items,
+  propertyId,
+}: {
+  tx?: Tx;
+  code: string;
+  userId?: string;
+  items: CouponLineItem[];
+  /** Property the order is at; property coupons only work there */
+  propertyId?: string | null;
+}): Promise<AppliedCoupon> => {
+  const client = tx ?? prisma;
+  const normalizedCode = normalizeCouponCode(code);
+
+  const coupon = await client.coupon.findUnique({
+    where: { code: normalizedCode },
+  });
+
+  if (!coupon || !coupon.isActive) {
+    throw new ApiError(400, "This Coupon no more exist or is invalid");
+  }
+
+  if (tx) {
+    await tx.$queryRaw`SELECT id FROM "Coupon" WHERE id = ${coupon.id} FOR UPDATE`;
+  }
+
+  if (coupon.propertyId && coupon.propertyId !== propertyId) {
+    throw new ApiError(400, "This coupon is not valid at this property");
+  }
+
+  const now = new Date();
+  if (coupon.validFrom && coupon.validFrom > now) {
+    throw new ApiError(400, "This coupon is not active yet");
+  }
+  if (coupon.validUntil && coupon.validUntil < now) {
+    throw new ApiError(400, "This coupon has expired");
+  }
+
+  const orderAmount = items.reduce((sum, item) => sum + item.amount, 0);
+  if (coupon.minOrderAmount && orderAmount < coupon.minOrderAmount) {
+    throw new ApiError(400, `This coupon requires a minimum order of ${coupon.minOrderAmount}`);
+  }
+
+  if (coupon.maxRedemptions) {
+    const used = await countActiveRedemptions(client, coupon.id);
+    if (used >= coupon.maxRedemptions) {
+      throw new ApiError(400, "This coupon has reached its usage limit");
+    }
+  }
+
+  if (coupon.maxRedemptionsPerUser && userId) {
+    const usedByUser = await countActiveRedemptions(client, coupon.id, userId);
+    if (usedByUser >= coupon.maxRedemptionsPerUser) {
+      throw new ApiError(400, "You have already used this coupon");
+    }
+  }
+
+  const eligible = items.map((item) => isLineEligible(coupon, item));
+  const eligibleAmount = items.reduce(
+    (sum, item, i) => (eligible[i] ? sum + item.amount : sum),
+    0
+  );
+
+  if (eligibleAmount === 0) {
+    throw new ApiError(400, "This coupon does not apply to the selected rooms");
+  }
+
+  let discount =
+    coupon.discountType === "PERCENTAGE"
+      ? Math.floor((eligibleAmount * coupon.value) / 100)
+      : coupon.value;
+
+  if (coupon.maxDiscount) discount = Math.min(discount, coupon.maxDiscount);
+  discount = Math.min(discount, eligibleAmount);
+
+  // Spread the discount over eligible lines; the last one takes the rounding remainder
+  const lastEligible = eligible.lastIndexOf(true);
+  let allocated = 0;
+  const lineDiscounts = items.map((item, i) => {
+    if (!eligible[i]) return 0;
+    if (i === lastEligible) return discount - allocated;
+    const share = Math.floor((discount * item.amount) / eligibleAmount);
+    allocated += share;
+    return share;
+  });
+
+  return {
+    couponId: coupon.id,
+    code: coupon.code,
+    discount,
+    lineDiscounts,
+  };
+};
+
+export const recordCouponRedemption = (
+  tx: Tx,
+  {
+    couponId,
+    userId,
+    bookingOrderId,
+    discount,
+  }: {
+    couponId: string;
+    userId: string;
+    bookingOrderId: string;
+    discount: number;
+  }
+) =>
+  tx.couponRedemption.create({
+    data: { couponId, userId, bookingOrderId, discount },
+  });
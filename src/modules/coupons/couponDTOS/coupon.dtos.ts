@@ -0,0 +1,44 @@
+import { BookingType, CouponDiscountType, RoomType } from "@prisma/client";
+import { z } from "zod";
+
+const couponBaseSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(3, "Coupon code must be at least 3 characters")
+    .max(32, "Coupon code too long")
+    .regex(/^[A-Za-z0-9_-]+$/, "Coupon code can only contain letters, numbers, - and _")
+    .transform((code) => code.toUpperCase()),
+  description: z.string().max(200).optional(),
+  discountType: z.nativeEnum(CouponDiscountType, {
+        errorMap: () => ({ message: "Discount type must be PERCENTAGE or FIXED" }),
+  }),
+  value: z.number().int().min(1, "Discount value must be >= 1"),
+  maxDiscount: z.number().int().min(1).nullable().optional(),
+  minOrderAmount: z.number().int().min(0).nullable().optional(),
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.number().int().min(1).nullable().optional(),
+  maxRedemptionsPerUser: z.number().int().min(1).nullable().optional(),
+  roomTypes: z.array(z.nativeEnum(RoomType)).optional(),
+  bookingTypes: z.array(z.nativeEnum(BookingType)).optional(),
+  // Limits the coupon to one property; omit for every property
+  propertyId: z.string().uuid("Invalid propertyId").nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const createCouponSchema = couponBaseSchema
+  .refine(
+    (coupon) => coupon.discountType !== "PERCENTAGE" || coupon.value <= 100,
+    { message: "Percentage discount cannot exceed 100", path: ["value"] }
+  )
+  .refine(
+    (coupon) =>
+      !coupon.validFrom || !coupon.validUntil || coupon.validUntil > coupon.validFrom,
+    { message: "validUntil must be after validFrom", path: ["validUntil"] }
+  );
+
+export const updateCouponSchema = couponBaseSchema.partial();
+
+export type CreateCouponDTO = z.infer<typeof createCouponSchema>;
+export type UpdateCouponDTO = z.infer<typeof updateCouponSchema>;
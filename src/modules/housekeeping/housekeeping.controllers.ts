@@ -0,0 +1,215 @@
+import { NextFunction, Request, Response } from "express";
+import { Role } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { assertPropertyAccess, resolvePropertyScope } from "../properties/property.service";
+import {
+  assertAssignableCoordinator,
+  assignTask,
+  createManualTask,
+  housekeepingTaskInclude,
+  updateChecklistItem,
+  updateTaskStatus,
+} from "./housekeeping.service";
+import {
+  AssignHousekeepingTaskDTO,
+  CreateHousekeepingTaskDTO,
+  UpdateChecklistItemDTO,
+  UpdateHousekeepingStatusDTO,
+} from "./housekeepingDTOS/housekeeping.dtos";
+
+/**
+ * Loads a task and checks the user manages its property.
+ */
+const findAccessibleTask = async (req: Request, taskId: string) => {
+  const task = await prisma.housekeepingTask.findUnique({
+    where: { id: taskId },
+    include: housekeepingTaskInclude,
+  });
+
+  if (!task) {
+    throw new ApiError(404, "Housekeeping task not found");
+  }
+
+  await assertPropertyAccess(req.user, task.room.propertyId);
+  return task;
+};
+
+/**
+ * GET /housekeeping
+ * Filters: status, roomId, assignedToId, mine=true
+ */
+export const getHousekeepingTasks = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const {
+      status = "",
+      roomId = "",
+      assignedToId = "",
+      mine,
+      page = "1",
+      limit = "10",
+    } = req.query as Record<string, string>;
+
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(100, Math.max(Number(limit) || 10, 1));
+    const skip = (pageNumber - 1) * pageSize;
+
+    const scope = await resolvePropertyScope(req);
+    const where: any = {};
+
+    if (scope) {
+      where.room = { propertyId: { in: scope } };
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (roomId) {
+      where.roomId = roomId;
+    }
+
+    if (mine === "true") {
+      where.assignedToId = req.user?.userId;
+    } else if (assignedToId) {
+      where.assignedToId = assignedToId;
+    }
+
+    const [tasks, total] = await Promise.all([
+      prisma.housekeepingTask.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: [{ dueAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+        include: housekeepingTaskInclude,
+      }),
+      prisma.housekeepingTask.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: "Housekeeping tasks fetched successfully",
+      data: {
+        items: tasks,
+        total,
+        page: pageNumber,
+        limit: pageSize,
+      },
+    });
+  }
+);
+
+/**
+ * GET /housekeeping/:id
+ */
+export const getHousekeepingTask = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const task = await findAccessibleTask(req, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Housekeeping task fetched successfully",
+      data: task,
+    });
+  }
+);
+
+/**
+ * POST /housekeeping
+ */
+export const createHousekeepingTask = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const data = req.body as CreateHousekeepingTaskDTO;
+
+    const room = await prisma.room.findUnique({
+      where: { id: data.roomId },
+      select: { propertyId: true },
+    });
+
+    if (!room) {
+      throw new ApiError(404, "Room not found");
+    }
+
+    await assertPropertyAccess(req.user, room.propertyId);
+
+    if (data.assignedToId) {
+      await assertAssignableCoordinator(data.assignedToId, room.propertyId);
+    }
+
+    const task = await createManualTask({ ...data, createdById: req.user?.userId });
+
+    res.status(201).json({
+      success: true,
+      message: "Housekeeping task created successfully",
+      data: task,
+    });
+  }
+);
+
+/**
+ * PATCH /housekeeping/:id/assign
+ */
+export const assignHousekeepingTask = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { assignedToId } = req.body as AssignHousekeepingTaskDTO;
+    const task = await findAccessibleTask(req, req.params.id);
+
+    if (assignedToId) {
+      await assertAssignableCoordinator(assignedToId, task.room.propertyId);
+    }
+
+    const updated = await assignTask(task.id, assignedToId);
+
+    res.status(200).json({
+      success: true,
+      message: "Housekeeping task assigned successfully",
+      data: updated,
+    });
+  }
+);
+
+/**
+ * PATCH /housekeeping/:id/status
+ * Coordinators can only move tasks assigned to them
+ */
+export const updateHousekeepingStatus = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { status } = req.body as UpdateHousekeepingStatusDTO;
+    const task = await findAccessibleTask(req, req.params.id);
+
+    if (req.user?.role === Role.COORDINATOR && task.assignedToId && task.assignedToId !== req.user.userId) {
+      throw new ApiError(403, "This task is assigned to someone else");
+    }
+
+    const updated = await updateTaskStatus(task.id, status);
+
+    res.status(200).json({
+      success: true,
+      message: "Housekeeping task updated successfully",
+      data: updated,
+    });
+  }
+);
+
+/**
+ * PATCH /housekeeping/:id/checklist
+ */
+export const updateHousekeepingChecklist = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { index, done } = req.body as UpdateChecklistItemDTO;
+    const task = await findAccessibleTask(req, req.params.id);
+
+    if (req.user?.role === Role.COORDINATOR && task.assignedToId && task.assignedToId !== req.user.userId) {
+      throw new ApiError(403, "This task is assigned to someone else");
+    }
+
+    const updated = await updateChecklistItem(task.id, index, done);
+
+    res.status(200).json({
+      success: true,
+      message: "Checklist updated successfully",
+      data: updated,
+    });
+  }
+);
@@ -0,0 +1,63 @@
+import { Router } from "express";
+import {
+  getHousekeepingTasks,
+  getHousekeepingTask,
+  createHousekeepingTask,
+  assignHousekeepingTask,
+  updateHousekeepingStatus,
+  updateHousekeepingChecklist,
+} from "./housekeeping.controllers";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+  assignHousekeepingTaskSchema,
+  createHousekeepingTaskSchema,
+  updateChecklistItemSchema,
+  updateHousekeepingStatusSchema,
+} from "./housekeepingDTOS/housekeeping.dtos";
+
+const router = Router();
+
+/**
+ * Housekeeping Routes
+ */
+
+// List tasks - ADMIN or COORDINATOR only
+router.get("/", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), getHousekeepingTasks);
+
+// Get single task - ADMIN or COORDINATOR only
+router.get("/:id", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), getHousekeepingTask);
+
+// Create a task by hand - ADMIN or COORDINATOR only
+router.post(
+  "/",
+  authenticateUserWithRole(["ADMIN", "COORDINATOR"]),
+  validate(createHousekeepingTaskSchema),
+  createHousekeepingTask
+);
+
+// Assign a task to a coordinator - ADMIN only
+router.patch(
+  "/:id/assign",
+  authenticateUserWithRole(["ADMIN"]),
+  validate(assignHousekeepingTaskSchema),
+  assignHousekeepingTask
+);
+
+// Start, finish or cancel a task - ADMIN or COORDINATOR only
+router.patch(
+  "/:id/status",
+  authenticateUserWithRole(["ADMIN", "COORDINATOR"]),
+  validate(updateHousekeepingStatusSchema),
+  updateHousekeepingStatus
+);
+
+// Tick a checklist item - ADMIN or COORDINATOR only
+router.patch(
+  "/:id/checklist",
+  authenticateUserWithRole(["ADMIN", "COORDINATOR"]),
+  validate(updateChecklistItemSchema),
+  updateHousekeepingChecklist
+);
+
+export default router;
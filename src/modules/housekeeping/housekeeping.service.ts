@@ -0,0 +1,326 @@
+import {
+  BookingStatus,
+  HousekeepingTaskStatus,
+  HousekeepingTaskType,
+  Prisma,
+  Role,
+} from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { io } from "../../config/socket.server";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+
+type Tx = Prisma.TransactionClient;
+
+export interface ChecklistItem {
+  label: string;
+  done: boolean;
+}
+
+export const OPEN_TASK_STATUSES: HousekeepingTaskStatus[] = [
+  HousekeepingTaskStatus.OPEN,
+  HousekeepingTaskStatus.IN_PROGRESS,
+];
+
+const TURNOVER_CHECKLIST = [
+  "Strip and change bed linen",
+  "Clean washroom",
+  "Dust surfaces and mop floor",
+  "Empty bins",
+  "Check lights, fans and fixtures",
+  "Restock toiletries",
+];
+
+// Where each status may move to; DONE and CANCELLED are final
+const ALLOWED_TRANSITIONS: Record<HousekeepingTaskStatus, HousekeepingTaskStatus[]> = {
+  OPEN: [HousekeepingTaskStatus.IN_PROGRESS, HousekeepingTaskStatus.DONE, HousekeepingTaskStatus.CANCELLED],
+  IN_PROGRESS: [HousekeepingTaskStatus.OPEN, HousekeepingTaskStatus.DONE, HousekeepingTaskStatus.CANCELLED],
+  DONE: [],
+  CANCELLED: [],
+};
+
+export const housekeepingTaskInclude = {
+  room: { select: { id: true, title: true, propertyId: true } },
+  beds: { select: { id: true, label: true } },
+  booking: { select: { id: true, checkIn: true, checkOut: true, status: true } },
+  assignedTo: { select: { id: true, name: true } },
+} satisfies Prisma.HousekeepingTaskInclude;
+
+export type HousekeepingTaskWithDetails = Prisma.HousekeepingTaskGetPayload<{
+  include: typeof housekeepingTaskInclude;
+}>;
+
+export const toChecklist = (labels: string[]): ChecklistItem[] =>
+  labels.map((label) => ({ label, done: false }));
+
+/**
+ * Whether a booking status change leaves beds a guest has used: the stay
+ * completed, or a confirmed stay was cancelled after check-in.
+ */
+export const needsTurnover = (
+  booking: { status: BookingStatus; checkIn: Date },
+  newStatus: BookingStatus,
+  now: Date = new Date()
+) => {
+  if (newStatus === booking.status) return false;
+  if (newStatus === BookingStatus.COMPLETED) return true;
+
+  return (
+    newStatus === BookingStatus.CANCELLED &&
+    booking.status === BookingStatus.CONFIRMED &&
+    booking.checkIn <= now
+  );
+};
+
+/**
+ * Marks beds not ready while an open task covers them, ready otherwise.
+ */
+const refreshBedReadiness = async (tx: Tx, bedIds: string[]) => {
+  if (bedIds.length === 0) return;
+
+  await tx.bed.updateMany({
+    where: { id: { in: bedIds } },
+    data: { isReady: true },
+  });
+  await tx.bed.updateMany({
+    where: {
+      id: { in: bedIds },
+      housekeepingTasks: { some: { status: { in: OPEN_TASK_STATUSES } } },
+    },
+    data: { isReady: false },
+  });
+};
+
+/**
+ * Raises the turnover task for a booking's beds, once per booking.
+ * Returns the task id, or null when the booking already has one.
+ */
+export const createTurnoverTask = async (tx: Tx, bookingId: string): Promise<string | null> => {
+  const existing = await tx.housekeepingTask.findFirst({
+    where: { bookingId, type: HousekeepingTaskType.TURNOVER },
+    select: { id: true },
+  });
+  if (existing) return null;
+
+  const booking = await tx.booking.findUnique({
+    where: { id: bookingId },
+    select: { roomId: true, beds: { select: { id: true } } },
+  });
+  if (!booking) return null;
+
+  // Bookings made before beds were tracked turn over the whole room
+  const beds =
+    booking.beds.length > 0
+      ? booking.beds
+      : await tx.bed.findMany({ where: { roomId: booking.roomId }, select: { id: true } });
+
+  const task = await tx.housekeepingTask.create({
+    data: {
+      roomId: booking.roomId,
+      bookingId,
+      type: HousekeepingTaskType.TURNOVER,
+      checklist: toChecklist(TURNOVER_CHECKLIST) as unknown as Prisma.InputJsonValue,
+      beds: { connect: beds.map((bed) => ({ id: bed.id })) },
+    },
+  });
+
+  await refreshBedReadiness(tx, beds.map((bed) => bed.id));
+  return task.id;
+};
+
+/**
+ * Sends tasks to the admins socket room. Call after the transaction that
+ * changed them has committed.
+ */
+export const publishHousekeepingTasks = async (taskIds: string[]) => {
+  if (taskIds.length === 0 || !io) return;
+
+  try {
+    const tasks = await prisma.housekeepingTask.findMany({
+      where: { id: { in: taskIds } },
+      include: housekeepingTaskInclude,
+    });
+
+    for (const task of tasks) {
+      io.to("admins").emit("housekeeping:task", task);
+    }
+  } catch (error) {
+    logger.error("Failed to publish housekeeping tasks", { taskIds, error });
+  }
+};
+
+export const createManualTask = async ({
+  roomId,
+  bedIds,
+  notes,
+  checklist,
+  dueAt,
+  assignedToId,
+  createdById,
+}: {
+  roomId: string;
+  bedIds?: string[];
+  notes?: string;
+  checklist?: string[];
+  dueAt?: Date;
+  assignedToId?: string;
+  createdById?: string;
+}) => {
+  const taskId = await prisma.$transaction(async (tx) => {
+    const beds = await tx.bed.findMany({
+      where: { roomId, ...(bedIds && { id: { in: bedIds } }) },
+      select: { id: true },
+    });
+
+    if (bedIds && beds.length !== new Set(bedIds).size) {
+      throw new ApiError(400, "Selected bed does not belong to this room");
+    }
+
+    const task = await tx.housekeepingTask.create({
+      data: {
+        roomId,
+        type: HousekeepingTaskType.MANUAL,
+        notes,
+        dueAt,
+        checklist: toChecklist(checklist ?? TURNOVER_CHECKLIST) as unknown as Prisma.InputJsonValue,
+        createdById,
+        ...(assignedToId && { assignedToId, assignedAt: new Date() }),
+        beds: { connect: beds },
+      },
+    });
+
+    await refreshBedReadiness(tx, beds.map((bed) => bed.id));
+    return task.id;
+  });
+
+  await publishHousekeepingTasks([taskId]);
+  return prisma.housekeepingTask.findUniqueOrThrow({
+    where: { id: taskId },
+    include: housekeepingTaskInclude,
+  });
+};
+
+/**
+ * Throws unless the user is a COORDINATOR who works at the room's property
+ * (or at every property).
+ */
+export const assertAssignableCoordinator = async (userId: string, propertyId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, properties: { select: { id: true } } },
+  });
+
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+
+  if (user.role !== Role.COORDINATOR) {
+    throw new ApiError(400, "Tasks can only be assigned to COORDINATOR users");
+  }
+
+  if (!user.properties.some((property) => property.id === propertyId)) {
+    throw new ApiError(400, "This coordinator does not work at the room's property");
+  }
+};
+
+export const assignTask = async (taskId: string, assignedToId: string | null) => {
+  const task = await prisma.housekeepingTask.findUnique({ where: { id: taskId } });
+  if (!task) {
+    throw new ApiError(404, "Housekeeping task not found");
+  }
+
+  if (!OPEN_TASK_STATUSES.includes(task.status)) {
+    throw new ApiError(409, "Finished tasks cannot be reassigned");
+  }
+
+  await prisma.housekeepingTask.update({
+    where: { id: taskId },
+    data: { assignedToId, assignedAt: assignedToId ? new Date() : null },
+  });
+
+  await publishHousekeepingTasks([taskId]);
+  return prisma.housekeepingTask.findUniqueOrThrow({
+    where: { id: taskId },
+    include: housekeepingTaskInclude,
+  });
+};
+
+export const updateTaskStatus = async (taskId: string, status: HousekeepingTaskStatus) => {
+  await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "HousekeepingTask" WHERE id = ${taskId} FOR UPDATE`;
+
+    const task = await tx.housekeepingTask.findUnique({
+      where: { id: taskId },
+      include: { beds: { select: { id: true } } },
+    });
+
+    if (!task) {
+      throw new ApiError(404, "Housekeeping task not found");
+    }
+
+    if (!ALLOWED_TRANSITIONS[task.status].includes(status)) {
+      throw new ApiError(409, `Task cannot move from ${task.status} to ${status}`);
+    }
+
+    const now = new Date();
+    await tx.housekeepingTask.update({
+      where: { id: taskId },
+      data: {
+        status,
+        ...(status === HousekeepingTaskStatus.IN_PROGRESS && { startedAt: task.startedAt ?? now }),
+        ...(status === HousekeepingTaskStatus.DONE && {
+          startedAt: task.startedAt ?? now,
+          completedAt: now,
+        }),
+        ...(status === HousekeepingTaskStatus.CANCELLED && { cancelledAt: now }),
+      },
+    });
+
+    await refreshBedReadiness(tx, task.beds.map((bed) => bed.id));
+  });
+
+  await publishHousekeepingTasks([taskId]);
+  return prisma.housekeepingTask.findUniqueOrThrow({
+    where: { id: taskId },
+    include: housekeepingTaskInclude,
+  });
+};
+
+/**
+ * Ticks or unticks one checklist item by its position.
+ */
+export const updateChecklistItem = async (taskId: string, index: number, done: boolean) => {
+  const task = await prisma.housekeepingTask.findUnique({ where: { id: taskId } });
+  if (!task) {
+    throw new ApiError(404, "Housekeeping task not found");
+  }
+
+  if (!OPEN_TASK_STATUSES.includes(task.status)) {
+    throw new ApiError(409, "Finished tasks cannot be changed");
+  }
+
+  const checklist = task.checklist as unknown as ChecklistItem[];
+  if (!checklist[index]) {
+    throw new ApiError(400, "Checklist item not found");
+  }
+
+  checklist[index] = { ...checklist[index], done };
+
+  await prisma.housekeepingTask.update({
+    where: { id: taskId },
+    data: {
+      checklist: checklist as unknown as Prisma.InputJsonValue,
+      // Working through the list means the task has started
+      ...(task.status === HousekeepingTaskStatus.OPEN && {
+        status: HousekeepingTaskStatus.IN_PROGRESS,
+        startedAt: task.startedAt ?? new Date(),
+      }),
+    },
+  });
+
+  await publishHousekeepingTasks([taskId]);
+  return prisma.housekeepingTask.findUniqueOrThrow({
+    where: { id: taskId },
+    include: housekeepingTaskInclude,
+  });
+};
@@ -0,0 +1,34 @@
+import { HousekeepingTaskStatus } from "@prisma/client";
+import { z } from "zod";
+
+export const createHousekeepingTaskSchema = z.object({
+  roomId: z.string().uuid("Invalid roomId"),
+  // Beds to clean; omit for every bed in the room
+  bedIds: z.array(z.string().uuid("Invalid bed id")).min(1).optional(),
+  notes: z.string().trim().max(1000).optional(),
+  // Checklist item labels; omit for the standard turnover list
+  checklist: z.array(z.string().trim().min(1).max(200)).min(1).max(30).optional(),
+  dueAt: z.coerce.date({ errorMap: () => ({ message: "dueAt must be a valid date" }) }).optional(),
+  assignedToId: z.string().uuid("Invalid assignedToId").optional(),
+});
+
+export const assignHousekeepingTaskSchema = z.object({
+  // null leaves the task unassigned
+  assignedToId: z.string().uuid("Invalid assignedToId").nullable(),
+});
+
+export const updateHousekeepingStatusSchema = z.object({
+  status: z.nativeEnum(HousekeepingTaskStatus, {
+    errorMap: () => ({ message: "Status must be OPEN, IN_PROGRESS, DONE or CANCELLED" }),
+  }),
+});
+
+export const updateChecklistItemSchema = z.object({
+  index: z.number().int().min(0),
+  done: z.boolean(),
+});
+
+export type CreateHousekeepingTaskDTO = z.infer<typeof createHousekeepingTaskSchema>;
+export type AssignHousekeepingTaskDTO = z.infer<typeof assignHousekeepingTaskSchema>;
+export type UpdateHousekeepingStatusDTO = z.infer<typeof updateHousekeepingStatusSchema>;
+export type UpdateChecklistItemDTO = z.infer<typeof updateChecklistItemSchema>;
@@ -0,0 +1,224 @@
+import { NextFunction, Request, Response } from "express";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import {
+  deleteKycDocument,
+  getKycDocumentUrl as createKycDocumentUrl,
+  kycDocumentSelect,
+  reviewKycDocument as recordKycReview,
+  uploadKycDocument,
+} from "./kyc.service";
+import { ReviewKycDocumentDTO, UploadKycDocumentDTO } from "./kycDTOS/kyc.dtos";
+
+/**
+ * POST /kyc/me/documents
+ * Multipart: type, documentNumber, expiresAt and the `file`
+ */
+export const uploadMyDocument = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+    const { type, documentNumber, expiresAt } = req.body as UploadKycDocumentDTO;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    if (!req.file) {
+      throw new ApiError(400, "Document file is required");
+    }
+
+    const document = await uploadKycDocument({
+      userId,
+      type,
+      file: req.file,
+      documentNumber,
+      expiresAt,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Document uploaded for verification",
+      data: document,
+    });
+  }
+);
+
+/**
+ * GET /kyc/me/documents
+ */
+export const getMyDocuments = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const documents = await prisma.kycDocument.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      select: kycDocumentSelect,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Documents fetched successfully",
+      data: documents,
+    });
+  }
+);
+
+/**
+ * GET /kyc/me/documents/:id/url
+ */
+export const getMyDocumentUrl = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const link = await createKycDocumentUrl(req.params.id, userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Download link created",
+      data: link,
+    });
+  }
+);
+
+/**
+ * DELETE /kyc/me/documents/:id
+ */
+export const deleteMyDocument = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    await deleteKycDocument(req.params.id, userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Document deleted successfully",
+    });
+  }
+);
+
+/**
+ * GET /kyc/documents
+ * Filters: status, type, userId, search (resident name / email)
+ */
+export const getKycDocuments = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const {
+      status = "",
+      type = "",
+      userId = "",
+      search = "",
+      page = "1",
+      limit = "10",
+    } = req.query as Record<string, string>;
+
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(100, Math.max(Number(limit) || 10, 1));
+    const skip = (pageNumber - 1) * pageSize;
+
+    const where: any = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (userId) {
+      where.userId = userId;
+    }
+
+    if (search) {
+      where.user = {
+        OR: [
+          { name: { contains: search, mode: "insensitive" } },
+          { email: { contains: search, mode: "insensitive" } },
+        ],
+      };
+    }
+
+    const [documents, total] = await Promise.all([
+      prisma.kycDocument.findMany({
+        where,
+        // Oldest pending first, so the review queue is worked in order
+        orderBy: [{ status: "asc" }, { createdAt: "asc" }],
+        skip,
+        take: pageSize,
+        select: {
+          ...kycDocumentSelect,
+          user: { select: { id: true, name: true, email: true, phone: true } },
+        },
+      }),
+      prisma.kycDocument.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: "Documents fetched successfully",
+      data: {
+        items: documents,
+        total,
+        page: pageNumber,
+        limit: pageSize,
+      },
+    });
+  }
+);
+
+/**
+ * GET /kyc/documents/:id/url
+ */
+export const getKycDocumentUrl = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const link = await createKycDocumentUrl(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: "Download link created",
+      data: link,
+    });
+  }
+);
+
+/**
+ * PATCH /kyc/documents/:id/review
+ */
+export const reviewKycDocument = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const reviewerId = req.user?.userId;
+    const { status, rejectionReason, expiresAt } = req.body as ReviewKycDocumentDTO;
+
+    if (!reviewerId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const document = await recordKycReview({
+      documentId: req.params.id,
+      reviewerId,
+      status,
+      rejectionReason,
+      expiresAt,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: `Document marked ${status}`,
+      data: document,
+    });
+  }
+);
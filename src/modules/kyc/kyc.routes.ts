@@ -0,0 +1,45 @@
+import { Router } from "express";
+import {
+  uploadMyDocument,
+  getMyDocuments,
+  getMyDocumentUrl,
+  deleteMyDocument,
+  getKycDocuments,
+  getKycDocumentUrl,
+  reviewKycDocument,
+} from "./kyc.controllers";
+import authenticateUser from "../../middlewares/auth.middleware";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { uploadDocs } from "../../config/multer";
+import { reviewKycDocumentSchema, uploadKycDocumentSchema } from "./kycDTOS/kyc.dtos";
+
+const router = Router();
+
+/**
+ * KYC Document Routes
+ */
+
+// Own documents - authenticated users
+router.get("/me/documents", authenticateUser, getMyDocuments);
+router.post(
+  "/me/documents",
+  authenticateUser,
+  uploadDocs.single("file"),
+  validate(uploadKycDocumentSchema),
+  uploadMyDocument
+);
+router.get("/me/documents/:id/url", authenticateUser, getMyDocumentUrl);
+router.delete("/me/documents/:id", authenticateUser, deleteMyDocument);
+
+// Review queue - ADMIN only
+router.get("/documents", authenticateUserWithRole(["ADMIN"]), getKycDocuments);
+router.get("/documents/:id/url", authenticateUserWithRole(["ADMIN"]), getKycDocumentUrl);
+router.patch(
+  "/documents/:id/review",
+  authenticateUserWithRole(["ADMIN"]),
+  validate(reviewKycDocumentSchema),
+  reviewKycDocument
+);
+
+export default router;
@@ -0,0 +1,230 @@
+import { KycDocumentStatus, KycDocumentType, Prisma } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+import { buildStorageKey, getPrivateStorage } from "../../utils/storage/storage.factory";
+import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+
+// Signed download links stay valid this long. Override with KYC_URL_TTL_SECONDS.
+const DEFAULT_URL_TTL_SECONDS = 5 * 60;
+
+const DOCUMENT_LABELS: Record<KycDocumentType, string> = {
+  CNIC_FRONT: "CNIC (front)",
+  CNIC_BACK: "CNIC (back)",
+  STUDENT_ID: "Student ID",
+  GUARDIAN_CNIC: "Guardian CNIC",
+};
+
+export const kycDocumentSelect = {
+  id: true,
+  userId: true,
+  type: true,
+  status: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  documentNumber: true,
+  expiresAt: true,
+  reviewedAt: true,
+  rejectionReason: true,
+  createdAt: true,
+  updatedAt: true,
+  reviewedBy: { select: { id: true, name: true } },
+} satisfies Prisma.KycDocumentSelect;
+
+const getUrlTtlSeconds = () => Number(process.env.KYC_URL_TTL_SECONDS) || DEFAULT_URL_TTL_SECONDS;
+
+export const uploadKycDocument = async ({
+  userId,
+  type,
+  file,
+  documentNumber,
+  expiresAt,
+}: {
+  userId: string;
+  type: KycDocumentType;
+  file: Express.Multer.File;
+  documentNumber?: string;
+  expiresAt?: Date;
+}) => {
+  if (expiresAt && expiresAt <= new Date()) {
+    throw new ApiError(400, "This document has already expired");
+  }
+
+  const storage = getPrivateStorage();
+  const storageKey = buildStorageKey(`kyc/${userId}`, file.mimetype);
+
+  await storage.put(storageKey, file.buffer, { contentType: file.mimetype });
+
+  try {
+    return await prisma.kycDocument.create({
+      data: {
+        userId,
+        type,
+        storageKey,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+        documentNumber,
+        expiresAt,
+      },
+      select: kycDocumentSelect,
+    });
+  } catch (error) {
+    // Do not leave an unreferenced identity document behind
+    await storage.remove(storageKey).catch((removeError) => {
+      logger.error("Failed to remove orphaned KYC file", { storageKey, error: removeError });
+    });
+    throw error;
+  }
+};
+
+/**
+ * Time-limited link to the document's file.
+ */
+export const getKycDocumentUrl = async (documentId: string, userId?: string) => {
+  const document = await prisma.kycDocument.findUnique({
+    where: { id: documentId },
+    select: { userId: true, storageKey: true, fileName: true },
+  });
+
+  // Someone else's document is reported as missing, not forbidden
+  if (!document || (userId && document.userId !== userId)) {
+    throw new ApiError(404, "Document not found");
+  }
+
+  const expiresInSeconds = getUrlTtlSeconds();
+  const url = await getPrivateStorage().presignDownload(document.storageKey, {
+    expiresInSeconds,
+    fileName: document.fileName,
+  });
+
+  return { url, expiresAt: new Date(Date.now() + expiresInSeconds * 1000) };
+};
+
+/**
+ * Residents may withdraw documents that have not been verified.
+ */
+export const deleteKycDocument = async (documentId: string, userId: string) => {
+  const document = await prisma.kycDocument.findUnique({ where: { id: documentId } });
+
+  if (!document || document.userId !== userId) {
+    throw new ApiError(404, "Document not found");
+  }
+
+  if (document.status === KycDocumentStatus.VERIFIED) {
+    throw new ApiError(409, "Verified documents cannot be deleted, contact the hostel office");
+  }
+
+  await prisma.kycDocument.delete({ where: { id: documentId } });
+  await getPrivateStorage().remove(document.storageKey);
+};
+
+export const reviewKycDocument = async ({
+  documentId,
+  reviewerId,
+  status,
+  rejectionReason,
+  expiresAt,
+}: {
+  documentId: string;
+  reviewerId: string;
+  status: "VERIFIED" | "REJECTED";
+  rejectionReason?: string;
+  expiresAt?: Date;
+}) => {
+  const document = await prisma.kycDocument.findUnique({ where: { id: documentId } });
+
+  if (!document) {
+    throw new ApiError(404, "Document not found");
+  }
+
+  // Pending documents get a decision; a verified one can still be revoked
+  const reviewable =
+    document.status === KycDocumentStatus.PENDING ||
+    (document.status === KycDocumentStatus.VERIFIED && status === KycDocumentStatus.REJECTED);
+
+  if (!reviewable) {
+    throw new ApiError(409, `A ${document.status} document cannot be marked ${status}`);
+  }
+
+  const effectiveExpiry = expiresAt ?? document.expiresAt;
+  if (status === KycDocumentStatus.VERIFIED && effectiveExpiry && effectiveExpiry <= new Date()) {
+    throw new ApiError(400, "An expired document cannot be verified");
+  }
+
+  const claimed = await prisma.kycDocument.updateMany({
+    where: { id: documentId, status: document.status },
+    data: {
+      status,
+      rejectionReason: status === KycDocumentStatus.REJECTED ? rejectionReason : null,
+      expiresAt: effectiveExpiry,
+      reviewedById: reviewerId,
+      reviewedAt: new Date(),
+    },
+  });
+
+  if (claimed.count === 0) {
+    throw new ApiError(409, "Document was reviewed by another request");
+  }
+
+  const label = DOCUMENT_LABELS[document.type];
+  try {
+    await publishToQueue("KYC.REVIEWED", {
+      userId: document.userId,
+      title: status === KycDocumentStatus.VERIFIED ? "Document Verified" : "Document Rejected",
+      audience: "USER",
+      severity: status === KycDocumentStatus.VERIFIED ? "SUCCESS" : "WARNING",
+      message:
+        status === KycDocumentStatus.VERIFIED
+          ? `Your ${label} has been verified.`
+          : `Your ${label} was rejected: ${rejectionReason}. Please upload it again.`,
+      documentId,
+    });
+  } catch (error) {
+    logger.error("Failed to publish KYC.REVIEWED", error, { documentId });
+  }
+
+  return prisma.kycDocument.findUniqueOrThrow({
+    where: { id: documentId },
+    select: kycDocumentSelect,
+  });
+};
+
+/**
+ * Moves verified documents past their expiry date to EXPIRED and asks the
+ * resident for a new copy. Returns how many expired.
+ */
+export const expireKycDocuments = async (now: Date = new Date()) => {
+  const due = await prisma.kycDocument.findMany({
+    where: { status: KycDocumentStatus.VERIFIED, expiresAt: { lte: now } },
+    select: { id: true, userId: true, type: true },
+    take: 200,
+  });
+
+  let expired = 0;
+  for (const document of due) {
+    const claimed = await prisma.kycDocument.updateMany({
+      where: { id: document.id, status: KycDocumentStatus.VERIFIED },
+      data: { status: KycDocumentStatus.EXPIRED },
+    });
+    if (claimed.count === 0) continue;
+    expired += 1;
+
+    try {
+      await publishToQueue("KYC.EXPIRED", {
+        userId: document.userId,
+        title: "Document Expired",
+        audience: "USER",
+        severity: "WARNING",
+        message: `Your ${DOCUMENT_LABELS[document.type]} has expired. Please upload a current copy.`,
+        documentId: document.id,
+      });
+    } catch (error) {
+      // The document is already expired; a missed reminder must not undo that
+      logger.error("Failed to publish KYC.EXPIRED", error, { documentId: document.id });
+    }
+  }
+
+  return expired;
+};
@@ -0,0 +1,28 @@
+import { KycDocumentType } from "@prisma/client";
+import { z } from "zod";
+
+// Multipart fields arrive as strings, so dates are coerced
+export const uploadKycDocumentSchema = z.object({
+  type: z.nativeEnum(KycDocumentType, {
+    errorMap: () => ({ message: "Type must be CNIC_FRONT, CNIC_BACK, STUDENT_ID or GUARDIAN_CNIC" }),
+  }),
+  documentNumber: z.string().trim().toUpperCase().min(1).max(30).optional(),
+  expiresAt: z.coerce.date({ errorMap: () => ({ message: "expiresAt must be a valid date" }) }).optional(),
+});
+
+export const reviewKycDocumentSchema = z
+  .object({
+    status: z.enum(["VERIFIED", "REJECTED"], {
+      errorMap: () => ({ message: "Status must be VERIFIED or REJECTED" }),
+    }),
+    rejectionReason: z.string().trim().min(1).max(500).optional(),
+    // Expiry read off the document; overrides what the resident entered
+    expiresAt: z.coerce.date({ errorMap: () => ({ message: "expiresAt must be a valid date" }) }).optional(),
+  })
+  .refine((data) => data.status !== "REJECTED" || data.rejectionReason, {
+    path: ["rejectionReason"],
+    message: "A reason is required when rejecting a document",
+  });
+
+export type UploadKycDocumentDTO = z.infer<typeof uploadKycDocumentSchema>;
+export type ReviewKycDocumentDTO = z.infer<typeof reviewKycDocumentSchema>;
@@ -0,0 +1,170 @@
+import { NextFunction, Request, Response } from "express";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { assertPropertyAccess, resolvePropertyScope } from "../properties/property.service";
+import {
+  createMaintenanceBlock as createBlock,
+  deleteMaintenanceBlock as deleteBlock,
+  getMaintenanceCalendar as buildCalendar,
+  maintenanceBlockInclude,
+  updateMaintenanceBlock as updateBlock,
+} from "./maintenance.service";
+import {
+  CreateMaintenanceBlockDTO,
+  UpdateMaintenanceBlockDTO,
+  maintenanceCalendarQuerySchema,
+} from "./maintenanceDTOS/maintenance.dtos";
+
+/**
+ * Loads the block's room and checks the user manages its property.
+ */
+const assertBlockAccess = async (req: Request, blockId: string) => {
+  const block = await prisma.maintenanceBlock.findUnique({
+    where: { id: blockId },
+    select: { room: { select: { propertyId: true } } },
+  });
+
+  if (!block) {
+    throw new ApiError(404, "Maintenance block not found");
+  }
+
+  await assertPropertyAccess(req.user, block.room.propertyId);
+};
+
+/**
+ * GET /maintenance
+ * Filters: roomId, propertyId, current=true (blocks not yet over)
+ */
+export const getMaintenanceBlocks = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { roomId, current, page = "1", limit = "10" } = req.query as Record<string, string>;
+
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(100, Math.max(Number(limit) || 10, 1));
+    const skip = (pageNumber - 1) * pageSize;
+
+    const scope = await resolvePropertyScope(req);
+    const where: any = {};
+
+    if (roomId) {
+      where.roomId = roomId;
+    }
+
+    if (scope) {
+      where.room = { propertyId: { in: scope } };
+    }
+
+    if (current === "true") {
+      where.endDate = { gt: new Date() };
+    }
+
+    const [blocks, total] = await Promise.all([
+      prisma.maintenanceBlock.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { startDate: "asc" },
+        include: {
+          ...maintenanceBlockInclude,
+          room: { select: { id: true, title: true, propertyId: true } },
+        },
+      }),
+      prisma.maintenanceBlock.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: "Maintenance blocks fetched successfully",
+      data: {
+        items: blocks,
+        total,
+        page: pageNumber,
+        limit: pageSize,
+      },
+    });
+  }
+);
+
+/**
+ * GET /maintenance/calendar?from=&to=
+ * Bookings and maintenance blocks per room for the date range
+ */
+export const getMaintenanceCalendar = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { from, to, roomId } = maintenanceCalendarQuerySchema.parse(req.query);
+    const propertyIds = await resolvePropertyScope(req);
+
+    const calendar = await buildCalendar({ from, to, roomId, propertyIds });
+
+    res.status(200).json({
+      success: true,
+      message: "Calendar fetched successfully",
+      data: calendar,
+    });
+  }
+);
+
+/**
+ * POST /maintenance
+ */
+export const createMaintenanceBlock = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const data = req.body as CreateMaintenanceBlockDTO;
+
+    const room = await prisma.room.findUnique({
+      where: { id: data.roomId },
+      select: { propertyId: true },
+    });
+
+    if (!room) {
+      throw new ApiError(404, "Room not found");
+    }
+
+    await assertPropertyAccess(req.user, room.propertyId);
+
+    const block = await createBlock({ ...data, createdById: req.user?.userId });
+
+    res.status(201).json({
+      success: true,
+      message: "Maintenance block created successfully",
+      data: block,
+    });
+  }
+);
+
+/**
+ * PATCH /maintenance/:id
+ */
+export const updateMaintenanceBlock = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    await assertBlockAccess(req, id);
+
+    const block = await updateBlock(id, req.body as UpdateMaintenanceBlockDTO);
+
+    res.status(200).json({
+      success: true,
+      message: "Maintenance block updated successfully",
+      data: block,
+    });
+  }
+);
+
+/**
+ * DELETE /maintenance/:id
+ * Ends the block early; the beds can be booked again straight away
+ */
+export const deleteMaintenanceBlock = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    await assertBlockAccess(req, id);
+
+    await deleteBlock(id);
+
+    res.status(200).json({
+      success: true,
+      message: "Maintenance block deleted successfully",
+    });
+  }
+);
@@ -0,0 +1,44 @@
+import { Router } from "express";
+import {
+  getMaintenanceBlocks,
+  getMaintenanceCalendar,
+  createMaintenanceBlock,
+  updateMaintenanceBlock,
+  deleteMaintenanceBlock,
+} from "./maintenance.controllers";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { createMaintenanceBlockSchema, updateMaintenanceBlockSchema } from "./maintenanceDTOS/maintenance.dtos";
+
+const router = Router();
+
+/**
+ * Maintenance Routes
+ */
+
+// Bookings and maintenance blocks per room for a date range - ADMIN or COORDINATOR only
+router.get("/calendar", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), getMaintenanceCalendar);
+
+// List maintenance blocks - ADMIN or COORDINATOR only
+router.get("/", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), getMaintenanceBlocks);
+
+// Block a room or some of its beds - ADMIN or COORDINATOR only
+router.post(
+  "/",
+  authenticateUserWithRole(["ADMIN", "COORDINATOR"]),
+  validate(createMaintenanceBlockSchema),
+  createMaintenanceBlock
+);
+
+// Change a block's reason, dates or beds - ADMIN or COORDINATOR only
+router.patch(
+  "/:id",
+  authenticateUserWithRole(["ADMIN", "COORDINATOR"]),
+  validate(updateMaintenanceBlockSchema),
+  updateMaintenanceBlock
+);
+
+// Remove a block - ADMIN or COORDINATOR only
+router.delete("/:id", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), deleteMaintenanceBlock);
+
+export default router;
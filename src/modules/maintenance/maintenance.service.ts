@@ -0,0 +1,290 @@
+import { Prisma } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+import {
+  SEAT_HOLDING_STATUSES,
+  addUtcDays,
+  bumpRoomsCacheVersion,
+  refreshRoomSeatCounters,
+  startOfUtcDay,
+  toStayWindow,
+} from "../rooms/room.service";
+
+type Tx = Prisma.TransactionClient;
+
+export const maintenanceBlockInclude = {
+  beds: { select: { id: true, label: true } },
+  createdBy: { select: { id: true, name: true } },
+} satisfies Prisma.MaintenanceBlockInclude;
+
+/**
+ * Throws unless every bed belongs to the room.
+ */
+const assertRoomBeds = async (tx: Tx, roomId: string, bedIds: string[]) => {
+  const unique = [...new Set(bedIds)];
+  const found = await tx.bed.count({ where: { id: { in: unique }, roomId } });
+
+  if (found !== unique.length) {
+    throw new ApiError(400, "Selected bed does not belong to this room");
+  }
+
+  return unique;
+};
+
+/**
+ * Throws when a booking holds any of the affected beds (every bed for a
+ * whole-room block) during the window. Guests are moved or cancelled first.
+ */
+const assertNoBookingsInWindow = async (
+  tx: Tx,
+  roomId: string,
+  start: Date,
+  end: Date,
+  bedIds: string[] | null
+) => {
+  const bookings = await tx.booking.findMany({
+    where: {
+      roomId,
+      status: { in: SEAT_HOLDING_STATUSES },
+      checkIn: { lt: end },
+      OR: [{ checkOut: null }, { checkOut: { gt: start } }],
+      ...(bedIds && { beds: { some: { id: { in: bedIds } } } }),
+    },
+    select: { id: true },
+  });
+
+  if (bookings.length > 0) {
+    throw new ApiError(
+      409,
+      `${bookings.length} booking(s) hold these beds during the maintenance window, move them to other beds first`
+    );
+  }
+};
+
+export const createMaintenanceBlock = async ({
+  roomId,
+  reason,
+  startDate,
+  endDate,
+  bedIds,
+  createdById,
+}: {
+  roomId: string;
+  reason: string;
+  startDate: Date;
+  endDate: Date;
+  bedIds?: string[];
+  createdById?: string;
+}) => {
+  const { start, end } = toStayWindow(startDate, endDate);
+
+  const block = await prisma.$transaction(async (tx) => {
+    // Same lock as bookings take, so no booking slips in while we check
+    await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${roomId} FOR UPDATE`;
+
+    const beds = bedIds ? await assertRoomBeds(tx, roomId, bedIds) : null;
+    await assertNoBookingsInWindow(tx, roomId, start, end!, beds);
+
+    const created = await tx.maintenanceBlock.create({
+      data: {
+        roomId,
+        reason,
+        startDate: start,
+        endDate: end!,
+        wholeRoom: beds === null,
+        createdById,
+        ...(beds && { beds: { connect: beds.map((id) => ({ id })) } }),
+      },
+      include: maintenanceBlockInclude,
+    });
+
+    await refreshRoomSeatCounters(tx, roomId);
+    return created;
+  });
+
+  await bumpRoomsCacheVersion();
+  return block;
+};
+
+export const updateMaintenanceBlock = async (
+  blockId: string,
+  data: {
+    reason?: string;
+    startDate?: Date;
+    endDate?: Date;
+    bedIds?: string[] | null;
+  }
+) => {
+  const block = await prisma.$transaction(async (tx) => {
+    const existing = await tx.maintenanceBlock.findUnique({
+      where: { id: blockId },
+      include: { beds: { select: { id: true } } },
+    });
+
+    if (!existing) {
+      throw new ApiError(404, "Maintenance block not found");
+    }
+
+    await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${existing.roomId} FOR UPDATE`;
+
+    const { start, end } = toStayWindow(data.startDate ?? existing.startDate, data.endDate ?? existing.endDate);
+
+    let beds: string[] | null;
+    if (data.bedIds === undefined) {
+      beds = existing.wholeRoom ? null : existing.beds.map((bed) => bed.id);
+    } else {
+      beds = data.bedIds ? await assertRoomBeds(tx, existing.roomId, data.bedIds) : null;
+    }
+
+    await assertNoBookingsInWindow(tx, existing.roomId, start, end!, beds);
+
+    const updated = await tx.maintenanceBlock.update({
+      where: { id: blockId },
+      data: {
+        reason: data.reason,
+        startDate: start,
+        endDate: end!,
+        wholeRoom: beds === null,
+        beds: { set: (beds ?? []).map((id) => ({ id })) },
+      },
+      include: maintenanceBlockInclude,
+    });
+
+    await refreshRoomSeatCounters(tx, existing.roomId);
+    return updated;
+  });
+
+  await bumpRoomsCacheVersion();
+  return block;
+};
+
+export const deleteMaintenanceBlock = async (blockId: string) => {
+  await prisma.$transaction(async (tx) => {
+    const existing = await tx.maintenanceBlock.findUnique({
+      where: { id: blockId },
+      select: { roomId: true },
+    });
+
+    if (!existing) {
+      throw new ApiError(404, "Maintenance block not found");
+    }
+
+    await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${existing.roomId} FOR UPDATE`;
+    await tx.maintenanceBlock.delete({ where: { id: blockId } });
+    await refreshRoomSeatCounters(tx, existing.roomId);
+  });
+
+  await bumpRoomsCacheVersion();
+};
+
+/**
+ * Bookings and maintenance blocks of each room overlapping [from, to), for
+ * the admin calendar. `propertyIds` null means every property.
+ */
+export const getMaintenanceCalendar = async ({
+  from,
+  to,
+  roomId,
+  propertyIds,
+}: {
+  from: Date;
+  to: Date;
+  roomId?: string;
+  propertyIds: string[] | null;
+}) => {
+  const { start, end } = toStayWindow(from, to);
+
+  const rooms = await prisma.room.findMany({
+    where: {
+      ...(roomId && { id: roomId }),
+      ...(propertyIds && { propertyId: { in: propertyIds } }),
+    },
+    orderBy: [{ propertyId: "asc" }, { title: "asc" }],
+    select: {
+      id: true,
+      title: true,
+      type: true,
+      status: true,
+      property: { select: { id: true, name: true } },
+      floor: { select: { id: true, name: true } },
+      bedList: { select: { id: true, label: true, status: true } },
+      bookings: {
+        where: {
+          status: { in: SEAT_HOLDING_STATUSES },
+          checkIn: { lt: end! },
+          OR: [{ checkOut: null }, { checkOut: { gt: start } }],
+        },
+        orderBy: { checkIn: "asc" },
+        select: {
+          id: true,
+          status: true,
+          bookingType: true,
+          checkIn: true,
+          checkOut: true,
+          seatsSelected: true,
+          user: { select: { id: true, name: true } },
+          beds: { select: { id: true, label: true } },
+        },
+      },
+      maintenanceBlocks: {
+        where: { startDate: { lt: end! }, endDate: { gt: start } },
+        orderBy: { startDate: "asc" },
+        include: maintenanceBlockInclude,
+      },
+    },
+  });
+
+  return {
+    from: start,
+    to: end!,
+    rooms: rooms.map(({ bookings, maintenanceBlocks, ...room }) => ({
+      ...room,
+      events: [
+        ...bookings.map((booking) => ({
+          kind: "BOOKING" as const,
+          start: booking.checkIn,
+          end: booking.checkOut,
+          ...booking,
+        })),
+        ...maintenanceBlocks.map((block) => ({
+          kind: "MAINTENANCE" as const,
+          start: block.startDate,
+          end: block.endDate,
+          ...block,
+        })),
+      ].sort((a, b) => a.start.getTime() - b.start.getTime()),
+    })),
+  };
+};
+
+/**
+ * Refreshes the seat counters of rooms where a maintenance block started or
+ * ended since yesterday, so today's availability follows the blocks.
+ */
+export const refreshRoomsForMaintenance = async (now: Date = new Date()) => {
+  const today = startOfUtcDay(now);
+  const window = { gte: addUtcDays(today, -1), lte: today };
+
+  const blocks = await prisma.maintenanceBlock.findMany({
+    where: { OR: [{ startDate: window }, { endDate: window }] },
+    select: { roomId: true },
+    distinct: ["roomId"],
+  });
+
+  let refreshed = 0;
+  for (const { roomId } of blocks) {
+    try {
+      await prisma.$transaction((tx) => refreshRoomSeatCounters(tx, roomId));
+      refreshed += 1;
+    } catch (error) {
+      logger.error("Failed to refresh room seats for maintenance", { roomId, error });
+    }
+  }
+
+  if (refreshed > 0) {
+    await bumpRoomsCacheVersion();
+  }
+
+  return refreshed;
+};
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { MAX_AVAILABILITY_RANGE_DAYS } from "../../rooms/room.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const maintenanceBlockBaseSchema = z.object({
+  roomId: z.string().uuid("Invalid roomId"),
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+  startDate: z.coerce.date({ errorMap: () => ({ message: "startDate must be a valid date" }) }),
+  // Exclusive: the beds can be booked again from this day
+  endDate: z.coerce.date({ errorMap: () => ({ message: "endDate must be a valid date" }) }),
+  // Beds to block; omit to block the whole room
+  bedIds: z.array(z.string().uuid("Invalid bed id")).min(1).optional(),
+});
+
+export const createMaintenanceBlockSchema = maintenanceBlockBaseSchema.refine(
+  (block) => block.endDate > block.startDate,
+  { message: "endDate must be after startDate", path: ["endDate"] }
+);
+
+export const updateMaintenanceBlockSchema = maintenanceBlockBaseSchema
+  .omit({ roomId: true })
+  .extend({
+    // null switches a bed block to the whole room
+    bedIds: z.array(z.string().uuid("Invalid bed id")).min(1).nullable().optional(),
+  })
+  .partial();
+
+export const maintenanceCalendarQuerySchema = z
+  .object({
+    from: z.coerce.date({ errorMap: () => ({ message: "from must be a valid date" }) }),
+    to: z.coerce.date({ errorMap: () => ({ message: "to must be a valid date" }) }),
+    roomId: z.string().uuid("Invalid roomId").optional(),
+  })
+  .refine((query) => query.to > query.from, {
+    message: "to must be after from",
+    path: ["to"],
+  })
+  .refine(
+    (query) => Math.ceil((query.to.getTime() - query.from.getTime()) / DAY_MS) <= MAX_AVAILABILITY_RANGE_DAYS,
+    {
+      message: `Date range cannot exceed ${MAX_AVAILABILITY_RANGE_DAYS} days`,
+      path: ["to"],
+    }
+  );
+
+export type CreateMaintenanceBlockDTO = z.infer<typeof createMaintenanceBlockSchema>;
+export type UpdateMaintenanceBlockDTO = z.infer<typeof updateMaintenanceBlockSchema>;
+export type MaintenanceCalendarQueryDTO = z.infer<typeof maintenanceCalendarQuerySchema>;
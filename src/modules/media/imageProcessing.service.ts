@@ -0,0 +1,229 @@
+import crypto from "crypto";
+import sharp, { FormatEnum, Sharp } from "sharp";
+import { encode as encodeBlurhash } from "blurhash";
+import { ImageVariantSize, MediaProcessingStatus } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { logger } from "../../utils/logger";
+import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+import { getMediaStorage } from "../../utils/storage/storage.factory";
+import { bumpRoomsCacheVersion } from "../rooms/room.service";
+
+export const IMAGE_PROCESS_QUEUE = "MEDIA.IMAGE_PROCESS";
+
+// Longest side of each variant; smaller originals are not enlarged
+const VARIANT_WIDTHS: Record<ImageVariantSize, number> = {
+  THUMBNAIL: 320,
+  CARD: 800,
+  FULL: 1920,
+};
+
+const VARIANT_FORMATS = {
+  webp: { contentType: "image/webp", encode: (image: Sharp) => image.webp({ quality: 80 }) },
+  avif: { contentType: "image/avif", encode: (image: Sharp) => image.avif({ quality: 50 }) },
+} as const;
+
+// Formats the original can be re-encoded in once its metadata is stripped
+const REWRITABLE_FORMATS = new Set(["jpeg", "png", "webp", "avif", "gif"]);
+
+// PENDING images older than this are queued again by the sweep
+const STALE_PENDING_MS = 10 * 60 * 1000;
+
+interface RenderedVariant {
+  size: ImageVariantSize;
+  format: string;
+  key: string;
+  contentType: string;
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+const md5 = (buffer: Buffer) => crypto.createHash("md5").update(buffer).digest("hex");
+
+/**
+ * Queues an image for processing. A failed publish only delays it: the
+ * sweep picks up images left PENDING.
+ */
+export const queueImageProcessing = async (roomImageId: string) => {
+  try {
+    await publishToQueue(IMAGE_PROCESS_QUEUE, { roomImageId });
+  } catch (error) {
+    logger.error(`Failed to publish ${IMAGE_PROCESS_QUEUE}`, error, { roomImageId });
+  }
+};
+
+const computeBlurhash = async (original: Buffer) => {
+  const { data, info } = await sharp(original)
+    .rotate()
+    .resize(32, 32, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return encodeBlurhash(new Uint8ClampedArray(data), info.width, info.height, 4, 3);
+};
+
+/**
+ * Strips metadata from the original, renders every variant and records
+ * them. Safe to run again: variant keys are fixed per image, so a retry
+ * overwrites what an earlier attempt left behind.
+ */
+export const processRoomImage = async (roomImageId: string) => {
+  const image = await prisma.roomImage.findUnique({
+    where: { id: roomImageId },
+    include: { asset: true },
+  });
+
+  // Deleted since it was queued, already done, or not yet linked to its file
+  if (!image?.asset || image.processingStatus === MediaProcessingStatus.READY) return;
+  const { asset } = image;
+
+  await prisma.roomImage.update({
+    where: { id: roomImageId },
+    data: { processingStatus: MediaProcessingStatus.PROCESSING, processingError: null },
+  });
+
+  const storage = getMediaStorage();
+  const baseKey = asset.key.replace(/\.[^./]+$/, "");
+
+  try {
+    const original = await storage.read(asset.key);
+    const metadata = await sharp(original).metadata();
+
+    // rotate() applies the EXIF orientation before the metadata is dropped
+    const oriented = () => sharp(original).rotate();
+
+    // Output carries no EXIF / GPS unless asked for, so re-encoding strips it
+    let stripped: Buffer | null = null;
+    if (metadata.format && REWRITABLE_FORMATS.has(metadata.format)) {
+      stripped = await oriented().toFormat(metadata.format as keyof FormatEnum).toBuffer();
+      await storage.put(asset.key, stripped, { contentType: asset.mimeType });
+    } else {
+      logger.warn("Room image original kept as uploaded", { roomImageId, format: metadata.format });
+    }
+
+    // Orientations 5-8 turn the picture on its side
+    const sideways = (metadata.orientation ?? 1) >= 5;
+    const width = sideways ? metadata.height : metadata.width;
+    const height = sideways ? metadata.width : metadata.height;
+
+    const rendered: RenderedVariant[] = [];
+    for (const size of Object.keys(VARIANT_WIDTHS) as ImageVariantSize[]) {
+      for (const [format, { contentType, encode }] of Object.entries(VARIANT_FORMATS)) {
+        const { data, info } = await encode(
+          oriented().resize({
+            width: VARIANT_WIDTHS[size],
+            height: VARIANT_WIDTHS[size],
+            fit: "inside",
+            withoutEnlargement: true,
+          })
+        ).toBuffer({ resolveWithObject: true });
+
+        const key = `${baseKey}/${size.toLowerCase()}.${format}`;
+        await storage.put(key, data, { contentType });
+        rendered.push({ size, format, key, contentType, data, width: info.width, height: info.height });
+      }
+    }
+
+    const blurhash = await computeBlurhash(original);
+
+    await prisma.$transaction(async (tx) => {
+      if (stripped) {
+        await tx.mediaAsset.update({
+          where: { id: asset.id },
+          data: { size: stripped.length, checksum: md5(stripped) },
+        });
+      }
+
+      for (const variant of rendered) {
+        const variantAsset = await tx.mediaAsset.upsert({
+          where: { key: variant.key },
+          create: {
+            key: variant.key,
+            mimeType: variant.contentType,
+            size: variant.data.length,
+            checksum: md5(variant.data),
+          },
+          update: { size: variant.data.length, checksum: md5(variant.data) },
+        });
+
+        await tx.roomImageVariant.upsert({
+          where: {
+            roomImageId_size_format: { roomImageId, size: variant.size, format: variant.format },
+          },
+          create: {
+            roomImageId,
+            size: variant.size,
+            format: variant.format,
+            width: variant.width,
+            height: variant.height,
+            assetId: variantAsset.id,
+          },
+          update: { width: variant.width, height: variant.height, assetId: variantAsset.id },
+        });
+      }
+
+      await tx.roomImage.update({
+        where: { id: roomImageId },
+        data: {
+          processingStatus: MediaProcessingStatus.READY,
+          processedAt: new Date(),
+          width,
+          height,
+          blurhash,
+        },
+      });
+    });
+
+    await bumpRoomsCacheVersion();
+    logger.info("Room image processed", { roomImageId, variants: rendered.length });
+  } catch (error) {
+    await prisma.roomImage
+      .update({
+        where: { id: roomImageId },
+        data: {
+          processingStatus: MediaProcessingStatus.FAILED,
+          processingError: error instanceof Error ? error.message : String(error),
+        },
+      })
+      .catch(() => undefined);
+    throw error;
+  }
+};
+
+/**
+ * RabbitMQ handler for MEDIA.IMAGE_PROCESS. Throwing hands the message back
+ * for a retry.
+ */
+export const handleImageProcessingEvent = async (data: { roomImageId?: string }) => {
+  if (!data?.roomImageId) {
+    logger.warn(`${IMAGE_PROCESS_QUEUE} event without roomImageId`, { data });
+    return;
+  }
+
+  await processRoomImage(data.roomImageId);
+};
+
+/**
+ * Queues images stuck in PENDING: publishes that failed, and images
+ * uploaded before processing existed. Returns how many were queued.
+ */
+export const requeueStalePendingImages = async (now: Date = new Date()) => {
+  const stale = await prisma.roomImage.findMany({
+    where: {
+      processingStatus: MediaProcessingStatus.PENDING,
+      assetId: { not: null },
+      updatedAt: { lt: new Date(now.getTime() - STALE_PENDING_MS) },
+    },
+    select: { id: true },
+    take: 100,
+  });
+
+  for (const { id } of stale) {
+    // Touch the row so the next sweep waits another period
+    await prisma.roomImage.update({ where: { id }, data: { updatedAt: now } });
+    await queueImageProcessing(id);
+  }
+
+  return stale.length;
+};
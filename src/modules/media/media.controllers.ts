@@ -0,0 +1,19 @@
+import { NextFunction, Request, Response } from "express";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { collectOrphanedMedia } from "./mediaGc.service";
+
+/**
+ * GET /media/gc/report
+ * Report run of the media GC: what it would quarantine, release and delete
+ */
+export const getMediaGcReport = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const report = await collectOrphanedMedia({ mode: "report" });
+
+    res.status(200).json({
+      success: true,
+      message: "Media GC report generated",
+      data: report,
+    });
+  }
+);
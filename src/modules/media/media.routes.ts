@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { getMediaGcReport } from "./media.controllers";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+
+const router = Router();
+
+/**
+ * Media Routes
+ */
+
+// Orphaned media dry run - ADMIN only
+router.get("/gc/report", authenticateUserWithRole(["ADMIN"]), getMediaGcReport);
+
+export default router;
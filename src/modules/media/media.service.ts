@@ -0,0 +1,321 @@
+import crypto from "crypto";
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import { pipeline } from "stream/promises";
+import { ImageVariantSize, MediaAssetStatus, MediaProcessingStatus, Prisma } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+import { buildStorageKey, getMediaStorage } from "../../utils/storage/storage.factory";
+
+// Presigned upload forms stay valid this long
+const DIRECT_UPLOAD_TTL_SECONDS = 15 * 60;
+
+/**
+ * Include for room images / videos so they can be turned into responses
+ * with toRoomMedia.
+ */
+export const roomMediaQuery = {
+  include: { asset: { select: { key: true, mimeType: true, size: true } } },
+} satisfies Prisma.RoomImageDefaultArgs;
+
+/**
+ * Storage key behind a media URL from before MediaAsset. aws-sdk encodes
+ * every reserved and non-ASCII character of the key in the URL, so the whole
+ * path is decoded. Null when the URL cannot be read.
+ */
+export const legacyUrlToKey = (url: string) => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const key = decodeURIComponent(pathname.replace(/^\/+/, ""));
+
+    // Path-style URLs (s3.<region>.amazonaws.com/<bucket>/<key>) lead with the bucket
+    const bucket = process.env.AWS_BUCKET_NAME;
+    if (bucket && !hostname.startsWith(`${bucket}.`) && key.startsWith(`${bucket}/`)) {
+      return key.slice(bucket.length + 1) || null;
+    }
+    return key || null;
+  } catch {
+    return null;
+  }
+};
+
+type MediaFile = { key: string; mimeType: string; size: number };
+
+/**
+ * Replaces the asset of a room image / video with its URL and file details,
+ * the shape clients used to get from the old `url` column. Media not yet
+ * linked to an asset keeps its old URL.
+ */
+export const toRoomMedia = <T extends { asset: MediaFile | null; url: string | null }>(item: T) => {
+  const { asset, ...media } = item;
+  return {
+    ...media,
+    url: asset ? getMediaStorage().publicUrl(asset.key) : media.url,
+    mimeType: asset?.mimeType ?? null,
+    size: asset?.size ?? null,
+  };
+};
+
+/**
+ * Include for room images, with the variants toRoomImage builds srcsets from.
+ * Pass `guestVisibleImages` as the where clause outside admin screens.
+ */
+export const roomImageQuery = {
+  include: {
+    asset: { select: { key: true, mimeType: true, size: true } },
+    variants: {
+      orderBy: { width: "asc" },
+      include: { asset: { select: { key: true } } },
+    },
+  },
+} satisfies Prisma.RoomImageDefaultArgs;
+
+export const guestVisibleImages = {
+  processingStatus: MediaProcessingStatus.READY,
+} satisfies Prisma.RoomImageWhereInput;
+
+type RoomImageWithVariants = Prisma.RoomImageGetPayload<typeof roomImageQuery>;
+
+/**
+ * Room image response: the stripped original plus a srcset per format and
+ * each variant by size, e.g. `<source type="image/avif" srcset={srcset["image/avif"]}>`.
+ */
+export const toRoomImage = (image: RoomImageWithVariants) => {
+  const storage = getMediaStorage();
+  const { asset, variants, processingError, ...rest } = image;
+
+  const srcset: Record<string, string> = {};
+  const sizes: Partial<Record<ImageVariantSize, Record<string, string | number>>> = {};
+
+  for (const variant of variants) {
+    const url = storage.publicUrl(variant.asset.key);
+    const type = `image/${variant.format}`;
+
+    srcset[type] = srcset[type] ? `${srcset[type]}, ${url} ${variant.width}w` : `${url} ${variant.width}w`;
+    sizes[variant.size] = {
+      ...sizes[variant.size],
+      width: variant.width,
+      height: variant.height,
+      [variant.format]: url,
+    };
+  }
+
+  return {
+    ...rest,
+    url: asset ? storage.publicUrl(asset.key) : rest.url,
+    mimeType: asset?.mimeType ?? null,
+    size: asset?.size ?? null,
+    srcset,
+    sizes,
+  };
+};
+
+/**
+ * Room video response. `url` is the HLS manifest once the video is
+ * transcoded and the original until then; `streamType` tells players which.
+ */
+export const toRoomVideo = <
+  T extends {
+    asset: MediaFile | null;
+    url: string | null;
+    processingStatus: MediaProcessingStatus;
+    manifestKey: string | null;
+    posterKey: string | null;
+  },
+>(
+  video: T
+) => {
+  const storage = getMediaStorage();
+  const { manifestKey, posterKey, ...media } = toRoomMedia(video);
+  const streamable = video.processingStatus === MediaProcessingStatus.READY && manifestKey;
+
+  return {
+    ...media,
+    url: streamable ? storage.publicUrl(manifestKey) : media.url,
+    streamType: streamable ? ("hls" as const) : ("original" as const),
+    originalUrl: media.url,
+    posterUrl: posterKey ? storage.publicUrl(posterKey) : null,
+  };
+};
+
+const md5Of = async (file: Express.Multer.File) => {
+  const hash = crypto.createHash("md5");
+  if (file.buffer) {
+    hash.update(file.buffer);
+  } else {
+    await pipeline(createReadStream(file.path), hash);
+  }
+  return hash.digest("hex");
+};
+
+/**
+ * Stores an uploaded file (in memory or a multer temp file) under the folder
+ * and records it as a READY asset. The temp file is removed either way.
+ */
+export const storeMediaFile = async ({
+  file,
+  folder,
+  uploadedById,
+}: {
+  file: Express.Multer.File;
+  folder: string;
+  uploadedById?: string;
+}) => {
+  const storage = getMediaStorage();
+  const key = buildStorageKey(folder, file.mimetype);
+
+  try {
+    const checksum = await md5Of(file);
+    await storage.put(key, file.buffer ?? createReadStream(file.path), { contentType: file.mimetype });
+
+    return await prisma.mediaAsset.create({
+      data: {
+        key,
+        mimeType: file.mimetype,
+        size: file.size,
+        checksum,
+        originalName: file.originalname,
+        uploadedById,
+      },
+    });
+  } catch (error) {
+    // Do not leave a stored file without its record
+    await storage.remove(key).catch((removeError) => {
+      logger.error("Failed to remove media after a failed upload", { key, error: removeError });
+    });
+    throw error;
+  } finally {
+    if (file.path) {
+      await fs.rm(file.path, { force: true });
+    }
+  }
+};
+
+/**
+ * Records a PENDING asset and returns a form the client uploads the file
+ * with, straight to storage. Storage refuses anything larger than `size`.
+ */
+export const createDirectUpload = async ({
+  folder,
+  contentType,
+  size,
+  originalName,
+  uploadedById,
+}: {
+  folder: string;
+  contentType: string;
+  size: number;
+  originalName?: string;
+  uploadedById?: string;
+}) => {
+  const key = buildStorageKey(folder, contentType);
+
+  const asset = await prisma.mediaAsset.create({
+    data: {
+      key,
+      mimeType: contentType,
+      size,
+      status: MediaAssetStatus.PENDING,
+      originalName,
+      uploadedById,
+    },
+  });
+
+  const upload = await getMediaStorage().presignUpload(key, {
+    contentType,
+    maxBytes: size,
+    expiresInSeconds: DIRECT_UPLOAD_TTL_SECONDS,
+  });
+
+  return { asset, upload };
+};
+
+/**
+ * Marks a direct upload READY once the file is in storage, taking its size
+ * and checksum from what storage holds.
+ */
+export const confirmDirectUpload = async (assetId: string) => {
+  const asset = await prisma.mediaAsset.findUnique({ where: { id: assetId } });
+
+  if (!asset) {
+    throw new ApiError(404, "Upload not found");
+  }
+
+  if (asset.status === MediaAssetStatus.READY) {
+    return asset;
+  }
+
+  const stored = await getMediaStorage().head(asset.key);
+  if (!stored) {
+    throw new ApiError(409, "The file has not been uploaded yet");
+  }
+
+  return prisma.mediaAsset.update({
+    where: { id: assetId },
+    data: {
+      status: MediaAssetStatus.READY,
+      size: stored.size,
+      // Multipart ETags ("<hash>-<parts>") are not an MD5 of the content
+      checksum: stored.etag && !stored.etag.includes("-") ? stored.etag : null,
+    },
+  });
+};
+
+/**
+ * Deletes the file and its asset; the room image / video row goes with it.
+ * Use deleteRoomImageAssets / deleteRoomVideoAssets so derived files go too.
+ */
+export const deleteMediaAsset = async (asset: { id: string; key: string }) => {
+  await getMediaStorage().remove(asset.key);
+  await prisma.mediaAsset.delete({ where: { id: asset.id } });
+};
+
+/**
+ * Deletes a room image's variant files, then its original; the image row
+ * goes with the original.
+ */
+export const deleteRoomImageAssets = async (roomImageId: string) => {
+  const image = await prisma.roomImage.findUnique({
+    where: { id: roomImageId },
+    select: {
+      asset: { select: { id: true, key: true } },
+      variants: { select: { asset: { select: { id: true, key: true } } } },
+    },
+  });
+  if (!image) return;
+
+  // Variants first, so a failure never leaves variants without their image
+  for (const variant of image.variants) {
+    await deleteMediaAsset(variant.asset);
+  }
+  if (image.asset) {
+    await deleteMediaAsset(image.asset);
+  } else {
+    await prisma.roomImage.delete({ where: { id: roomImageId } });
+  }
+};
+
+/**
+ * Deletes a room video's transcoded outputs, then its original; the video
+ * row goes with the original.
+ */
+export const deleteRoomVideoAssets = async (roomVideoId: string) => {
+  const video = await prisma.roomVideo.findUnique({
+    where: { id: roomVideoId },
+    select: {
+      asset: { select: { id: true, key: true } },
+      outputs: { select: { id: true, key: true } },
+    },
+  });
+  if (!video) return;
+
+  for (const output of video.outputs) {
+    await deleteMediaAsset(output);
+  }
+  if (video.asset) {
+    await deleteMediaAsset(video.asset);
+  } else {
+    await prisma.roomVideo.delete({ where: { id: roomVideoId } });
+  }
+};
@@ -0,0 +1,261 @@
+import { MediaOrphanReason, Prisma } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { logger } from "../../utils/logger";
+import { StorageDriver, contentTypeForKey } from "../../utils/storage/storage.driver";
+import { getMediaStorage, getPrivateStorage } from "../../utils/storage/storage.factory";
+import { legacyUrlToKey } from "./media.service";
+
+// Only room media is collected; other prefixes belong to other features
+const GC_PREFIX = "rooms/";
+
+// Quarantined files are moved here, in private storage, until they are
+// deleted or released back to their key
+const QUARANTINE_PREFIX = "media-quarantine/";
+
+// Orphans are deleted once they have been quarantined this long. Override
+// with MEDIA_GC_GRACE_MS.
+const DEFAULT_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Younger files may still be mid-upload or mid-processing
+const MIN_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Orphans listed in a report; the totals always cover all of them
+const REPORT_LIMIT = 500;
+
+const getGraceMs = () => Number(process.env.MEDIA_GC_GRACE_MS) || DEFAULT_GRACE_MS;
+
+/**
+ * - report: changes nothing, only says what a run would do
+ * - quarantine: moves orphans into quarantine and releases them, never deletes
+ * - delete: also deletes orphans past their grace period
+ */
+export type MediaGcMode = "report" | "quarantine" | "delete";
+
+const MEDIA_GC_MODES: MediaGcMode[] = ["report", "quarantine", "delete"];
+
+// MEDIA_GC_MODE; anything unset or unknown is a report
+export const getMediaGcMode = (): MediaGcMode => {
+  const mode = process.env.MEDIA_GC_MODE as MediaGcMode;
+  return MEDIA_GC_MODES.includes(mode) ? mode : "report";
+};
+
+// No room image, variant or video refers to the asset
+const unattachedAsset = {
+  roomImage: { is: null },
+  roomVideo: { is: null },
+  roomImageVariant: { is: null },
+  outputOfVideoId: null,
+} satisfies Prisma.MediaAssetWhereInput;
+
+interface Orphan {
+  key: string;
+  reason: MediaOrphanReason;
+  size: number | null;
+}
+
+const quarantineKey = (key: string) => `${QUARANTINE_PREFIX}${key}`;
+
+// Copies the file across and removes the original. False when there was no file.
+const moveObject = async (from: StorageDriver, fromKey: string, to: StorageDriver, toKey: string) => {
+  const info = await from.head(fromKey);
+  if (!info) return false;
+
+  await to.put(toKey, from.readStream(fromKey), {
+    contentType: info.contentType ?? contentTypeForKey(fromKey),
+  });
+  await from.remove(fromKey);
+  return true;
+};
+
+/**
+ * Keys the legacy `url` column of room media still points at. Those rows
+ * have no asset until the backfill links them, and their files must never
+ * be collected.
+ */
+const findLegacyKeys = async () => {
+  const where = { url: { not: null } };
+  const [images, videos] = await Promise.all([
+    prisma.roomImage.findMany({ where, select: { url: true } }),
+    prisma.roomVideo.findMany({ where, select: { url: true } }),
+  ]);
+
+  const keys = new Set<string>();
+  for (const { url } of [...images, ...videos]) {
+    const key = url && legacyUrlToKey(url);
+    if (key) keys.add(key);
+  }
+  return keys;
+};
+
+/**
+ * Files under the prefix with no asset or legacy URL, and assets nothing
+ * uses. Both must be older than MIN_AGE_MS. `isOrphaned` answers for keys
+ * whose file has already been moved into quarantine.
+ */
+const findOrphans = async (now: Date) => {
+  const cutoff = new Date(now.getTime() - MIN_AGE_MS);
+
+  const [tracked, unattached, legacyKeys] = await Promise.all([
+    prisma.mediaAsset.findMany({
+      where: { key: { startsWith: GC_PREFIX } },
+      select: { key: true },
+    }),
+    prisma.mediaAsset.findMany({
+      where: { key: { startsWith: GC_PREFIX }, createdAt: { lt: cutoff }, ...unattachedAsset },
+      select: { key: true, size: true },
+    }),
+    findLegacyKeys(),
+  ]);
+  const trackedKeys = new Set(tracked.map((asset) => asset.key));
+  const unattachedKeys = new Set(unattached.map((asset) => asset.key));
+
+  const isOrphaned = (key: string) =>
+    unattachedKeys.has(key) || (!trackedKeys.has(key) && !legacyKeys.has(key));
+
+  const orphans: Orphan[] = unattached.map((asset) => ({
+    key: asset.key,
+    reason: MediaOrphanReason.UNATTACHED_ASSET,
+    size: asset.size,
+  }));
+
+  let scannedFiles = 0;
+  for await (const object of getMediaStorage().list(GC_PREFIX)) {
+    scannedFiles += 1;
+    if (!trackedKeys.has(object.key) && !legacyKeys.has(object.key) && object.lastModified < cutoff) {
+      orphans.push({ key: object.key, reason: MediaOrphanReason.UNTRACKED_FILE, size: object.size });
+    }
+  }
+
+  return {
+    orphans,
+    isOrphaned,
+    scannedFiles,
+    trackedAssets: trackedKeys.size,
+    legacyReferences: legacyKeys.size,
+  };
+};
+
+// Moves the file out of the public media store and records the entry
+const quarantineOrphan = async (orphan: Orphan, now: Date, deleteAfter: Date) => {
+  await moveObject(getMediaStorage(), orphan.key, getPrivateStorage(), quarantineKey(orphan.key));
+  await prisma.mediaQuarantine.create({ data: { ...orphan, quarantinedAt: now, deleteAfter } });
+};
+
+// Puts the file back under its key and drops the entry
+const releaseOrphan = async (entry: { id: string; key: string }) => {
+  await moveObject(getPrivateStorage(), quarantineKey(entry.key), getMediaStorage(), entry.key);
+  await prisma.mediaQuarantine.delete({ where: { id: entry.id } });
+};
+
+/**
+ * Deletes a quarantined file and its unused asset. A key something has
+ * started using since the scan is released instead. Returns whether the
+ * file went.
+ */
+const purgeOrphan = async (entry: { id: string; key: string }, now: Date) => {
+  await prisma.mediaAsset.deleteMany({
+    where: {
+      key: entry.key,
+      createdAt: { lt: new Date(now.getTime() - MIN_AGE_MS) },
+      ...unattachedAsset,
+    },
+  });
+
+  const stillTracked = (await prisma.mediaAsset.count({ where: { key: entry.key } })) > 0;
+  if (stillTracked) {
+    await releaseOrphan(entry);
+    return false;
+  }
+
+  await getPrivateStorage().remove(quarantineKey(entry.key));
+  await prisma.mediaQuarantine.delete({ where: { id: entry.id } });
+  return true;
+};
+
+/**
+ * Scans room media for orphans. New orphans are moved into quarantine,
+ * quarantined keys that are in use again are moved back, and orphans past
+ * their grace period are deleted. How far a run goes is set by `mode`; a
+ * report changes nothing and says what a delete run would do.
+ */
+export const collectOrphanedMedia = async ({
+  mode = getMediaGcMode(),
+  now = new Date(),
+}: { mode?: MediaGcMode; now?: Date } = {}) => {
+  const { orphans, isOrphaned, scannedFiles, trackedAssets, legacyReferences } = await findOrphans(now);
+  const quarantine = await prisma.mediaQuarantine.findMany();
+
+  const quarantineByKey = new Map(quarantine.map((entry) => [entry.key, entry]));
+
+  const released = quarantine.filter((entry) => !isOrphaned(entry.key));
+  const held = quarantine.filter((entry) => isOrphaned(entry.key));
+  const fresh = orphans.filter((orphan) => !quarantineByKey.has(orphan.key));
+  const due = held.filter((entry) => entry.deleteAfter <= now);
+
+  const deleteAfter = new Date(now.getTime() + getGraceMs());
+  let quarantined = fresh.length;
+  let releasedCount = released.length;
+  let deleted = 0;
+
+  if (mode !== "report") {
+    releasedCount = 0;
+    for (const entry of released) {
+      try {
+        await releaseOrphan(entry);
+        releasedCount += 1;
+      } catch (error) {
+        logger.error("Failed to release quarantined media", error, { storagePath: entry.key });
+      }
+    }
+
+    quarantined = 0;
+    for (const orphan of fresh) {
+      try {
+        await quarantineOrphan(orphan, now, deleteAfter);
+        quarantined += 1;
+      } catch (error) {
+        // Left where it is and tried again next run
+        logger.error("Failed to quarantine orphaned media", error, { storagePath: orphan.key });
+      }
+    }
+  }
+
+  if (mode === "delete") {
+    for (const entry of due) {
+      try {
+        if (await purgeOrphan(entry, now)) deleted += 1;
+      } catch (error) {
+        // Stays quarantined and is tried again next run
+        logger.error("Failed to delete orphaned media", error, { storagePath: entry.key });
+      }
+    }
+  }
+
+  const items = [
+    ...held.map(({ key, reason, size, quarantinedAt, deleteAfter }) => ({
+      key,
+      reason,
+      size,
+      quarantinedAt,
+      deleteAfter,
+    })),
+    ...fresh.map((orphan) => ({ ...orphan, quarantinedAt: null, deleteAfter })),
+  ];
+
+  return {
+    mode,
+    scannedFiles,
+    trackedAssets,
+    legacyReferences,
+    quarantined,
+    released: releasedCount,
+    // Past their grace period; only a delete run removes them
+    due: due.length,
+    deleted,
+    orphans: {
+      total: items.length,
+      bytes: items.reduce((sum, item) => sum + (item.size ?? 0), 0),
+      items: items.slice(0, REPORT_LIMIT),
+    },
+  };
+};
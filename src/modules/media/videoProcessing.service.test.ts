@@ -0,0 +1,281 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { randomUUID } from "node:crypto";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import { MediaProcessingStatus, RoomType } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import redis from "../../config/redis";
+import * as publisher from "../../utils/rabit/rabit.publisher";
+import { getMediaStorage } from "../../utils/storage/storage.factory";
+import {
+  buildMasterPlaylist,
+  planRenditions,
+  processRoomVideo,
+  requeueStalePendingVideos,
+} from "./videoProcessing.service";
+
+/**
+ * processRoomVideo runs against the database in DATABASE_URL and the ffmpeg
+ * on the PATH (or FFMPEG_PATH / FFPROBE_PATH), with media on local disk in
+ * a temp folder, and is skipped when either is missing. The rest needs
+ * neither.
+ */
+const hasFfmpeg = !spawnSync(process.env.FFMPEG_PATH || "ffmpeg", ["-version"]).error;
+const skip = !process.env.DATABASE_URL
+  ? "DATABASE_URL is not set"
+  : !hasFfmpeg
+    ? "ffmpeg is not installed"
+    : false;
+
+// The clients would keep the process alive, skipped or not
+after(async () => {
+  await prisma.$disconnect();
+  redis.disconnect();
+});
+
+describe("planRenditions", () => {
+  const names = (height: number, width = (height * 16) / 9) =>
+    planRenditions({ durationSeconds: 10, width, height, hasAudio: true }).map(({ rung }) => rung.name);
+
+  it("skips rungs taller than the source", () => {
+    assert.deepEqual(names(1080), ["360p", "720p", "1080p"]);
+    assert.deepEqual(names(720), ["360p", "720p"]);
+    assert.deepEqual(names(480), ["360p"]);
+  });
+
+  it("always keeps the lowest rung", () => {
+    assert.deepEqual(names(240), ["360p"]);
+  });
+
+  it("keeps the aspect ratio with even widths", () => {
+    const [portrait] = planRenditions({ durationSeconds: 10, width: 1080, height: 1920, hasAudio: false });
+    assert.equal(portrait.rendition.height, 360);
+    assert.equal(portrait.rendition.width, 202);
+  });
+
+  it("advertises the peak video bitrate plus audio", () => {
+    const plan = (hasAudio: boolean) =>
+      planRenditions({ durationSeconds: 10, width: 640, height: 360, hasAudio })[0].rendition.bandwidth;
+
+    assert.equal(plan(false), 856_000);
+    assert.equal(plan(true), 984_000);
+  });
+});
+
+describe("buildMasterPlaylist", () => {
+  it("lists each rendition with its bandwidth and resolution", () => {
+    const playlist = buildMasterPlaylist([
+      { name: "360p", width: 640, height: 360, bandwidth: 984_000 },
+      { name: "720p", width: 1280, height: 720, bandwidth: 3_124_000 },
+    ]);
+
+    assert.equal(
+      playlist,
+      [
+        "#EXTM3U",
+        "#EXT-X-VERSION:3",
+        "#EXT-X-STREAM-INF:BANDWIDTH=984000,RESOLUTION=640x360",
+        "360p/index.m3u8",
+        "#EXT-X-STREAM-INF:BANDWIDTH=3124000,RESOLUTION=1280x720",
+        "720p/index.m3u8",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("requeueStalePendingVideos cutoffs", () => {
+  const roomVideo = prisma.roomVideo;
+  afterEach(() => {
+    Object.defineProperty(prisma, "roomVideo", { value: roomVideo, configurable: true, writable: true });
+  });
+
+  it("waits 10 minutes for PENDING and 2 hours for PROCESSING", async () => {
+    let where: any;
+    // Prisma's model delegates cannot be spied on; swap in a stand-in
+    Object.defineProperty(prisma, "roomVideo", {
+      value: {
+        findMany: async (args: any) => {
+          where = args.where;
+          return [];
+        },
+      },
+      configurable: true,
+      writable: true,
+    });
+
+    const now = new Date("2026-03-01T12:00:00Z");
+    assert.equal(await requeueStalePendingVideos(now), 0);
+
+    const [pending, processing] = where.OR;
+    assert.equal(pending.processingStatus, MediaProcessingStatus.PENDING);
+    assert.deepEqual(pending.updatedAt.lt, new Date("2026-03-01T11:50:00Z"));
+    assert.equal(processing.processingStatus, MediaProcessingStatus.PROCESSING);
+    assert.deepEqual(processing.updatedAt.lt, new Date("2026-03-01T10:00:00Z"));
+  });
+});
+
+describe("processRoomVideo", { skip }, () => {
+  const runId = randomUUID().slice(0, 8);
+  let workDir: string;
+  let propertyId: string;
+  let roomId: string;
+
+  // A stored upload and the RoomVideo pointing at it
+  const createVideo = async (file: string) => {
+    const key = `rooms/${roomId}/videos/${randomUUID()}.mp4`;
+    const body = await fs.readFile(file);
+    await getMediaStorage().put(key, body, { contentType: "video/mp4" });
+
+    return prisma.roomVideo.create({
+      data: {
+        room: { connect: { id: roomId } },
+        asset: { create: { key, mimeType: "video/mp4", size: body.length } },
+      },
+    });
+  };
+
+  before(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), "video-test-"));
+    process.env.MEDIA_STORAGE_DRIVER = "local";
+    process.env.MEDIA_STORAGE_DIR = path.join(workDir, "media");
+
+    // The rooms cache and the queue are not under test
+    mock.method(redis, "incr", async () => 1);
+    mock.method(publisher, "publishToQueue", async () => undefined);
+
+    const property = await prisma.property.create({
+      data: { name: `Video test ${runId}`, code: `VT-${runId}`, addressLine: "1 Test Road", city: "Lahore" },
+    });
+    const floor = await prisma.floor.create({ data: { propertyId: property.id, name: "Ground" } });
+    const room = await prisma.room.create({
+      data: {
+        title: "Video test room",
+        type: RoomType.SINGLE,
+        propertyId: property.id,
+        floorId: floor.id,
+        beds: 1,
+        washrooms: 1,
+        description: "Fixture for video processing tests",
+      },
+    });
+
+    propertyId = property.id;
+    roomId = room.id;
+  });
+
+  after(async () => {
+    try {
+      if (roomId) {
+        await prisma.mediaAsset.deleteMany({ where: { key: { startsWith: `rooms/${roomId}/` } } });
+        await prisma.room.delete({ where: { id: roomId } });
+      }
+      if (propertyId) {
+        await prisma.property.delete({ where: { id: propertyId } });
+      }
+      if (workDir) {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
+    } finally {
+      mock.restoreAll();
+    }
+  });
+
+  it("writes the HLS playlists and poster and marks the video READY", async () => {
+    const clip = path.join(workDir, "clip.mp4");
+    const generated = spawnSync(process.env.FFMPEG_PATH || "ffmpeg", [
+      "-hide_banner", "-loglevel", "error", "-y",
+      "-f", "lavfi", "-i", "testsrc=size=320x240:rate=15",
+      "-f", "lavfi", "-i", "sine=frequency=440",
+      "-t", "2",
+      "-c:v", "libx264", "-pix_fmt", "yuv420p",
+      "-c:a", "aac",
+      "-shortest",
+      clip,
+    ]);
+    assert.equal(generated.status, 0, generated.stderr?.toString());
+
+    const video = await createVideo(clip);
+    await processRoomVideo(video.id);
+
+    const processed = await prisma.roomVideo.findUniqueOrThrow({ where: { id: video.id } });
+    assert.equal(processed.processingStatus, MediaProcessingStatus.READY);
+    assert.ok(processed.manifestKey);
+    assert.ok(processed.posterKey);
+
+    // Shorter than the lowest rung, so only that one is made
+    const renditions = processed.renditions as { name: string }[];
+    assert.deepEqual(renditions.map((rendition) => rendition.name), ["360p"]);
+
+    const storage = getMediaStorage();
+    const baseKey = processed.manifestKey!.replace(/\/master\.m3u8$/, "");
+
+    const master = (await storage.read(processed.manifestKey!)).toString();
+    assert.match(master, /^#EXTM3U/);
+    assert.match(master, /360p\/index\.m3u8/);
+
+    const rendition = (await storage.read(`${baseKey}/360p/index.m3u8`)).toString();
+    assert.match(rendition, /#EXT-X-ENDLIST/);
+    assert.match(rendition, /segment_000\.ts/);
+
+    const poster = await storage.head(processed.posterKey!);
+    assert.ok(poster && poster.size > 0);
+
+    const outputs = await prisma.mediaAsset.count({ where: { outputOfVideoId: video.id } });
+    assert.ok(outputs >= 4);
+  });
+
+  it("marks a file ffmpeg cannot read as FAILED without asking for a retry", async () => {
+    const notAVideo = path.join(workDir, "not-a-video.mp4");
+    await fs.writeFile(notAVideo, "this is not a video");
+
+    const video = await createVideo(notAVideo);
+    await processRoomVideo(video.id);
+
+    const processed = await prisma.roomVideo.findUniqueOrThrow({ where: { id: video.id } });
+    assert.equal(processed.processingStatus, MediaProcessingStatus.FAILED);
+    assert.ok(processed.processingError);
+    assert.equal(processed.manifestKey, null);
+  });
+
+  it("leaves a video another worker has claimed alone", async () => {
+    const clip = path.join(workDir, "claimed.mp4");
+    await fs.writeFile(clip, "placeholder");
+
+    const claimed = await createVideo(clip);
+    await prisma.roomVideo.update({
+      where: { id: claimed.id },
+      data: { processingStatus: MediaProcessingStatus.PROCESSING },
+    });
+
+    await processRoomVideo(claimed.id);
+
+    const untouched = await prisma.roomVideo.findUniqueOrThrow({ where: { id: claimed.id } });
+    assert.equal(untouched.processingStatus, MediaProcessingStatus.PROCESSING);
+    assert.equal(untouched.processingError, null);
+  });
+
+  it("requeues videos left PROCESSING by a crashed worker", async () => {
+    const clip = path.join(workDir, "stuck.mp4");
+    await fs.writeFile(clip, "placeholder");
+
+    const stuck = await createVideo(clip);
+    const now = new Date();
+    await prisma.roomVideo.update({
+      where: { id: stuck.id },
+      data: {
+        processingStatus: MediaProcessingStatus.PROCESSING,
+        updatedAt: new Date(now.getTime() - 3 * 60 * 60 * 1000),
+      },
+    });
+
+    await requeueStalePendingVideos(now);
+
+    const requeued = await prisma.roomVideo.findUniqueOrThrow({ where: { id: stuck.id } });
+    assert.equal(requeued.processingStatus, MediaProcessingStatus.PENDING);
+    assert.equal(requeued.updatedAt.getTime(), now.getTime());
+  });
+});
@@ -0,0 +1,323 @@
+import crypto from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { MediaProcessingStatus, Prisma } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { logger } from "../../utils/logger";
+import { FfmpegError, VideoProbe, probeVideo, runFfmpeg } from "../../utils/ffmpeg";
+import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+import { contentTypeForKey } from "../../utils/storage/storage.driver";
+import { getMediaStorage } from "../../utils/storage/storage.factory";
+import { bumpRoomsCacheVersion } from "../rooms/room.service";
+
+export const VIDEO_TRANSCODE_QUEUE = "MEDIA.VIDEO_TRANSCODE";
+
+export interface VideoRendition {
+  name: string;
+  width: number;
+  height: number;
+  // Bits per second, as the master playlist advertises it
+  bandwidth: number;
+}
+
+// Bitrate ladder; rungs taller than the source are skipped, except the lowest
+const LADDER = [
+  { name: "360p", height: 360, videoKbps: 800, maxKbps: 856 },
+  { name: "720p", height: 720, videoKbps: 2800, maxKbps: 2996 },
+  { name: "1080p", height: 1080, videoKbps: 5000, maxKbps: 5350 },
+];
+
+const AUDIO_KBPS = 128;
+const SEGMENT_SECONDS = 6;
+
+// PENDING videos older than this are queued again by the sweep
+const STALE_PENDING_MS = 10 * 60 * 1000;
+// PROCESSING videos untouched this long were left behind by a crashed
+// worker; well past the ffmpeg timeout, so live encodes are not doubled up
+const STALE_PROCESSING_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Queues a video for transcoding. A failed publish only delays it: the
+ * sweep picks up videos left PENDING.
+ */
+export const queueVideoTranscode = async (roomVideoId: string) => {
+  try {
+    await publishToQueue(VIDEO_TRANSCODE_QUEUE, { roomVideoId });
+  } catch (error) {
+    logger.error(`Failed to publish ${VIDEO_TRANSCODE_QUEUE}`, error, { roomVideoId });
+  }
+};
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const transcodeRendition = async (
+  input: string,
+  outputDir: string,
+  rung: (typeof LADDER)[number],
+  hasAudio: boolean
+) => {
+  const dir = path.join(outputDir, rung.name);
+  await fs.mkdir(dir, { recursive: true });
+
+  await runFfmpeg([
+    "-i", input,
+    "-map", "0:v:0",
+    ...(hasAudio ? ["-map", "0:a:0", "-c:a", "aac", "-b:a", `${AUDIO_KBPS}k`, "-ac", "2"] : []),
+    "-vf", `scale=-2:${rung.height}`,
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-profile:v", "main",
+    "-b:v", `${rung.videoKbps}k`,
+    "-maxrate", `${rung.maxKbps}k`,
+    "-bufsize", `${rung.videoKbps * 2}k`,
+    // Keyframes on segment boundaries so players can switch renditions
+    "-force_key_frames", `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+    "-sc_threshold", "0",
+    "-hls_time", String(SEGMENT_SECONDS),
+    "-hls_playlist_type", "vod",
+    "-hls_segment_filename", path.join(dir, "segment_%03d.ts"),
+    path.join(dir, "index.m3u8"),
+  ]);
+};
+
+export const buildMasterPlaylist = (renditions: VideoRendition[]) =>
+  [
+    "#EXTM3U",
+    "#EXT-X-VERSION:3",
+    ...renditions.flatMap((rendition) => [
+      `#EXT-X-STREAM-INF:BANDWIDTH=${rendition.bandwidth},RESOLUTION=${rendition.width}x${rendition.height}`,
+      `${rendition.name}/index.m3u8`,
+    ]),
+    "",
+  ].join("\n");
+
+/**
+ * The ladder rungs to encode for a source, with what each rendition will
+ * advertise in the master playlist.
+ */
+export const planRenditions = (probe: VideoProbe) =>
+  LADDER.filter((rung, index) => index === 0 || rung.height <= probe.height).map((rung) => ({
+    rung,
+    rendition: {
+      name: rung.name,
+      width: even((probe.width * rung.height) / probe.height),
+      height: rung.height,
+      bandwidth: (rung.maxKbps + (probe.hasAudio ? AUDIO_KBPS : 0)) * 1000,
+    } satisfies VideoRendition,
+  }));
+
+/**
+ * Writes every rendition, the master playlist and the poster into
+ * outputDir. Returns the renditions made.
+ */
+const transcodeAll = async (input: string, outputDir: string, probe: VideoProbe) => {
+  const planned = planRenditions(probe);
+  for (const { rung } of planned) {
+    await transcodeRendition(input, outputDir, rung, probe.hasAudio);
+  }
+  const renditions = planned.map(({ rendition }) => rendition);
+
+  await fs.writeFile(path.join(outputDir, "master.m3u8"), buildMasterPlaylist(renditions));
+
+  // Poster from a second in, or the middle of very short clips
+  await runFfmpeg([
+    "-ss", String(Math.min(1, probe.durationSeconds / 2)),
+    "-i", input,
+    "-frames:v", "1",
+    "-vf", "scale=-2:720",
+    path.join(outputDir, "poster.jpg"),
+  ]);
+
+  return renditions;
+};
+
+const listFiles = async (dir: string, prefix = ""): Promise<string[]> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) =>
+      entry.isDirectory()
+        ? listFiles(path.join(dir, entry.name), `${prefix}${entry.name}/`)
+        : Promise.resolve([`${prefix}${entry.name}`])
+    )
+  );
+  return files.flat();
+};
+
+const md5File = async (filePath: string) => {
+  const hash = crypto.createHash("md5");
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest("hex");
+};
+
+const markFailed = (roomVideoId: string, error: unknown) =>
+  prisma.roomVideo
+    .update({
+      where: { id: roomVideoId },
+      data: {
+        processingStatus: MediaProcessingStatus.FAILED,
+        processingError: error instanceof Error ? error.message : String(error),
+      },
+    })
+    .catch(() => undefined);
+
+/**
+ * Transcodes a room video into HLS renditions with a poster frame. Safe to
+ * run again: outputs live under fixed keys and are replaced on each run.
+ * A file ffmpeg cannot read is marked FAILED and not retried; other errors
+ * mark it FAILED and are rethrown.
+ */
+export const processRoomVideo = async (roomVideoId: string) => {
+  // Claim the video; one already processing, done, or not yet linked to
+  // its file is left alone
+  const claimed = await prisma.roomVideo.updateMany({
+    where: {
+      id: roomVideoId,
+      assetId: { not: null },
+      processingStatus: { in: [MediaProcessingStatus.PENDING, MediaProcessingStatus.FAILED] },
+    },
+    data: { processingStatus: MediaProcessingStatus.PROCESSING, processingError: null },
+  });
+  if (claimed.count === 0) return;
+
+  const video = await prisma.roomVideo.findUnique({
+    where: { id: roomVideoId },
+    include: { asset: true },
+  });
+
+  // Deleted since it was claimed
+  if (!video?.asset) return;
+  const { asset } = video;
+
+  const storage = getMediaStorage();
+  const baseKey = asset.key.replace(/\.[^./]+$/, "");
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "room-video-"));
+
+  try {
+    // Work from a local copy; ffmpeg seeks around in it
+    const input = path.join(workDir, "original");
+    await pipeline(storage.readStream(asset.key), createWriteStream(input));
+
+    const outputDir = path.join(workDir, "out");
+    await fs.mkdir(outputDir);
+
+    let probe: VideoProbe;
+    let renditions: VideoRendition[];
+    try {
+      probe = await probeVideo(input);
+      renditions = await transcodeAll(input, outputDir, probe);
+    } catch (error) {
+      if (!(error instanceof FfmpegError)) throw error;
+
+      await markFailed(roomVideoId, error);
+      logger.warn("Room video could not be transcoded", { roomVideoId, error: error.message });
+      return;
+    }
+
+    const outputs: Prisma.MediaAssetCreateManyInput[] = [];
+    for (const file of await listFiles(outputDir)) {
+      const filePath = path.join(outputDir, file);
+      const key = `${baseKey}/${file}`;
+      const contentType = contentTypeForKey(key);
+
+      await storage.put(key, createReadStream(filePath), { contentType });
+      outputs.push({
+        key,
+        mimeType: contentType,
+        size: (await fs.stat(filePath)).size,
+        checksum: await md5File(filePath),
+        outputOfVideoId: roomVideoId,
+      });
+    }
+
+    // Outputs of an earlier run that this one did not produce
+    const stale = await prisma.mediaAsset.findMany({
+      where: { outputOfVideoId: roomVideoId, key: { notIn: outputs.map((output) => output.key) } },
+      select: { key: true },
+    });
+
+    await prisma.$transaction(async (tx) => {
+      await tx.mediaAsset.deleteMany({ where: { outputOfVideoId: roomVideoId } });
+      await tx.mediaAsset.createMany({ data: outputs });
+
+      await tx.roomVideo.update({
+        where: { id: roomVideoId },
+        data: {
+          processingStatus: MediaProcessingStatus.READY,
+          processedAt: new Date(),
+          durationSeconds: probe.durationSeconds,
+          width: probe.width,
+          height: probe.height,
+          manifestKey: `${baseKey}/master.m3u8`,
+          posterKey: `${baseKey}/poster.jpg`,
+          renditions: renditions as unknown as Prisma.InputJsonValue,
+        },
+      });
+    });
+
+    for (const { key } of stale) {
+      await storage.remove(key).catch((error) => {
+        logger.warn("Failed to remove stale video output", { key, error });
+      });
+    }
+
+    await bumpRoomsCacheVersion();
+    logger.info("Room video transcoded", { roomVideoId, renditions: renditions.map((r) => r.name) });
+  } catch (error) {
+    await markFailed(roomVideoId, error);
+    throw error;
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * RabbitMQ handler for MEDIA.VIDEO_TRANSCODE. Throwing hands the message
+ * back for a retry.
+ */
+export const handleVideoTranscodeEvent = async (data: { roomVideoId?: string }) => {
+  if (!data?.roomVideoId) {
+    logger.warn(`${VIDEO_TRANSCODE_QUEUE} event without roomVideoId`, { data });
+    return;
+  }
+
+  await processRoomVideo(data.roomVideoId);
+};
+
+/**
+ * Queues videos stuck in PENDING (publishes that failed, and videos
+ * uploaded before transcoding existed) or in PROCESSING (a worker that died
+ * mid-encode). Returns how many were queued.
+ */
+export const requeueStalePendingVideos = async (now: Date = new Date()) => {
+  const stale = await prisma.roomVideo.findMany({
+    where: {
+      assetId: { not: null },
+      OR: [
+        {
+          processingStatus: MediaProcessingStatus.PENDING,
+          updatedAt: { lt: new Date(now.getTime() - STALE_PENDING_MS) },
+        },
+        {
+          processingStatus: MediaProcessingStatus.PROCESSING,
+          updatedAt: { lt: new Date(now.getTime() - STALE_PROCESSING_MS) },
+        },
+      ],
+    },
+    select: { id: true },
+    take: 20,
+  });
+
+  for (const { id } of stale) {
+    // Back to PENDING and touched, so the next sweep waits another period
+    await prisma.roomVideo.update({
+      where: { id },
+      data: { processingStatus: MediaProcessingStatus.PENDING, updatedAt: now },
+    });
+    await queueVideoTranscode(id);
+  }
+
+  return stale.length;
+};
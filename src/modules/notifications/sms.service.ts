@@ -0,0 +1,30 @@
+import axios from "axios";
+
+/**
+ * SMS through Twilio's REST API.
+ *
+ *   TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN
+ *   TWILIO_MESSAGING_SERVICE_SID or TWILIO_FROM_NUMBER
+ */
+export const sendSms = async (to: string, body: string) => {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const messagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID;
+  const from = process.env.TWILIO_FROM_NUMBER;
+
+  if (!accountSid || !authToken || !(messagingServiceSid || from)) {
+    throw new Error("Twilio is not configured");
+  }
+
+  const form = new URLSearchParams({ To: to, Body: body });
+  if (messagingServiceSid) {
+    form.set("MessagingServiceSid", messagingServiceSid);
+  } else {
+    form.set("From", from!);
+  }
+
+  await axios.post(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, form, {
+    auth: { username: accountSid, password: authToken },
+    timeout: 10_000,
+  });
+};
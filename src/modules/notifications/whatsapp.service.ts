@@ -1 +1,51 @@
-// placeholder
+import axios from "axios";
+
+/**
+ * WhatsApp Cloud API. Messages to users who have not written in first must
+ * use a template approved in Meta Business Manager.
+ *
+ *   WHATSAPP_PHONE_NUMBER_ID  sender number id
+ *   WHATSAPP_ACCESS_TOKEN     system user token with whatsapp_business_messaging
+ */
+const GRAPH_API_URL = "https://graph.facebook.com/v19.0";
+
+export interface WhatsAppTemplateComponent {
+  type: "body" | "button";
+  sub_type?: "url" | "quick_reply";
+  index?: string;
+  parameters: { type: "text"; text: string }[];
+}
+
+export const sendWhatsAppTemplate = async ({
+  to,
+  template,
+  language = process.env.WHATSAPP_TEMPLATE_LANGUAGE || "en",
+  components,
+}: {
+  // E.164, e.g. +923001234567
+  to: string;
+  template: string;
+  language?: string;
+  components: WhatsAppTemplateComponent[];
+}) => {
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+  const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+
+  if (!phoneNumberId || !accessToken) {
+    throw new Error("WHATSAPP_PHONE_NUMBER_ID or WHATSAPP_ACCESS_TOKEN is missing");
+  }
+
+  await axios.post(
+    `${GRAPH_API_URL}/${phoneNumberId}/messages`,
+    {
+      messaging_product: "whatsapp",
+      to: to.replace(/^\+/, ""),
+      type: "template",
+      template: { name: template, language: { code: language }, components },
+    },
+    {
+      headers: { Authorization: `Bearer ${accessToken}` },
+      timeout: 10_000,
+    }
+  );
+};
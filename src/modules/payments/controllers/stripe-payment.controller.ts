@@ -3,11 +3,14 @@ import { z } from "zod";
 import StripePaymentService from "../services/stripe-payment.service";
 import prisma from "../../../config/prismaClient";
 import { logger } from "../../../utils/logger";
-import { Prisma } from "@prisma/client";
+import { BookingStatus, Prisma } from "@prisma/client";
+import { ApiError } from "../../../utils/ApiError";
+import { assertPhoneVerified } from "../../users/phoneVerification.service";
 
 const createCheckoutSessionSchema = z.object({
   bookingId: z.string().uuid(),
-  amount: z.number().int().positive(),
+  // Optional client-side echo of the total; the order total is what gets charged
+  amount: z.number().int().positive().optional(),
 });
 
 const deletePaymentParamsSchema = z.object({
@@ -22,7 +25,7 @@ export const createStripeCheckoutSession = async (req: Request, res: Response) =
 
     const bookingOrder = await prisma.bookingOrder.findUnique({
       where: { id: bookingId },
-      select: { id: true, userId: true, totalAmount: true },
+      select: { id: true, userId: true, totalAmount: true, status: true },
     });
 
     if (!bookingOrder) {
@@ -40,7 +43,12 @@ export const createStripeCheckoutSession = async (req: Request, res: Response) =
       });
     }
 
-    if (amount !== bookingOrder.totalAmount) {
+    // Checkout confirms the order, which needs a verified phone
+    if (bookingOrder.status !== BookingStatus.CONFIRMED && bookingOrder.status !== BookingStatus.COMPLETED) {
+      await assertPhoneVerified(bookingOrder.userId);
+    }
+
+    if (amount !== undefined && amount !== bookingOrder.totalAmount) {
       logger.warn("Checkout amount does not match bookingOrder.totalAmount", {
         bookingId,
         requestedAmount: amount,
@@ -52,10 +60,7 @@ export const createStripeCheckoutSession = async (req: Request, res: Response) =
       });
     }
 
-    const session = await stripePaymentService.createCheckoutSession(
-      bookingId,
-      amount,
-    );
+    const session = await stripePaymentService.createCheckoutSession(bookingId);
 
     return res.status(201).json({
       success: true,
@@ -74,6 +79,13 @@ export const createStripeCheckoutSession = async (req: Request, res: Response) =
       });
     }
 
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
     if (error instanceof Error) {
       if (error.message === "Booking not found") {
         return res.status(404).json({
@@ -82,6 +94,13 @@ export const createStripeCheckoutSession = async (req: Request, res: Response) =
         });
       }
 
+      if (error.message === "Booking order has expired") {
+        return res.status(410).json({
+          success: false,
+          message: error.message,
+        });
+      }
+
       if (error.message === "Payment already completed for this booking") {
         return res.status(409).json({
           success: false,
@@ -149,6 +168,13 @@ export const deletePayment = async (req: Request, res: Response) => {
       });
     }
 
+    if (error instanceof Error && error.message === "ORDER_HAS_BILLING_DOCUMENTS") {
+      return res.status(409).json({
+        success: false,
+        message: "Orders with issued invoices or receipts cannot be deleted",
+      });
+    }
+
     if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2025") {
       return res.status(404).json({
         success: false,
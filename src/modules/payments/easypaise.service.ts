@@ -1,4 +1,5 @@
 import { PaymentStatus } from "@prisma/client";
+import crypto from "crypto";
 
 interface EasyPaisaPaymentRequest {
   bookingId: string;
@@ -22,6 +23,35 @@ export class EasyPaisaPaymentService {
   private apiKey = process.env.EASYPAISA_API_KEY || "";
   private apiBaseUrl = process.env.EASYPAISA_API_URL || "https://www.easypaisa.com.pk/api/payment";
 
+  /**
+   * Check the signature EasyPaisa puts on its callbacks: HMAC-SHA256, keyed
+   * with EASYPAISA_HASH_KEY, over every other field as key=value, sorted by
+   * key and joined with "&".
+   */
+  verifyCallbackSignature(callbackData: Record<string, unknown>): boolean {
+    const hashKey = process.env.EASYPAISA_HASH_KEY;
+    if (!hashKey) {
+      throw new Error("EASYPAISA_HASH_KEY is missing");
+    }
+
+    const received = callbackData.signature;
+    if (typeof received !== "string" || !received) {
+      return false;
+    }
+
+    const signed = Object.keys(callbackData)
+      .filter((key) => key !== "signature")
+      .sort()
+      .map((key) => `${key}=${callbackData[key] ?? ""}`)
+      .join("&");
+
+    const expected = crypto.createHmac("sha256", hashKey).update(signed).digest("hex");
+
+    const a = Buffer.from(expected.toLowerCase());
+    const b = Buffer.from(received.toLowerCase());
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
   /**
    * Initiate EasyPaisa Payment
    */
@@ -129,7 +159,6 @@ export class EasyPaisaPaymentService {
       // EasyPaisa sends callback with payment status
       const { transactionId, status, statusCode } = callbackData;
 
-      // Verify callback authenticity (in production)
       if (statusCode === "0000" || status === "SUCCESS" || status === "PAID") {
         return {
           status: PaymentStatus.SUCCESS,
@@ -34,6 +34,38 @@ export class JazzCashPaymentService {
       .digest("hex");
   }
 
+  /**
+   * Check the pp_SecureHash JazzCash puts on its callbacks: HMAC-SHA256,
+   * keyed with the integrity salt, over the salt and every non-empty pp_
+   * field except the hash itself, sorted by name and joined with "&".
+   */
+  verifyCallbackHash(callbackData: Record<string, unknown>): boolean {
+    const integritySalt = process.env.JAZZCASH_INTEGRITY_SALT;
+    if (!integritySalt) {
+      throw new Error("JAZZCASH_INTEGRITY_SALT is missing");
+    }
+
+    const received = callbackData.pp_SecureHash;
+    if (typeof received !== "string" || !received) {
+      return false;
+    }
+
+    const values = Object.keys(callbackData)
+      .filter((key) => key.startsWith("pp_") && key !== "pp_SecureHash")
+      .sort()
+      .map((key) => String(callbackData[key] ?? ""))
+      .filter((value) => value !== "");
+
+    const expected = crypto
+      .createHmac("sha256", integritySalt)
+      .update([integritySalt, ...values].join("&"))
+      .digest("hex");
+
+    const a = Buffer.from(expected.toLowerCase());
+    const b = Buffer.from(received.toLowerCase());
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+  }
+
   /**
    * Initiate JazzCash Payment
    */
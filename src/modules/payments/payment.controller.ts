@@ -1,360 +1,256 @@
 import { Request, Response, NextFunction } from "express";
-import { PaymentMethod } from "@prisma/client";
+import { BookingStatus, InstallmentStatus, PaymentEventStatus, PaymentMethod } from "@prisma/client";
 import PaymentService from "./payment.service";
-import { EasyPaisaPaymentService } from "./easypaise.service";
-import { JazzCashPaymentService } from "./jazzcash.service";
+import { receivePaymentEvent, replayPaymentEvent as replayStoredPaymentEvent } from "./services/payment-event.service";
 import prisma from "../../config/prismaClient";
-import { z } from "zod";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { assertPhoneVerified } from "../users/phoneVerification.service";
+import { InitiatePaymentDTO, VerifyPaymentDTO } from "./payment.dtos";
+
+const CALLBACK_PROVIDERS: Record<string, PaymentMethod> = {
+  easypaisa: PaymentMethod.EASYPAISA,
+  jazzcash: PaymentMethod.JAZZCASH,
+};
 
-// Validation schemas
-const initiatePaymentSchema = z.object({
-  bookingId: z.string().uuid(),
-  paymentMethod: z.enum(["STRIPE", "EASYPAISA", "PAYPAL"]),
-  phoneNumber: z.string().optional(),
-  returnUrl: z.string().url().optional(),
-});
+/**
+ * Only the order owner or an admin may act on an order's payment
+ */
+const assertCanPayForOrder = async (req: Request, bookingOrderId: string) => {
+  const order = await prisma.bookingOrder.findUnique({
+    where: { id: bookingOrderId },
+    select: { userId: true, status: true },
+  });
+
+  if (!order) {
+    throw new ApiError(404, "Booking Order not found");
+  }
 
-const verifyPaymentSchema = z.object({
-  bookingId: z.string().uuid(),
-});
+  if (order.userId !== req.user?.userId && req.user?.role !== "ADMIN") {
+    throw new ApiError(403, "You cannot access payments for this booking order");
+  }
+
+  return order;
+};
 
 /**
  * POST /payments/initiate
- * Initiate payment for a booking
+ * Initiate payment for a booking order with any provider
  */
-export const initiatePayment = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const parsedData = initiatePaymentSchema.parse(req.body);
-    const { bookingId, paymentMethod, phoneNumber, returnUrl } = parsedData;
-    const userId = req.user?.userId;
-
-    // Verify booking exists and belongs to user
-    const booking = await prisma.booking.findUnique({
-      where: { id: bookingId },
-      include: { user: true },
-    });
+export const initiatePayment = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { bookingOrderId, paymentMethod, installmentId, phoneNumber, returnUrl } =
+      req.body as InitiatePaymentDTO;
 
-    if (!booking) {
-      return res.status(404).json({
-        success: false,
-        message: "Booking not found"
-      });
-    }
+    const order = await assertCanPayForOrder(req, bookingOrderId);
 
-    if (booking.userId !== userId && req.user?.role !== "ADMIN") {
-      return res.status(403).json({
-        success: false,
-        message: "You cannot initiate payment for this booking"
-      });
+    // Paying confirms the order; later installments of a confirmed one are fine
+    if (order.status !== BookingStatus.CONFIRMED && order.status !== BookingStatus.COMPLETED) {
+      await assertPhoneVerified(order.userId);
     }
 
-    // Initiate payment
     const paymentResponse = await PaymentService.initiatePayment({
-      bookingId,
-      amount: booking.baseAmount,
-      paymentMethod: paymentMethod as PaymentMethod,
+      bookingOrderId,
+      paymentMethod,
+      installmentId,
       returnUrl,
       phoneNumber,
     });
 
-    if (!paymentResponse.success) {
-      return res.status(400).json({
-        success: false,
-        message: paymentResponse.message
-      });
-    }
-
-    return res.status(200).json({
+    res.status(200).json({
       success: true,
-      message: "Payment initiated successfully",
+      message: paymentResponse.message,
       data: {
         transactionId: paymentResponse.transactionId,
+        amount: paymentResponse.amount,
         paymentUrl: paymentResponse.paymentUrl,
         paymentStatus: paymentResponse.paymentStatus,
-      }
-    });
-  } catch (error) {
-    console.error(error);
-    if (error instanceof Error && error.message.includes("validation")) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid payment data provided"
-      });
-    }
-    return res.status(500).json({
-      success: false,
-      message: "Server is currently unavailable. Please try again later."
+      },
     });
   }
-};
+);
 
 /**
- * GET /payments/:bookingId
- * Get payment details for a booking
+ * GET /payments/:bookingOrderId
+ * Get all payments for a booking order
  */
-export const getPaymentDetails = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const { bookingId } = req.params;
+export const getPaymentDetails = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { bookingOrderId } = req.params;
 
-    const payment = await PaymentService.getPaymentDetails(bookingId);
+    await assertCanPayForOrder(req, bookingOrderId);
 
-    if (!payment) {
-      return res.status(404).json({
-        success: false,
-        message: "Payment record not found"
-      });
+    const payments = await PaymentService.getPaymentDetails(bookingOrderId);
+
+    if (payments.length === 0) {
+      throw new ApiError(404, "Payment record not found");
     }
 
-    return res.status(200).json({
+    res.status(200).json({
       success: true,
       message: "Payment details fetched successfully",
-      data: payment
+      data: payments,
+    });
+  }
+);
+
+/**
+ * GET /payments/orders/:bookingOrderId/balance
+ * Balance due, payment status and installment schedule of a booking order
+ */
+export const getOrderBalance = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { bookingOrderId } = req.params;
+
+    await assertCanPayForOrder(req, bookingOrderId);
+
+    const balance = await PaymentService.getOrderBalance(bookingOrderId);
+
+    res.status(200).json({
+      success: true,
+      message: "Order balance fetched successfully",
+      data: balance,
     });
-  } catch (error) {
-    console.error(error);
-    return res.status(500).json({
-      success: false,
-      message: "Server is currently unavailable. Please try again later."
+  }
+);
+
+/**
+ * GET /payments/installments/overdue
+ * Admin list of overdue installments
+ */
+export const getOverdueInstallments = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { page = "1", limit = "10" } = req.query as Record<string, string>;
+
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(100, Math.max(Number(limit) || 10, 1));
+    const skip = (pageNumber - 1) * pageSize;
+
+    const where = { status: InstallmentStatus.OVERDUE };
+
+    const [installments, total] = await Promise.all([
+      prisma.paymentInstallment.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { dueDate: "asc" },
+        include: {
+          bookingOrder: {
+            select: {
+              id: true,
+              orderNumber: true,
+              user: { select: { id: true, name: true, email: true, phone: true } },
+            },
+          },
+        },
+      }),
+      prisma.paymentInstallment.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: "Overdue installments fetched successfully",
+      data: {
+        items: installments,
+        total,
+        page: pageNumber,
+        limit: pageSize,
+      },
     });
   }
-};
+);
 
 /**
  * POST /payments/verify
- * Verify payment status
+ * Verify payment status with the provider
  */
-export const verifyPayment = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const parsedData = verifyPaymentSchema.parse(req.body);
-    const { bookingId } = parsedData;
-
-    const payment = await prisma.payment.findUnique({
-      where: { bookingOrderId: bookingId },
+export const verifyPayment = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { bookingOrderId } = req.body as VerifyPaymentDTO;
+
+    await assertCanPayForOrder(req, bookingOrderId);
+
+    // The latest attempt is the one the customer is waiting on
+    const payment = await prisma.payment.findFirst({
+      where: { bookingOrderId },
+      orderBy: { createdAt: "desc" },
     });
 
     if (!payment) {
-      return res.status(404).json({
-        success: false,
-        message: "Payment record not found"
-      });
+      throw new ApiError(404, "Payment record not found");
     }
 
-    // Verify with payment provider
     const verification = await PaymentService.verifyPaymentStatus(
       payment.transactionId,
       payment.paymentMethod
     );
 
-    return res.status(200).json({
+    res.status(200).json({
       success: true,
       message: "Payment verified successfully",
       data: {
         verified: verification.verified,
         status: verification.status,
         transactionId: payment.transactionId,
-      }
-    });
-  } catch (error) {
-    console.error(error);
-    if (error instanceof Error && error.message.includes("validation")) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid verification data provided"
-      });
-    }
-    return res.status(500).json({
-      success: false,
-      message: "Server is currently unavailable. Please try again later."
+      },
     });
   }
-};
+);
 
 /**
- * POST /payments/stripe/webhook
- * Stripe webhook handler
+ * POST /payments/:provider/callback
+ * Payment provider callback (EasyPaisa, JazzCash, mock)
  */
-export const stripeWebhook = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const event = req.body;
-
-    if (!event || !event.type) {
-      return res.status(400).json({
-        success: false,
-        message: "Invalid webhook payload"
-      });
-    }
+export const handlePaymentCallback = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const paymentMethod = CALLBACK_PROVIDERS[req.params.provider];
 
-    switch (event.type) {
-      case "payment_intent.succeeded":
-        const { id: transactionId, metadata } = event.data.object;
-        const bookingId = metadata?.bookingId;
-
-        if (bookingId) {
-          await PaymentService.handlePaymentSuccess(
-            transactionId,
-            bookingId,
-            PaymentMethod.STRIPE
-          );
-        }
-        break;
-
-      case "payment_intent.payment_failed":
-        const failedTxn = event.data.object;
-        const failedBookingId = failedTxn.metadata?.bookingId;
-
-        if (failedBookingId) {
-          await PaymentService.handlePaymentFailure(
-            failedTxn.id,
-            failedBookingId,
-            PaymentMethod.STRIPE,
-            failedTxn.last_payment_error?.message
-          );
-        }
-        break;
+    if (!paymentMethod) {
+      throw new ApiError(404, "Unknown payment provider");
     }
 
-    return res.status(200).json({
+    const { duplicate, result } = await receivePaymentEvent(paymentMethod, req.body, req.headers);
+
+    res.status(200).json({
       success: true,
-      message: "Webhook processed successfully",
-      data: { received: true }
-    });
-  } catch (error) {
-    console.error(error);
-    return res.status(500).json({
-      success: false,
-      message: "Webhook processing failed. Please try again later."
+      message: duplicate
+        ? "Payment callback already processed"
+        : "Payment callback processed successfully",
+      data:
+        result?.kind === "payment"
+          ? { transactionId: result.transactionId, paymentStatus: result.paymentStatus }
+          : null,
     });
   }
-};
+);
 
 /**
- * POST /payments/easypaisa/callback
- * EasyPaisa payment callback handler
+ * POST /payments/mock/callback
+ * Settles a mock payment { transactionId, outcome }; stands in for the customer paying
  */
-export const easyPaisaCallback = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const easyPaisaService = new EasyPaisaPaymentService();
-    const callbackData = req.body;
-
-    const callbackResult = await easyPaisaService.handleCallback(callbackData);
-
-    if (callbackResult.status === "SUCCESS") {
-      // Extract bookingId from transactionId or callback data
-      const bookingId = callbackData.bookingId || callbackData.orderId;
-
-      if (bookingId) {
-        const result = await PaymentService.handlePaymentSuccess(
-          callbackResult.transactionId,
-          bookingId,
-          PaymentMethod.EASYPAISA
-        );
-
-        return res.status(200).json({
-          success: true,
-          message: "Payment processed successfully",
-          data: {
-            success: result.success,
-            message: result.message,
-          }
-        });
-      }
-    }
+export const handleMockPaymentCallback = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { duplicate, result } = await receivePaymentEvent(PaymentMethod.MOCK, req.body, req.headers);
 
-    return res.status(400).json({
-      success: false,
-      message: "Payment verification failed"
-    });
-  } catch (error) {
-    console.error(error);
-    return res.status(500).json({
-      success: false,
-      message: "Payment callback processing failed. Please try again later."
+    res.status(200).json({
+      success: true,
+      message: duplicate
+        ? "Payment callback already processed"
+        : "Payment callback processed successfully",
+      data:
+        result?.kind === "payment"
+          ? { transactionId: result.transactionId, paymentStatus: result.paymentStatus }
+          : null,
     });
   }
-};
-
-/**
- * POST /payments/jazzcash/callback
- * JazzCash payment callback handler
- */
-export const jazzCashCallback = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
-    const jazzCashService = new JazzCashPaymentService();
-    const callbackData = req.body;
-
-    const callbackResult = await jazzCashService.handleCallback(callbackData);
-
-    if (callbackResult.status === "SUCCESS") {
-      // Extract bookingId from transaction reference
-      const refNo = callbackResult.transactionId;
-      // Extract bookingId from reference (adjust based on your format)
-      const bookingId = refNo?.split("-")[0];
-
-      if (bookingId) {
-        const result = await PaymentService.handlePaymentSuccess(
-          callbackResult.transactionId,
-          bookingId,
-          PaymentMethod.JAZZCASH
-        );
-
-        return res.status(200).json({
-          success: true,
-          message: "Payment processed successfully",
-          data: {
-            success: result.success,
-            message: result.message,
-          }
-        });
-      }
-    }
-
-    return res.status(400).json({
-      success: false,
-      message: "Payment verification failed"
-    });
-  } catch (error) {
-    console.error(error);
-    return res.status(500).json({
-      success: false,
-      message: "Payment callback processing failed. Please try again later."
-    });
-  }
-};
+);
 
 /**
  * GET /payments/status/:transactionId
  * Get payment status by transaction ID
  */
-export const getPaymentStatus = async (
-  req: Request,
-  res: Response,
-  next: NextFunction
-) => {
-  try {
+export const getPaymentStatus = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     const { transactionId } = req.params;
 
     const payment = await prisma.payment.findFirst({
@@ -363,29 +259,92 @@ export const getPaymentStatus = async (
     });
 
     if (!payment) {
-      return res.status(404).json({
-        success: false,
-        message: "Payment not found"
-      });
+      throw new ApiError(404, "Payment not found");
     }
 
-    return res.status(200).json({
+    res.status(200).json({
       success: true,
       message: "Payment status fetched successfully",
       data: {
         transactionId: payment.transactionId,
-        bookingId: payment.bookingOrderId,
+        bookingOrderId: payment.bookingOrderId,
         paymentMethod: payment.paymentMethod,
         paymentStatus: payment.paymentStatus,
         createdAt: payment.createdAt,
         bookingStatus: payment.bookingOrder.status,
-      }
+      },
     });
-  } catch (error) {
-    console.error(error);
-    return res.status(500).json({
-      success: false,
-      message: "Server is currently unavailable. Please try again later."
+  }
+);
+
+/**
+ * GET /payments/events
+ * Admin view of the webhook/callback ledger; defaults to failed events
+ */
+export const getPaymentEvents = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const {
+      status = PaymentEventStatus.FAILED,
+      provider,
+      page = "1",
+      limit = "10",
+    } = req.query as Record<string, string>;
+
+    if (status !== "ALL" && !Object.values(PaymentEventStatus).includes(status as PaymentEventStatus)) {
+      throw new ApiError(400, `Invalid status. Valid statuses are: ALL, ${Object.values(PaymentEventStatus).join(", ")}`);
+    }
+
+    if (provider && !Object.values(PaymentMethod).includes(provider as PaymentMethod)) {
+      throw new ApiError(400, `Invalid provider. Valid providers are: ${Object.values(PaymentMethod).join(", ")}`);
+    }
+
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(100, Math.max(Number(limit) || 10, 1));
+    const skip = (pageNumber - 1) * pageSize;
+
+    const where = {
+      ...(status !== "ALL" && { status: status as PaymentEventStatus }),
+      ...(provider && { provider: provider as PaymentMethod }),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.paymentEvent.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { receivedAt: "desc" },
+      }),
+      prisma.paymentEvent.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: "Payment events fetched successfully",
+      data: {
+        items: events,
+        total,
+        page: pageNumber,
+        limit: pageSize,
+      },
     });
   }
-};
+);
+
+/**
+ * POST /payments/events/:id/replay
+ * Re-run a failed event from its stored payload
+ */
+export const replayPaymentEvent = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const event = await replayStoredPaymentEvent(req.params.id);
+    const processed = event.status === PaymentEventStatus.PROCESSED;
+
+    res.status(processed ? 200 : 422).json({
+      success: processed,
+      message: processed
+        ? "Payment event replayed successfully"
+        : `Payment event replay failed: ${event.error}`,
+      data: event,
+    });
+  }
+);
@@ -3,11 +3,17 @@ import {
   initiatePayment,
   getPaymentDetails,
   verifyPayment,
-  easyPaisaCallback,
-  jazzCashCallback,
+  handlePaymentCallback,
+  handleMockPaymentCallback,
   getPaymentStatus,
+  getPaymentEvents,
+  replayPaymentEvent,
+  getOrderBalance,
+  getOverdueInstallments,
 } from "./payment.controller";
 import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { initiatePaymentSchema, verifyPaymentSchema } from "./payment.dtos";
 
 const router = Router();
 
@@ -15,39 +21,59 @@ const router = Router();
  * Payment Management Routes
  */
 
-// Initiate payment for a booking - Authenticated users (USER or ADMIN)
+// Initiate payment for a booking order - Authenticated users (USER or ADMIN)
 router.post(
   "/initiate",
   authenticateUserWithRole(["USER", "ADMIN"]),
+  validate(initiatePaymentSchema),
   initiatePayment
 );
 
-// Get payment details for a booking - Authenticated users
-router.get(
-  "/:bookingId",
-  authenticateUserWithRole(["USER", "ADMIN"]),
-  getPaymentDetails
-);
-
 // Verify payment status - Authenticated users
 router.post(
   "/verify",
   authenticateUserWithRole(["USER", "ADMIN"]),
+  validate(verifyPaymentSchema),
   verifyPayment
 );
 
+// Balance due and installment schedule of a booking order - Authenticated users
+router.get(
+  "/orders/:bookingOrderId/balance",
+  authenticateUserWithRole(["USER", "ADMIN"]),
+  getOrderBalance
+);
+
+// Overdue installments - ADMIN only
+router.get("/installments/overdue", authenticateUserWithRole(["ADMIN"]), getOverdueInstallments);
+
+// Webhook/callback event ledger - ADMIN only
+router.get("/events", authenticateUserWithRole(["ADMIN"]), getPaymentEvents);
+
+// Replay a failed webhook/callback event - ADMIN only
+router.post("/events/:id/replay", authenticateUserWithRole(["ADMIN"]), replayPaymentEvent);
+
 /**
  * Webhook Routes (for payment provider callbacks)
  * These routes should NOT require authentication as they are called by external providers
+ * Stripe posts to /api/webhooks/stripe instead (it needs the raw body)
  */
 
 // Get payment status by transaction ID - Public (needed for status checks)
 router.get("/status/:transactionId", getPaymentStatus);
 
-// EasyPaisa payment callback (requires provider signature verification)
-router.post("/easypaisa/callback", easyPaisaCallback);
+// Mock payment callback, only when PAYMENT_MOCK_ENABLED=true - ADMIN only
+// The mock callback { transactionId, outcome } stands in for the customer paying
+router.post("/mock/callback", authenticateUserWithRole(["ADMIN"]), handleMockPaymentCallback);
+
+// EasyPaisa / JazzCash payment callbacks (authenticated by the provider's signature)
+router.post("/:provider/callback", handlePaymentCallback);
 
-// JazzCash payment callback (requires provider signature verification)
-router.post("/jazzcash/callback", jazzCashCallback);
+// Get payment details for a booking order - Authenticated users
+router.get(
+  "/:bookingOrderId",
+  authenticateUserWithRole(["USER", "ADMIN"]),
+  getPaymentDetails
+);
 
 export default router;
@@ -1,252 +1,597 @@
 import prisma from "../../config/prismaClient";
-import { PaymentMethod, PaymentStatus } from "@prisma/client";
-import { StripePaymentService } from "./stripe.service";
-import { EasyPaisaPaymentService } from "./easypaise.service";
-import { JazzCashPaymentService } from "./jazzcash.service";
+import { BookingStatus, PaymentMethod, PaymentStatus, Prisma } from "@prisma/client";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+import { recordInvoicePayment } from "../residents/resident.service";
+import { assertSeatsAvailable, refreshRoomSeatCounters } from "../rooms/room.service";
+import {
+  PaymentCallbackResult,
+  ProviderEventResult,
+  RefundCallbackResult,
+  getPaymentProvider,
+} from "./providers";
+import {
+  applyOrderPayment,
+  cancelOpenInstallments,
+  getAmountToCharge,
+  getBalanceDue,
+} from "./services/payment-plan.service";
+
+const SETTLED_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCESS,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
 
 export interface IPaymentRequest {
-  bookingId: string;
-  amount: number;
+  bookingOrderId: string;
   paymentMethod: PaymentMethod;
+  // Pay one specific installment instead of everything currently due
+  installmentId?: string;
   returnUrl?: string;
-  notifyUrl?: string;
   phoneNumber?: string; // for EasyPaisa and JazzCash
 }
 
 export interface IPaymentResponse {
-  success: boolean;
   transactionId: string;
+  amount: number;
   paymentUrl?: string;
   message: string;
   paymentStatus: PaymentStatus;
 }
 
 export class PaymentService {
-  private stripeService = new StripePaymentService();
-  private easyPaisaService = new EasyPaisaPaymentService();
-  private jazzCashService = new JazzCashPaymentService();
-
   /**
-   * Initialize payment based on payment method
+   * Start a payment for an order with the provider chosen by paymentMethod.
+   * The amount is always worked out server-side: the balance due, or what is
+   * currently due on an installment plan.
    */
   async initiatePayment(paymentRequest: IPaymentRequest): Promise<IPaymentResponse> {
-    try {
-      const { bookingId, amount, paymentMethod } = paymentRequest;
+    const { bookingOrderId, paymentMethod } = paymentRequest;
+
+    const order = await prisma.bookingOrder.findUnique({
+      where: { id: bookingOrderId },
+      include: { user: true },
+    });
+
+    if (!order) {
+      throw new ApiError(404, "Booking Order not found");
+    }
+
+    // Confirmed orders keep their old expiresAt but can still pay installments
+    const onHold = order.status === BookingStatus.PENDING || order.status === BookingStatus.RESERVED;
+    if (
+      order.status === BookingStatus.CANCELLED ||
+      (onHold && order.expiresAt && order.expiresAt <= new Date())
+    ) {
+      throw new ApiError(410, "Booking order has expired");
+    }
+
+    const charge = await getAmountToCharge(prisma, order, paymentRequest.installmentId);
+    if (charge.amount <= 0) {
+      throw new ApiError(409, "Payment already completed for this booking");
+    }
+
+    const provider = getPaymentProvider(paymentMethod);
+    const response = await provider.initiate({
+      bookingOrderId,
+      orderNumber: order.orderNumber,
+      amount: charge.amount,
+      customerName: order.user.name,
+      customerEmail: order.user.email,
+      phoneNumber: paymentRequest.phoneNumber || order.user.phone,
+      returnUrl: paymentRequest.returnUrl,
+    });
+
+    // Reuse the open attempt for the same installment instead of piling up pending rows
+    const pending = await prisma.payment.findFirst({
+      where: {
+        bookingOrderId,
+        installmentId: charge.installmentId,
+        paymentStatus: PaymentStatus.PENDING,
+      },
+      orderBy: { createdAt: "desc" },
+      select: { id: true },
+    });
 
-      // Verify booking exists
-      const booking = await prisma.booking.findUnique({
-        where: { id: bookingId },
-        include: { user: true, room: true },
+    const data = {
+      paymentMethod,
+      paymentStatus: PaymentStatus.PENDING,
+      transactionId: response.transactionId,
+      amount: charge.amount,
+    };
+
+    if (pending) {
+      await prisma.payment.update({ where: { id: pending.id }, data });
+    } else {
+      await prisma.payment.create({
+        data: { ...data, bookingOrderId, installmentId: charge.installmentId },
       });
+    }
 
-      if (!booking) {
-        return {
-          success: false,
-          transactionId: "",
-          message: "Booking not found",
-          paymentStatus: PaymentStatus.FAILED,
-        };
+    logger.info("Payment initiated", {
+      bookingOrderId,
+      paymentMethod,
+      amount: charge.amount,
+      transactionId: response.transactionId,
+    });
+
+    return { ...response, amount: charge.amount };
+  }
+
+  /**
+   * Apply the outcome of a provider event. Returns the booking order it
+   * resolved to, if any.
+   */
+  async applyProviderResult(
+    paymentMethod: PaymentMethod,
+    result: ProviderEventResult
+  ): Promise<string | undefined> {
+    switch (result.kind) {
+      case "payment":
+        return this.applyPaymentResult(paymentMethod, result);
+
+      case "refund":
+        return this.applyRefundResult(paymentMethod, result);
+
+      case "invoicePayment":
+        await recordInvoicePayment({
+          invoiceId: result.invoiceId,
+          amount: result.amount,
+          reference: result.transactionId,
+          description: result.description,
+        });
+        return undefined;
+    }
+  }
+
+  /**
+   * Apply a provider outcome to its order. Returns the order id it resolved to.
+   * The order is taken from our Payment row for the transaction when there is
+   * one; the provider's claim is only used for attempts we never stored.
+   */
+  async applyPaymentResult(
+    paymentMethod: PaymentMethod,
+    result: PaymentCallbackResult
+  ): Promise<string | undefined> {
+    const stored = await prisma.payment.findFirst({
+      where: { transactionId: result.transactionId, paymentMethod },
+      select: { bookingOrderId: true },
+    });
+
+    if (stored && result.bookingOrderId && stored.bookingOrderId !== result.bookingOrderId) {
+      logger.warn("Payment callback names a different order than its transaction", {
+        paymentMethod,
+        transactionId: result.transactionId,
+      });
+      return undefined;
+    }
+
+    const bookingOrderId = stored?.bookingOrderId ?? result.bookingOrderId;
+
+    if (!bookingOrderId) {
+      logger.warn("Payment callback for unknown transaction", {
+        paymentMethod,
+        transactionId: result.transactionId,
+      });
+      return undefined;
+    }
+
+    if (result.paymentStatus === PaymentStatus.SUCCESS) {
+      await this.handlePaymentSuccess({
+        bookingOrderId,
+        transactionId: result.transactionId,
+        paymentMethod,
+        amount: result.amount,
+      });
+    } else if (result.paymentStatus === PaymentStatus.FAILED) {
+      await this.handlePaymentFailure({
+        bookingOrderId,
+        transactionId: result.transactionId,
+        paymentMethod,
+        reason: result.reason,
+      });
+    }
+
+    return bookingOrderId;
+  }
+
+  /**
+   * Record a refund the gateway reports. A full refund of the order's last
+   * paid payment cancels the order and frees its seats; a partial refund,
+   * or refunding one of several payments, does not.
+   */
+  async applyRefundResult(
+    paymentMethod: PaymentMethod,
+    result: RefundCallbackResult
+  ): Promise<string | undefined> {
+    const ids = [result.transactionId, ...result.relatedTransactionIds];
+    const provider = getPaymentProvider(paymentMethod);
+    if (provider.findRelatedTransactionIds) {
+      ids.push(...(await provider.findRelatedTransactionIds(ids)));
+    }
+
+    // An order can have several payments; ours may be stored under any of the ids
+    const stored = await prisma.payment.findFirst({
+      where: { paymentMethod, transactionId: { in: ids } },
+      select: { bookingOrderId: true },
+    });
+
+    if (!stored) {
+      logger.warn("Refund for unknown transaction", {
+        paymentMethod,
+        transactionId: result.transactionId,
+      });
+      return undefined;
+    }
+
+    const { bookingOrderId } = stored;
+    if (result.bookingOrderId && result.bookingOrderId !== bookingOrderId) {
+      logger.warn("Refund names a different order than its transaction", {
+        paymentMethod,
+        transactionId: result.transactionId,
+      });
+      return undefined;
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.payment.updateMany({
+        where: {
+          bookingOrderId,
+          paymentMethod,
+          transactionId: { in: ids },
+          paymentStatus: { not: PaymentStatus.REFUNDED },
+        },
+        data: {
+          transactionId: result.transactionId,
+          paymentStatus: result.fullyRefunded
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+          refundedAmount: result.refundedAmount,
+        },
+      });
+
+      if (!result.fullyRefunded) return;
+
+      const stillPaid = await tx.payment.count({
+        where: {
+          bookingOrderId,
+          paymentStatus: { in: [PaymentStatus.SUCCESS, PaymentStatus.PARTIALLY_REFUNDED] },
+        },
+      });
+      if (stillPaid > 0) return;
+
+      await cancelOpenInstallments(tx, bookingOrderId);
+
+      await tx.bookingOrder.updateMany({
+        where: { id: bookingOrderId, status: { not: BookingStatus.CANCELLED } },
+        data: { status: BookingStatus.CANCELLED },
+      });
+
+      await tx.booking.updateMany({
+        where: { bookingOrderId, status: { not: BookingStatus.CANCELLED } },
+        data: { status: BookingStatus.CANCELLED },
+      });
+
+      const bookings = await tx.booking.findMany({
+        where: { bookingOrderId },
+        select: { roomId: true },
+      });
+
+      for (const roomId of new Set(bookings.map((booking) => booking.roomId))) {
+        await refreshRoomSeatCounters(tx, roomId);
       }
+    });
+
+    logger.info("Refund recorded", {
+      bookingOrderId,
+      transactionId: result.transactionId,
+      paymentMethod,
+      fullyRefunded: result.fullyRefunded,
+    });
+
+    return bookingOrderId;
+  }
 
-      // Check if payment already exists
-      const existingPayment = await prisma.payment.findUnique({
-        where: { bookingOrderId: bookingId },
+  /**
+   * Handle successful payment - book it against the order and confirm the
+   * order and its bookings once the upfront part is paid (everything on a
+   * FULL plan, deposit + advance on an installment plan).
+   * An order that expired while the customer was paying gets its seats back
+   * if they are still free; otherwise admins are alerted to refund it.
+   */
+  async handlePaymentSuccess({
+    bookingOrderId,
+    transactionId,
+    paymentMethod,
+    amount,
+  }: {
+    bookingOrderId: string;
+    transactionId: string;
+    paymentMethod: PaymentMethod;
+    amount?: number;
+  }): Promise<void> {
+    const order = await prisma.$transaction(async (tx) => {
+      // Serialise payments of the same order so paidAmount is never lost
+      await tx.$queryRaw`SELECT id FROM "BookingOrder" WHERE id = ${bookingOrderId} FOR UPDATE`;
+
+      const bookingOrder = await tx.bookingOrder.findUnique({
+        where: { id: bookingOrderId },
+        select: {
+          userId: true,
+          orderNumber: true,
+          totalAmount: true,
+          depositAmount: true,
+          paidAmount: true,
+          status: true,
+          expiredAt: true,
+        },
+      });
+
+      if (!bookingOrder) {
+        throw new ApiError(404, "Booking Order not found");
+      }
+
+      const existingPayment = await tx.payment.findFirst({
+        where: { bookingOrderId, transactionId, paymentMethod },
+        orderBy: { createdAt: "desc" },
       });
 
-      if (existingPayment && existingPayment.paymentStatus === PaymentStatus.SUCCESS) {
-        return {
-          success: false,
-          transactionId: existingPayment.transactionId,
-          message: "Payment already completed for this booking",
-          paymentStatus: PaymentStatus.SUCCESS,
-        };
+      // Same payment confirmed before (e.g. a redelivered callback) → nothing to do
+      if (existingPayment && SETTLED_PAYMENT_STATUSES.includes(existingPayment.paymentStatus)) {
+        return null;
       }
 
-      let response: IPaymentResponse;
+      const amountPaid = amount ?? existingPayment?.amount ?? getBalanceDue(bookingOrder);
 
-      switch (paymentMethod) {
-        case PaymentMethod.STRIPE:
-          response = await this.stripeService.createPaymentIntent({
-            bookingId,
-            amount,
-            customerEmail: booking.user.email,
-            customerName: booking.user.name,
-            returnUrl: paymentRequest.returnUrl,
-          });
-          break;
-
-        case PaymentMethod.EASYPAISA:
-          response = await this.easyPaisaService.initiatePayment({
-            bookingId,
-            amount,
-            phoneNumber: paymentRequest.phoneNumber || booking.user.phone,
-            customerName: booking.user.name,
-            notifyUrl: paymentRequest.notifyUrl,
-          });
-          break;
-
-        case PaymentMethod.JAZZCASH:
-          // JazzCash as alternative mobile payment
-          response = await this.jazzCashService.initiatePayment({
-            bookingId,
-            amount,
-            phoneNumber: paymentRequest.phoneNumber || booking.user.phone,
-            customerName: booking.user.name,
-            notifyUrl: paymentRequest.notifyUrl,
+      // 1️⃣ Update payment
+      const data = {
+        paymentMethod,
+        paymentStatus: PaymentStatus.SUCCESS,
+        amountPaid,
+      };
+
+      const payment = existingPayment
+        ? await tx.payment.update({ where: { id: existingPayment.id }, data })
+        : await tx.payment.create({
+            data: { ...data, bookingOrderId, transactionId, amount: amountPaid },
           });
-          break;
-
-        default:
-          return {
-            success: false,
-            transactionId: "",
-            message: "Unsupported payment method",
-            paymentStatus: PaymentStatus.FAILED,
-          };
+
+      const { paymentStatus, upfrontPaid } = await applyOrderPayment(tx, {
+        bookingOrderId,
+        installmentId: existingPayment?.installmentId,
+        amount: amountPaid,
+      });
+
+      logger.info("Payment booked against order", { bookingOrderId, amountPaid, paymentStatus });
+
+      // Part of a FULL payment, or the deposit / advance, still missing → the order stays on hold
+      if (!upfrontPaid) {
+        return { ...bookingOrder, paymentId: payment.id, reinstated: true, confirmed: false };
+      }
+
+      // ⏰ Paid after the hold expired → take the seats back if they are still free
+      let reinstated = true;
+      if (bookingOrder.status === BookingStatus.CANCELLED && bookingOrder.expiredAt) {
+        reinstated = await this.reinstateExpiredOrder(tx, bookingOrderId);
+      }
+
+      // 2️⃣ Update bookingOrder
+      await tx.bookingOrder.updateMany({
+        where: {
+          id: bookingOrderId,
+          status: {
+            in: [BookingStatus.PENDING, BookingStatus.RESERVED],
+          },
+        },
+        data: { status: BookingStatus.CONFIRMED },
+      });
+
+      // ✅ 3️⃣ Update ALL child bookings
+      await tx.booking.updateMany({
+        where: {
+          bookingOrderId,
+          status: {
+            in: [BookingStatus.PENDING, BookingStatus.RESERVED],
+          },
+        },
+        data: { status: BookingStatus.CONFIRMED },
+      });
+
+      // 4) Refresh seat counters per room for this paid booking order.
+      // Seats were already held on the calendar when the order was created.
+      const bookings = await tx.booking.findMany({
+        where: { bookingOrderId },
+        select: { roomId: true },
+      });
+
+      for (const roomId of new Set(bookings.map((booking) => booking.roomId))) {
+        await refreshRoomSeatCounters(tx, roomId);
       }
 
-      return response;
+      return { ...bookingOrder, paymentId: payment.id, reinstated, confirmed: true };
+    });
+
+    if (!order) {
+      logger.info("Payment already confirmed", { bookingOrderId, transactionId });
+      return;
+    }
+
+    if (!order.reinstated) {
+      logger.warn("Payment received for expired order with no free seats", {
+        bookingOrderId,
+        transactionId,
+      });
+
+      await publishToQueue("ORDER.LATE_PAYMENT", {
+        userId: order.userId,
+        title: "Late Payment Needs Refund",
+        audience: "ADMIN",
+        severity: "ERROR",
+        message: `Payment for expired order ${order.orderNumber} arrived after its seats were released. Please review and refund.`,
+      });
+    }
+
+    try {
+      // The notification worker issues the receipt PDF and emails it
+      await publishToQueue("PAYMENT.RECEIPT", { paymentId: order.paymentId });
     } catch (error) {
-      console.error("Payment initiation error:", error);
-      return {
-        success: false,
-        transactionId: "",
-        message: error instanceof Error ? error.message : "Payment initiation failed",
-        paymentStatus: PaymentStatus.FAILED,
-      };
+      logger.error("Failed to queue payment receipt", error, { paymentId: order.paymentId });
     }
+
+    logger.info(order.confirmed ? "Payment confirmed" : "Partial payment recorded", {
+      bookingOrderId,
+      transactionId,
+      paymentMethod,
+    });
   }
 
   /**
-   * Handle successful payment - update booking and room status
+   * Moves the bookings of an expired order back on hold if the calendar still
+   * has room for them. Returns false (and leaves the order cancelled) otherwise.
    */
-  async handlePaymentSuccess(
-    transactionId: string,
-    bookingId: string,
-    paymentMethod: PaymentMethod
-  ): Promise<{ success: boolean; message: string }> {
+  private async reinstateExpiredOrder(
+    tx: Prisma.TransactionClient,
+    bookingOrderId: string
+  ): Promise<boolean> {
+    const bookings = await tx.booking.findMany({
+      where: { bookingOrderId, status: BookingStatus.CANCELLED },
+    });
+
+    const restored: string[] = [];
     try {
-      const result = await prisma.$transaction(async (tx) => {
-        // Update or create payment record
-        await tx.payment.upsert({
-          where: { bookingOrderId: bookingId },
-          update: {
-            paymentStatus: PaymentStatus.SUCCESS,
-            transactionId,
-            paymentMethod,
-          },
-          create: {
-            bookingOrderId: bookingId,
-            paymentStatus: PaymentStatus.SUCCESS,
-            transactionId,
-            paymentMethod,
-          },
+      for (const booking of bookings) {
+        const bedIds = await assertSeatsAvailable({
+          tx,
+          roomId: booking.roomId,
+          seats: booking.seatsSelected,
+          checkIn: booking.checkIn,
+          checkOut: booking.checkOut,
         });
 
-        // Update booking status to COMPLETED
-        const updatedBooking = await tx.booking.update({
-          where: { id: bookingId },
+        await tx.booking.update({
+          where: { id: booking.id },
           data: {
-            status: "COMPLETED",
-          },
-          include: {
-            room: true,
-          },
-        });
-
-        // Check if room is fully booked and update status
-        const room = await tx.room.findUnique({
-          where: { id: updatedBooking.roomId },
-          select: {
-            beds: true,
-            bookedSeats: true,
+            status: BookingStatus.PENDING,
+            cancelledAt: null,
+            beds: { set: bedIds.map((id) => ({ id })) },
           },
         });
+        restored.push(booking.id);
+      }
+    } catch (error) {
+      if (!(error instanceof ApiError)) throw error;
 
-        if (room && room.bookedSeats >= room.beds) {
-          // All seats are booked - update room status to BOOKED
-          await tx.room.update({
-            where: { id: updatedBooking.roomId },
-            data: {
-              status: "BOOKED",
-            },
-          });
-        }
-
-        return updatedBooking;
+      // Put back the bookings restored before the one that did not fit
+      await tx.booking.updateMany({
+        where: { id: { in: restored } },
+        data: { status: BookingStatus.CANCELLED, cancelledAt: new Date() },
       });
-
-      return {
-        success: true,
-        message: `Payment successful. Booking #${result.id} confirmed.`,
-      };
-    } catch (error) {
-      console.error("Payment success handling error:", error);
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : "Failed to process payment",
-      };
+      return false;
     }
+
+    await tx.bookingOrder.update({
+      where: { id: bookingOrderId },
+      data: { status: BookingStatus.PENDING, expiredAt: null },
+    });
+
+    return true;
   }
 
   /**
-   * Handle failed payment
+   * Handle failed payment. A payment that already succeeded is never downgraded.
    */
-  async handlePaymentFailure(
-    transactionId: string,
-    bookingId: string,
-    paymentMethod: PaymentMethod,
-    reason?: string
-  ): Promise<{ success: boolean; message: string }> {
-    try {
-      await prisma.payment.upsert({
-        where: { bookingOrderId: bookingId },
-        update: {
-          paymentStatus: PaymentStatus.FAILED,
-          transactionId,
-        },
-        create: {
-          bookingOrderId: bookingId,
+  async handlePaymentFailure({
+    bookingOrderId,
+    transactionId,
+    paymentMethod,
+    reason,
+  }: {
+    bookingOrderId: string;
+    transactionId: string;
+    paymentMethod: PaymentMethod;
+    reason?: string;
+  }): Promise<void> {
+    const existing = await prisma.payment.findFirst({
+      where: { bookingOrderId, transactionId, paymentMethod },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, paymentStatus: true },
+    });
+
+    if (existing && SETTLED_PAYMENT_STATUSES.includes(existing.paymentStatus)) {
+      logger.warn("Ignoring payment failure for a settled payment", {
+        bookingOrderId,
+        transactionId,
+        paymentStatus: existing.paymentStatus,
+      });
+      return;
+    }
+
+    if (existing) {
+      await prisma.payment.update({
+        where: { id: existing.id },
+        data: { paymentStatus: PaymentStatus.FAILED },
+      });
+    } else {
+      await prisma.payment.create({
+        data: {
+          bookingOrderId,
           paymentStatus: PaymentStatus.FAILED,
           transactionId,
           paymentMethod,
         },
       });
-
-      return {
-        success: true,
-        message: `Payment failed. Reason: ${reason || "Unknown"}`,
-      };
-    } catch (error) {
-      console.error("Payment failure handling error:", error);
-      return {
-        success: false,
-        message: error instanceof Error ? error.message : "Failed to record payment failure",
-      };
     }
+
+    logger.info("Payment failed", { bookingOrderId, transactionId, paymentMethod, reason });
   }
 
   /**
-   * Get payment details
+   * Get payment details - every payment made for the order, newest first
    */
-  async getPaymentDetails(bookingId: string) {
-    try {
-      const payment = await prisma.payment.findUnique({
-        where: { bookingOrderId: bookingId },
-        include: {
-          bookingOrder: {
-            include: {
-              user: true,
-            },
-          },
+  async getPaymentDetails(bookingOrderId: string) {
+    return prisma.payment.findMany({
+      where: { bookingOrderId },
+      orderBy: { createdAt: "desc" },
+      include: {
+        installment: {
+          select: { id: true, sequence: true, type: true, dueDate: true },
         },
-      });
+      },
+    });
+  }
 
-      return payment;
-    } catch (error) {
-      console.error("Error fetching payment details:", error);
-      return null;
+  /**
+   * Balance and schedule of an order: what it costs, what was paid and what is due next
+   */
+  async getOrderBalance(bookingOrderId: string) {
+    const order = await prisma.bookingOrder.findUnique({
+      where: { id: bookingOrderId },
+      select: {
+        id: true,
+        orderNumber: true,
+        status: true,
+        paymentPlan: true,
+        paymentStatus: true,
+        totalAmount: true,
+        depositAmount: true,
+        paidAmount: true,
+        installments: { orderBy: { sequence: "asc" } },
+      },
+    });
+
+    if (!order) {
+      throw new ApiError(404, "Booking Order not found");
     }
+
+    const nextDue = await getAmountToCharge(prisma, order);
+
+    return {
+      ...order,
+      balanceDue: getBalanceDue(order),
+      nextDueAmount: nextDue.amount,
+    };
   }
 
   /**
@@ -259,40 +604,22 @@ export class PaymentService {
     status: PaymentStatus;
     verified: boolean;
   }> {
-    try {
-      let status: PaymentStatus;
-
-      switch (paymentMethod) {
-        case PaymentMethod.STRIPE:
-          status = await this.stripeService.verifyPayment(transactionId);
-          break;
-
-        case PaymentMethod.EASYPAISA:
-          status = await this.easyPaisaService.verifyPayment(transactionId);
-          break;
-
-        case PaymentMethod.JAZZCASH:
-          status = await this.jazzCashService.verifyPayment(transactionId);
-          break;
-
-        default:
-          return {
-            status: PaymentStatus.FAILED,
-            verified: false,
-          };
-      }
+    const { paymentStatus } = await getPaymentProvider(paymentMethod).verify(transactionId);
 
-      return {
-        status,
-        verified: status === PaymentStatus.SUCCESS,
-      };
-    } catch (error) {
-      console.error("Payment verification error:", error);
-      return {
-        status: PaymentStatus.FAILED,
-        verified: false,
-      };
-    }
+    return {
+      status: paymentStatus,
+      verified: paymentStatus === PaymentStatus.SUCCESS,
+    };
+  }
+
+  /**
+   * Send money back through the provider the payment was made with.
+   */
+  refundPayment(
+    payment: { paymentMethod: PaymentMethod; transactionId: string },
+    amount: number
+  ): Promise<string | null> {
+    return getPaymentProvider(payment.paymentMethod).refund(payment.transactionId, amount);
   }
 }
 
@@ -0,0 +1,77 @@
+import { PaymentMethod, PaymentStatus } from "@prisma/client";
+import { EasyPaisaPaymentService } from "../easypaise.service";
+import { ApiError } from "../../../utils/ApiError";
+import {
+  InitiatePaymentInput,
+  InitiatePaymentResult,
+  PaymentCallbackResult,
+  PaymentProvider,
+  ProviderEvent,
+  ProviderPaymentRecord,
+} from "./payment-provider";
+
+export class EasyPaisaProvider implements PaymentProvider {
+  readonly method = PaymentMethod.EASYPAISA;
+  private readonly easyPaisa = new EasyPaisaPaymentService();
+
+  async initiate(input: InitiatePaymentInput): Promise<InitiatePaymentResult> {
+    const response = await this.easyPaisa.initiatePayment({
+      bookingId: input.bookingOrderId,
+      amount: input.amount,
+      phoneNumber: input.phoneNumber,
+      customerName: input.customerName,
+      notifyUrl: input.returnUrl,
+    });
+
+    if (!response.success) {
+      throw new Error(response.message);
+    }
+
+    return {
+      transactionId: response.transactionId,
+      paymentUrl: response.paymentUrl,
+      paymentStatus: response.paymentStatus,
+      message: response.message,
+    };
+  }
+
+  async verify(transactionId: string): Promise<ProviderPaymentRecord> {
+    return { paymentStatus: await this.easyPaisa.verifyPayment(transactionId) };
+  }
+
+  async parseCallback(payload: any): Promise<ProviderEvent> {
+    if (!payload?.transactionId) {
+      throw new ApiError(400, "Invalid EasyPaisa callback");
+    }
+
+    if (!this.easyPaisa.verifyCallbackSignature(payload)) {
+      throw new ApiError(401, "Invalid EasyPaisa callback signature");
+    }
+
+    return {
+      eventId: `${payload.transactionId}:${payload.statusCode ?? payload.status}`,
+      type: "payment.callback",
+      payload,
+    };
+  }
+
+  async processEvent(event: ProviderEvent): Promise<PaymentCallbackResult | null> {
+    const payload = event.payload as Record<string, any>;
+    const result = await this.easyPaisa.handleCallback(payload);
+    if (!result.transactionId) return null;
+
+    // The order and amount come from our Payment row for this transaction
+    return {
+      kind: "payment",
+      transactionId: result.transactionId,
+      paymentStatus: result.status,
+      reason: payload.statusMessage,
+    };
+  }
+
+  async refund(transactionId: string, amount: number): Promise<string | null> {
+    const ok = await this.easyPaisa.refundPayment(transactionId, amount);
+    if (!ok) throw new Error("EasyPaisa refund failed");
+    return null;
+  }
+}
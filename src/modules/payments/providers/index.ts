@@ -0,0 +1,39 @@
+import { PaymentMethod } from "@prisma/client";
+import { ApiError } from "../../../utils/ApiError";
+import { PaymentProvider } from "./payment-provider";
+import { StripeProvider } from "./stripe.provider";
+import { JazzCashProvider } from "./jazzcash.provider";
+import { EasyPaisaProvider } from "./easypaisa.provider";
+import { MockProvider } from "./mock.provider";
+
+export * from "./payment-provider";
+
+const factories: Record<PaymentMethod, () => PaymentProvider> = {
+  STRIPE: () => new StripeProvider(),
+  JAZZCASH: () => new JazzCashProvider(),
+  EASYPAISA: () => new EasyPaisaProvider(),
+  MOCK: () => new MockProvider(),
+};
+
+// Providers are created on first use so a missing gateway config only breaks that gateway
+const providers = new Map<PaymentMethod, PaymentProvider>();
+
+/**
+ * The mock provider is opt-in (PAYMENT_MOCK_ENABLED=true) and never available in production.
+ */
+export const isMockPaymentEnabled = () =>
+  process.env.PAYMENT_MOCK_ENABLED === "true" && process.env.NODE_ENV !== "production";
+
+export const getPaymentProvider = (method: PaymentMethod): PaymentProvider => {
+  if (method === PaymentMethod.MOCK && !isMockPaymentEnabled()) {
+    throw new ApiError(400, "Mock payments are disabled");
+  }
+
+  let provider = providers.get(method);
+  if (!provider) {
+    provider = factories[method]();
+    providers.set(method, provider);
+  }
+
+  return provider;
+};
@@ -0,0 +1,78 @@
+import { PaymentMethod, PaymentStatus } from "@prisma/client";
+import { JazzCashPaymentService } from "../jazzcash.service";
+import { ApiError } from "../../../utils/ApiError";
+import {
+  InitiatePaymentInput,
+  InitiatePaymentResult,
+  PaymentCallbackResult,
+  PaymentProvider,
+  ProviderEvent,
+  ProviderPaymentRecord,
+} from "./payment-provider";
+
+export class JazzCashProvider implements PaymentProvider {
+  readonly method = PaymentMethod.JAZZCASH;
+  private readonly jazzCash = new JazzCashPaymentService();
+
+  async initiate(input: InitiatePaymentInput): Promise<InitiatePaymentResult> {
+    const response = await this.jazzCash.initiatePayment({
+      bookingId: input.bookingOrderId,
+      amount: input.amount,
+      phoneNumber: input.phoneNumber,
+      customerName: input.customerName,
+      notifyUrl: input.returnUrl,
+    });
+
+    if (!response.success) {
+      throw new Error(response.message);
+    }
+
+    return {
+      transactionId: response.transactionId,
+      paymentUrl: response.paymentUrl,
+      paymentStatus: response.paymentStatus,
+      message: response.message,
+    };
+  }
+
+  async verify(transactionId: string): Promise<ProviderPaymentRecord> {
+    return { paymentStatus: await this.jazzCash.verifyPayment(transactionId) };
+  }
+
+  async parseCallback(payload: any): Promise<ProviderEvent> {
+    if (!payload?.pp_TxnRefNo) {
+      throw new ApiError(400, "Invalid JazzCash callback");
+    }
+
+    if (!this.jazzCash.verifyCallbackHash(payload)) {
+      throw new ApiError(401, "Invalid JazzCash callback signature");
+    }
+
+    return {
+      eventId: `${payload.pp_TxnRefNo}:${payload.pp_ResponseCode}`,
+      type: "payment.callback",
+      payload,
+    };
+  }
+
+  async processEvent(event: ProviderEvent): Promise<PaymentCallbackResult | null> {
+    const payload = event.payload as Record<string, any>;
+    const result = await this.jazzCash.handleCallback(payload);
+    if (!result.transactionId) return null;
+
+    // JazzCash echoes pp_TxnRefNo; our transaction ids carry a JC_ prefix.
+    // The order and amount come from our Payment row for this transaction.
+    return {
+      kind: "payment",
+      transactionId: `JC_${result.transactionId}`,
+      paymentStatus: result.status,
+      reason: payload.pp_ResponseMessage,
+    };
+  }
+
+  async refund(transactionId: string, amount: number): Promise<string | null> {
+    const ok = await this.jazzCash.refundPayment(transactionId, amount);
+    if (!ok) throw new Error("JazzCash refund failed");
+    return null;
+  }
+}
@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import { PaymentMethod, PaymentStatus } from "@prisma/client";
+import prisma from "../../../config/prismaClient";
+import { ApiError } from "../../../utils/ApiError";
+import {
+  InitiatePaymentResult,
+  PaymentCallbackResult,
+  PaymentProvider,
+  ProviderEvent,
+  ProviderPaymentRecord,
+} from "./payment-provider";
+
+const PAID_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCESS,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+/**
+ * Offline provider for tests and staging. Nothing leaves the process: an
+ * admin "pays" by posting { transactionId, outcome } to the mock callback
+ * (outcome defaults to SUCCESS). The mock keeps no state of its own; what it
+ * reports is read back from the Payment rows PaymentService stores, so
+ * callbacks still work after a restart.
+ */
+export class MockProvider implements PaymentProvider {
+  readonly method = PaymentMethod.MOCK;
+
+  private findPayment(transactionId: string) {
+    return prisma.payment.findFirst({
+      where: { transactionId, paymentMethod: PaymentMethod.MOCK },
+      orderBy: { createdAt: "desc" },
+      select: { paymentStatus: true, amount: true, amountPaid: true, refundedAmount: true },
+    });
+  }
+
+  async initiate(): Promise<InitiatePaymentResult> {
+    return {
+      transactionId: crypto.randomUUID(),
+      paymentStatus: PaymentStatus.PENDING,
+      message: "Mock payment created. An admin posts to /api/payments/mock/callback to complete it.",
+    };
+  }
+
+  async verify(transactionId: string): Promise<ProviderPaymentRecord> {
+    const payment = await this.findPayment(transactionId);
+    if (!payment) return { paymentStatus: PaymentStatus.PENDING };
+
+    return {
+      paymentStatus: payment.paymentStatus,
+      amount: PAID_STATUSES.includes(payment.paymentStatus)
+        ? (payment.amountPaid ?? payment.amount ?? undefined)
+        : undefined,
+      refundedAmount: payment.refundedAmount,
+    };
+  }
+
+  async parseCallback(payload: any): Promise<ProviderEvent> {
+    const transactionId = payload?.transactionId;
+    if (typeof transactionId !== "string" || !(await this.findPayment(transactionId))) {
+      throw new ApiError(404, "Mock transaction not found");
+    }
+
+    const outcome = payload.outcome ?? PaymentStatus.SUCCESS;
+    if (outcome !== PaymentStatus.SUCCESS && outcome !== PaymentStatus.FAILED) {
+      throw new ApiError(400, "Mock outcome must be SUCCESS or FAILED");
+    }
+
+    return {
+      eventId: `${transactionId}:${outcome}`,
+      type: "payment.callback",
+      payload: { transactionId, outcome },
+    };
+  }
+
+  /**
+   * The order and amount come from our Payment row, and PaymentService
+   * ignores outcomes for payments that are already settled.
+   */
+  async processEvent(event: ProviderEvent): Promise<PaymentCallbackResult | null> {
+    const { transactionId, outcome } = event.payload as { transactionId: string; outcome: PaymentStatus };
+
+    return {
+      kind: "payment",
+      transactionId,
+      paymentStatus: outcome,
+      reason: outcome === PaymentStatus.FAILED ? "Mock payment declined" : undefined,
+    };
+  }
+
+  async refund(transactionId: string, amount: number): Promise<string | null> {
+    const payment = await this.findPayment(transactionId);
+
+    if (!payment || !PAID_STATUSES.includes(payment.paymentStatus)) {
+      throw new Error("Mock transaction was never paid");
+    }
+
+    if (payment.refundedAmount + amount > (payment.amountPaid ?? payment.amount ?? 0)) {
+      throw new Error("Mock refund exceeds the amount paid");
+    }
+
+    return crypto.randomUUID();
+  }
+}
@@ -0,0 +1,115 @@
+import { PaymentMethod, PaymentStatus, Prisma } from "@prisma/client";
+
+export type ProviderHeaders = Record<string, string | string[] | undefined>;
+
+export interface InitiatePaymentInput {
+  bookingOrderId: string;
+  orderNumber: string;
+  amount: number;
+  customerName: string;
+  customerEmail: string;
+  phoneNumber: string;
+  returnUrl?: string;
+}
+
+export interface InitiatePaymentResult {
+  transactionId: string;
+  paymentUrl?: string;
+  paymentStatus: PaymentStatus;
+  message: string;
+}
+
+/**
+ * What the gateway reports for a transaction. Amounts are in PKR and only
+ * present when the gateway returns them.
+ */
+export interface ProviderPaymentRecord {
+  paymentStatus: PaymentStatus;
+  amount?: number;
+  refundedAmount?: number;
+}
+
+/**
+ * An authenticated callback, as stored in the PaymentEvent ledger.
+ * eventId must be stable across redeliveries of the same event.
+ */
+export interface ProviderEvent {
+  eventId: string;
+  type: string;
+  payload: Prisma.InputJsonValue;
+}
+
+export interface PaymentCallbackResult {
+  kind: "payment";
+  /** Missing when the provider only echoes its own reference; resolved from the Payment row */
+  bookingOrderId?: string;
+  transactionId: string;
+  paymentStatus: PaymentStatus;
+  /** Amount the provider reports as paid, in PKR */
+  amount?: number;
+  reason?: string;
+}
+
+/**
+ * The gateway's running refund total for a payment. The payment may be
+ * stored under any of the transaction ids.
+ */
+export interface RefundCallbackResult {
+  kind: "refund";
+  bookingOrderId?: string;
+  transactionId: string;
+  relatedTransactionIds: string[];
+  /** Total refunded so far, in PKR */
+  refundedAmount: number;
+  fullyRefunded: boolean;
+}
+
+/** A payment against a rent invoice rather than a booking order */
+export interface InvoicePaymentCallbackResult {
+  kind: "invoicePayment";
+  invoiceId: string;
+  transactionId: string;
+  amount: number;
+  description: string;
+}
+
+export type ProviderEventResult =
+  | PaymentCallbackResult
+  | RefundCallbackResult
+  | InvoicePaymentCallbackResult;
+
+/**
+ * Common surface of every payment gateway. PaymentService picks the
+ * implementation from the order's PaymentMethod and owns all database writes;
+ * providers only talk to the gateway.
+ */
+export interface PaymentProvider {
+  readonly method: PaymentMethod;
+
+  initiate(input: InitiatePaymentInput): Promise<InitiatePaymentResult>;
+
+  verify(transactionId: string): Promise<ProviderPaymentRecord>;
+
+  /**
+   * Authenticates a gateway callback and identifies it. No side effects,
+   * so the result can be stored before anything is processed.
+   */
+  parseCallback(payload: unknown, headers: ProviderHeaders): Promise<ProviderEvent>;
+
+  /**
+   * Turns a stored event into an outcome for PaymentService to apply.
+   * Returns null for events that need nothing done. Also used to replay
+   * events, so it must only map the stored payload: no database or gateway
+   * calls.
+   */
+  processEvent(event: ProviderEvent): Promise<ProviderEventResult | null>;
+
+  /**
+   * Other ids the gateway knows the same payments by, e.g. the checkout
+   * sessions of a Stripe payment intent. Used to match refunds to our rows.
+   */
+  findRelatedTransactionIds?(transactionIds: string[]): Promise<string[]>;
+
+  /** Returns the gateway's refund reference when it provides one */
+  refund(transactionId: string, amount: number): Promise<string | null>;
+}
@@ -0,0 +1,162 @@
+import Stripe from "stripe";
+import { PaymentMethod, PaymentStatus } from "@prisma/client";
+import StripePaymentService from "../services/stripe-payment.service";
+import { ApiError } from "../../../utils/ApiError";
+import { logger } from "../../../utils/logger";
+import {
+  InitiatePaymentInput,
+  InitiatePaymentResult,
+  PaymentProvider,
+  ProviderEvent,
+  ProviderEventResult,
+  ProviderHeaders,
+  ProviderPaymentRecord,
+} from "./payment-provider";
+
+export class StripeProvider implements PaymentProvider {
+  readonly method = PaymentMethod.STRIPE;
+  private readonly stripe = new StripePaymentService();
+
+  async initiate(input: InitiatePaymentInput): Promise<InitiatePaymentResult> {
+    const session = await this.stripe.createCheckoutSession(input.bookingOrderId, input.amount);
+
+    return {
+      transactionId: session.sessionId,
+      paymentUrl: session.sessionUrl,
+      paymentStatus: PaymentStatus.PENDING,
+      message: "Stripe checkout session created",
+    };
+  }
+
+  verify(transactionId: string): Promise<ProviderPaymentRecord> {
+    return this.stripe.getPaymentRecord(transactionId);
+  }
+
+  /**
+   * Expects the raw request body; Stripe signs the exact bytes it sent.
+   */
+  async parseCallback(payload: unknown, headers: ProviderHeaders): Promise<ProviderEvent> {
+    const signature = headers["stripe-signature"];
+    if (typeof signature !== "string") {
+      throw new ApiError(400, "Missing Stripe signature");
+    }
+
+    if (!Buffer.isBuffer(payload)) {
+      throw new ApiError(400, "Invalid raw body");
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.constructEvent(payload, signature);
+    } catch (error) {
+      logger.error("Stripe webhook signature verification failed", error);
+      throw new ApiError(400, "Webhook signature verification failed");
+    }
+
+    return {
+      eventId: event.id,
+      type: event.type,
+      payload: JSON.parse(payload.toString("utf8")),
+    };
+  }
+
+  async processEvent(providerEvent: ProviderEvent): Promise<ProviderEventResult | null> {
+    const event = providerEvent.payload as unknown as Stripe.Event;
+
+    switch (event.type) {
+      case "checkout.session.completed": {
+        const session = event.data.object as Stripe.Checkout.Session;
+        const rentInvoiceId = session.metadata?.rentInvoiceId;
+
+        // Rent invoices settle on the resident ledger, not on a booking order
+        if (rentInvoiceId) {
+          return {
+            kind: "invoicePayment",
+            invoiceId: rentInvoiceId,
+            transactionId: session.id,
+            amount: (session.amount_total ?? 0) / 100,
+            description: "Stripe checkout payment",
+          };
+        }
+
+        const bookingOrderId = session.metadata?.bookingId;
+
+        if (!bookingOrderId) {
+          logger.warn("Stripe checkout.session.completed missing bookingId metadata", {
+            sessionId: session.id,
+          });
+          return null;
+        }
+
+        return {
+          kind: "payment",
+          bookingOrderId,
+          transactionId: session.id,
+          paymentStatus: PaymentStatus.SUCCESS,
+          amount: session.amount_total !== null ? session.amount_total / 100 : undefined,
+        };
+      }
+
+      case "payment_intent.payment_failed": {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent;
+        const bookingOrderId = paymentIntent.metadata?.bookingId;
+
+        if (paymentIntent.metadata?.rentInvoiceId) {
+          // A failed attempt leaves the invoice open; nothing to record
+          return null;
+        }
+
+        if (!bookingOrderId) {
+          logger.warn("Stripe payment_intent.payment_failed missing bookingId metadata", {
+            paymentIntentId: paymentIntent.id,
+          });
+          return null;
+        }
+
+        return {
+          kind: "payment",
+          bookingOrderId,
+          transactionId: paymentIntent.id,
+          paymentStatus: PaymentStatus.FAILED,
+          reason: paymentIntent.last_payment_error?.message,
+        };
+      }
+
+      case "charge.refunded": {
+        const charge = event.data.object as Stripe.Charge;
+        const paymentIntentId =
+          typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id;
+
+        // Fires for partial refunds too; Stripe's running total is authoritative
+        return {
+          kind: "refund",
+          bookingOrderId: charge.metadata?.bookingId,
+          transactionId: charge.id,
+          relatedTransactionIds: paymentIntentId ? [paymentIntentId] : [],
+          refundedAmount: Math.round(charge.amount_refunded / 100),
+          fullyRefunded: charge.amount_refunded >= charge.amount,
+        };
+      }
+
+      default:
+        logger.debug("Unhandled Stripe webhook event type", { eventType: event.type });
+        return null;
+    }
+  }
+
+  /**
+   * Checkout payments are stored under the session id, which a refunded
+   * charge does not carry; look the sessions up by payment intent.
+   */
+  async findRelatedTransactionIds(transactionIds: string[]): Promise<string[]> {
+    const paymentIntentIds = transactionIds.filter((id) => id.startsWith("pi_"));
+    const sessionIds = await Promise.all(
+      paymentIntentIds.map((id) => this.stripe.findCheckoutSessionIds(id))
+    );
+    return sessionIds.flat();
+  }
+
+  refund(transactionId: string, amount: number): Promise<string | null> {
+    return this.stripe.refundPayment(transactionId, amount);
+  }
+}
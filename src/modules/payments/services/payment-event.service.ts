@@ -0,0 +1,155 @@
+import { PaymentEvent, PaymentEventStatus, PaymentMethod, Prisma } from "@prisma/client";
+import prisma from "../../../config/prismaClient";
+import { ApiError } from "../../../utils/ApiError";
+import { logger } from "../../../utils/logger";
+import PaymentService from "../payment.service";
+import { ProviderEventResult, ProviderHeaders, getPaymentProvider } from "../providers";
+
+// An event stuck in PROCESSING this long is assumed to have crashed mid-way
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+export interface PaymentEventOutcome {
+  event: PaymentEvent;
+  /** True when the event had already been processed (or is being processed) */
+  duplicate: boolean;
+  result: ProviderEventResult | null;
+}
+
+/**
+ * Entry point for every provider webhook/callback: authenticate, store in
+ * the ledger, then process once. Redeliveries of a processed event are skipped;
+ * redeliveries of a failed one are retried.
+ */
+export const receivePaymentEvent = async (
+  provider: PaymentMethod,
+  payload: unknown,
+  headers: ProviderHeaders
+): Promise<PaymentEventOutcome> => {
+  const providerEvent = await getPaymentProvider(provider).parseCallback(payload, headers);
+
+  let stored: PaymentEvent;
+  try {
+    stored = await prisma.paymentEvent.create({
+      data: {
+        provider,
+        eventId: providerEvent.eventId,
+        type: providerEvent.type,
+        payload: providerEvent.payload,
+      },
+    });
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002")) {
+      throw error;
+    }
+
+    stored = await prisma.paymentEvent.findUniqueOrThrow({
+      where: { provider_eventId: { provider, eventId: providerEvent.eventId } },
+    });
+
+    logger.info("Duplicate payment event received", {
+      provider,
+      eventId: providerEvent.eventId,
+      status: stored.status,
+    });
+  }
+
+  return processPaymentEvent(stored.id);
+};
+
+/**
+ * Claims a ledger entry and applies it. Only one caller can claim an entry,
+ * so concurrent deliveries of the same event cannot confirm an order twice.
+ * Processing errors are recorded on the entry and rethrown.
+ */
+export const processPaymentEvent = async (id: string): Promise<PaymentEventOutcome> => {
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+
+  const claimed = await prisma.paymentEvent.updateMany({
+    where: {
+      id,
+      OR: [
+        { status: { in: [PaymentEventStatus.RECEIVED, PaymentEventStatus.FAILED] } },
+        { status: PaymentEventStatus.PROCESSING, updatedAt: { lt: staleBefore } },
+      ],
+    },
+    data: { status: PaymentEventStatus.PROCESSING, attempts: { increment: 1 } },
+  });
+
+  const stored = await prisma.paymentEvent.findUnique({ where: { id } });
+  if (!stored) {
+    throw new ApiError(404, "Payment event not found");
+  }
+
+  if (claimed.count === 0) {
+    return { event: stored, duplicate: true, result: null };
+  }
+
+  try {
+    const result = await getPaymentProvider(stored.provider).processEvent({
+      eventId: stored.eventId,
+      type: stored.type,
+      payload: stored.payload as Prisma.InputJsonValue,
+    });
+
+    const bookingOrderId = result
+      ? await PaymentService.applyProviderResult(stored.provider, result)
+      : undefined;
+
+    const event = await prisma.paymentEvent.update({
+      where: { id },
+      data: {
+        status: PaymentEventStatus.PROCESSED,
+        processedAt: new Date(),
+        error: null,
+        bookingOrderId,
+        transactionId: result?.transactionId,
+      },
+    });
+
+    return { event, duplicate: false, result };
+  } catch (error) {
+    logger.error("Payment event processing failed", error, {
+      paymentEventId: id,
+      provider: stored.provider,
+      eventId: stored.eventId,
+    });
+
+    await prisma.paymentEvent.update({
+      where: { id },
+      data: {
+        status: PaymentEventStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+
+    throw error;
+  }
+};
+
+/**
+ * Admin replay of a failed (or stuck) event from its stored payload.
+ * Returns the ledger entry with the outcome instead of throwing.
+ */
+export const replayPaymentEvent = async (id: string): Promise<PaymentEvent> => {
+  const stored = await prisma.paymentEvent.findUnique({ where: { id } });
+
+  if (!stored) {
+    throw new ApiError(404, "Payment event not found");
+  }
+
+  if (stored.status === PaymentEventStatus.PROCESSED) {
+    throw new ApiError(400, "Payment event has already been processed");
+  }
+
+  try {
+    const outcome = await processPaymentEvent(id);
+    if (outcome.duplicate) {
+      throw new ApiError(409, "Payment event is being processed");
+    }
+    return outcome.event;
+  } catch (error) {
+    if (error instanceof ApiError && error.statusCode === 409) throw error;
+
+    return prisma.paymentEvent.findUniqueOrThrow({ where: { id } });
+  }
+};
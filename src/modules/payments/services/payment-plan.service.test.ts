@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { after, afterEach, describe, it } from "node:test";
+import { BookingType, InstallmentType } from "@prisma/client";
+import prisma from "../../../config/prismaClient";
+import { ApiError } from "../../../utils/ApiError";
+import { buildInstallmentSchedule, getBalanceDue, getOrderPayable } from "./payment-plan.service";
+
+// The client would keep the process alive
+after(async () => {
+  await prisma.$disconnect();
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const orderedOn = new Date("2026-03-01T00:00:00Z");
+const checkIn = new Date("2026-03-10T00:00:00Z");
+
+const longStay = (days: number) => ({
+  bookingType: BookingType.LONG_TERM,
+  checkIn,
+  checkOut: new Date(checkIn.getTime() + days * DAY_MS),
+});
+
+describe("buildInstallmentSchedule", () => {
+  afterEach(() => {
+    delete process.env.LONG_TERM_DEPOSIT_MONTHS;
+  });
+
+  it("asks for a deposit and the first month up front, then monthly from check-in", () => {
+    const { depositAmount, installments } = buildInstallmentSchedule({
+      totalAmount: 30_000,
+      stays: [longStay(90)],
+      firstDueDate: orderedOn,
+    });
+
+    assert.equal(depositAmount, 10_000);
+    assert.deepEqual(installments, [
+      { sequence: 1, type: InstallmentType.DEPOSIT, amount: 10_000, dueDate: orderedOn },
+      { sequence: 2, type: InstallmentType.ADVANCE, amount: 10_000, dueDate: orderedOn },
+      { sequence: 3, type: InstallmentType.INSTALLMENT, amount: 10_000, dueDate: new Date("2026-04-09T00:00:00Z") },
+      { sequence: 4, type: InstallmentType.INSTALLMENT, amount: 10_000, dueDate: new Date("2026-05-09T00:00:00Z") },
+    ]);
+  });
+
+  it("puts rounding leftovers on the advance so the rent adds up", () => {
+    const { depositAmount, installments } = buildInstallmentSchedule({
+      totalAmount: 10_001,
+      stays: [longStay(90)],
+      firstDueDate: orderedOn,
+    });
+
+    const rent = installments.filter((installment) => installment.type !== InstallmentType.DEPOSIT);
+    assert.deepEqual(rent.map((installment) => installment.amount), [3_335, 3_333, 3_333]);
+    assert.equal(depositAmount, 3_333);
+  });
+
+  it("leaves the deposit out when LONG_TERM_DEPOSIT_MONTHS is 0", () => {
+    process.env.LONG_TERM_DEPOSIT_MONTHS = "0";
+
+    const { depositAmount, installments } = buildInstallmentSchedule({
+      totalAmount: 20_000,
+      stays: [longStay(60)],
+      firstDueDate: orderedOn,
+    });
+
+    assert.equal(depositAmount, 0);
+    assert.deepEqual(installments.map((installment) => installment.type), [
+      InstallmentType.ADVANCE,
+      InstallmentType.INSTALLMENT,
+    ]);
+  });
+
+  it("refuses short stays and stays under two months", () => {
+    const build = (stays: Parameters<typeof buildInstallmentSchedule>[0]["stays"]) => () =>
+      buildInstallmentSchedule({ totalAmount: 10_000, stays, firstDueDate: orderedOn });
+
+    assert.throws(build([{ ...longStay(90), bookingType: BookingType.SHORT_TERM }]), ApiError);
+    assert.throws(build([{ ...longStay(90), checkOut: null }]), ApiError);
+    assert.throws(build([longStay(30)]), /at least two months/);
+    assert.throws(build([]), ApiError);
+  });
+});
+
+describe("order balance", () => {
+  it("counts the deposit as payable and never goes below zero", () => {
+    const order = { totalAmount: 30_000, depositAmount: 10_000 };
+
+    assert.equal(getOrderPayable(order), 40_000);
+    assert.equal(getBalanceDue({ ...order, paidAmount: 15_000 }), 25_000);
+    assert.equal(getBalanceDue({ ...order, paidAmount: 45_000 }), 0);
+  });
+});
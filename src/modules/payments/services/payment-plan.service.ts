@@ -0,0 +1,407 @@
+import {
+  BookingOrder,
+  BookingStatus,
+  BookingType,
+  InstallmentStatus,
+  InstallmentType,
+  OrderPaymentStatus,
+  PaymentPlan,
+  Prisma,
+} from "@prisma/client";
+import prisma from "../../../config/prismaClient";
+import { ApiError } from "../../../utils/ApiError";
+import { logger } from "../../../utils/logger";
+import { publishToQueue } from "../../../utils/rabit/rabit.publisher";
+
+type Tx = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30;
+const DEFAULT_DEPOSIT_MONTHS = 1;
+const DEFAULT_REMINDER_DAYS = 3;
+// At most one reminder per installment per day
+const REMINDER_GAP_MS = DAY_MS;
+
+const OPEN_INSTALLMENT_STATUSES: InstallmentStatus[] = [
+  InstallmentStatus.PENDING,
+  InstallmentStatus.OVERDUE,
+];
+
+// Paid together when the order is placed; the order is confirmed once they are
+const UPFRONT_INSTALLMENT_TYPES: InstallmentType[] = [
+  InstallmentType.DEPOSIT,
+  InstallmentType.ADVANCE,
+];
+
+export interface PlanStay {
+  bookingType: BookingType;
+  checkIn: Date | null;
+  checkOut: Date | null;
+}
+
+export interface ScheduledInstallment {
+  sequence: number;
+  type: InstallmentType;
+  amount: number;
+  dueDate: Date;
+}
+
+export interface InstallmentSchedule {
+  depositAmount: number;
+  installments: ScheduledInstallment[];
+}
+
+type OrderAmounts = Pick<BookingOrder, "totalAmount" | "depositAmount" | "paidAmount">;
+
+/**
+ * Months of rent held as security deposit. Override with LONG_TERM_DEPOSIT_MONTHS (0 disables it).
+ */
+export const getDepositMonths = () => {
+  const fromEnv = Number(process.env.LONG_TERM_DEPOSIT_MONTHS);
+  return process.env.LONG_TERM_DEPOSIT_MONTHS !== undefined && fromEnv >= 0
+    ? fromEnv
+    : DEFAULT_DEPOSIT_MONTHS;
+};
+
+const getReminderDays = () => {
+  const fromEnv = Number(process.env.INSTALLMENT_REMINDER_DAYS);
+  return fromEnv > 0 ? fromEnv : DEFAULT_REMINDER_DAYS;
+};
+
+/**
+ * Total the customer owes for the order, deposit included.
+ */
+export const getOrderPayable = (order: Pick<BookingOrder, "totalAmount" | "depositAmount">) =>
+  order.totalAmount + order.depositAmount;
+
+export const getBalanceDue = (order: OrderAmounts) =>
+  Math.max(getOrderPayable(order) - order.paidAmount, 0);
+
+const toOrderPaymentStatus = (paidAmount: number, payable: number) =>
+  paidAmount <= 0
+    ? OrderPaymentStatus.UNPAID
+    : paidAmount >= payable
+      ? OrderPaymentStatus.PAID
+      : OrderPaymentStatus.PARTIALLY_PAID;
+
+/**
+ * Splits a long-term order into a security deposit and an advance (first
+ * month) due when the order is placed, then monthly installments due from
+ * check-in. Every stay must be LONG_TERM with a check-out date.
+ */
+export const buildInstallmentSchedule = ({
+  totalAmount,
+  stays,
+  firstDueDate,
+}: {
+  totalAmount: number;
+  stays: PlanStay[];
+  firstDueDate: Date;
+}): InstallmentSchedule => {
+  if (
+    stays.length === 0 ||
+    stays.some((stay) => stay.bookingType !== BookingType.LONG_TERM || !stay.checkIn || !stay.checkOut)
+  ) {
+    throw new ApiError(400, "Installment plans are only available for long-term stays with check-in and check-out dates");
+  }
+
+  const months = Math.max(
+    ...stays.map((stay) =>
+      Math.ceil((stay.checkOut!.getTime() - stay.checkIn!.getTime()) / DAY_MS / DAYS_PER_MONTH)
+    )
+  );
+
+  if (months < 2) {
+    throw new ApiError(400, "Installment plans need a stay of at least two months");
+  }
+
+  // Rounding leftovers go on the advance so the schedule adds up to the total
+  const monthly = Math.floor(totalAmount / months);
+  const advance = totalAmount - monthly * (months - 1);
+  const depositAmount = Math.round(monthly * getDepositMonths());
+  const firstCheckIn = Math.min(...stays.map((stay) => stay.checkIn!.getTime()));
+
+  const installments: ScheduledInstallment[] = [];
+  if (depositAmount > 0) {
+    installments.push({
+      sequence: 1,
+      type: InstallmentType.DEPOSIT,
+      amount: depositAmount,
+      dueDate: firstDueDate,
+    });
+  }
+
+  installments.push({
+    sequence: installments.length + 1,
+    type: InstallmentType.ADVANCE,
+    amount: advance,
+    dueDate: firstDueDate,
+  });
+
+  for (let month = 1; month < months; month++) {
+    installments.push({
+      sequence: installments.length + 1,
+      type: InstallmentType.INSTALLMENT,
+      amount: monthly,
+      dueDate: new Date(firstCheckIn + month * DAYS_PER_MONTH * DAY_MS),
+    });
+  }
+
+  return { depositAmount, installments };
+};
+
+/**
+ * Stores the payment plan of a new order. FULL orders need nothing beyond the default.
+ */
+export const createPaymentPlan = async (
+  tx: Tx,
+  {
+    order,
+    paymentPlan,
+    stays,
+  }: {
+    order: Pick<BookingOrder, "id" | "totalAmount" | "expiresAt">;
+    paymentPlan?: PaymentPlan;
+    stays: PlanStay[];
+  }
+) => {
+  if (paymentPlan !== PaymentPlan.INSTALLMENTS) return null;
+
+  const schedule = buildInstallmentSchedule({
+    totalAmount: order.totalAmount,
+    stays,
+    firstDueDate: order.expiresAt ?? new Date(),
+  });
+
+  await tx.bookingOrder.update({
+    where: { id: order.id },
+    data: { paymentPlan: PaymentPlan.INSTALLMENTS, depositAmount: schedule.depositAmount },
+  });
+
+  await tx.paymentInstallment.createMany({
+    data: schedule.installments.map((installment) => ({
+      ...installment,
+      bookingOrderId: order.id,
+    })),
+  });
+
+  return schedule;
+};
+
+/**
+ * What the next payment for an order should charge. Installment orders pay
+ * the given installment, or by default everything due up to the earliest
+ * open installment (the deposit and advance together for a new order).
+ */
+export const getAmountToCharge = async (
+  client: Tx,
+  order: Pick<BookingOrder, "id" | "paymentPlan" | "totalAmount" | "depositAmount" | "paidAmount">,
+  installmentId?: string
+): Promise<{ amount: number; installmentId: string | null }> => {
+  if (order.paymentPlan !== PaymentPlan.INSTALLMENTS) {
+    if (installmentId) {
+      throw new ApiError(400, "This booking order is not paid in installments");
+    }
+    return { amount: getBalanceDue(order), installmentId: null };
+  }
+
+  if (installmentId) {
+    const installment = await client.paymentInstallment.findFirst({
+      where: { id: installmentId, bookingOrderId: order.id },
+    });
+
+    if (!installment) {
+      throw new ApiError(404, "Installment not found");
+    }
+    if (!OPEN_INSTALLMENT_STATUSES.includes(installment.status)) {
+      throw new ApiError(409, "Installment is not open for payment");
+    }
+
+    return { amount: installment.amount - installment.paidAmount, installmentId };
+  }
+
+  const open = await client.paymentInstallment.findMany({
+    where: { bookingOrderId: order.id, status: { in: OPEN_INSTALLMENT_STATUSES } },
+    orderBy: { sequence: "asc" },
+  });
+
+  if (open.length === 0) return { amount: 0, installmentId: null };
+
+  const cutoff = Math.max(Date.now(), open[0].dueDate.getTime());
+  const amount = open
+    .filter((installment) => installment.dueDate.getTime() <= cutoff)
+    .reduce((sum, installment) => sum + installment.amount - installment.paidAmount, 0);
+
+  return { amount, installmentId: null };
+};
+
+/**
+ * Books a captured amount against the order: the paid installment first,
+ * then the open installments in order. Call with the order row locked.
+ * upfrontPaid tells whether the order can now be confirmed.
+ */
+export const applyOrderPayment = async (
+  tx: Tx,
+  {
+    bookingOrderId,
+    installmentId,
+    amount,
+  }: {
+    bookingOrderId: string;
+    installmentId?: string | null;
+    amount: number;
+  }
+) => {
+  const order = await tx.bookingOrder.findUniqueOrThrow({
+    where: { id: bookingOrderId },
+    include: {
+      installments: { orderBy: { sequence: "asc" } },
+    },
+  });
+
+  const paidAmount = order.paidAmount + amount;
+  const paymentStatus = toOrderPaymentStatus(paidAmount, getOrderPayable(order));
+
+  await tx.bookingOrder.update({
+    where: { id: bookingOrderId },
+    data: { paidAmount, paymentStatus },
+  });
+
+  // A FULL plan is confirmed only once everything is paid; short stays PARTIALLY_PAID
+  if (order.paymentPlan !== PaymentPlan.INSTALLMENTS) {
+    return { paidAmount, paymentStatus, upfrontPaid: paidAmount >= getOrderPayable(order) };
+  }
+
+  const open = order.installments
+    .filter((installment) => OPEN_INSTALLMENT_STATUSES.includes(installment.status))
+    .sort((a, b) => Number(b.id === installmentId) - Number(a.id === installmentId));
+
+  const paidIds = new Set(
+    order.installments
+      .filter((installment) => installment.status === InstallmentStatus.PAID)
+      .map((installment) => installment.id)
+  );
+
+  let left = amount;
+  for (const installment of open) {
+    if (left <= 0) break;
+
+    const share = Math.min(left, installment.amount - installment.paidAmount);
+    left -= share;
+
+    const settled = installment.paidAmount + share >= installment.amount;
+    if (settled) paidIds.add(installment.id);
+
+    await tx.paymentInstallment.update({
+      where: { id: installment.id },
+      data: {
+        paidAmount: installment.paidAmount + share,
+        ...(settled && { status: InstallmentStatus.PAID, paidAt: new Date() }),
+      },
+    });
+  }
+
+  const upfrontPaid = order.installments
+    .filter((installment) => UPFRONT_INSTALLMENT_TYPES.includes(installment.type))
+    .every((installment) => paidIds.has(installment.id));
+
+  return { paidAmount, paymentStatus, upfrontPaid };
+};
+
+/**
+ * Stops the schedule of a cancelled order.
+ */
+export const cancelOpenInstallments = (tx: Tx, bookingOrderId: string) =>
+  tx.paymentInstallment.updateMany({
+    where: { bookingOrderId, status: { in: OPEN_INSTALLMENT_STATUSES } },
+    data: { status: InstallmentStatus.CANCELLED },
+  });
+
+const publishInstallmentEvent = async (queue: string, payload: Record<string, unknown>) => {
+  try {
+    await publishToQueue(queue, payload);
+  } catch (error) {
+    logger.error(`Failed to publish ${queue}`, error);
+  }
+};
+
+/**
+ * Flags unpaid installments of confirmed orders whose due date has passed
+ * and alerts admins once per installment. Unconfirmed orders are left to
+ * the order expiry job.
+ */
+export const markOverdueInstallments = async (now: Date = new Date()) => {
+  const due = await prisma.paymentInstallment.findMany({
+    where: {
+      status: InstallmentStatus.PENDING,
+      dueDate: { lt: now },
+      bookingOrder: { status: BookingStatus.CONFIRMED },
+    },
+    include: { bookingOrder: { select: { userId: true, orderNumber: true } } },
+    take: 100,
+  });
+
+  let overdueCount = 0;
+  for (const installment of due) {
+    const claimed = await prisma.paymentInstallment.updateMany({
+      where: { id: installment.id, status: InstallmentStatus.PENDING },
+      data: { status: InstallmentStatus.OVERDUE },
+    });
+    if (claimed.count === 0) continue;
+
+    overdueCount++;
+    await publishInstallmentEvent("PAYMENT.INSTALLMENT_OVERDUE", {
+      userId: installment.bookingOrder.userId,
+      title: "Installment Overdue",
+      audience: "ADMIN",
+      severity: "WARNING",
+      message: `Installment ${installment.sequence} (${installment.amount - installment.paidAmount}) for order ${installment.bookingOrder.orderNumber} is overdue.`,
+    });
+  }
+
+  return overdueCount;
+};
+
+/**
+ * Reminds residents of installments due within INSTALLMENT_REMINDER_DAYS
+ * and of overdue ones, at most once a day per installment.
+ */
+export const sendInstallmentReminders = async (now: Date = new Date()) => {
+  const remindBefore = new Date(now.getTime() + getReminderDays() * DAY_MS);
+  const lastReminderBefore = new Date(now.getTime() - REMINDER_GAP_MS);
+
+  const installments = await prisma.paymentInstallment.findMany({
+    where: {
+      status: { in: OPEN_INSTALLMENT_STATUSES },
+      dueDate: { lte: remindBefore },
+      bookingOrder: { status: BookingStatus.CONFIRMED },
+      OR: [{ lastRemindedAt: null }, { lastRemindedAt: { lt: lastReminderBefore } }],
+    },
+    include: { bookingOrder: { select: { userId: true, orderNumber: true } } },
+    orderBy: { dueDate: "asc" },
+    take: 100,
+  });
+
+  for (const installment of installments) {
+    const overdue = installment.status === InstallmentStatus.OVERDUE;
+    const amountDue = installment.amount - installment.paidAmount;
+    const dueOn = installment.dueDate.toISOString().slice(0, 10);
+
+    await publishInstallmentEvent("PAYMENT.INSTALLMENT_REMINDER", {
+      userId: installment.bookingOrder.userId,
+      title: overdue ? "Installment Overdue" : "Installment Due Soon",
+      audience: "USER",
+      severity: overdue ? "WARNING" : "INFO",
+      message: overdue
+        ? `Your installment of ${amountDue} for order ${installment.bookingOrder.orderNumber} was due on ${dueOn}. Please pay it as soon as possible.`
+        : `Your installment of ${amountDue} for order ${installment.bookingOrder.orderNumber} is due on ${dueOn}.`,
+    });
+
+    await prisma.paymentInstallment.update({
+      where: { id: installment.id },
+      data: { remindersSent: { increment: 1 }, lastRemindedAt: now },
+    });
+  }
+
+  return installments.length;
+};
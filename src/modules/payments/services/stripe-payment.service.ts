@@ -1,7 +1,9 @@
 import Stripe from "stripe";
 import prisma from "../../../config/prismaClient";
-import { PaymentMethod, PaymentStatus, BookingStatus, Prisma } from "@prisma/client";
+import { PaymentStatus, BookingStatus, Prisma } from "@prisma/client";
 import { logger } from "../../../utils/logger";
+import { ProviderPaymentRecord } from "../providers/payment-provider";
+import { getBalanceDue } from "./payment-plan.service";
 
 export interface CreateCheckoutSessionInput {
   bookingId: string;
@@ -58,32 +60,45 @@ export class StripePaymentService {
     return this.stripe.webhooks.constructEvent(rawBody, signature, this.webhookSecret);
   }
 
-  async createCheckoutSession(
-    bookingId: string,
-    amount: number,
-  ): Promise<CreateCheckoutSessionOutput> {
-    const unitAmount = Math.round(amount * 100);
-    if (unitAmount <= 0) {
-      throw new Error("Amount must be greater than 0");
-    }
-
+  /**
+   * Charges a server-computed amount, never an amount from the client:
+   * what PaymentService worked out, or else the order's balance due.
+   */
+  async createCheckoutSession(bookingId: string, amount?: number): Promise<CreateCheckoutSessionOutput> {
     const bookingOrder = await prisma.bookingOrder.findUnique({
       where: { id: bookingId },
-      select: { id: true, status: true },
+      select: {
+        id: true,
+        status: true,
+        expiresAt: true,
+        totalAmount: true,
+        depositAmount: true,
+        paidAmount: true,
+      },
     });
 
     if (!bookingOrder) {
       throw new Error("Booking Order not found");
     }
 
-    const existingPayment = await prisma.payment.findUnique({
-      where: { bookingOrderId: bookingId },
-      select: { id: true, paymentStatus: true, transactionId: true },
-    });
-
-    if (existingPayment?.paymentStatus === PaymentStatus.SUCCESS) {
+    const balanceDue = getBalanceDue(bookingOrder);
+    if (balanceDue <= 0) {
       throw new Error("Payment already completed for this booking");
     }
+
+    const unitAmount = Math.round((amount ?? balanceDue) * 100);
+    if (unitAmount <= 0) {
+      throw new Error("Amount must be greater than 0");
+    }
+
+    const onHold =
+      bookingOrder.status === BookingStatus.PENDING || bookingOrder.status === BookingStatus.RESERVED;
+    if (
+      bookingOrder.status === BookingStatus.CANCELLED ||
+      (onHold && bookingOrder.expiresAt && bookingOrder.expiresAt <= new Date())
+    ) {
+      throw new Error("Booking order has expired");
+    }
     const shortId = bookingId.slice(0, 6).toUpperCase();
 
 
@@ -129,196 +144,144 @@ export class StripePaymentService {
     };
   }
 
-  async handleCheckoutSessionCompleted(session: Stripe.Checkout.Session): Promise<void> {
-    const bookingId = session.metadata?.bookingId;
-    if (!bookingId) {
-      logger.warn("Stripe checkout.session.completed missing bookingId metadata", {
-        sessionId: session.id,
-      });
-      return;
+  /**
+   * Checkout for a resident's rent invoice. The webhook recognises these
+   * sessions by their rentInvoiceId metadata.
+   */
+  async createRentInvoiceCheckoutSession({
+    invoiceId,
+    invoiceNumber,
+    amount,
+  }: {
+    invoiceId: string;
+    invoiceNumber: string;
+    amount: number;
+  }): Promise<CreateCheckoutSessionOutput> {
+    const unitAmount = Math.round(amount * 100);
+    if (unitAmount <= 0) {
+      throw new Error("Amount must be greater than 0");
     }
 
-    await prisma.$transaction(async (tx) => {
-      const bookingOrder = await tx.bookingOrder.findUnique({
-        where: { id: bookingId },
-        select: { totalAmount: true },
-      });
-
-      if (!bookingOrder) {
-        throw new Error("Booking Order not found");
-      }
-  // 1️⃣ Update payment
-  await tx.payment.upsert({
-    where: { bookingOrderId: bookingId },
-    update: {
-      transactionId: session.id,
-      paymentMethod: PaymentMethod.STRIPE,
-      paymentStatus: PaymentStatus.SUCCESS,
-      amountPaid: bookingOrder.totalAmount,
-    },
-    create: {
-      bookingOrderId: bookingId,
-      transactionId: session.id,
-      paymentMethod: PaymentMethod.STRIPE,
-      paymentStatus: PaymentStatus.SUCCESS,
-      amountPaid: bookingOrder.totalAmount,
-    },
-  });
-
-  // 2️⃣ Update bookingOrder
-  await tx.bookingOrder.updateMany({
-    where: {
-      id: bookingId,
-      status: {
-        in: [BookingStatus.PENDING, BookingStatus.RESERVED],
+    const session = await this.stripe.checkout.sessions.create({
+      mode: "payment",
+      success_url: `${this.clientUrl}/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${this.clientUrl}/payment-failed?session_id={CHECKOUT_SESSION_ID}`,
+      metadata: {
+        rentInvoiceId: invoiceId,
       },
-    },
-    data: { status: BookingStatus.CONFIRMED },
-  });
-
-  // ✅ 3️⃣ Update ALL child bookings
-  await tx.booking.updateMany({
-    where: {
-      bookingOrderId: bookingId,
-      status: {
-        in: [BookingStatus.PENDING, BookingStatus.RESERVED],
+      payment_intent_data: {
+        metadata: {
+          rentInvoiceId: invoiceId,
+        },
       },
-    },
-    data: { status: BookingStatus.CONFIRMED },
-  });
-  // 4) Reduce available seats per room for this paid booking order
-const bookings = await tx.booking.findMany({
-  where: { bookingOrderId: bookingId },
-  select: {
-    roomId: true,
-    seatsSelected: true, // use your booking seat field (e.g. seatsBooked/quantity)
-  },
-});
-
-// Group total seats to reduce by room
-const seatsByRoom = new Map<string, number>();
-for (const booking of bookings) {
-  const current = seatsByRoom.get(booking.roomId) ?? 0;
-  seatsByRoom.set(booking.roomId, current + booking.seatsSelected);
-}
-
-	// Atomic decrement with non-negative guard
-	for (const [roomId, seatsToReduce] of seatsByRoom.entries()) {
-	  const updated = await tx.room.updateMany({
-	    where: {
-	      id: roomId,
-	      availableSeats: { gte: seatsToReduce }, // prevent going below 0
-	    },
-	    data: {
-	      availableSeats: { decrement: seatsToReduce },
-	      bookedSeats: { increment: seatsToReduce },
-	    },
-	  });
-
-  if (updated.count === 0) {
-    throw new Error(`Insufficient available seats for room ${roomId}`);
-  }
-}
-});
-
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: "pkr",
+            unit_amount: unitAmount,
+            product_data: {
+              name: "Monthly Rent",
+              description: `Invoice ${invoiceNumber}`,
+            },
+          },
+        },
+      ],
+    });
 
+    if (!session.url) {
+      throw new Error("Stripe Checkout Session URL was not returned");
+    }
 
-    logger.info("Stripe checkout.session.completed processed", {
-      bookingId,
+    logger.info("Stripe rent invoice checkout session created", {
+      invoiceId,
       sessionId: session.id,
     });
+
+    return {
+      sessionId: session.id,
+      sessionUrl: session.url,
+    };
   }
 
-  async handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<void> {
-    const bookingId = paymentIntent.metadata?.bookingId;
-    if (!bookingId) {
-      logger.warn("Stripe payment_intent.payment_failed missing bookingId metadata", {
-        paymentIntentId: paymentIntent.id,
-      });
-      return;
+  /**
+   * Refunds part or all of a Stripe payment and returns the Stripe refund id.
+   * transactionId may be a checkout session, payment intent or charge id,
+   * depending on which webhook wrote it last.
+   */
+  async refundPayment(transactionId: string, amount: number): Promise<string> {
+    let paymentIntentId: string | undefined;
+    let chargeId: string | undefined;
+
+    if (transactionId.startsWith("cs_")) {
+      const session = await this.stripe.checkout.sessions.retrieve(transactionId);
+      paymentIntentId =
+        typeof session.payment_intent === "string"
+          ? session.payment_intent
+          : session.payment_intent?.id;
+    } else if (transactionId.startsWith("ch_")) {
+      chargeId = transactionId;
+    } else {
+      paymentIntentId = transactionId;
     }
 
-    await prisma.payment.upsert({
-      where: { bookingOrderId: bookingId },
-      update: {
-        transactionId: paymentIntent.id,
-        paymentMethod: PaymentMethod.STRIPE,
-        paymentStatus: PaymentStatus.FAILED,
-      },
-      create: {
-        bookingOrderId: bookingId,
-        transactionId: paymentIntent.id,
-        paymentMethod: PaymentMethod.STRIPE,
-        paymentStatus: PaymentStatus.FAILED,
-      },
-    });
+    if (!paymentIntentId && !chargeId) {
+      throw new Error("Stripe payment not found for refund");
+    }
 
-    logger.info("Stripe payment_intent.payment_failed processed", {
-      bookingId,
-      paymentIntentId: paymentIntent.id,
+    const refund = await this.stripe.refunds.create({
+      ...(paymentIntentId ? { payment_intent: paymentIntentId } : { charge: chargeId }),
+      amount: Math.round(amount * 100),
     });
-  }
 
-  async handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
-    const bookingIdFromCharge = charge.metadata?.bookingId;
-    let bookingId = bookingIdFromCharge;
+    logger.info("Stripe refund created", { transactionId, refundId: refund.id, amount });
 
-    if (!bookingId && typeof charge.payment_intent === "string") {
-      const paymentIntent = await this.stripe.paymentIntents.retrieve(charge.payment_intent);
-      bookingId = paymentIntent.metadata?.bookingId;
-    }
+    return refund.id;
+  }
 
-    if (!bookingId) {
-      logger.warn("Stripe charge.refunded missing bookingId metadata", {
-        chargeId: charge.id,
-      });
-      return;
+  /**
+   * Maps a checkout session, payment intent or charge to our payment status
+   * and the amount Stripe captured (in PKR).
+   */
+  async getPaymentRecord(transactionId: string): Promise<ProviderPaymentRecord> {
+    if (transactionId.startsWith("cs_")) {
+      const session = await this.stripe.checkout.sessions.retrieve(transactionId);
+      if (session.payment_status === "paid") {
+        return {
+          paymentStatus: PaymentStatus.SUCCESS,
+          amount: session.amount_total !== null ? session.amount_total / 100 : undefined,
+        };
+      }
+      return {
+        paymentStatus: session.status === "expired" ? PaymentStatus.FAILED : PaymentStatus.PENDING,
+      };
     }
 
-    await prisma.$transaction(async (tx) => {
-      await tx.payment.updateMany({
-        where: {
-          bookingOrderId: bookingId,
-          paymentStatus: {
-            not: PaymentStatus.REFUNDED,
-          },
-        },
-        data: {
-          transactionId: charge.id,
-          paymentMethod: PaymentMethod.STRIPE,
-          paymentStatus: PaymentStatus.REFUNDED,
-        },
-      });
-
-      await tx.bookingOrder.updateMany({
-        where: {
-          id: bookingId,
-          status: {
-            not: BookingStatus.CANCELLED,
-          },
-        },
-        data: {
-          status: BookingStatus.CANCELLED,
-        },
-      });
+    if (transactionId.startsWith("ch_")) {
+      const charge = await this.stripe.charges.retrieve(transactionId);
+      const amounts = { amount: charge.amount / 100, refundedAmount: charge.amount_refunded / 100 };
+      if (charge.refunded) return { paymentStatus: PaymentStatus.REFUNDED, ...amounts };
+      if (charge.amount_refunded > 0) return { paymentStatus: PaymentStatus.PARTIALLY_REFUNDED, ...amounts };
+      return charge.paid
+        ? { paymentStatus: PaymentStatus.SUCCESS, ...amounts }
+        : { paymentStatus: PaymentStatus.FAILED };
+    }
 
-      await tx.booking.updateMany({
-        where: {
-          bookingOrderId: bookingId,
-          status: {
-            not: BookingStatus.CANCELLED,
-          },
-        },
-        data: {
-          status: BookingStatus.CANCELLED,
-        },
-      });
-    });
+    const paymentIntent = await this.stripe.paymentIntents.retrieve(transactionId);
+    if (paymentIntent.status === "succeeded") {
+      return { paymentStatus: PaymentStatus.SUCCESS, amount: paymentIntent.amount_received / 100 };
+    }
+    return {
+      paymentStatus: paymentIntent.status === "canceled" ? PaymentStatus.FAILED : PaymentStatus.PENDING,
+    };
+  }
 
-    logger.info("Stripe charge.refunded processed", {
-      bookingId,
-      chargeId: charge.id,
+  async findCheckoutSessionIds(paymentIntentId: string): Promise<string[]> {
+    const sessions = await this.stripe.checkout.sessions.list({
+      payment_intent: paymentIntentId,
+      limit: 1,
     });
+    return sessions.data.map((session) => session.id);
   }
 
   async getAllPayments(params?: { skip?: number; take?: number }): Promise<PaymentWithBookingOrder[]> {
@@ -360,6 +323,11 @@ for (const booking of bookings) {
 
   const bookingOrderId = existingPayment.bookingOrderId;
 
+  const billingDocuments = await prisma.billingDocument.count({ where: { bookingOrderId } });
+  if (billingDocuments > 0) {
+    throw new Error("ORDER_HAS_BILLING_DOCUMENTS");
+  }
+
   // Use transaction for safety
   return prisma.$transaction(async (tx) => {
     // Capture data before deletion (for response)
@@ -1,125 +0,0 @@
-import { PaymentStatus } from "@prisma/client";
-
-interface StripePaymentIntentRequest {
-  bookingId: string;
-  amount: number;
-  customerEmail: string;
-  customerName: string;
-  returnUrl?: string;
-}
-
-interface StripePaymentResponse {
-  success: boolean;
-  transactionId: string;
-  paymentUrl?: string;
-  message: string;
-  paymentStatus: PaymentStatus;
-}
-
-export class StripePaymentService {
-  private apiKey = process.env.STRIPE_SECRET_KEY || "";
-  private publishableKey = process.env.STRIPE_PUBLISHABLE_KEY || "";
-
-  /**
-   * Create Stripe Payment Intent
-   */
-  async createPaymentIntent(
-    request: StripePaymentIntentRequest
-  ): Promise<StripePaymentResponse> {
-    try {
-      if (!this.apiKey) {
-        return {
-          success: false,
-          transactionId: "",
-          message: "Stripe API key not configured",
-          paymentStatus: PaymentStatus.FAILED,
-        };
-      }
-
-      // For production, use Stripe SDK: npm install stripe
-      // This is a mock implementation - replace with actual Stripe SDK usage
-      const mockTransactionId = `stripe_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-      // In production:
-      // const stripe = require('stripe')(this.apiKey);
-      // const paymentIntent = await stripe.paymentIntents.create({
-      //   amount: Math.round(request.amount * 100), // Convert to cents
-      //   currency: 'usd',
-      //   receipt_email: request.customerEmail,
-      //   metadata: {
-      //     bookingId: request.bookingId,
-      //   },
-      // });
-
-      return {
-        success: true,
-        transactionId: mockTransactionId,
-        paymentUrl: `https://stripe.example.com/pay?id=${mockTransactionId}`,
-        message: "Payment intent created successfully",
-        paymentStatus: PaymentStatus.PENDING,
-      };
-    } catch (error) {
-      console.error("Stripe payment intent error:", error);
-      return {
-        success: false,
-        transactionId: "",
-        message: error instanceof Error ? error.message : "Failed to create payment intent",
-        paymentStatus: PaymentStatus.FAILED,
-      };
-    }
-  }
-
-  /**
-   * Verify Stripe Payment Status
-   */
-  async verifyPayment(transactionId: string): Promise<PaymentStatus> {
-    try {
-      if (!this.apiKey) {
-        return PaymentStatus.FAILED;
-      }
-
-      // In production, use Stripe SDK:
-      // const stripe = require('stripe')(this.apiKey);
-      // const paymentIntent = await stripe.paymentIntents.retrieve(transactionId);
-      // if (paymentIntent.status === 'succeeded') {
-      //   return PaymentStatus.SUCCESS;
-      // } else if (paymentIntent.status === 'processing') {
-      //   return PaymentStatus.PENDING;
-      // }
-
-      // Mock implementation for development
-      return PaymentStatus.PENDING;
-    } catch (error) {
-      console.error("Stripe verification error:", error);
-      return PaymentStatus.FAILED;
-    }
-  }
-
-  /**
-   * Handle Stripe Webhook (for async payment updates)
-   */
-  async handleWebhook(event: any): Promise<boolean> {
-    try {
-      switch (event.type) {
-        case "payment_intent.succeeded":
-          console.log("Payment succeeded:", event.data.object.id);
-          return true;
-
-        case "payment_intent.payment_failed":
-          console.log("Payment failed:", event.data.object.id);
-          return true;
-
-        case "charge.refunded":
-          console.log("Charge refunded:", event.data.object.id);
-          return true;
-
-        default:
-          console.log("Unhandled event type:", event.type);
-          return true;
-      }
-    } catch (error) {
-      console.error("Webhook handling error:", error);
-      return false;
-    }
-  }
-}
@@ -0,0 +1,459 @@
+import { BookingType, Prisma, RoomType } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+import { AppliedCoupon, applyCoupon } from "../coupons/coupon.service";
+import { toStayWindow } from "../rooms/room.service";
+
+type Tx = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30;
+const DEFAULT_TAX_PERCENT = 16;
+const DEFAULT_QUOTE_TTL_MINUTES = 15;
+
+export interface PricingItemInput {
+  roomId: string;
+  bookingType: BookingType;
+  seats: number;
+  checkIn?: Date | null;
+  checkOut?: Date | null;
+}
+
+export interface OrderLineInput {
+  roomId?: string;
+  roomType?: RoomType;
+  bookingType?: BookingType;
+  baseAmount: number;
+}
+
+export interface OrderLineTotals {
+  baseAmount: number;
+  taxAmount: number;
+  discount: number;
+  totalAmount: number;
+}
+
+export interface OrderTotals {
+  taxPercent: number;
+  baseAmount: number;
+  taxAmount: number;
+  discount: number;
+  totalAmount: number;
+  coupon: AppliedCoupon | null;
+  lines: OrderLineTotals[];
+}
+
+export interface QuoteLine extends OrderLineTotals {
+  roomId: string;
+  roomTitle: string;
+  roomType: RoomType;
+  bookingType: BookingType;
+  seats: number;
+  checkIn: string | null;
+  checkOut: string | null;
+  /** Nights for short stays, months for long stays */
+  unit: "NIGHT" | "MONTH";
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface OrderQuote {
+  quoteId: string | null;
+  expiresAt: Date | null;
+  taxPercent: number;
+  baseAmount: number;
+  taxAmount: number;
+  discount: number;
+  totalAmount: number;
+  coupon: AppliedCoupon | null;
+  lines: QuoteLine[];
+}
+
+/**
+ * Active tax rate of a property, falling back to the default (property-less)
+ * rate, then to DEFAULT_TAX_PERCENT.
+ */
+export const getActiveTaxPercent = async (
+  client: Tx = prisma,
+  propertyId?: string | null
+): Promise<number> => {
+  const taxConfigs = await client.taxConfig.findMany({
+    where: {
+      isActive: true,
+      OR: [{ propertyId: null }, ...(propertyId ? [{ propertyId }] : [])],
+    },
+    select: { percent: true, propertyId: true },
+  });
+
+  const taxConfig =
+    taxConfigs.find((config) => config.propertyId !== null) ??
+    taxConfigs.find((config) => config.propertyId === null);
+
+  return taxConfig?.percent ?? DEFAULT_TAX_PERCENT;
+};
+
+/**
+ * The one property an order's rooms belong to. Orders cannot span properties
+ * since tax, pricing and coupons are set per property.
+ */
+export const resolveOrderProperty = async (client: Tx, roomIds: string[]) => {
+  const rooms = await client.room.findMany({
+    where: { id: { in: [...new Set(roomIds)] } },
+    select: { propertyId: true },
+  });
+
+  const propertyIds = [...new Set(rooms.map((room) => room.propertyId))];
+  if (propertyIds.length > 1) {
+    throw new ApiError(400, "All rooms in one order must be at the same property");
+  }
+
+  return propertyIds[0] ?? null;
+};
+
+/**
+ * Tax and coupon maths for lines whose base amount is already known.
+ */
+export const calculateOrderTotals = async ({
+  tx,
+  lines,
+  couponCode,
+  userId,
+  propertyId,
+}: {
+  tx?: Tx;
+  lines: OrderLineInput[];
+  couponCode?: string | null;
+  userId?: string;
+  propertyId?: string | null;
+}): Promise<OrderTotals> => {
+  const client = tx ?? prisma;
+  const taxPercent = await getActiveTaxPercent(client, propertyId);
+
+  // Coupons can be restricted by room type, so resolve it for lines that only carry a roomId
+  const missingRoomIds = lines
+    .filter((line) => !line.roomType && line.roomId)
+    .map((line) => line.roomId as string);
+
+  const rooms = missingRoomIds.length
+    ? await client.room.findMany({
+        where: { id: { in: missingRoomIds } },
+        select: { id: true, type: true },
+      })
+    : [];
+  const roomTypeById = new Map(rooms.map((room) => [room.id, room.type]));
+
+  const taxed = lines.map((line) => {
+    const taxAmount = Math.floor((line.baseAmount * taxPercent) / 100);
+    return {
+      roomType: line.roomType ?? (line.roomId ? roomTypeById.get(line.roomId) : undefined),
+      bookingType: line.bookingType,
+      baseAmount: line.baseAmount,
+      taxAmount,
+      amount: line.baseAmount + taxAmount,
+    };
+  });
+
+  const coupon = couponCode
+    ? await applyCoupon({ tx, code: couponCode, userId, items: taxed, propertyId })
+    : null;
+
+  const lineTotals = taxed.map((line, i) => {
+    const discount = coupon?.lineDiscounts[i] ?? 0;
+    return {
+      baseAmount: line.baseAmount,
+      taxAmount: line.taxAmount,
+      discount,
+      totalAmount: line.amount - discount,
+    };
+  });
+
+  const sum = (key: keyof OrderLineTotals) =>
+    lineTotals.reduce((total, line) => total + line[key], 0);
+
+  return {
+    taxPercent,
+    baseAmount: sum("baseAmount"),
+    taxAmount: sum("taxAmount"),
+    discount: sum("discount"),
+    totalAmount: sum("totalAmount"),
+    coupon,
+    lines: lineTotals,
+  };
+};
+
+/**
+ * Number of billable units for a stay: nights for short stays, 30-day months
+ * (rounded up) for long stays. Stays without dates are billed one unit.
+ */
+export const getBillableUnits = (item: PricingItemInput) => {
+  const unit: QuoteLine["unit"] = item.bookingType === BookingType.SHORT_TERM ? "NIGHT" : "MONTH";
+
+  if (!item.checkIn || !item.checkOut) return { unit, quantity: 1 };
+
+  const { start, end } = toStayWindow(item.checkIn, item.checkOut);
+  const days = Math.round((end!.getTime() - start.getTime()) / DAY_MS);
+
+  return {
+    unit,
+    quantity: unit === "NIGHT" ? days : Math.max(1, Math.ceil(days / DAYS_PER_MONTH)),
+  };
+};
+
+const toDateKey = (date?: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+
+/**
+ * Prices a set of stays from the room's own rate, falling back to the active
+ * SeatPricing for its room type (the property's own, else the default), then
+ * applies the property's tax and the coupon.
+ */
+export const priceOrder = async ({
+  tx,
+  items,
+  couponCode,
+  userId,
+}: {
+  tx?: Tx;
+  items: PricingItemInput[];
+  couponCode?: string | null;
+  userId?: string;
+}): Promise<OrderQuote> => {
+  if (items.length === 0) {
+    throw new ApiError(400, "At least one booking is required for pricing");
+  }
+
+  const client = tx ?? prisma;
+  const roomIds = [...new Set(items.map((item) => item.roomId))];
+  const propertyId = await resolveOrderProperty(client, roomIds);
+
+  const [rooms, seatPricing] = await Promise.all([
+    client.room.findMany({
+      where: { id: { in: roomIds } },
+      select: { id: true, title: true, type: true, shortTermPrice: true, longTermPrice: true },
+    }),
+    client.seatPricing.findMany({
+      where: {
+        isActive: true,
+        OR: [{ propertyId: null }, ...(propertyId ? [{ propertyId }] : [])],
+      },
+      select: { roomType: true, stayType: true, price: true, propertyId: true },
+    }),
+  ]);
+  const roomById = new Map(rooms.map((room) => [room.id, room]));
+
+  const priced = items.map((item) => {
+    const room = roomById.get(item.roomId);
+    if (!room) {
+      throw new ApiError(404, "Room not found");
+    }
+
+    const roomPrice =
+      item.bookingType === BookingType.SHORT_TERM ? room.shortTermPrice : room.longTermPrice;
+    const matching = seatPricing.filter(
+      (p) => p.roomType === room.type && p.stayType === item.bookingType
+    );
+    const unitPrice =
+      roomPrice ??
+      (matching.find((p) => p.propertyId !== null) ?? matching.find((p) => p.propertyId === null))?.price;
+
+    if (unitPrice === null || unitPrice === undefined) {
+      throw new ApiError(400, `Pricing is not configured for room "${room.title}"`);
+    }
+
+    const { unit, quantity } = getBillableUnits(item);
+
+    return {
+      room,
+      item,
+      unit,
+      quantity,
+      unitPrice,
+      baseAmount: unitPrice * item.seats * quantity,
+    };
+  });
+
+  const totals = await calculateOrderTotals({
+    tx,
+    lines: priced.map((line) => ({
+      roomType: line.room.type,
+      bookingType: line.item.bookingType,
+      baseAmount: line.baseAmount,
+    })),
+    couponCode,
+    userId,
+    propertyId,
+  });
+
+  return {
+    quoteId: null,
+    expiresAt: null,
+    taxPercent: totals.taxPercent,
+    baseAmount: totals.baseAmount,
+    taxAmount: totals.taxAmount,
+    discount: totals.discount,
+    totalAmount: totals.totalAmount,
+    coupon: totals.coupon,
+    lines: priced.map((line, i) => ({
+      roomId: line.room.id,
+      roomTitle: line.room.title,
+      roomType: line.room.type,
+      bookingType: line.item.bookingType,
+      seats: line.item.seats,
+      checkIn: toDateKey(line.item.checkIn),
+      checkOut: toDateKey(line.item.checkOut),
+      unit: line.unit,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      ...totals.lines[i],
+    })),
+  };
+};
+
+export const getQuoteTtlMinutes = () => {
+  const fromEnv = Number(process.env.PRICE_QUOTE_TTL_MINUTES);
+  return fromEnv > 0 ? fromEnv : DEFAULT_QUOTE_TTL_MINUTES;
+};
+
+/**
+ * Prices the stays and stores the result so an order placed by the same
+ * user with the returned quoteId pays exactly this amount until the quote
+ * expires.
+ */
+export const createPriceQuote = async ({
+  items,
+  couponCode,
+  userId,
+}: {
+  items: PricingItemInput[];
+  couponCode?: string | null;
+  userId: string;
+}): Promise<OrderQuote> => {
+  const quote = await priceOrder({ items, couponCode, userId });
+  const expiresAt = new Date(Date.now() + getQuoteTtlMinutes() * 60 * 1000);
+
+  const stored = await prisma.priceQuote.create({
+    data: {
+      userId,
+      couponCode: quote.coupon?.code,
+      taxPercent: quote.taxPercent,
+      baseAmount: quote.baseAmount,
+      taxAmount: quote.taxAmount,
+      discount: quote.discount,
+      totalAmount: quote.totalAmount,
+      lines: quote.lines as unknown as Prisma.InputJsonValue,
+      expiresAt,
+    },
+  });
+
+  return { ...quote, quoteId: stored.id, expiresAt };
+};
+
+const isSameLine = (line: QuoteLine, item: PricingItemInput) =>
+  line.roomId === item.roomId &&
+  line.bookingType === item.bookingType &&
+  line.seats === item.seats &&
+  line.checkIn === toDateKey(item.checkIn) &&
+  line.checkOut === toDateKey(item.checkOut);
+
+/**
+ * Locks a stored quote for an order. The quote must be unused, unexpired,
+ * owned by the user and describe exactly the stays being booked; its coupon
+ * is re-checked against redemption limits but keeps the quoted discount.
+ */
+export const redeemPriceQuote = async ({
+  tx,
+  quoteId,
+  items,
+  userId,
+}: {
+  tx: Tx;
+  quoteId: string;
+  items: PricingItemInput[];
+  userId: string;
+}): Promise<OrderQuote> => {
+  await tx.$queryRaw`SELECT id FROM "PriceQuote" WHERE id = ${quoteId} FOR UPDATE`;
+
+  const stored = await tx.priceQuote.findUnique({ where: { id: quoteId } });
+
+  if (!stored || stored.userId !== userId) {
+    throw new ApiError(404, "Price quote not found");
+  }
+  if (stored.usedAt) {
+    throw new ApiError(409, "Price quote has already been used");
+  }
+  if (stored.expiresAt <= new Date()) {
+    throw new ApiError(410, "Price quote has expired, please review the price again");
+  }
+
+  const lines = stored.lines as unknown as QuoteLine[];
+  if (lines.length !== items.length || !lines.every((line, i) => isSameLine(line, items[i]))) {
+    throw new ApiError(400, "Bookings do not match the price quote");
+  }
+
+  const coupon = stored.couponCode
+    ? await applyCoupon({
+        tx,
+        code: stored.couponCode,
+        userId,
+        propertyId: await resolveOrderProperty(tx, lines.map((line) => line.roomId)),
+        items: lines.map((line) => ({
+          roomType: line.roomType,
+          bookingType: line.bookingType,
+          amount: line.baseAmount + line.taxAmount,
+        })),
+      })
+    : null;
+
+  return {
+    quoteId: stored.id,
+    expiresAt: stored.expiresAt,
+    taxPercent: stored.taxPercent,
+    baseAmount: stored.baseAmount,
+    taxAmount: stored.taxAmount,
+    discount: stored.discount,
+    totalAmount: stored.totalAmount,
+    coupon: coupon && {
+      ...coupon,
+      discount: stored.discount,
+      lineDiscounts: lines.map((line) => line.discount),
+    },
+    lines,
+  };
+};
+
+/**
+ * Prices an order inside its transaction: from the stored quote when one is
+ * given, otherwise at current prices.
+ */
+export const resolveOrderPricing = ({
+  tx,
+  quoteId,
+  items,
+  couponCode,
+  userId,
+}: {
+  tx: Tx;
+  quoteId?: string | null;
+  items: PricingItemInput[];
+  couponCode?: string | null;
+  userId: string;
+}) =>
+  quoteId
+    ? redeemPriceQuote({ tx, quoteId, items, userId })
+    : priceOrder({ tx, items, couponCode, userId });
+
+/**
+ * Deletes quotes that expired without being ordered. Used ones stay, as the
+ * record of the price their order was placed at.
+ */
+export const pruneExpiredPriceQuotes = async (now: Date = new Date()) => {
+  const { count } = await prisma.priceQuote.deleteMany({
+    where: { usedAt: null, expiresAt: { lt: now } },
+  });
+  return count;
+};
+
+export const markPriceQuoteUsed = (tx: Tx, quoteId: string, bookingOrderId: string) =>
+  tx.priceQuote.update({
+    where: { id: quoteId },
+    data: { usedAt: new Date(), bookingOrderId },
+  });
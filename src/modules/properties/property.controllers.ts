@@ -0,0 +1,309 @@
+import { NextFunction, Request, Response } from "express";
+import { Role } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { assertGlobalAdmin, assertPropertyAccess } from "./property.service";
+import {
+  AssignPropertyStaffDTO,
+  CreateFloorDTO,
+  CreatePropertyDTO,
+  UpdateFloorDTO,
+  UpdatePropertyDTO,
+} from "./propertyDTOS/property.dtos";
+
+/**
+ * GET /properties
+ * Active properties for guests; staff can pass includeInactive=true
+ */
+export const getProperties = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { city, includeInactive } = req.query as Record<string, string>;
+    const isStaff = req.user?.role === Role.ADMIN || req.user?.role === Role.COORDINATOR;
+
+    const properties = await prisma.property.findMany({
+      where: {
+        ...(!(isStaff && includeInactive === "true") && { isActive: true }),
+        ...(city && { city: { equals: city, mode: "insensitive" as const } }),
+      },
+      orderBy: { name: "asc" },
+      include: {
+        _count: { select: { rooms: true, floors: true } },
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Properties fetched successfully",
+      data: properties,
+    });
+  }
+);
+
+/**
+ * GET /properties/:id
+ */
+export const getPropertyById = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+
+    const property = await prisma.property.findUnique({
+      where: { id },
+      include: {
+        floors: {
+          orderBy: { level: "asc" },
+          include: { _count: { select: { rooms: true } } },
+        },
+      },
+    });
+
+    if (!property) {
+      throw new ApiError(404, "Property not found");
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Property fetched successfully",
+      data: property,
+    });
+  }
+);
+
+/**
+ * POST /properties
+ */
+export const createProperty = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const data = req.body as CreatePropertyDTO;
+    await assertGlobalAdmin(req.user);
+
+    const existing = await prisma.property.findUnique({ where: { code: data.code } });
+    if (existing) {
+      throw new ApiError(409, "A property with this code already exists");
+    }
+
+    const property = await prisma.property.create({ data });
+
+    res.status(201).json({
+      success: true,
+      message: "Property created successfully",
+      data: property,
+    });
+  }
+);
+
+/**
+ * PATCH /properties/:id
+ */
+export const updateProperty = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const data = req.body as UpdatePropertyDTO;
+    await assertPropertyAccess(req.user, id);
+
+    const property = await prisma.property.findUnique({ where: { id } });
+    if (!property) {
+      throw new ApiError(404, "Property not found");
+    }
+
+    if (data.code && data.code !== property.code) {
+      const existing = await prisma.property.findUnique({ where: { code: data.code } });
+      if (existing) {
+        throw new ApiError(409, "A property with this code already exists");
+      }
+    }
+
+    const updated = await prisma.property.update({ where: { id }, data });
+
+    res.status(200).json({
+      success: true,
+      message: "Property updated successfully",
+      data: updated,
+    });
+  }
+);
+
+/**
+ * POST /properties/:id/floors
+ */
+export const createFloor = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const { name, level } = req.body as CreateFloorDTO;
+    await assertPropertyAccess(req.user, id);
+
+    const property = await prisma.property.findUnique({ where: { id }, select: { id: true } });
+    if (!property) {
+      throw new ApiError(404, "Property not found");
+    }
+
+    const existing = await prisma.floor.findUnique({
+      where: { propertyId_name: { propertyId: id, name } },
+    });
+    if (existing) {
+      throw new ApiError(409, `Property already has a floor named "${name}"`);
+    }
+
+    const floor = await prisma.floor.create({
+      data: { propertyId: id, name, level },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Floor created successfully",
+      data: floor,
+    });
+  }
+);
+
+/**
+ * PATCH /properties/:id/floors/:floorId
+ */
+export const updateFloor = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id, floorId } = req.params;
+    const { name, level } = req.body as UpdateFloorDTO;
+    await assertPropertyAccess(req.user, id);
+
+    const floor = await prisma.floor.findFirst({ where: { id: floorId, propertyId: id } });
+    if (!floor) {
+      throw new ApiError(404, "Floor not found");
+    }
+
+    if (name && name !== floor.name) {
+      const existing = await prisma.floor.findUnique({
+        where: { propertyId_name: { propertyId: id, name } },
+      });
+      if (existing) {
+        throw new ApiError(409, `Property already has a floor named "${name}"`);
+      }
+    }
+
+    const updated = await prisma.floor.update({
+      where: { id: floorId },
+      data: { name, level },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Floor updated successfully",
+      data: updated,
+    });
+  }
+);
+
+/**
+ * DELETE /properties/:id/floors/:floorId
+ */
+export const deleteFloor = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id, floorId } = req.params;
+    await assertPropertyAccess(req.user, id);
+
+    const floor = await prisma.floor.findFirst({
+      where: { id: floorId, propertyId: id },
+      include: { _count: { select: { rooms: true } } },
+    });
+
+    if (!floor) {
+      throw new ApiError(404, "Floor not found");
+    }
+
+    if (floor._count.rooms > 0) {
+      throw new ApiError(409, "Move or delete the rooms on this floor first");
+    }
+
+    await prisma.floor.delete({ where: { id: floorId } });
+
+    res.status(200).json({
+      success: true,
+      message: "Floor deleted successfully",
+    });
+  }
+);
+
+/**
+ * GET /properties/:id/staff
+ */
+export const getPropertyStaff = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    await assertPropertyAccess(req.user, id);
+
+    const staff = await prisma.user.findMany({
+      where: { properties: { some: { id } } },
+      select: { id: true, name: true, email: true, role: true },
+      orderBy: { name: "asc" },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Property staff fetched successfully",
+      data: staff,
+    });
+  }
+);
+
+/**
+ * POST /properties/:id/staff
+ * Scopes an ADMIN or COORDINATOR to this property
+ */
+export const assignPropertyStaff = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const { userId } = req.body as AssignPropertyStaffDTO;
+    await assertGlobalAdmin(req.user);
+
+    const [property, user] = await Promise.all([
+      prisma.property.findUnique({ where: { id }, select: { id: true } }),
+      prisma.user.findUnique({ where: { id: userId }, select: { id: true, role: true } }),
+    ]);
+
+    if (!property) {
+      throw new ApiError(404, "Property not found");
+    }
+
+    if (!user) {
+      throw new ApiError(404, "User not found");
+    }
+
+    if (user.role !== Role.ADMIN && user.role !== Role.COORDINATOR) {
+      throw new ApiError(400, "Only ADMIN or COORDINATOR users can be assigned to a property");
+    }
+
+    await prisma.property.update({
+      where: { id },
+      data: { staff: { connect: { id: userId } } },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Staff assigned to property successfully",
+    });
+  }
+);
+
+/**
+ * DELETE /properties/:id/staff/:userId
+ */
+export const removePropertyStaff = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id, userId } = req.params;
+    await assertGlobalAdmin(req.user);
+
+    const property = await prisma.property.findUnique({ where: { id }, select: { id: true } });
+    if (!property) {
+      throw new ApiError(404, "Property not found");
+    }
+
+    await prisma.property.update({
+      where: { id },
+      data: { staff: { disconnect: { id: userId } } },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Staff removed from property successfully",
+    });
+  }
+);
@@ -0,0 +1,53 @@
+import { Router } from "express";
+import {
+  getProperties,
+  getPropertyById,
+  createProperty,
+  updateProperty,
+  createFloor,
+  updateFloor,
+  deleteFloor,
+  getPropertyStaff,
+  assignPropertyStaff,
+  removePropertyStaff,
+} from "./property.controllers";
+import authenticateUser from "../../middlewares/auth.middleware";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import {
+  assignPropertyStaffSchema,
+  createFloorSchema,
+  createPropertySchema,
+  updateFloorSchema,
+  updatePropertySchema,
+} from "./propertyDTOS/property.dtos";
+
+const router = Router();
+
+/**
+ * Property Routes
+ */
+
+// List properties - authenticated users
+router.get("/", authenticateUser, getProperties);
+
+// Get property with its floors - authenticated users
+router.get("/:id", authenticateUser, getPropertyById);
+
+// Create property - ADMIN over all properties only
+router.post("/", authenticateUserWithRole(["ADMIN"]), validate(createPropertySchema), createProperty);
+
+// Update property - ADMIN or COORDINATOR of the property
+router.patch("/:id", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), validate(updatePropertySchema), updateProperty);
+
+// Floors - ADMIN or COORDINATOR of the property
+router.post("/:id/floors", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), validate(createFloorSchema), createFloor);
+router.patch("/:id/floors/:floorId", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), validate(updateFloorSchema), updateFloor);
+router.delete("/:id/floors/:floorId", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), deleteFloor);
+
+// Property staff - ADMIN only; assigning needs an ADMIN over all properties
+router.get("/:id/staff", authenticateUserWithRole(["ADMIN"]), getPropertyStaff);
+router.post("/:id/staff", authenticateUserWithRole(["ADMIN"]), validate(assignPropertyStaffSchema), assignPropertyStaff);
+router.delete("/:id/staff/:userId", authenticateUserWithRole(["ADMIN"]), removePropertyStaff);
+
+export default router;
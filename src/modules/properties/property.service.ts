@@ -0,0 +1,100 @@
+import { Request } from "express";
+import { Role } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+
+type RequestUser = NonNullable<Request["user"]>;
+
+/**
+ * Properties a staff member may manage, or null when they may manage all of
+ * them (an ADMIN not tied to any property). Other users manage none.
+ */
+export const getStaffPropertyIds = async (user: RequestUser): Promise<string[] | null> => {
+  if (user.role !== Role.ADMIN && user.role !== Role.COORDINATOR) return [];
+
+  const properties = await prisma.property.findMany({
+    where: { staff: { some: { id: user.userId } } },
+    select: { id: true },
+  });
+
+  if (properties.length === 0 && user.role === Role.ADMIN) return null;
+
+  return properties.map((property) => property.id);
+};
+
+export const assertPropertyAccess = async (user: RequestUser | undefined, propertyId: string) => {
+  if (!user) {
+    throw new ApiError(401, "Unauthorized");
+  }
+
+  const allowed = await getStaffPropertyIds(user);
+  if (allowed && !allowed.includes(propertyId)) {
+    throw new ApiError(403, "You do not have access to this property");
+  }
+};
+
+/**
+ * Property ids a staff listing should show: the `propertyId` query filter if
+ * the user may see it, else everything they manage. Null = no filter.
+ */
+export const resolvePropertyScope = async (req: Request): Promise<string[] | null> => {
+  const { propertyId } = req.query as Record<string, string | undefined>;
+
+  if (!req.user) {
+    throw new ApiError(401, "Unauthorized");
+  }
+
+  const allowed = await getStaffPropertyIds(req.user);
+
+  if (propertyId) {
+    if (allowed && !allowed.includes(propertyId)) {
+      throw new ApiError(403, "You do not have access to this property");
+    }
+    return [propertyId];
+  }
+
+  return allowed;
+};
+
+/**
+ * Only an ADMIN that is not tied to a property can run the property list.
+ */
+export const assertGlobalAdmin = async (user: RequestUser | undefined) => {
+  if (!user) {
+    throw new ApiError(401, "Unauthorized");
+  }
+
+  if (user.role !== Role.ADMIN || (await getStaffPropertyIds(user)) !== null) {
+    throw new ApiError(403, "Only an admin over all properties can do this");
+  }
+};
+
+/**
+ * Per-property settings (seat prices, tax, coupons) belong to one property,
+ * or with a null propertyId are the defaults for all of them. Defaults can
+ * only be changed by an admin over all properties.
+ */
+export const assertPropertySettingAccess = async (
+  user: RequestUser | undefined,
+  propertyId: string | null | undefined
+) => (propertyId ? assertPropertyAccess(user, propertyId) : assertGlobalAdmin(user));
+
+/**
+ * Where filter for a settings listing. `propertyId=default` lists the
+ * defaults; otherwise staff see their properties' rows plus the defaults,
+ * which apply to their properties too.
+ */
+export const resolveSettingScope = async (req: Request) => {
+  const { propertyId } = req.query as Record<string, string | undefined>;
+
+  if (propertyId === "default") {
+    return { propertyId: null };
+  }
+
+  const scope = await resolvePropertyScope(req);
+  if (!scope) return {};
+
+  return propertyId
+    ? { propertyId: { in: scope } }
+    : { OR: [{ propertyId: { in: scope } }, { propertyId: null }] };
+};
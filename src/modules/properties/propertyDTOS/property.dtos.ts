@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+export const createPropertySchema = z.object({
+  name: z.string().trim().min(1, "Property name is required"),
+  // Short unique code, e.g. "LHR-1"
+  code: z
+    .string()
+    .trim()
+    .min(2, "Code must be at least 2 characters")
+    .max(20)
+    .transform((code) => code.toUpperCase()),
+  addressLine: z.string().trim().min(1, "Address is required"),
+  city: z.string().trim().min(1, "City is required"),
+  phone: z.string().trim().max(30).optional(),
+  email: z.string().trim().email("Invalid email").optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updatePropertySchema = createPropertySchema.partial();
+
+export const createFloorSchema = z.object({
+  name: z.string().trim().min(1, "Floor name is required").max(50),
+  level: z.number().int().min(-5).max(200).optional(),
+});
+
+export const updateFloorSchema = createFloorSchema.partial();
+
+export const assignPropertyStaffSchema = z.object({
+  userId: z.string().uuid("Invalid userId"),
+});
+
+export type CreatePropertyDTO = z.infer<typeof createPropertySchema>;
+export type UpdatePropertyDTO = z.infer<typeof updatePropertySchema>;
+export type CreateFloorDTO = z.infer<typeof createFloorSchema>;
+export type UpdateFloorDTO = z.infer<typeof updateFloorSchema>;
+export type AssignPropertyStaffDTO = z.infer<typeof assignPropertyStaffSchema>;
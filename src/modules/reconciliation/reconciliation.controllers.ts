@@ -0,0 +1,143 @@
+import { NextFunction, Request, Response } from "express";
+import { ReconciliationIssue } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import {
+  buildReconciliationCsv,
+  resolveReconciliationItem,
+  runReconciliation,
+} from "./reconciliation.service";
+import { RunReconciliationDTO } from "./reconciliationDTOS/reconciliation.dtos";
+
+/**
+ * POST /reconciliation/reports
+ * Runs (or re-runs) reconciliation for a day
+ */
+export const createReconciliationReport = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { date } = req.body as RunReconciliationDTO;
+
+    const report = await runReconciliation(date ? new Date(date) : undefined);
+
+    res.status(201).json({
+      success: true,
+      message: "Reconciliation completed",
+      data: report,
+    });
+  }
+);
+
+/**
+ * GET /reconciliation/reports
+ * Daily reports, newest first
+ */
+export const getReconciliationReports = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { page = "1", limit = "30" } = req.query as Record<string, string>;
+
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(100, Math.max(Number(limit) || 30, 1));
+    const skip = (pageNumber - 1) * pageSize;
+
+    const [reports, total] = await Promise.all([
+      prisma.reconciliationReport.findMany({
+        skip,
+        take: pageSize,
+        orderBy: { reportDate: "desc" },
+      }),
+      prisma.reconciliationReport.count(),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: "Reconciliation reports fetched successfully",
+      data: {
+        items: reports,
+        total,
+        page: pageNumber,
+        limit: pageSize,
+      },
+    });
+  }
+);
+
+/**
+ * GET /reconciliation/reports/:id
+ * A report with its mismatches, optionally filtered by issue
+ */
+export const getReconciliationReportById = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const { issue } = req.query as Record<string, string>;
+
+    if (issue && !Object.values(ReconciliationIssue).includes(issue as ReconciliationIssue)) {
+      throw new ApiError(400, `Invalid issue. Valid issues are: ${Object.values(ReconciliationIssue).join(", ")}`);
+    }
+
+    const report = await prisma.reconciliationReport.findUnique({
+      where: { id },
+      include: {
+        items: {
+          where: issue ? { issue: issue as ReconciliationIssue } : undefined,
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!report) {
+      throw new ApiError(404, "Reconciliation report not found");
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Reconciliation report fetched successfully",
+      data: report,
+    });
+  }
+);
+
+/**
+ * GET /reconciliation/reports/:id/export
+ * CSV download of a report's mismatches
+ */
+export const exportReconciliationReport = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+
+    const report = await prisma.reconciliationReport.findUnique({
+      where: { id },
+      include: { items: { orderBy: { createdAt: "asc" } } },
+    });
+
+    if (!report) {
+      throw new ApiError(404, "Reconciliation report not found");
+    }
+
+    const fileName = `reconciliation-${report.reportDate.toISOString().slice(0, 10)}.csv`;
+
+    res
+      .status(200)
+      .type("text/csv")
+      .attachment(fileName)
+      .send(buildReconciliationCsv(report.items));
+  }
+);
+
+/**
+ * PATCH /reconciliation/items/:id/resolve
+ * Marks a mismatch as dealt with
+ */
+export const resolveReconciliationItemById = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+
+    const item = await resolveReconciliationItem(id);
+
+    res.status(200).json({
+      success: true,
+      message: "Reconciliation item resolved",
+      data: item,
+    });
+  }
+);
@@ -0,0 +1,39 @@
+import { Router } from "express";
+import {
+  createReconciliationReport,
+  getReconciliationReports,
+  getReconciliationReportById,
+  exportReconciliationReport,
+  resolveReconciliationItemById,
+} from "./reconciliation.controllers";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { runReconciliationSchema } from "./reconciliationDTOS/reconciliation.dtos";
+
+const router = Router();
+
+/**
+ * Payment Reconciliation Routes
+ */
+
+// Run reconciliation for a day - ADMIN only
+router.post(
+  "/reports",
+  authenticateUserWithRole(["ADMIN"]),
+  validate(runReconciliationSchema),
+  createReconciliationReport
+);
+
+// List daily reports - ADMIN only
+router.get("/reports", authenticateUserWithRole(["ADMIN"]), getReconciliationReports);
+
+// Report with its mismatches - ADMIN only
+router.get("/reports/:id", authenticateUserWithRole(["ADMIN"]), getReconciliationReportById);
+
+// CSV export - ADMIN only
+router.get("/reports/:id/export", authenticateUserWithRole(["ADMIN"]), exportReconciliationReport);
+
+// Mark a mismatch as dealt with - ADMIN only
+router.patch("/items/:id/resolve", authenticateUserWithRole(["ADMIN"]), resolveReconciliationItemById);
+
+export default router;
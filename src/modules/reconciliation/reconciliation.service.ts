@@ -0,0 +1,301 @@
+import {
+  BookingStatus,
+  Payment,
+  PaymentStatus,
+  Prisma,
+  ReconciliationIssue,
+  ReconciliationItem,
+  ReconciliationRunStatus,
+} from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+import { ProviderPaymentRecord, getPaymentProvider } from "../payments/providers";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A pending checkout older than this is treated as abandoned
+const ORPHAN_AFTER_MS = DAY_MS;
+// A run that has not finished in this time is assumed to have crashed
+const STALE_RUN_MS = 60 * 60 * 1000;
+
+const SETTLED_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCESS,
+  PaymentStatus.PARTIALLY_REFUNDED,
+  PaymentStatus.REFUNDED,
+];
+
+type PaymentWithOrder = Payment & {
+  bookingOrder: { status: BookingStatus; expiresAt: Date | null };
+};
+
+type ReconciliationFinding = Omit<Prisma.ReconciliationItemCreateManyInput, "reportId">;
+
+/**
+ * Reports cover one UTC day. Defaults to yesterday, the last complete day.
+ */
+export const toReportDate = (date?: Date) => {
+  const day = date ?? new Date(Date.now() - DAY_MS);
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()));
+};
+
+const isSettled = (status: PaymentStatus) => SETTLED_STATUSES.includes(status);
+
+/**
+ * Compares one payment with what its provider reports. Returns null when they agree.
+ */
+const comparePayment = (
+  payment: PaymentWithOrder,
+  record: ProviderPaymentRecord,
+  reportEnd: Date
+): ReconciliationFinding | null => {
+  const base = {
+    paymentId: payment.id,
+    bookingOrderId: payment.bookingOrderId,
+    provider: payment.paymentMethod,
+    transactionId: payment.transactionId,
+    localStatus: payment.paymentStatus,
+    providerStatus: record.paymentStatus,
+    localAmount: payment.amountPaid,
+    providerAmount: record.amount !== undefined ? Math.round(record.amount) : null,
+  };
+
+  const localSettled = isSettled(payment.paymentStatus);
+  const providerSettled = isSettled(record.paymentStatus);
+
+  if (providerSettled && !localSettled) {
+    return {
+      ...base,
+      issue: ReconciliationIssue.PAID_NOT_RECORDED,
+      details: "Provider captured the payment but it is not marked paid locally",
+    };
+  }
+
+  if (payment.paymentStatus === PaymentStatus.PENDING && record.paymentStatus === PaymentStatus.PENDING) {
+    const orderClosed =
+      payment.bookingOrder.status === BookingStatus.CANCELLED ||
+      (payment.bookingOrder.expiresAt !== null && payment.bookingOrder.expiresAt <= reportEnd);
+    const abandoned = payment.createdAt.getTime() < reportEnd.getTime() - ORPHAN_AFTER_MS;
+
+    return orderClosed || abandoned
+      ? {
+          ...base,
+          issue: ReconciliationIssue.ORPHANED_SESSION,
+          details: orderClosed
+            ? "Checkout is still open for an order that is cancelled or expired"
+            : "Checkout has been pending for more than a day",
+        }
+      : null;
+  }
+
+  if (payment.paymentStatus !== record.paymentStatus) {
+    return {
+      ...base,
+      issue: ReconciliationIssue.STATUS_MISMATCH,
+      details: `Local status ${payment.paymentStatus}, provider status ${record.paymentStatus}`,
+    };
+  }
+
+  if (localSettled && base.providerAmount !== null && base.providerAmount !== payment.amountPaid) {
+    return {
+      ...base,
+      issue: ReconciliationIssue.AMOUNT_MISMATCH,
+      details: `Local amount ${payment.amountPaid ?? "unknown"}, provider amount ${base.providerAmount}`,
+    };
+  }
+
+  if (
+    record.refundedAmount !== undefined &&
+    Math.round(record.refundedAmount) !== payment.refundedAmount
+  ) {
+    return {
+      ...base,
+      issue: ReconciliationIssue.AMOUNT_MISMATCH,
+      details: `Local refunded ${payment.refundedAmount}, provider refunded ${Math.round(record.refundedAmount)}`,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Checks every payment created on the report day, plus every payment still
+ * pending by the end of it, against its provider via the provider's verify.
+ * Re-running a day replaces its previous report.
+ */
+export const runReconciliation = async (date?: Date) => {
+  const reportDate = toReportDate(date);
+  const reportEnd = new Date(reportDate.getTime() + DAY_MS);
+
+  const existing = await prisma.reconciliationReport.findUnique({ where: { reportDate } });
+  if (
+    existing?.status === ReconciliationRunStatus.RUNNING &&
+    existing.startedAt.getTime() > Date.now() - STALE_RUN_MS
+  ) {
+    throw new ApiError(409, "Reconciliation for this day is already running");
+  }
+
+  const report = await prisma.$transaction(async (tx) => {
+    if (existing) {
+      await tx.reconciliationItem.deleteMany({ where: { reportId: existing.id } });
+    }
+
+    return tx.reconciliationReport.upsert({
+      where: { reportDate },
+      update: {
+        status: ReconciliationRunStatus.RUNNING,
+        checkedCount: 0,
+        mismatchCount: 0,
+        error: null,
+        startedAt: new Date(),
+        completedAt: null,
+      },
+      create: { reportDate },
+    });
+  });
+
+  try {
+    const payments = await prisma.payment.findMany({
+      where: {
+        OR: [
+          { createdAt: { gte: reportDate, lt: reportEnd } },
+          { paymentStatus: PaymentStatus.PENDING, createdAt: { lt: reportEnd } },
+        ],
+      },
+      include: { bookingOrder: { select: { status: true, expiresAt: true } } },
+      orderBy: { createdAt: "asc" },
+    });
+
+    // A discrepancy stays on the report that first found it until an admin
+    // resolves it, so a checkout that stays pending is not flagged every day
+    const openItems = await prisma.reconciliationItem.findMany({
+      where: { paymentId: { in: payments.map((payment) => payment.id) }, resolvedAt: null },
+      select: { paymentId: true, issue: true },
+    });
+    const openKeys = new Set(openItems.map((item) => `${item.paymentId}:${item.issue}`));
+    const isNew = (finding: ReconciliationFinding) => !openKeys.has(`${finding.paymentId}:${finding.issue}`);
+
+    const findings: ReconciliationFinding[] = [];
+
+    // One provider call at a time keeps us well inside gateway rate limits
+    for (const payment of payments) {
+      let record: ProviderPaymentRecord;
+      try {
+        record = await getPaymentProvider(payment.paymentMethod).verify(payment.transactionId);
+      } catch (error) {
+        const failed: ReconciliationFinding = {
+          paymentId: payment.id,
+          bookingOrderId: payment.bookingOrderId,
+          provider: payment.paymentMethod,
+          transactionId: payment.transactionId,
+          issue: ReconciliationIssue.LOOKUP_FAILED,
+          localStatus: payment.paymentStatus,
+          localAmount: payment.amountPaid,
+          details: error instanceof Error ? error.message : "Provider lookup failed",
+        };
+        if (isNew(failed)) findings.push(failed);
+        continue;
+      }
+
+      const finding = comparePayment(payment, record, reportEnd);
+      if (finding && isNew(finding)) findings.push(finding);
+    }
+
+    const completed = await prisma.$transaction(async (tx) => {
+      await tx.reconciliationItem.createMany({
+        data: findings.map((finding) => ({ ...finding, reportId: report.id })),
+      });
+
+      return tx.reconciliationReport.update({
+        where: { id: report.id },
+        data: {
+          status: ReconciliationRunStatus.COMPLETED,
+          checkedCount: payments.length,
+          mismatchCount: findings.length,
+          completedAt: new Date(),
+        },
+      });
+    });
+
+    logger.info("Payment reconciliation finished", {
+      reportDate: reportDate.toISOString().slice(0, 10),
+      checked: payments.length,
+      mismatches: findings.length,
+    });
+
+    if (findings.length > 0) {
+      try {
+        await publishToQueue("PAYMENT.RECONCILIATION_MISMATCH", {
+          title: "Payment Reconciliation Mismatches",
+          audience: "ADMIN",
+          severity: "WARNING",
+          message: `Reconciliation for ${reportDate.toISOString().slice(0, 10)} found ${findings.length} payment(s) that do not match the provider.`,
+        });
+      } catch (error) {
+        // The report is already stored; a missed notification must not fail the run
+        logger.error("Failed to publish PAYMENT.RECONCILIATION_MISMATCH", error);
+      }
+    }
+
+    return completed;
+  } catch (error) {
+    await prisma.reconciliationReport.update({
+      where: { id: report.id },
+      data: {
+        status: ReconciliationRunStatus.FAILED,
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      },
+    });
+
+    throw error;
+  }
+};
+
+const CSV_COLUMNS = [
+  "issue",
+  "provider",
+  "transactionId",
+  "bookingOrderId",
+  "paymentId",
+  "localStatus",
+  "providerStatus",
+  "localAmount",
+  "providerAmount",
+  "details",
+] as const;
+
+const toCsvCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  // Spreadsheets run text starting with =, +, - or @ as a formula
+  const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Marks a discrepancy as dealt with; later runs report it again if it is
+ * still there.
+ */
+export const resolveReconciliationItem = async (id: string) => {
+  const item = await prisma.reconciliationItem.findUnique({ where: { id } });
+  if (!item) {
+    throw new ApiError(404, "Reconciliation item not found");
+  }
+  if (item.resolvedAt) {
+    throw new ApiError(409, "Reconciliation item is already resolved");
+  }
+
+  return prisma.reconciliationItem.update({
+    where: { id },
+    data: { resolvedAt: new Date() },
+  });
+};
+
+/**
+ * Report items as CSV, one row per mismatched payment.
+ */
+export const buildReconciliationCsv = (items: ReconciliationItem[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...items.map((item) => CSV_COLUMNS.map((column) => toCsvCell(item[column])).join(",")),
+  ].join("\r\n");
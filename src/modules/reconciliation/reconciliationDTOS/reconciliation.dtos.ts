@@ -0,0 +1,12 @@
+import { z } from "zod";
+
+export const runReconciliationSchema = z.object({
+  // UTC day to reconcile (YYYY-MM-DD); defaults to yesterday
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date")
+    .optional(),
+});
+
+export type RunReconciliationDTO = z.infer<typeof runReconciliationSchema>;
@@ -0,0 +1,142 @@
+import { NextFunction, Request, Response } from "express";
+import { RefundStatus } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { approveRefund as approveRefundRequest, rejectRefund as rejectRefundRequest } from "./refund.service";
+import { ApproveRefundDTO, RejectRefundDTO } from "./refundDTOS/refund.dtos";
+
+/**
+ * GET /refunds
+ * Admin refund queue; defaults to refunds waiting for approval
+ */
+export const getAllRefunds = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const {
+      status = RefundStatus.PENDING_APPROVAL,
+      page = "1",
+      limit = "10",
+    } = req.query as Record<string, string>;
+
+    if (status !== "ALL" && !Object.values(RefundStatus).includes(status as RefundStatus)) {
+      throw new ApiError(400, `Invalid status. Valid statuses are: ALL, ${Object.values(RefundStatus).join(", ")}`);
+    }
+
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(100, Math.max(Number(limit) || 10, 1));
+    const skip = (pageNumber - 1) * pageSize;
+
+    const where = status === "ALL" ? {} : { status: status as RefundStatus };
+
+    const [refunds, total] = await Promise.all([
+      prisma.refund.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: "asc" },
+        include: {
+          bookingOrder: { select: { id: true, orderNumber: true, totalAmount: true } },
+          payment: { select: { paymentMethod: true, amountPaid: true, refundedAmount: true } },
+          requestedBy: { select: { id: true, name: true, email: true } },
+        },
+      }),
+      prisma.refund.count({ where }),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      message: "Refunds fetched successfully",
+      data: {
+        items: refunds,
+        total,
+        page: pageNumber,
+        limit: pageSize,
+      },
+    });
+  }
+);
+
+/**
+ * GET /refunds/my-refunds
+ */
+export const getMyRefunds = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { bookingOrder: { userId } },
+      orderBy: { createdAt: "desc" },
+      include: {
+        bookingOrder: { select: { id: true, orderNumber: true } },
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Refunds fetched successfully",
+      data: refunds,
+    });
+  }
+);
+
+/**
+ * PATCH /refunds/:id/approve
+ * Approves a queued refund (or retries a failed one)
+ */
+export const approveRefund = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const { amount } = req.body as ApproveRefundDTO;
+    const adminId = req.user?.userId;
+
+    if (!adminId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const refund = await approveRefundRequest({
+      refundId: id,
+      adminId,
+      amount,
+    });
+
+    res.status(200).json({
+      success: refund.status === RefundStatus.SUCCEEDED,
+      message:
+        refund.status === RefundStatus.SUCCEEDED
+          ? "Refund approved and processed"
+          : "Refund approved but the payment provider rejected it",
+      data: refund,
+    });
+  }
+);
+
+/**
+ * PATCH /refunds/:id/reject
+ */
+export const rejectRefund = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const { reason } = req.body as RejectRefundDTO;
+    const adminId = req.user?.userId;
+
+    if (!adminId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const refund = await rejectRefundRequest({
+      refundId: id,
+      adminId,
+      reason,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Refund rejected",
+      data: refund,
+    });
+  }
+);
@@ -0,0 +1,31 @@
+import { Router } from "express";
+import {
+  getAllRefunds,
+  getMyRefunds,
+  approveRefund,
+  rejectRefund,
+} from "./refund.controllers";
+import authenticateUser from "../../middlewares/auth.middleware";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { approveRefundSchema, rejectRefundSchema } from "./refundDTOS/refund.dtos";
+
+const router = Router();
+
+/**
+ * Refund Routes
+ */
+
+// Refund approval queue - ADMIN only
+router.get("/", authenticateUserWithRole(["ADMIN"]), getAllRefunds);
+
+// Get user's own refunds - authenticated users
+router.get("/my-refunds", authenticateUser, getMyRefunds);
+
+// Approve or retry refund - ADMIN only
+router.patch("/:id/approve", authenticateUserWithRole(["ADMIN"]), validate(approveRefundSchema), approveRefund);
+
+// Reject refund - ADMIN only
+router.patch("/:id/reject", authenticateUserWithRole(["ADMIN"]), validate(rejectRefundSchema), rejectRefund);
+
+export default router;
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { after, describe, it } from "node:test";
+import { Booking, BookingStatus, BookingType, CancellationPolicy } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import redis from "../../config/redis";
+import { calculatePolicyRefund, getRemainingRefundable } from "./refund.service";
+
+// The clients would keep the process alive
+after(async () => {
+  await prisma.$disconnect();
+  redis.disconnect();
+});
+
+const now = new Date("2026-03-01T10:00:00Z");
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+const booking = (overrides: Partial<Booking>) =>
+  ({
+    id: "booking",
+    status: BookingStatus.CONFIRMED,
+    bookingType: BookingType.SHORT_TERM,
+    checkIn: daysFromNow(10),
+    baseAmount: 10_000,
+    taxAmount: 0,
+    discount: 0,
+    ...overrides,
+  }) as Booking;
+
+// A transaction with the given active cancellation policies and nothing else
+const withPolicies = (policies: Partial<CancellationPolicy>[] = []) =>
+  ({ cancellationPolicy: { findMany: async () => policies } }) as any;
+
+const paid = (amountPaid: number, refundedAmount = 0) => ({ amountPaid, refundedAmount });
+
+describe("calculatePolicyRefund", () => {
+  it("refunds short stays in full two days or more before check-in", async () => {
+    const { amount, lines } = await calculatePolicyRefund({
+      tx: withPolicies(),
+      bookings: [booking({ checkIn: daysFromNow(2), taxAmount: 500, discount: 1_000 })],
+      payment: paid(9_500),
+      now,
+    });
+
+    assert.equal(amount, 9_500);
+    assert.deepEqual(lines, [{ bookingId: "booking", daysBeforeCheckIn: 2, percent: 100, amount: 9_500 }]);
+  });
+
+  it("refunds half the day before check-in and nothing on the day", async () => {
+    const refund = async (days: number) =>
+      (await calculatePolicyRefund({
+        tx: withPolicies(),
+        bookings: [booking({ checkIn: daysFromNow(days) })],
+        payment: paid(10_000),
+        now,
+      })).amount;
+
+    assert.equal(await refund(1), 5_000);
+    assert.equal(await refund(0), 0);
+  });
+
+  it("uses the longer notice periods of long stays", async () => {
+    const { lines } = await calculatePolicyRefund({
+      tx: withPolicies(),
+      bookings: [
+        booking({ id: "a", bookingType: BookingType.LONG_TERM, checkIn: daysFromNow(14) }),
+        booking({ id: "b", bookingType: BookingType.LONG_TERM, checkIn: daysFromNow(7) }),
+        booking({ id: "c", bookingType: BookingType.LONG_TERM, checkIn: daysFromNow(6) }),
+      ],
+      payment: paid(30_000),
+      now,
+    });
+
+    assert.deepEqual(lines.map((line) => line.percent), [100, 50, 0]);
+  });
+
+  it("follows an active cancellation policy over the defaults", async () => {
+    const { amount } = await calculatePolicyRefund({
+      tx: withPolicies([
+        { bookingType: BookingType.SHORT_TERM, fullRefundDays: 30, partialRefundDays: 5, partialRefundPercent: 25 },
+      ]),
+      bookings: [booking({ checkIn: daysFromNow(10) })],
+      payment: paid(10_000),
+      now,
+    });
+
+    assert.equal(amount, 2_500);
+  });
+
+  it("returns the deposit in full and skips completed stays", async () => {
+    const { amount, lines } = await calculatePolicyRefund({
+      tx: withPolicies(),
+      bookings: [
+        booking({ id: "done", status: BookingStatus.COMPLETED }),
+        booking({ id: "late", checkIn: daysFromNow(0) }),
+      ],
+      payment: paid(25_000),
+      depositAmount: 5_000,
+      now,
+    });
+
+    assert.deepEqual(lines.map((line) => line.bookingId), ["late"]);
+    assert.equal(amount, 5_000);
+  });
+
+  it("never gives back more than is left of the payment", async () => {
+    const { amount } = await calculatePolicyRefund({
+      tx: withPolicies(),
+      bookings: [booking({})],
+      payment: paid(10_000, 7_000),
+      now,
+    });
+
+    assert.equal(amount, 3_000);
+  });
+});
+
+describe("getRemainingRefundable", () => {
+  it("is what was paid less what was refunded, never negative", () => {
+    assert.equal(getRemainingRefundable(paid(10_000, 4_000)), 6_000);
+    assert.equal(getRemainingRefundable(paid(10_000, 12_000)), 0);
+    assert.equal(getRemainingRefundable({ amountPaid: null, refundedAmount: 0 }), 0);
+  });
+});
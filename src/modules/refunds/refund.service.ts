@@ -0,0 +1,538 @@
+import {
+  Booking,
+  BookingStatus,
+  BookingType,
+  Payment,
+  PaymentStatus,
+  Prisma,
+  RefundStatus,
+} from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+import { syncRoomSeats } from "../../utils/SeatManager";
+import { logger } from "../../utils/logger";
+import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+import { startOfUtcDay } from "../rooms/room.service";
+import PaymentService from "../payments/payment.service";
+import { cancelOpenInstallments } from "../payments/services/payment-plan.service";
+import { createTurnoverTask, needsTurnover, publishHousekeepingTasks } from "../housekeeping/housekeeping.service";
+
+type Tx = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CancellationRule {
+  fullRefundDays: number;
+  partialRefundDays: number;
+  partialRefundPercent: number;
+}
+
+/**
+ * Used when no active CancellationPolicy exists for a stay type.
+ */
+const DEFAULT_CANCELLATION_RULES: Record<BookingType, CancellationRule> = {
+  SHORT_TERM: { fullRefundDays: 2, partialRefundDays: 1, partialRefundPercent: 50 },
+  LONG_TERM: { fullRefundDays: 14, partialRefundDays: 7, partialRefundPercent: 50 },
+};
+
+const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = [
+  PaymentStatus.SUCCESS,
+  PaymentStatus.PARTIALLY_REFUNDED,
+];
+
+export const getCancellationRules = async (
+  client: Tx = prisma
+): Promise<Record<BookingType, CancellationRule>> => {
+  const policies = await client.cancellationPolicy.findMany({
+    where: { isActive: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const rules = { ...DEFAULT_CANCELLATION_RULES };
+  for (const bookingType of Object.values(BookingType)) {
+    const policy = policies.find((p) => p.bookingType === bookingType);
+    if (policy) rules[bookingType] = policy;
+  }
+
+  return rules;
+};
+
+const getLineAmount = (booking: Booking) =>
+  booking.baseAmount + (booking.taxAmount ?? 0) - (booking.discount ?? 0);
+
+export const getRemainingRefundable = (payment: Pick<Payment, "amountPaid" | "refundedAmount">) =>
+  Math.max((payment.amountPaid ?? 0) - payment.refundedAmount, 0);
+
+// Refunds not through yet; what they promise is no longer refundable
+const OPEN_REFUND_STATUSES: RefundStatus[] = [RefundStatus.PENDING_APPROVAL, RefundStatus.PROCESSING];
+
+/**
+ * Sum of open refunds per payment, optionally leaving one refund out.
+ */
+const getOpenRefundAmounts = async (client: Tx, paymentIds: string[], excludeRefundId?: string) => {
+  const open = await client.refund.groupBy({
+    by: ["paymentId"],
+    where: {
+      paymentId: { in: paymentIds },
+      status: { in: OPEN_REFUND_STATUSES },
+      ...(excludeRefundId && { id: { not: excludeRefundId } }),
+    },
+    _sum: { amount: true },
+  });
+
+  return new Map(open.map((row) => [row.paymentId, row._sum.amount ?? 0]));
+};
+
+// Counts the payment's open refunds as already refunded
+const withOpenRefunds = <T extends Pick<Payment, "id" | "refundedAmount">>(payment: T, open: Map<string, number>) => ({
+  ...payment,
+  refundedAmount: payment.refundedAmount + (open.get(payment.id) ?? 0),
+});
+
+/**
+ * Locks the payments and reloads them with their open refunds counted, so
+ * two refunds created at once cannot both take the same money. Newest first.
+ */
+const lockRefundablePayments = async (tx: Tx, paymentIds: string[], excludeRefundId?: string) => {
+  await tx.$queryRaw`SELECT id FROM "Payment" WHERE id IN (${Prisma.join(paymentIds)}) FOR UPDATE`;
+
+  const [payments, open] = await Promise.all([
+    tx.payment.findMany({
+      where: { id: { in: paymentIds }, paymentStatus: { in: REFUNDABLE_PAYMENT_STATUSES } },
+      orderBy: { createdAt: "desc" },
+    }),
+    getOpenRefundAmounts(tx, paymentIds, excludeRefundId),
+  ]);
+
+  return payments.map((payment) => withOpenRefunds(payment, open));
+};
+
+/**
+ * Works out how much of an order the cancellation policy gives back,
+ * booking by booking, based on how many days are left before check-in.
+ * A security deposit is always returned in full. payment is the order's
+ * payments taken together.
+ */
+export const calculatePolicyRefund = async ({
+  tx,
+  bookings,
+  payment,
+  depositAmount = 0,
+  now = new Date(),
+}: {
+  tx?: Tx;
+  bookings: Booking[];
+  payment: Pick<Payment, "amountPaid" | "refundedAmount">;
+  depositAmount?: number;
+  now?: Date;
+}) => {
+  const rules = await getCancellationRules(tx);
+  const today = startOfUtcDay(now).getTime();
+
+  const lines = bookings
+    .filter((booking) => booking.status !== BookingStatus.COMPLETED)
+    .map((booking) => {
+      const rule = rules[booking.bookingType];
+      const daysBeforeCheckIn = Math.floor(
+        (startOfUtcDay(booking.checkIn).getTime() - today) / DAY_MS
+      );
+
+      const percent =
+        daysBeforeCheckIn >= rule.fullRefundDays
+          ? 100
+          : daysBeforeCheckIn >= rule.partialRefundDays
+            ? rule.partialRefundPercent
+            : 0;
+
+      return {
+        bookingId: booking.id,
+        daysBeforeCheckIn,
+        percent,
+        amount: Math.floor((getLineAmount(booking) * percent) / 100),
+      };
+    });
+
+  const amount = Math.min(
+    lines.reduce((sum, line) => sum + line.amount, depositAmount),
+    getRemainingRefundable(payment)
+  );
+
+  return { amount, lines };
+};
+
+const publishRefundEvent = async (queue: string, payload: Record<string, unknown>) => {
+  try {
+    await publishToQueue(queue, payload);
+  } catch (error) {
+    // The refund is already recorded; a missed notification must not undo that
+    logger.error(`Failed to publish ${queue}`, error);
+  }
+};
+
+/**
+ * Executes a refund that has been moved to PROCESSING. Provider failures are
+ * recorded on the refund (status FAILED) instead of being thrown, so an admin
+ * can retry it from the approval queue.
+ */
+export const executeRefund = async (refundId: string) => {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: {
+      payment: true,
+      bookingOrder: { select: { userId: true, orderNumber: true } },
+    },
+  });
+
+  if (!refund || refund.status !== RefundStatus.PROCESSING) {
+    throw new ApiError(400, "Refund is not ready to be processed");
+  }
+
+  let providerRefundId: string | null;
+  try {
+    providerRefundId = await PaymentService.refundPayment(refund.payment, refund.amount);
+  } catch (error) {
+    logger.error("Refund failed at payment provider", error, { refundId });
+
+    const failed = await prisma.refund.update({
+      where: { id: refundId },
+      data: {
+        status: RefundStatus.FAILED,
+        failureReason: error instanceof Error ? error.message : "Provider refund failed",
+      },
+    });
+
+    await publishRefundEvent("REFUND.FAILED", {
+      userId: refund.bookingOrder.userId,
+      title: "Refund Failed",
+      audience: "ADMIN",
+      severity: "ERROR",
+      message: `Refund of ${refund.amount} for order ${refund.bookingOrder.orderNumber} failed and needs a retry.`,
+    });
+
+    return failed;
+  }
+
+  const succeeded = await prisma.$transaction(async (tx) => {
+    const updated = await tx.refund.update({
+      where: { id: refundId },
+      data: {
+        status: RefundStatus.SUCCEEDED,
+        providerRefundId,
+        failureReason: null,
+        processedAt: new Date(),
+      },
+    });
+
+    const refunded = await tx.refund.aggregate({
+      where: { paymentId: refund.paymentId, status: RefundStatus.SUCCEEDED },
+      _sum: { amount: true },
+    });
+    const refundedAmount = refunded._sum.amount ?? 0;
+
+    await tx.payment.update({
+      where: { id: refund.paymentId },
+      data: {
+        refundedAmount,
+        paymentStatus:
+          refundedAmount >= (refund.payment.amountPaid ?? 0)
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED,
+      },
+    });
+
+    return updated;
+  });
+
+  logger.info("Refund processed", { refundId, amount: refund.amount });
+
+  await publishRefundEvent("REFUND.PROCESSED", {
+    userId: refund.bookingOrder.userId,
+    title: "Refund Processed",
+    audience: "USER",
+    severity: "SUCCESS",
+    message: `A refund of ${refund.amount} for order ${refund.bookingOrder.orderNumber} has been issued.`,
+  });
+
+  return succeeded;
+};
+
+/**
+ * Cancels an order and refunds it according to the cancellation policy.
+ * A requested amount above the policy (from a user) waits in the admin
+ * approval queue; admins may set any amount up to what is left to refund.
+ * Admins can also refund an order that is already cancelled, e.g. a late
+ * payment on an expired order.
+ */
+export const cancelOrderWithRefund = async ({
+  orderId,
+  user,
+  reason,
+  amount,
+}: {
+  orderId: string;
+  user: { userId: string; role: string };
+  reason?: string;
+  amount?: number;
+}) => {
+  const isAdmin = user.role === "ADMIN";
+
+  const order = await prisma.bookingOrder.findUnique({
+    where: { id: orderId },
+    include: {
+      bookings: true,
+      // Newest first: refunds are taken from the latest payments first
+      payments: {
+        where: { paymentStatus: { in: REFUNDABLE_PAYMENT_STATUSES } },
+        orderBy: { createdAt: "desc" },
+      },
+    },
+  });
+
+  if (!order) {
+    throw new ApiError(404, "Order not found");
+  }
+
+  if (!isAdmin && order.userId !== user.userId) {
+    throw new ApiError(403, "You cannot cancel someone else's order");
+  }
+
+  if (order.status === BookingStatus.COMPLETED) {
+    throw new ApiError(400, "Completed orders cannot be cancelled");
+  }
+
+  const alreadyCancelled = order.status === BookingStatus.CANCELLED;
+  if (alreadyCancelled && !isAdmin) {
+    throw new ApiError(400, "Order is already cancelled");
+  }
+
+  const openRefunds = await getOpenRefundAmounts(
+    prisma,
+    order.payments.map((payment) => payment.id)
+  );
+  const payments = order.payments.map((payment) => withOpenRefunds(payment, openRefunds));
+  const paid = {
+    amountPaid: payments.reduce((sum, p) => sum + (p.amountPaid ?? 0), 0),
+    refundedAmount: payments.reduce((sum, p) => sum + p.refundedAmount, 0),
+  };
+  const remaining = getRemainingRefundable(paid);
+
+  if (alreadyCancelled && remaining === 0) {
+    throw new ApiError(400, "Order is already cancelled and has nothing left to refund");
+  }
+
+  if (amount !== undefined && amount > remaining) {
+    throw new ApiError(400, `Refund cannot exceed ${remaining}`);
+  }
+
+  const policy = payments.length
+    ? await calculatePolicyRefund({
+        bookings: order.bookings,
+        payment: paid,
+        depositAmount: order.depositAmount,
+      })
+    : { amount: 0, lines: [] };
+
+  // Admins refunding an already-cancelled order default to everything left
+  const requestedAmount = amount ?? (alreadyCancelled ? remaining : policy.amount);
+  const withinPolicy = isAdmin || requestedAmount <= policy.amount;
+
+  const turnoverTaskIds: string[] = [];
+  const result = await prisma.$transaction(async (tx) => {
+    if (!alreadyCancelled) {
+      // Claim the order so two cancel requests cannot both refund it
+      const claimed = await tx.bookingOrder.updateMany({
+        where: { id: orderId, status: { notIn: [BookingStatus.CANCELLED, BookingStatus.COMPLETED] } },
+        data: { status: BookingStatus.CANCELLED },
+      });
+
+      if (claimed.count === 0) {
+        throw new ApiError(409, "Order was cancelled by another request");
+      }
+
+      const now = new Date();
+      for (const booking of order.bookings) {
+        if (booking.status === BookingStatus.CANCELLED) continue;
+
+        await tx.booking.update({
+          where: { id: booking.id },
+          data: { status: BookingStatus.CANCELLED, cancelledAt: now },
+        });
+
+        await syncRoomSeats({
+          tx,
+          roomId: booking.roomId,
+          seats: booking.seatsSelected,
+          previousStatus: booking.status,
+          newStatus: BookingStatus.CANCELLED,
+        });
+
+        if (needsTurnover(booking, BookingStatus.CANCELLED, now)) {
+          const taskId = await createTurnoverTask(tx, booking.id);
+          if (taskId) turnoverTaskIds.push(taskId);
+        }
+      }
+
+      await cancelOpenInstallments(tx, orderId);
+    }
+
+    if (requestedAmount === 0) return [];
+
+    const locked = await lockRefundablePayments(
+      tx,
+      payments.map((payment) => payment.id)
+    );
+    if (requestedAmount > locked.reduce((sum, payment) => sum + getRemainingRefundable(payment), 0)) {
+      throw new ApiError(409, "Another refund was issued for this order, please try again");
+    }
+
+    // One refund per payment, since each goes back through its own provider transaction
+    const refunds = [];
+    let left = requestedAmount;
+    for (const payment of locked) {
+      const share = Math.min(left, getRemainingRefundable(payment));
+      if (share <= 0) continue;
+      left -= share;
+
+      refunds.push(
+        await tx.refund.create({
+          data: {
+            paymentId: payment.id,
+            bookingOrderId: order.id,
+            requestedById: user.userId,
+            amount: share,
+            policyAmount: policy.amount,
+            reason,
+            status: withinPolicy ? RefundStatus.PROCESSING : RefundStatus.PENDING_APPROVAL,
+            ...(isAdmin && { reviewedById: user.userId, reviewedAt: new Date() }),
+          },
+        })
+      );
+    }
+
+    return refunds;
+  });
+
+  await publishHousekeepingTasks(turnoverTaskIds);
+
+  logger.info("Booking order cancelled", {
+    orderId,
+    refundIds: result.map((refund) => refund.id),
+    refundAmount: requestedAmount,
+    withinPolicy,
+  });
+
+  const refunds = [];
+  for (const refund of result) {
+    refunds.push(
+      refund.status === RefundStatus.PROCESSING ? await executeRefund(refund.id) : refund
+    );
+  }
+
+  if (result.length > 0 && !withinPolicy) {
+    await publishRefundEvent("REFUND.REQUESTED", {
+      userId: order.userId,
+      title: "Refund Needs Approval",
+      audience: "ADMIN",
+      severity: "WARNING",
+      message: `Order ${order.orderNumber} was cancelled with a refund request of ${requestedAmount} (policy allows ${policy.amount}).`,
+    });
+  }
+
+  return { orderId, policy, refunds };
+};
+
+/**
+ * Approves a refund from the queue (or retries a failed one) and sends it
+ * to the provider. The admin may lower or raise the amount within what is
+ * left to refund on the payment, after its other open refunds.
+ */
+export const approveRefund = async ({
+  refundId,
+  adminId,
+  amount,
+}: {
+  refundId: string;
+  adminId: string;
+  amount?: number;
+}) => {
+  await prisma.$transaction(async (tx) => {
+    const refund = await tx.refund.findUnique({ where: { id: refundId } });
+
+    if (!refund) {
+      throw new ApiError(404, "Refund not found");
+    }
+
+    // Other refunds still open on the payment are already spoken for
+    const [payment] = await lockRefundablePayments(tx, [refund.paymentId], refundId);
+    const remaining = payment ? getRemainingRefundable(payment) : 0;
+    const finalAmount = amount ?? refund.amount;
+    if (finalAmount <= 0 || finalAmount > remaining) {
+      throw new ApiError(400, `Refund amount must be between 1 and ${remaining}`);
+    }
+
+    const claimed = await tx.refund.updateMany({
+      where: {
+        id: refundId,
+        status: { in: [RefundStatus.PENDING_APPROVAL, RefundStatus.FAILED] },
+      },
+      data: {
+        status: RefundStatus.PROCESSING,
+        amount: finalAmount,
+        reviewedById: adminId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ApiError(400, "Only pending or failed refunds can be approved");
+    }
+  });
+
+  return executeRefund(refundId);
+};
+
+export const rejectRefund = async ({
+  refundId,
+  adminId,
+  reason,
+}: {
+  refundId: string;
+  adminId: string;
+  reason?: string;
+}) => {
+  const refund = await prisma.refund.findUnique({
+    where: { id: refundId },
+    include: { bookingOrder: { select: { userId: true, orderNumber: true } } },
+  });
+
+  if (!refund) {
+    throw new ApiError(404, "Refund not found");
+  }
+
+  const claimed = await prisma.refund.updateMany({
+    where: {
+      id: refundId,
+      status: { in: [RefundStatus.PENDING_APPROVAL, RefundStatus.FAILED] },
+    },
+    data: {
+      status: RefundStatus.REJECTED,
+      failureReason: reason,
+      reviewedById: adminId,
+      reviewedAt: new Date(),
+    },
+  });
+
+  if (claimed.count === 0) {
+    throw new ApiError(400, "Only pending or failed refunds can be rejected");
+  }
+
+  await publishRefundEvent("REFUND.REJECTED", {
+    userId: refund.bookingOrder.userId,
+    title: "Refund Declined",
+    audience: "USER",
+    severity: "WARNING",
+    message: `Your refund request for order ${refund.bookingOrder.orderNumber} was declined.${reason ? ` Reason: ${reason}` : ""}`,
+  });
+
+  return prisma.refund.findUnique({ where: { id: refundId } });
+};
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+export const approveRefundSchema = z.object({
+  // Overrides the requested amount when set
+  amount: z.number().int().min(1, "Refund amount must be at least 1").optional(),
+});
+
+export const rejectRefundSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export type ApproveRefundDTO = z.infer<typeof approveRefundSchema>;
+export type RejectRefundDTO = z.infer<typeof rejectRefundSchema>;
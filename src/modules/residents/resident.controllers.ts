@@ -0,0 +1,262 @@
+import { NextFunction, Request, Response } from "express";
+import { RentInvoiceStatus } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import {
+  UNPAID_INVOICE_STATUSES,
+  addLedgerCredit as addLedgerCreditEntry,
+  createInvoiceCheckout,
+  getInvoiceOutstanding,
+  getResidentLedger,
+  recordInvoicePayment as recordInvoicePaymentEntry,
+} from "./resident.service";
+import { AddLedgerCreditDTO, RecordInvoicePaymentDTO } from "./residentDTOS/resident.dtos";
+
+/**
+ * GET /residents/me/ledger
+ * Balance, open invoices and account history of the logged-in resident
+ */
+export const getMyLedger = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const ledger = await getResidentLedger(userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Ledger fetched successfully",
+      data: ledger,
+    });
+  }
+);
+
+/**
+ * GET /residents/me/invoices
+ */
+export const getMyInvoices = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const invoices = await prisma.rentInvoice.findMany({
+      where: { userId },
+      orderBy: { periodStart: "desc" },
+      include: {
+        booking: { select: { id: true, room: { select: { id: true, title: true } } } },
+      },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Invoices fetched successfully",
+      data: invoices.map((invoice) => ({
+        ...invoice,
+        outstanding: getInvoiceOutstanding(invoice),
+      })),
+    });
+  }
+);
+
+/**
+ * POST /residents/me/invoices/:id/checkout
+ * Opens a Stripe checkout session for the unpaid part of an invoice
+ */
+export const payMyInvoice = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const checkout = await createInvoiceCheckout(req.params.id, userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Checkout session created successfully",
+      data: checkout,
+    });
+  }
+);
+
+/**
+ * GET /residents/dues
+ * Unpaid invoices across all rooms with a per-room summary
+ */
+export const getOutstandingDues = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { status, roomId, page = "1", limit = "10" } = req.query as Record<string, string>;
+
+    if (status && !UNPAID_INVOICE_STATUSES.includes(status as RentInvoiceStatus)) {
+      throw new ApiError(400, `Invalid status. Valid statuses are: ${UNPAID_INVOICE_STATUSES.join(", ")}`);
+    }
+
+    const pageNumber = Math.max(Number(page) || 1, 1);
+    const pageSize = Math.min(100, Math.max(Number(limit) || 10, 1));
+    const skip = (pageNumber - 1) * pageSize;
+
+    const where = {
+      status: status ? (status as RentInvoiceStatus) : { in: UNPAID_INVOICE_STATUSES },
+      ...(roomId && { booking: { roomId } }),
+    };
+
+    const [invoices, total, allUnpaid] = await Promise.all([
+      prisma.rentInvoice.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { dueDate: "asc" },
+        include: {
+          user: { select: { id: true, name: true, email: true, phone: true } },
+          booking: { select: { id: true, room: { select: { id: true, title: true } } } },
+        },
+      }),
+      prisma.rentInvoice.count({ where }),
+      prisma.rentInvoice.findMany({
+        where,
+        select: {
+          amount: true,
+          lateFee: true,
+          paidAmount: true,
+          status: true,
+          booking: { select: { room: { select: { id: true, title: true } } } },
+        },
+      }),
+    ]);
+
+    const byRoom = new Map<
+      string,
+      { roomId: string; roomTitle: string; invoices: number; overdue: number; outstanding: number }
+    >();
+    for (const invoice of allUnpaid) {
+      const { room } = invoice.booking;
+      const row = byRoom.get(room.id) ?? {
+        roomId: room.id,
+        roomTitle: room.title,
+        invoices: 0,
+        overdue: 0,
+        outstanding: 0,
+      };
+      row.invoices++;
+      if (invoice.status === RentInvoiceStatus.OVERDUE) row.overdue++;
+      row.outstanding += getInvoiceOutstanding(invoice);
+      byRoom.set(room.id, row);
+    }
+
+    const rooms = [...byRoom.values()].sort((a, b) => b.outstanding - a.outstanding);
+
+    res.status(200).json({
+      success: true,
+      message: "Outstanding dues fetched successfully",
+      data: {
+        totalOutstanding: rooms.reduce((sum, row) => sum + row.outstanding, 0),
+        rooms,
+        items: invoices.map((invoice) => ({
+          ...invoice,
+          outstanding: getInvoiceOutstanding(invoice),
+        })),
+        total,
+        page: pageNumber,
+        limit: pageSize,
+      },
+    });
+  }
+);
+
+/**
+ * GET /residents/:userId/ledger
+ */
+export const getResidentLedgerById = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { userId } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, email: true, phone: true },
+    });
+
+    if (!user) {
+      throw new ApiError(404, "User not found");
+    }
+
+    const ledger = await getResidentLedger(userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Ledger fetched successfully",
+      data: { user, ...ledger },
+    });
+  }
+);
+
+/**
+ * POST /residents/:userId/credits
+ */
+export const addLedgerCredit = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { userId } = req.params;
+    const { amount, description, invoiceId } = req.body as AddLedgerCreditDTO;
+    const adminId = req.user?.userId;
+
+    if (!adminId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new ApiError(404, "User not found");
+    }
+
+    const entry = await addLedgerCreditEntry({
+      userId,
+      amount,
+      description,
+      invoiceId,
+      createdById: adminId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Credit added successfully",
+      data: entry,
+    });
+  }
+);
+
+/**
+ * POST /residents/invoices/:id/payments
+ * Records a payment taken outside Stripe, e.g. cash at the front desk
+ */
+export const recordInvoicePayment = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+    const { amount, reference, description } = req.body as RecordInvoicePaymentDTO;
+    const adminId = req.user?.userId;
+
+    if (!adminId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const invoice = await recordInvoicePaymentEntry({
+      invoiceId: id,
+      amount,
+      reference,
+      description: description ?? "Payment recorded by admin",
+      createdById: adminId,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: "Payment recorded successfully",
+      data: { ...invoice, outstanding: getInvoiceOutstanding(invoice) },
+    });
+  }
+);
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import {
+  getMyLedger,
+  getMyInvoices,
+  payMyInvoice,
+  getOutstandingDues,
+  getResidentLedgerById,
+  addLedgerCredit,
+  recordInvoicePayment,
+} from "./resident.controllers";
+import authenticateUser from "../../middlewares/auth.middleware";
+import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { addLedgerCreditSchema, recordInvoicePaymentSchema } from "./residentDTOS/resident.dtos";
+
+const router = Router();
+
+/**
+ * Resident Ledger Routes
+ */
+
+// Own ledger and balance - authenticated users
+router.get("/me/ledger", authenticateUser, getMyLedger);
+
+// Own rent invoices - authenticated users
+router.get("/me/invoices", authenticateUser, getMyInvoices);
+
+// Pay a rent invoice through Stripe - authenticated users
+router.post("/me/invoices/:id/checkout", authenticateUser, payMyInvoice);
+
+// Outstanding dues across rooms - ADMIN only
+router.get("/dues", authenticateUserWithRole(["ADMIN"]), getOutstandingDues);
+
+// Record an offline invoice payment - ADMIN only
+router.post(
+  "/invoices/:id/payments",
+  authenticateUserWithRole(["ADMIN"]),
+  validate(recordInvoicePaymentSchema),
+  recordInvoicePayment
+);
+
+// A resident's ledger - ADMIN only
+router.get("/:userId/ledger", authenticateUserWithRole(["ADMIN"]), getResidentLedgerById);
+
+// Credit a resident's account - ADMIN only
+router.post("/:userId/credits", authenticateUserWithRole(["ADMIN"]), validate(addLedgerCreditSchema), addLedgerCredit);
+
+export default router;
@@ -0,0 +1,421 @@
+import {
+  BookingStatus,
+  BookingType,
+  LedgerEntryType,
+  Prisma,
+  RentInvoice,
+  RentInvoiceStatus,
+} from "@prisma/client";
+import { nanoid } from "nanoid";
+import prisma from "../../config/prismaClient";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+import { getBillableUnits, priceOrder } from "../pricing/pricing.service";
+import StripePaymentService from "../payments/services/stripe-payment.service";
+
+type Tx = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 30;
+const DEFAULT_INVOICE_LEAD_DAYS = 5;
+const DEFAULT_LATE_FEE_GRACE_DAYS = 5;
+const DEFAULT_LATE_FEE_PERCENT = 5;
+
+export const UNPAID_INVOICE_STATUSES: RentInvoiceStatus[] = [
+  RentInvoiceStatus.OPEN,
+  RentInvoiceStatus.PARTIALLY_PAID,
+  RentInvoiceStatus.OVERDUE,
+];
+
+// Entries that add to what the resident owes; PAYMENT and CREDIT reduce it
+const DEBIT_ENTRY_TYPES: LedgerEntryType[] = [LedgerEntryType.CHARGE, LedgerEntryType.LATE_FEE];
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const fromEnv = Number(process.env[name]);
+  return process.env[name] !== undefined && fromEnv >= 0 ? fromEnv : fallback;
+};
+
+export const getInvoiceOutstanding = (
+  invoice: Pick<RentInvoice, "amount" | "lateFee" | "paidAmount">
+) => Math.max(invoice.amount + invoice.lateFee - invoice.paidAmount, 0);
+
+const publishResidentEvent = async (queue: string, payload: Record<string, unknown>) => {
+  try {
+    await publishToQueue(queue, payload);
+  } catch (error) {
+    // The ledger is already updated; a missed notification must not undo that
+    logger.error(`Failed to publish ${queue}`, error);
+  }
+};
+
+/**
+ * Monthly rent for a booking at today's rate: the room's long-term price,
+ * else the active SeatPricing, with tax.
+ */
+const getMonthlyRent = async (booking: { roomId: string; seatsSelected: number }) => {
+  const quote = await priceOrder({
+    items: [{ roomId: booking.roomId, bookingType: BookingType.LONG_TERM, seats: booking.seatsSelected }],
+  });
+  return quote.totalAmount;
+};
+
+/**
+ * Issues rent invoices for confirmed long-term bookings, one per 30-day
+ * period after the months their order already paid for, RENT_INVOICE_LEAD_DAYS
+ * before each period starts. Safe to run repeatedly: a period is invoiced once.
+ */
+export const generateRentInvoices = async (now: Date = new Date()) => {
+  const horizon = new Date(
+    now.getTime() + numberFromEnv("RENT_INVOICE_LEAD_DAYS", DEFAULT_INVOICE_LEAD_DAYS) * DAY_MS
+  );
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: BookingStatus.CONFIRMED,
+      bookingType: BookingType.LONG_TERM,
+      checkIn: { lte: horizon },
+    },
+    include: {
+      rentInvoices: {
+        orderBy: { periodStart: "desc" },
+        take: 1,
+        select: { periodStart: true },
+      },
+    },
+  });
+
+  let issued = 0;
+  for (const booking of bookings) {
+    const periodMs = DAYS_PER_MONTH * DAY_MS;
+    const [lastInvoice] = booking.rentInvoices;
+
+    // Months already billed: by the order, then by earlier invoices
+    let month = lastInvoice
+      ? Math.round((lastInvoice.periodStart.getTime() - booking.checkIn.getTime()) / periodMs) + 1
+      : getBillableUnits({
+          roomId: booking.roomId,
+          bookingType: booking.bookingType,
+          seats: booking.seatsSelected,
+          checkIn: booking.checkIn,
+          checkOut: booking.checkOut,
+        }).quantity;
+
+    try {
+      let monthlyRent: number | null = null;
+
+      for (;;) {
+        const periodStart = new Date(booking.checkIn.getTime() + month * periodMs);
+        if (periodStart > horizon) break;
+        if (booking.checkOut && periodStart >= booking.checkOut) break;
+
+        const periodEnd = new Date(periodStart.getTime() + periodMs);
+        monthlyRent ??= await getMonthlyRent(booking);
+
+        const invoice = await prisma.$transaction(async (tx) => {
+          const created = await tx.rentInvoice.create({
+            data: {
+              invoiceNumber: `INV-${nanoid(10)}`,
+              bookingId: booking.id,
+              userId: booking.userId,
+              periodStart,
+              periodEnd:
+                booking.checkOut && booking.checkOut < periodEnd ? booking.checkOut : periodEnd,
+              dueDate: periodStart,
+              amount: monthlyRent!,
+            },
+          });
+
+          await tx.ledgerEntry.create({
+            data: {
+              userId: booking.userId,
+              bookingId: booking.id,
+              invoiceId: created.id,
+              type: LedgerEntryType.CHARGE,
+              amount: created.amount,
+              description: `Rent ${periodStart.toISOString().slice(0, 10)} to ${created.periodEnd.toISOString().slice(0, 10)}`,
+            },
+          });
+
+          return created;
+        });
+
+        issued++;
+        month++;
+
+        await publishResidentEvent("RENT.INVOICE_ISSUED", {
+          userId: booking.userId,
+          title: "Rent Invoice Issued",
+          audience: "USER",
+          severity: "INFO",
+          message: `Invoice ${invoice.invoiceNumber} for ${invoice.amount} is due on ${invoice.dueDate.toISOString().slice(0, 10)}.`,
+        });
+      }
+    } catch (error) {
+      // Another run issued this period first; the next run continues from it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") continue;
+      logger.error("Failed to issue rent invoices", error, { bookingId: booking.id });
+    }
+  }
+
+  return issued;
+};
+
+/**
+ * Adds a late fee (RENT_LATE_FEE_PERCENT of the rent) once to invoices still
+ * unpaid RENT_LATE_FEE_GRACE_DAYS after their due date, and marks them overdue.
+ */
+export const applyLateFees = async (now: Date = new Date()) => {
+  const graceCutoff = new Date(
+    now.getTime() - numberFromEnv("RENT_LATE_FEE_GRACE_DAYS", DEFAULT_LATE_FEE_GRACE_DAYS) * DAY_MS
+  );
+  const percent = numberFromEnv("RENT_LATE_FEE_PERCENT", DEFAULT_LATE_FEE_PERCENT);
+
+  const invoices = await prisma.rentInvoice.findMany({
+    where: {
+      status: { in: [RentInvoiceStatus.OPEN, RentInvoiceStatus.PARTIALLY_PAID] },
+      dueDate: { lt: graceCutoff },
+    },
+    take: 100,
+  });
+
+  let charged = 0;
+  for (const invoice of invoices) {
+    const lateFee = Math.ceil((invoice.amount * percent) / 100);
+
+    const applied = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.rentInvoice.updateMany({
+        where: {
+          id: invoice.id,
+          status: { in: [RentInvoiceStatus.OPEN, RentInvoiceStatus.PARTIALLY_PAID] },
+        },
+        data: { status: RentInvoiceStatus.OVERDUE, lateFee },
+      });
+      if (claimed.count === 0 || lateFee === 0) return claimed.count > 0;
+
+      await tx.ledgerEntry.create({
+        data: {
+          userId: invoice.userId,
+          bookingId: invoice.bookingId,
+          invoiceId: invoice.id,
+          type: LedgerEntryType.LATE_FEE,
+          amount: lateFee,
+          description: `Late fee for invoice ${invoice.invoiceNumber}`,
+        },
+      });
+
+      return true;
+    });
+
+    if (!applied) continue;
+    charged++;
+
+    await publishResidentEvent("RENT.OVERDUE", {
+      userId: invoice.userId,
+      title: "Rent Overdue",
+      audience: "USER",
+      severity: "WARNING",
+      message: `Invoice ${invoice.invoiceNumber} is overdue. A late fee of ${lateFee} has been added; ${getInvoiceOutstanding({ ...invoice, lateFee })} is now due.`,
+    });
+  }
+
+  return charged;
+};
+
+/**
+ * Puts an amount towards an invoice. Call with the invoice row locked.
+ */
+const settleInvoice = (tx: Tx, invoice: RentInvoice, amount: number) => {
+  const paidAmount = invoice.paidAmount + amount;
+  const fullyPaid = paidAmount >= invoice.amount + invoice.lateFee;
+
+  return tx.rentInvoice.update({
+    where: { id: invoice.id },
+    data: {
+      paidAmount,
+      status: fullyPaid
+        ? RentInvoiceStatus.PAID
+        : invoice.status === RentInvoiceStatus.OVERDUE
+          ? RentInvoiceStatus.OVERDUE
+          : RentInvoiceStatus.PARTIALLY_PAID,
+      ...(fullyPaid && { paidAt: new Date() }),
+    },
+  });
+};
+
+const lockInvoice = async (tx: Tx, invoiceId: string) => {
+  await tx.$queryRaw`SELECT id FROM "RentInvoice" WHERE id = ${invoiceId} FOR UPDATE`;
+
+  const invoice = await tx.rentInvoice.findUnique({ where: { id: invoiceId } });
+  if (!invoice) {
+    throw new ApiError(404, "Invoice not found");
+  }
+
+  return invoice;
+};
+
+/**
+ * Records a payment against an invoice (Stripe checkout or cash taken by an
+ * admin). A payment with the same reference is only recorded once.
+ */
+export const recordInvoicePayment = async ({
+  invoiceId,
+  amount,
+  reference,
+  description,
+  createdById,
+}: {
+  invoiceId: string;
+  amount: number;
+  reference?: string;
+  description: string;
+  createdById?: string;
+}) => {
+  if (amount <= 0) {
+    throw new ApiError(400, "Payment amount must be greater than 0");
+  }
+
+  const invoice = await prisma.$transaction(async (tx) => {
+    const invoice = await lockInvoice(tx, invoiceId);
+
+    if (invoice.status === RentInvoiceStatus.VOID) {
+      throw new ApiError(409, "Invoice has been voided");
+    }
+
+    if (reference) {
+      const duplicate = await tx.ledgerEntry.findFirst({
+        where: { invoiceId, type: LedgerEntryType.PAYMENT, reference },
+        select: { id: true },
+      });
+      if (duplicate) return invoice;
+    }
+
+    await tx.ledgerEntry.create({
+      data: {
+        userId: invoice.userId,
+        bookingId: invoice.bookingId,
+        invoiceId,
+        type: LedgerEntryType.PAYMENT,
+        amount,
+        description,
+        reference,
+        createdById,
+      },
+    });
+
+    return settleInvoice(tx, invoice, amount);
+  });
+
+  logger.info("Rent invoice payment recorded", { invoiceId, amount, reference });
+
+  return invoice;
+};
+
+/**
+ * Credits a resident's account, optionally towards one of their invoices.
+ */
+export const addLedgerCredit = async ({
+  userId,
+  amount,
+  description,
+  invoiceId,
+  createdById,
+}: {
+  userId: string;
+  amount: number;
+  description: string;
+  invoiceId?: string;
+  createdById: string;
+}) =>
+  prisma.$transaction(async (tx) => {
+    const invoice = invoiceId ? await lockInvoice(tx, invoiceId) : null;
+
+    if (invoice && invoice.userId !== userId) {
+      throw new ApiError(400, "Invoice does not belong to this resident");
+    }
+
+    const entry = await tx.ledgerEntry.create({
+      data: {
+        userId,
+        bookingId: invoice?.bookingId,
+        invoiceId,
+        type: LedgerEntryType.CREDIT,
+        amount,
+        description,
+        createdById,
+      },
+    });
+
+    if (invoice && UNPAID_INVOICE_STATUSES.includes(invoice.status)) {
+      await settleInvoice(tx, invoice, amount);
+    }
+
+    return entry;
+  });
+
+/**
+ * Ledger entries of a resident, newest first, with the running balance
+ * (positive = the resident owes money).
+ */
+export const getResidentLedger = async (userId: string) => {
+  const [entries, totals, openInvoices] = await Promise.all([
+    prisma.ledgerEntry.findMany({
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      include: { invoice: { select: { id: true, invoiceNumber: true } } },
+    }),
+    prisma.ledgerEntry.groupBy({
+      by: ["type"],
+      where: { userId },
+      _sum: { amount: true },
+    }),
+    prisma.rentInvoice.findMany({
+      where: { userId, status: { in: UNPAID_INVOICE_STATUSES } },
+      orderBy: { dueDate: "asc" },
+    }),
+  ]);
+
+  const balance = totals.reduce(
+    (sum, row) =>
+      DEBIT_ENTRY_TYPES.includes(row.type) ? sum + (row._sum.amount ?? 0) : sum - (row._sum.amount ?? 0),
+    0
+  );
+
+  return {
+    balance,
+    openInvoices: openInvoices.map((invoice) => ({
+      ...invoice,
+      outstanding: getInvoiceOutstanding(invoice),
+    })),
+    entries,
+  };
+};
+
+/**
+ * Opens a Stripe checkout session for what is left to pay on an invoice.
+ */
+export const createInvoiceCheckout = async (invoiceId: string, userId: string) => {
+  const invoice = await prisma.rentInvoice.findUnique({ where: { id: invoiceId } });
+
+  if (!invoice || invoice.userId !== userId) {
+    throw new ApiError(404, "Invoice not found");
+  }
+
+  if (!UNPAID_INVOICE_STATUSES.includes(invoice.status)) {
+    throw new ApiError(409, "Invoice is not open for payment");
+  }
+
+  const outstanding = getInvoiceOutstanding(invoice);
+  const session = await new StripePaymentService().createRentInvoiceCheckoutSession({
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    amount: outstanding,
+  });
+
+  await prisma.rentInvoice.update({
+    where: { id: invoice.id },
+    data: { transactionId: session.sessionId },
+  });
+
+  return { ...session, amount: outstanding };
+};
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const addLedgerCreditSchema = z.object({
+  amount: z.number().int().min(1, "Credit amount must be at least 1"),
+  description: z.string().trim().min(1, "Description is required").max(500),
+  // Puts the credit towards this invoice when set
+  invoiceId: z.string().uuid("Invalid invoice id").optional(),
+});
+
+export const recordInvoicePaymentSchema = z.object({
+  amount: z.number().int().min(1, "Payment amount must be at least 1"),
+  // Receipt number, used to avoid recording the same payment twice
+  reference: z.string().trim().min(1).max(100).optional(),
+  description: z.string().trim().max(500).optional(),
+});
+
+export type AddLedgerCreditDTO = z.infer<typeof addLedgerCreditSchema>;
+export type RecordInvoicePaymentDTO = z.infer<typeof recordInvoicePaymentSchema>;
@@ -1 +1,25 @@
-// placeholder
+import { reviewStatus } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import { bumpRoomsCacheVersion } from "../rooms/room.service";
+
+/**
+ * Recomputes a room's average rating and review count from its approved
+ * reviews. Room listings sort on these columns.
+ */
+export const refreshRoomRating = async (roomId: string) => {
+  const { _avg, _count } = await prisma.review.aggregate({
+    where: { roomId, status: reviewStatus.APPROVED },
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+
+  await prisma.room.update({
+    where: { id: roomId },
+    data: {
+      averageRating: Math.round((_avg.rating ?? 0) * 100) / 100,
+      reviewCount: _count._all,
+    },
+  });
+
+  await bumpRoomsCacheVersion();
+};
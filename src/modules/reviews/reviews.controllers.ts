@@ -3,6 +3,7 @@ import prisma from "../../config/prismaClient";
 import { asyncHandler } from "../../utils/asyncHandler";
 import { ApiError } from "../../utils/ApiError";
 import { logger } from "../../utils/logger";
+import { refreshRoomRating } from "./review.service";
 
 export const createReview = asyncHandler(
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
@@ -20,6 +21,8 @@ export const createReview = asyncHandler(
       },
     });
 
+    await refreshRoomRating(roomId);
+
     res.status(201).json({
       success: true,
       message: "Review created successfully",
@@ -40,6 +43,8 @@ export const updateReview = asyncHandler(
       data: req.body,
     });
 
+    await refreshRoomRating(review.roomId);
+
     res.status(200).json({
       success: true,
       message: "Review updated successfully",
@@ -56,6 +61,7 @@ export const deleteReview = asyncHandler(
     if (!review) throw new ApiError(404, "Review not found");
 
     await prisma.review.delete({ where: { id } });
+    await refreshRoomRating(review.roomId);
 
     res.status(200).json({
       success: true,
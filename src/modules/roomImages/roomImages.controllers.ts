@@ -1,9 +1,10 @@
-import { deleteFromS3, uploadToS3 } from "../../utils/uploadToS3";
 import { Request, Response, NextFunction } from "express";
 import prisma from "../../config/prismaClient";
 import { asyncHandler } from "../../utils/asyncHandler";
 import { ApiError } from "../../utils/ApiError";
-import { logger } from "../../utils/logger";
+import { MediaProcessingStatus } from "@prisma/client";
+import { deleteRoomImageAssets, roomImageQuery, storeMediaFile, toRoomImage } from "../media/media.service";
+import { queueImageProcessing } from "../media/imageProcessing.service";
 
 export const uploadImage = asyncHandler(
   async (
@@ -18,6 +19,9 @@ export const uploadImage = asyncHandler(
     if (!files || files.length === 0)
       throw new ApiError(400, "No files uploaded");
 
+    const room = await prisma.room.findUnique({ where: { id: roomId }, select: { id: true } });
+    if (!room) throw new ApiError(404, "Room not found");
+
     const existingImagesCount = await prisma.roomImage.count({
       where: { roomId },
     });
@@ -32,13 +36,20 @@ export const uploadImage = asyncHandler(
     const uploadedImages = [];
 
     for (const file of files) {
-      const url = await uploadToS3(file);
+      const asset = await storeMediaFile({
+        file,
+        folder: `rooms/${roomId}/images`,
+        uploadedById: req.user?.userId,
+      });
 
       const image = await prisma.roomImage.create({
-        data: { url, roomId },
+        data: { assetId: asset.id, roomId },
+        ...roomImageQuery,
       });
 
-      uploadedImages.push(image);
+      // Resized copies are made in the background; guests see the image once READY
+      await queueImageProcessing(image.id);
+      uploadedImages.push(toRoomImage(image));
     }
 
     res.status(201).json({
@@ -63,13 +74,19 @@ export const getRoomImages = asyncHandler(
 
     const images = await prisma.roomImage.findMany({
       where: { roomId },
-      select: { id: true, url: true },
+      orderBy: { createdAt: "asc" },
+      ...roomImageQuery,
     });
 
     res.status(200).json({
       success: true,
       message: "Images fetched successfully",
-      data: { images },
+      data: {
+        images: images.map((image) => ({
+          ...toRoomImage(image),
+          processingError: image.processingError,
+        })),
+      },
     });
   }
 );
@@ -86,13 +103,7 @@ export const deleteRoomImage = asyncHandler(
 
     if (!image) throw new ApiError(404, "Image not found");
 
-    const urlParts = image.url.split("/");
-    const keyIndex = urlParts.findIndex((p) => p.includes("rooms"));
-    let key = decodeURIComponent(urlParts.slice(keyIndex).join("/"));
-
-    await deleteFromS3(key);
-
-    await prisma.roomImage.delete({ where: { id } });
+    await deleteRoomImageAssets(id);
 
     res.status(200).json({
       success: true,
@@ -100,3 +111,36 @@ export const deleteRoomImage = asyncHandler(
     });
   }
 );
+
+/**
+ * POST /rooms/uploads/:id/reprocess
+ * Queues a failed (or stuck) image for processing again
+ */
+export const reprocessRoomImage = asyncHandler(
+  async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const { id } = req.params;
+
+    const image = await prisma.roomImage.findUnique({ where: { id } });
+
+    if (!image) throw new ApiError(404, "Image not found");
+
+    if (image.processingStatus === MediaProcessingStatus.READY) {
+      throw new ApiError(409, "Image is already processed");
+    }
+
+    await prisma.roomImage.update({
+      where: { id },
+      data: { processingStatus: MediaProcessingStatus.PENDING, processingError: null },
+    });
+    await queueImageProcessing(id);
+
+    res.status(202).json({
+      success: true,
+      message: "Image queued for processing",
+    });
+  }
+);
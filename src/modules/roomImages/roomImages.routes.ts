@@ -1,16 +1,22 @@
 import express from "express";
 import authenticateUserWithRole from "../../middlewares/role.middleware";
+import { validate } from "../../middlewares/validate.middleware";
 import { 
   deleteRoomImage, 
   uploadImage, 
-  getRoomImages 
+  getRoomImages,
+  reprocessRoomImage,
 } from "./roomImages.controllers";
 import { uploadImages, uploadVideos } from "../../config/multer";
 import { 
   deleteRoomVideo, 
   uploadVideo, 
-  getRoomVideos 
+  getRoomVideos,
+  presignVideoUpload,
+  completeVideoUpload,
+  reprocessRoomVideo,
 } from "../roomVideos/roomVideos.controllers";
+import { completeVideoUploadSchema, presignVideoUploadSchema } from "../roomVideos/roomVideoDTOS/roomVideo.dtos";
 
 const router = express.Router();
 
@@ -34,6 +40,9 @@ router.get("/:roomId", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), getRo
 // Delete image - ADMIN only
 router.delete("/:id", authenticateUserWithRole(["ADMIN"]), deleteRoomImage);
 
+// Retry processing of a failed image - ADMIN only
+router.post("/:id/reprocess", authenticateUserWithRole(["ADMIN"]), reprocessRoomImage);
+
 
 /* ================= VIDEOS ================= */
 
@@ -45,6 +54,20 @@ router.post(
   uploadVideo
 );
 
+// Direct-to-storage upload for large videos: get a form, send the file, confirm - ADMIN or COORDINATOR only
+router.post(
+  "/video/presign",
+  authenticateUserWithRole(["ADMIN", "COORDINATOR"]),
+  validate(presignVideoUploadSchema),
+  presignVideoUpload
+);
+router.post(
+  "/video/complete",
+  authenticateUserWithRole(["ADMIN", "COORDINATOR"]),
+  validate(completeVideoUploadSchema),
+  completeVideoUpload
+);
+
 // Get videos by roomId - ADMIN or COORDINATOR only
 router.get(
   "/video/:roomId",
@@ -59,4 +82,7 @@ router.delete(
   deleteRoomVideo
 );
 
+// Retry transcoding of a failed video - ADMIN only
+router.post("/video/:id/reprocess", authenticateUserWithRole(["ADMIN"]), reprocessRoomVideo);
+
 export default router;
@@ -0,0 +1,27 @@
+import { z } from "zod";
+
+// Direct uploads may be larger than the 200MB multipart limit
+export const MAX_DIRECT_VIDEO_BYTES = 1024 * 1024 * 1024;
+
+export const VIDEO_CONTENT_TYPES = ["video/mp4", "video/quicktime", "video/webm"] as const;
+
+export const presignVideoUploadSchema = z.object({
+  roomId: z.string().uuid("Invalid roomId"),
+  fileName: z.string().trim().min(1).max(255),
+  contentType: z.enum(VIDEO_CONTENT_TYPES, {
+    errorMap: () => ({ message: "Video must be MP4, MOV or WebM" }),
+  }),
+  size: z
+    .number()
+    .int()
+    .min(1, "File is empty")
+    .max(MAX_DIRECT_VIDEO_BYTES, "Video must be 1GB or smaller"),
+});
+
+export const completeVideoUploadSchema = z.object({
+  roomId: z.string().uuid("Invalid roomId"),
+  assetId: z.string().uuid("Invalid assetId"),
+});
+
+export type PresignVideoUploadDTO = z.infer<typeof presignVideoUploadSchema>;
+export type CompleteVideoUploadDTO = z.infer<typeof completeVideoUploadSchema>;
@@ -1,8 +1,33 @@
-import { deleteFromS3, uploadToS3 } from "../../utils/uploadToS3";
 import { Request, Response, NextFunction } from "express";
+import fs from "fs/promises";
+import { MediaProcessingStatus } from "@prisma/client";
 import prisma from "../../config/prismaClient";
 import { asyncHandler } from "../../utils/asyncHandler";
 import { ApiError } from "../../utils/ApiError";
+import {
+  confirmDirectUpload,
+  createDirectUpload,
+  deleteRoomVideoAssets,
+  roomMediaQuery,
+  storeMediaFile,
+  toRoomVideo,
+} from "../media/media.service";
+import { queueVideoTranscode } from "../media/videoProcessing.service";
+import { CompleteVideoUploadDTO, PresignVideoUploadDTO } from "./roomVideoDTOS/roomVideo.dtos";
+
+/**
+ * Throws unless the room exists and has no video yet.
+ */
+const assertRoomCanTakeVideo = async (roomId: string) => {
+  const room = await prisma.room.findUnique({ where: { id: roomId }, select: { id: true } });
+  if (!room) throw new ApiError(404, "Room not found");
+
+  const existingCount = await prisma.roomVideo.count({ where: { roomId } });
+
+  if (existingCount >= 1) {
+    throw new ApiError(400, "Only 1 video allowed per room");
+  }
+};
 
 export const uploadVideo = asyncHandler(
   async (
@@ -13,25 +38,104 @@ export const uploadVideo = asyncHandler(
     const { roomId } = req.body;
     const file = req.file;
 
-    if (!roomId) throw new ApiError(400, "Room ID is required");
-    if (!file) throw new ApiError(400, "No video file uploaded");
+    try {
+      if (!roomId) throw new ApiError(400, "Room ID is required");
+      if (!file) throw new ApiError(400, "No video file uploaded");
+
+      await assertRoomCanTakeVideo(roomId);
+    } catch (error) {
+      // Videos arrive as temp files; drop the file when we turn it down
+      if (file?.path) await fs.rm(file.path, { force: true });
+      throw error;
+    }
+
+    const asset = await storeMediaFile({
+      file,
+      folder: `rooms/${roomId}/videos`,
+      uploadedById: req.user?.userId,
+    });
+
+    const video = await prisma.roomVideo.create({
+      data: { assetId: asset.id, roomId },
+      ...roomMediaQuery,
+    });
+
+    await queueVideoTranscode(video.id);
+
+    res.status(201).json({
+      success: true,
+      message: "Video uploaded successfully",
+      data: { video: toRoomVideo(video) },
+    });
+  }
+);
+
+/**
+ * POST /rooms/uploads/video/presign
+ * Returns a form to upload the video straight to storage; call
+ * /video/complete once it is sent.
+ */
+export const presignVideoUpload = asyncHandler(
+  async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const { roomId, fileName, contentType, size } = req.body as PresignVideoUploadDTO;
+
+    await assertRoomCanTakeVideo(roomId);
 
-    const existingCount = await prisma.roomVideo.count({ where: { roomId } });
+    const { asset, upload } = await createDirectUpload({
+      folder: `rooms/${roomId}/videos`,
+      contentType,
+      size,
+      originalName: fileName,
+      uploadedById: req.user?.userId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: "Upload form created",
+      data: { assetId: asset.id, upload },
+    });
+  }
+);
 
-    if (existingCount >= 1) {
-      throw new ApiError(400, "Only 1 video allowed per room");
+/**
+ * POST /rooms/uploads/video/complete
+ */
+export const completeVideoUpload = asyncHandler(
+  async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const { roomId, assetId } = req.body as CompleteVideoUploadDTO;
+
+    const pending = await prisma.mediaAsset.findUnique({
+      where: { id: assetId },
+      select: { key: true },
+    });
+
+    // The key was issued for one room; it cannot be attached to another
+    if (!pending || !pending.key.startsWith(`rooms/${roomId}/videos/`)) {
+      throw new ApiError(404, "Upload not found");
     }
 
-    const url = await uploadToS3(file);
+    await assertRoomCanTakeVideo(roomId);
+    await confirmDirectUpload(assetId);
 
     const video = await prisma.roomVideo.create({
-      data: { url, roomId },
+      data: { assetId, roomId },
+      ...roomMediaQuery,
     });
 
+    await queueVideoTranscode(video.id);
+
     res.status(201).json({
       success: true,
       message: "Video uploaded successfully",
-      data: { video },
+      data: { video: toRoomVideo(video) },
     });
   }
 );
@@ -48,13 +152,13 @@ export const getRoomVideos = asyncHandler(
 
     const videos = await prisma.roomVideo.findMany({
       where: { roomId },
-      select: { id: true, url: true },
+      ...roomMediaQuery,
     });
 
     res.status(200).json({
       success: true,
       message: "Videos fetched successfully",
-      data: { images: videos },
+      data: { images: videos.map(toRoomVideo) },
     });
   }
 );
@@ -67,17 +171,11 @@ export const deleteRoomVideo = asyncHandler(
   ): Promise<void> => {
     const { id } = req.params;
 
-    const video = await prisma.roomVideo.findUnique({ where: { id } });
+    const video = await prisma.roomVideo.findUnique({ where: { id }, select: { id: true } });
 
     if (!video) throw new ApiError(404, "Video not found");
 
-    const urlParts = video.url.split("/");
-    const keyIndex = urlParts.findIndex((p) => p.includes("rooms"));
-    let key = decodeURIComponent(urlParts.slice(keyIndex).join("/"));
-
-    await deleteFromS3(key);
-
-    await prisma.roomVideo.delete({ where: { id } });
+    await deleteRoomVideoAssets(video.id);
 
     res.status(200).json({
       success: true,
@@ -85,3 +183,36 @@ export const deleteRoomVideo = asyncHandler(
     });
   }
 );
+
+/**
+ * POST /rooms/uploads/video/:id/reprocess
+ * Queues a failed (or stuck) video for transcoding again
+ */
+export const reprocessRoomVideo = asyncHandler(
+  async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    const { id } = req.params;
+
+    const video = await prisma.roomVideo.findUnique({ where: { id } });
+
+    if (!video) throw new ApiError(404, "Video not found");
+
+    if (video.processingStatus === MediaProcessingStatus.READY) {
+      throw new ApiError(409, "Video is already transcoded");
+    }
+
+    await prisma.roomVideo.update({
+      where: { id },
+      data: { processingStatus: MediaProcessingStatus.PENDING, processingError: null },
+    });
+    await queueVideoTranscode(id);
+
+    res.status(202).json({
+      success: true,
+      message: "Video queued for transcoding",
+    });
+  }
+);
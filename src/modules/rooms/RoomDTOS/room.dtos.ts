@@ -1,9 +1,9 @@
-import {  RoomStatus, RoomType, BookingType } from "@prisma/client";
+import {  RoomStatus, RoomType, BookingType, BedStatus } from "@prisma/client";
 import { z } from "zod";
 
 export const createRoomSchema = z.object({
   title: z.string().min(1, "You must give the room title"),
-  floor: z.string().min(1, "Must give the floor status"),
+  floorId: z.string().uuid("Must pick the floor the room is on"),
   description: z.string().min(1, "Must give the description"),
   beds: z.number().min(1, "Must be the number"),
   washrooms: z.number().min(1, "Must be the number"),
@@ -11,17 +11,19 @@ export const createRoomSchema = z.object({
   longTermPrice: z.number().min(0, "Must be the number").optional(),
   bookedSeats: z.number().min(0, "Must be the number").optional(),
   availableSeats: z.number().min(0, "Must be the number").optional(),
+  amenityIds: z.array(z.string().uuid("Invalid amenity id")).optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(20).optional(),
   type: z.nativeEnum(RoomType, {
         errorMap: () => ({ message: "Room type must be SINGLE, DOUBLE or QUAD" }),     
   }), 
   status: z.nativeEnum(RoomStatus, {
-        errorMap: () => ({ message: "Room Status must be Available, Booked or Reserved" }),     
+        errorMap: () => ({ message: "Room Status must be AVAILABLE, BOOKED or MAINTENANCE" }),     
   }).optional(),  
 });
 
 export const updateRoomSchema = z.object({
   title: z.string().min(1, "You must give the room title").optional(),
-  floor: z.string().min(1, "Must give the floor status").optional(),
+  floorId: z.string().uuid("Must pick the floor the room is on").optional(),
   description: z.string().min(1, "Must give the description").optional(),
   beds: z.number().min(1, "Must be the number").optional(),
   washrooms: z.number().min(1, "Must be the number").optional(),
@@ -29,13 +31,38 @@ export const updateRoomSchema = z.object({
   longTermPrice: z.number().min(0, "Must be the number").optional(),
   bookedSeats: z.number().min(0, "Must be the number").optional(),
   availableSeats: z.number().min(0, "Must be the number").optional(),
+  amenityIds: z.array(z.string().uuid("Invalid amenity id")).optional(),
+  tags: z.array(z.string().trim().min(1).max(30)).max(20).optional(),
   type: z.nativeEnum(RoomType, {
         errorMap: () => ({ message: "Room type must be SINGLE, DOUBLE or QUAD" }),     
   }).optional(),  
   status: z.nativeEnum(RoomStatus, {
-        errorMap: () => ({ message: "Room Status must be Available, Booked or Reserved" }),     
+        errorMap: () => ({ message: "Room Status must be AVAILABLE, BOOKED or MAINTENANCE" }),     
   }).optional(),  
 });
 
+export const updateBedSchema = z.object({
+  label: z.string().trim().min(1, "Bed label cannot be empty").max(50).optional(),
+  position: z.string().trim().max(200).nullable().optional(),
+  attributes: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  status: z.nativeEnum(BedStatus, {
+        errorMap: () => ({ message: "Bed status must be AVAILABLE or OUT_OF_SERVICE" }),
+  }).optional(),
+});
+
+export const roomAvailabilityQuerySchema = z.object({
+  from: z.coerce.date({
+        errorMap: () => ({ message: "from must be a valid date" }),
+  }),
+  to: z.coerce.date({
+        errorMap: () => ({ message: "to must be a valid date" }),
+  }),
+}).refine((query) => query.to > query.from, {
+  message: "to must be after from",
+  path: ["to"],
+});
+
 export type createRoomDTO = z.infer<typeof createRoomSchema>
 export type updateRoomDTO = z.infer<typeof updateRoomSchema>
+export type updateBedDTO = z.infer<typeof updateBedSchema>
+export type roomAvailabilityQueryDTO = z.infer<typeof roomAvailabilityQuerySchema>
@@ -2,27 +2,92 @@ import { NextFunction, Request, Response } from "express";
 import {
   createRoomDTO,
   createRoomSchema,
+  roomAvailabilityQuerySchema,
+  updateBedDTO,
   updateRoomDTO,
   updateRoomSchema,
 } from "./RoomDTOS/room.dtos";
 import prisma from "../../config/prismaClient";
 import redis from "../../config/redis";
-import { deleteFromS3 } from "../../utils/uploadToS3";
 import { logger } from "../../utils/logger";
 import constants from "constants";
-import { calculateRoomSeats, validateBedsUpdate } from "../../utils/roomSeatManager";
+import { calculateRoomSeats, defaultBedLabels, validateBedsUpdate } from "../../utils/roomSeatManager";
 import { asyncHandler } from "../../utils/asyncHandler";
 import { ApiError } from "../../utils/ApiError";
+import {
+  ROOMS_CACHE_VERSION_KEY,
+  assertBedHasNoLiveBookings,
+  bumpRoomsCacheVersion,
+  getRoomFacets,
+  getRoomAvailability as computeRoomAvailability,
+  getRoomBedMap,
+  refreshRoomSeatCounters,
+} from "./room.service";
+import { BedStatus, BookingType, RoomType } from "@prisma/client";
+import { assertPropertyAccess } from "../properties/property.service";
+import {
+  deleteRoomImageAssets,
+  deleteRoomVideoAssets,
+  guestVisibleImages,
+  roomImageQuery,
+  roomMediaQuery,
+  toRoomImage,
+  toRoomVideo,
+} from "../media/media.service";
 
-const ROOMS_CACHE_VERSION_KEY = "rooms:list:version";
 const ROOMS_CACHE_TTL_SECONDS = 60;
 
-const bumpRoomsCacheVersion = async () => {
-  try {
-    await redis.incr(ROOMS_CACHE_VERSION_KEY);
-  } catch (error) {
-    logger.warn("Failed to bump rooms cache version", { error });
+/**
+ * Active seat price for a room type at a property, else the default price.
+ */
+const findSeatPricing = async (propertyId: string, roomType: RoomType, stayType: BookingType) => {
+  const pricings = await prisma.seatPricing.findMany({
+    where: {
+      roomType,
+      stayType,
+      isActive: true,
+      OR: [{ propertyId }, { propertyId: null }],
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return pricings.find((pricing) => pricing.propertyId === propertyId) ?? pricings[0] ?? null;
+};
+
+// Comma separated query values, e.g. amenities=AC,WIFI
+const parseListParam = (value?: string) =>
+  (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+/**
+ * Amenity ids as a relation `set`, after checking they all exist.
+ */
+const resolveAmenityIds = async (amenityIds: string[]) => {
+  const unique = [...new Set(amenityIds)];
+  const found = await prisma.amenity.count({ where: { id: { in: unique } } });
+
+  if (found !== unique.length) {
+    throw new ApiError(400, "One or more amenities were not found");
+  }
+
+  return unique.map((id) => ({ id }));
+};
+
+const findFloorOrThrow = async (floorId: string) => {
+  const floor = await prisma.floor.findUnique({
+    where: { id: floorId },
+    select: { id: true, propertyId: true },
+  });
+
+  if (!floor) {
+    throw new ApiError(404, "Floor not found");
   }
+
+  return floor;
 };
 
 export const createRoom = asyncHandler(async (
@@ -30,24 +95,15 @@ export const createRoom = asyncHandler(async (
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const { title, type, floor, beds, washrooms, description } = req.body;
+  const { title, type, floorId, beds, washrooms, description, amenityIds, tags } = req.body;
 
-  // Fetch both SHORT_TERM and LONG_TERM pricing
-  const shortTermPricing = await prisma.seatPricing.findFirst({
-    where: {
-      roomType: type,
-      stayType: "SHORT_TERM",
-      isActive: true,
-    },
-  });
+  // The floor decides the property; staff can only add rooms to their own
+  const floor = await findFloorOrThrow(floorId);
+  await assertPropertyAccess(req.user, floor.propertyId);
 
-  const longTermPricing = await prisma.seatPricing.findFirst({
-    where: {
-      roomType: type,
-      stayType: "LONG_TERM",
-      isActive: true,
-    },
-  });
+  // Fetch both SHORT_TERM and LONG_TERM pricing
+  const shortTermPricing = await findSeatPricing(floor.propertyId, type, "SHORT_TERM");
+  const longTermPricing = await findSeatPricing(floor.propertyId, type, "LONG_TERM");
 
   if (!shortTermPricing || !longTermPricing) {
     throw new ApiError(400, "Short-term or Long-term seat pricing not found for this room type");
@@ -58,11 +114,14 @@ export const createRoom = asyncHandler(async (
     bookedSeats: 0,
   });
 
+  const amenities = Array.isArray(amenityIds) ? await resolveAmenityIds(amenityIds) : [];
+
   const room = await prisma.room.create({
     data: {
       title,
       type,
-      floor,
+      propertyId: floor.propertyId,
+      floorId: floor.id,
       beds,
       bookedSeats: 0,
       availableSeats,
@@ -70,6 +129,11 @@ export const createRoom = asyncHandler(async (
       description,
       shortTermPrice: shortTermPricing.price,
       longTermPrice: longTermPricing.price,
+      tags: Array.isArray(tags) ? [...new Set<string>(tags.map(normalizeTag))] : [],
+      amenities: { connect: amenities },
+      bedList: {
+        create: defaultBedLabels(beds).map((label) => ({ label })),
+      },
     },
   });
 
@@ -91,49 +155,43 @@ export const updateRoom = asyncHandler(async (
   const {
     title,
     type,
-    floor,
+    floorId,
     beds,
     washrooms,
     description,
     status,
+    amenityIds,
+    tags,
   } = req.body;
 
   // Get existing room
   const existingRoom = await prisma.room.findUnique({
     where: { id },
-    select: { type: true },
+    select: { type: true, propertyId: true, floorId: true },
   });
 
   if (!existingRoom) {
     throw new ApiError(404, "Room not found");
   }
 
+  await assertPropertyAccess(req.user, existingRoom.propertyId);
+
+  // Rooms can move between floors of the same property only; prices,
+  // tax and bookings all hang off the property
+  if (floorId && floorId !== existingRoom.floorId) {
+    const floor = await findFloorOrThrow(floorId);
+    if (floor.propertyId !== existingRoom.propertyId) {
+      throw new ApiError(400, "A room cannot be moved to another property");
+    }
+  }
+
   // Price logic: If room type changed, fetch both pricing types
   let shortTermPriceUpdate: number | undefined = undefined;
   let longTermPriceUpdate: number | undefined = undefined;
 
   if (type && type !== existingRoom.type) {
-    const shortTermPricing = await prisma.seatPricing.findFirst({
-      where: {
-        roomType: type,
-        stayType: "SHORT_TERM",
-        isActive: true,
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-    });
-
-    const longTermPricing = await prisma.seatPricing.findFirst({
-      where: {
-        roomType: type,
-        stayType: "LONG_TERM",
-        isActive: true,
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-    });
+    const shortTermPricing = await findSeatPricing(existingRoom.propertyId, type, "SHORT_TERM");
+    const longTermPricing = await findSeatPricing(existingRoom.propertyId, type, "LONG_TERM");
 
     if (!shortTermPricing || !longTermPricing) {
       throw new ApiError(400, `No active seat pricing found for room type ${type}`);
@@ -143,35 +201,43 @@ export const updateRoom = asyncHandler(async (
     longTermPriceUpdate = longTermPricing.price;
   }
 
-  let seatUpdateData = {};
+  const amenities = Array.isArray(amenityIds) ? await resolveAmenityIds(amenityIds) : undefined;
 
-  if (beds !== undefined) {
-    const bookedSeats = await validateBedsUpdate(id, beds);
+  const room = await prisma.$transaction(async (tx) => {
+    // Same lock as bookings take, so beds cannot be removed under a new booking
+    await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${id} FOR UPDATE`;
 
-    const seatState = calculateRoomSeats({
-      beds,
-      bookedSeats,
-    });
+    if (beds !== undefined) {
+      const { labelsToAdd, bedIdsToRemove } = await validateBedsUpdate(tx, id, beds);
 
-    seatUpdateData = {
-      availableSeats: seatState.availableSeats,
-      status: seatState.status,
-    };
-  }
+      if (bedIdsToRemove.length > 0) {
+        await tx.bed.deleteMany({ where: { id: { in: bedIdsToRemove } } });
+      }
+      if (labelsToAdd.length > 0) {
+        await tx.bed.createMany({
+          data: labelsToAdd.map((label) => ({ roomId: id, label })),
+        });
+      }
+    }
 
-  const room = await prisma.room.update({
-    where: { id },
-    data: {
-      title,
-      type,
-      floor,
-      beds,
-      washrooms,
-      description,
-      ...seatUpdateData,
-      ...(shortTermPriceUpdate !== undefined && { shortTermPrice: shortTermPriceUpdate }),
-      ...(longTermPriceUpdate !== undefined && { longTermPrice: longTermPriceUpdate }),
-    },
+    await tx.room.update({
+      where: { id },
+      data: {
+        title,
+        type,
+        floorId,
+        beds,
+        washrooms,
+        description,
+        ...(shortTermPriceUpdate !== undefined && { shortTermPrice: shortTermPriceUpdate }),
+        ...(longTermPriceUpdate !== undefined && { longTermPrice: longTermPriceUpdate }),
+        ...(Array.isArray(tags) && { tags: [...new Set<string>(tags.map(normalizeTag))] }),
+        ...(amenities && { amenities: { set: amenities } }),
+      },
+    });
+
+    // Seat counters follow the bookable beds
+    return refreshRoomSeatCounters(tx, id);
   });
 
   await bumpRoomsCacheVersion();
@@ -193,12 +259,27 @@ export const getRooms = asyncHandler(async (
     beds,
     status,
     type,
+    propertyId,
+    floorId,
+    stayType = "SHORT_TERM",
     minPrice,
     maxPrice,
+    minSeats,
+    amenities,
+    tags,
     page = "1",
     limit = "12",
     sort = "createdAt_desc",
-  } = req.query;
+  } = req.query as Record<string, string | undefined>;
+
+  if (stayType !== "SHORT_TERM" && stayType !== "LONG_TERM") {
+    throw new ApiError(400, "stayType must be SHORT_TERM or LONG_TERM");
+  }
+
+  // Prices are filtered, sorted and faceted on the selected stay type
+  const priceField = stayType === "LONG_TERM" ? "longTermPrice" : "shortTermPrice";
+  const amenityCodes = parseListParam(amenities).map((code) => code.toUpperCase());
+  const tagList = parseListParam(tags).map(normalizeTag);
 
   const where: any = {};
 
@@ -206,19 +287,29 @@ export const getRooms = asyncHandler(async (
     where.OR = [
       {
         title: {
-          contains: title as string,
+          contains: title,
           mode: "insensitive",
         },
       },
       {
         floor: {
-          contains: title as string,
-          mode: "insensitive",
+          name: {
+            contains: title,
+            mode: "insensitive",
+          },
         },
       },
     ];
   }
 
+  if (propertyId) {
+    where.propertyId = propertyId;
+  }
+
+  if (floorId) {
+    where.floorId = floorId;
+  }
+
   if (type) {
     where.type = type;
   }
@@ -231,16 +322,34 @@ export const getRooms = asyncHandler(async (
     where.beds = Number(beds);
   }
 
+  if (minSeats) {
+    where.availableSeats = { gte: Number(minSeats) };
+  }
+
   if (minPrice || maxPrice) {
-    where.shortTermPrice = {};
-    if (minPrice) where.shortTermPrice.gte = Number(minPrice);
-    if (maxPrice) where.shortTermPrice.lte = Number(maxPrice);
+    where[priceField] = {};
+    if (minPrice) where[priceField].gte = Number(minPrice);
+    if (maxPrice) where[priceField].lte = Number(maxPrice);
+  }
+
+  // A room must have every selected amenity and tag
+  if (amenityCodes.length > 0) {
+    where.AND = amenityCodes.map((code) => ({ amenities: { some: { code } } }));
+  }
+
+  if (tagList.length > 0) {
+    where.tags = { hasEvery: tagList };
   }
 
-  const orderBy: any = {};
-  if (sort) {
-    const [field, direction] = (sort as string).split("_");
-    orderBy[field] = direction === "asc" ? "asc" : "desc";
+  const [sortField, sortDirection] = sort.split("_");
+  const direction = sortDirection === "asc" ? "asc" : "desc";
+  let orderBy: any;
+  if (sortField === "price") {
+    orderBy = { [priceField]: direction };
+  } else if (sortField === "rating") {
+    orderBy = [{ averageRating: direction }, { reviewCount: direction }];
+  } else {
+    orderBy = { [sortField]: direction };
   }
 
   const skip = (Number(page) - 1) * Number(limit);
@@ -250,8 +359,14 @@ export const getRooms = asyncHandler(async (
     beds: beds ?? null,
     status: status ?? null,
     type: type ?? null,
+    propertyId: propertyId ?? null,
+    floorId: floorId ?? null,
+    stayType,
     minPrice: minPrice ?? null,
     maxPrice: maxPrice ?? null,
+    minSeats: minSeats ?? null,
+    amenities: [...amenityCodes].sort(),
+    tags: [...tagList].sort(),
     page: page ?? "1",
     limit: limit ?? "12",
     sort: sort ?? "createdAt_desc",
@@ -274,13 +389,19 @@ export const getRooms = asyncHandler(async (
 
   const rooms = await prisma.room.findMany({
     where,
-    include: { images: true },
+    include: {
+      images: { where: guestVisibleImages, orderBy: { createdAt: "asc" }, ...roomImageQuery },
+      property: { select: { id: true, name: true, city: true } },
+      floor: { select: { id: true, name: true, level: true } },
+      amenities: { select: { id: true, code: true, name: true, icon: true } },
+    },
     orderBy,
     skip,
     take: Number(limit),
   });
 
   const totalRooms = await prisma.room.count({ where });
+  const facets = await getRoomFacets({ where, priceField });
 
   const responsePayload = {
     success: true,
@@ -289,7 +410,8 @@ export const getRooms = asyncHandler(async (
       total: totalRooms,
       page: Number(page),
       limit: Number(limit),
-      rooms,
+      rooms: rooms.map((room) => ({ ...room, images: room.images.map(toRoomImage) })),
+      facets,
     }
   };
 
@@ -318,8 +440,11 @@ export const getSingleRoom = asyncHandler(async (
   const room = await prisma.room.findUnique({
     where: { id },
     include: {
-      images: true,
-      videos: true,
+      images: { where: guestVisibleImages, orderBy: { createdAt: "asc" }, ...roomImageQuery },
+      videos: roomMediaQuery,
+      property: true,
+      floor: { select: { id: true, name: true, level: true } },
+      amenities: { select: { id: true, code: true, name: true, icon: true } },
     },
   });
 
@@ -331,22 +456,119 @@ export const getSingleRoom = asyncHandler(async (
     where: {
       roomType: room.type,
       isActive: true,
+      OR: [{ propertyId: room.propertyId }, { propertyId: null }],
     },
     select: {
       stayType: true,
       price: true,
+      propertyId: true,
     },
   });
 
-  const prices = seatPricings.reduce((acc, item) => {
-    acc[item.stayType] = item.price;
-    return acc;
-  }, {} as Record<string, number>);
+  // The property's own price wins over the default one
+  const prices = seatPricings
+    .sort((a, b) => Number(a.propertyId !== null) - Number(b.propertyId !== null))
+    .reduce((acc, item) => {
+      acc[item.stayType] = item.price;
+      return acc;
+    }, {} as Record<string, number>);
+
+  const bedMap = await getRoomBedMap(room.id);
 
   res.status(200).json({
     success: true,
     message: "Room fetched successfully",
-    data: { room, prices }
+    data: {
+      room: {
+        ...room,
+        images: room.images.map(toRoomImage),
+        videos: room.videos.map(toRoomVideo),
+        isReady: bedMap.every((bed) => bed.isReady),
+      },
+      prices,
+      bedMap,
+    }
+  });
+});
+
+export const updateBed = asyncHandler(async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id, bedId } = req.params;
+  const { label, position, attributes, status } = req.body as updateBedDTO;
+
+  const room = await prisma.room.findUnique({ where: { id }, select: { propertyId: true } });
+  if (!room) {
+    throw new ApiError(404, "Room not found");
+  }
+
+  await assertPropertyAccess(req.user, room.propertyId);
+
+  const bed = await prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${id} FOR UPDATE`;
+
+    const existingBed = await tx.bed.findFirst({
+      where: { id: bedId, roomId: id },
+    });
+
+    if (!existingBed) {
+      throw new ApiError(404, "Bed not found");
+    }
+
+    if (status === BedStatus.OUT_OF_SERVICE && existingBed.status !== BedStatus.OUT_OF_SERVICE) {
+      await assertBedHasNoLiveBookings(tx, bedId);
+    }
+
+    if (label && label !== existingBed.label) {
+      const duplicate = await tx.bed.findUnique({
+        where: { roomId_label: { roomId: id, label } },
+      });
+      if (duplicate) {
+        throw new ApiError(409, `Room already has a bed labelled "${label}"`);
+      }
+    }
+
+    const updated = await tx.bed.update({
+      where: { id: bedId },
+      data: { label, position, attributes, status },
+    });
+
+    if (status !== undefined && status !== existingBed.status) {
+      await refreshRoomSeatCounters(tx, id);
+    }
+
+    return updated;
+  });
+
+  await bumpRoomsCacheVersion();
+
+  res.status(200).json({
+    success: true,
+    message: "Bed updated successfully",
+    data: bed
+  });
+});
+
+export const getRoomAvailability = asyncHandler(async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const { id } = req.params;
+  const { from, to } = roomAvailabilityQuerySchema.parse(req.query);
+
+  const availability = await computeRoomAvailability({
+    roomId: id,
+    from,
+    to,
+  });
+
+  res.status(200).json({
+    success: true,
+    message: "Room availability fetched successfully",
+    data: availability
   });
 });
 
@@ -362,29 +584,17 @@ export const deleteRoom = asyncHandler(async (
     throw new ApiError(404, "Room not found");
   }
 
-  const images = await prisma.roomImage.findMany({
-    where: { roomId: id },
-    select: { url: true },
-  });
+  await assertPropertyAccess(req.user, roomExists.propertyId);
 
-  const videos = await prisma.roomVideo.findMany({
-    where: { roomId: id },
-    select: { url: true },
-  });
+  const images = await prisma.roomImage.findMany({ where: { roomId: id }, select: { id: true } });
+  for (const image of images) {
+    await deleteRoomImageAssets(image.id);
+  }
 
-  await Promise.all(
-    images.map((img) => {
-      const key = decodeURIComponent(img.url.split("/").slice(-2).join("/"));
-      return deleteFromS3(key);
-    })
-  );
-
-  await Promise.all(
-    videos.map((video) => {
-      const key = decodeURIComponent(video.url.split("/").slice(-2).join("/"));
-      return deleteFromS3(key);
-    })
-  );
+  const videos = await prisma.roomVideo.findMany({ where: { roomId: id }, select: { id: true } });
+  for (const video of videos) {
+    await deleteRoomVideoAssets(video.id);
+  }
 
   await prisma.room.delete({
     where: { id },
@@ -1,7 +1,9 @@
 import express from "express"
 import authenticateUserWithRole from "../../middlewares/role.middleware";
-import { createRoom, deleteRoom, getRooms, getSingleRoom, updateRoom } from "./room.controller";
+import { createRoom, deleteRoom, getRoomAvailability, getRooms, getSingleRoom, updateBed, updateRoom } from "./room.controller";
 import authenticateUser from "../../middlewares/auth.middleware";
+import { validate } from "../../middlewares/validate.middleware";
+import { updateBedSchema } from "./RoomDTOS/room.dtos";
 
 const router = express.Router();
 
@@ -15,12 +17,18 @@ router.post("/", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), createRoom)
 // Get all rooms - Public access
 router.get("/", authenticateUser, getRooms);
 
+// Get per-day seat availability for a date range - Public access
+router.get("/:id/availability", authenticateUser, getRoomAvailability);
+
 // Get single room - Public access
 router.get("/:id",authenticateUser, getSingleRoom);
 
 // Update room - ADMIN or COORDINATOR only
 router.patch("/:id", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), updateRoom);
 
+// Update a bed's label, position, attributes or service status - ADMIN or COORDINATOR only
+router.patch("/:id/beds/:bedId", authenticateUserWithRole(["ADMIN", "COORDINATOR"]), validate(updateBedSchema), updateBed);
+
 // Delete room - ADMIN only
 router.delete("/:id", authenticateUserWithRole(["ADMIN"]), deleteRoom);
 
@@ -1 +1,590 @@
-// placeholder
+import { BedStatus, BookingStatus, Prisma, RoomStatus, RoomType } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import redis from "../../config/redis";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const MAX_AVAILABILITY_RANGE_DAYS = 366;
+
+export const ROOMS_CACHE_VERSION_KEY = "rooms:list:version";
+
+/**
+ * Invalidates every cached room listing page. Call after anything shown in
+ * or filtered on by getRooms changes.
+ */
+export const bumpRoomsCacheVersion = async () => {
+  try {
+    await redis.incr(ROOMS_CACHE_VERSION_KEY);
+  } catch (error) {
+    logger.warn("Failed to bump rooms cache version", { error });
+  }
+};
+
+/**
+ * Bookings in these statuses occupy seats on the calendar.
+ * PENDING/RESERVED hold seats until they are paid or cancelled.
+ */
+export const SEAT_HOLDING_STATUSES: BookingStatus[] = [
+  BookingStatus.PENDING,
+  BookingStatus.RESERVED,
+  BookingStatus.CONFIRMED,
+  BookingStatus.COMPLETED,
+];
+
+/**
+ * Only paid bookings count towards the Room.bookedSeats / availableSeats counters.
+ */
+export const SEAT_CONFIRMED_STATUSES: BookingStatus[] = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.COMPLETED,
+];
+
+type Tx = Prisma.TransactionClient;
+
+/**
+ * What a bed is doing today: OCCUPIED by a paid booking, RESERVED by one
+ * awaiting payment, or taken off the market by an admin.
+ */
+export type BedState = "AVAILABLE" | "RESERVED" | "OCCUPIED" | "MAINTENANCE" | "OUT_OF_SERVICE";
+
+export interface BedMapEntry {
+  id: string;
+  label: string;
+  position: string | null;
+  attributes: string[];
+  state: BedState;
+  occupiedUntil: Date | null;
+  // False until its housekeeping task is done
+  isReady: boolean;
+}
+
+export interface RoomFacets {
+  types: { type: RoomType; count: number }[];
+  amenities: { id: string; code: string; name: string; icon: string | null; count: number }[];
+  tags: { tag: string; count: number }[];
+  price: { min: number | null; max: number | null };
+}
+
+export interface DayAvailability {
+  date: string;
+  bookedSeats: number;
+  // Beds taken out by maintenance blocks that day
+  blockedSeats: number;
+  availableSeats: number;
+}
+
+export interface RoomAvailability {
+  roomId: string;
+  beds: number;
+  from: string;
+  to: string;
+  availableSeats: number;
+  days: DayAvailability[];
+}
+
+export const startOfUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export const addUtcDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * DAY_MS);
+
+const toDateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * Normalizes a stay into a [start, end) window of whole days.
+ * A missing checkOut means an open-ended (long-term) stay.
+ */
+export const toStayWindow = (checkIn: Date, checkOut?: Date | null) => {
+  const start = startOfUtcDay(checkIn);
+  const end = checkOut ? startOfUtcDay(checkOut) : null;
+
+  if (end && end <= start) {
+    throw new ApiError(400, "Check-out date must be after check-in date");
+  }
+
+  return { start, end };
+};
+
+const findOverlappingBookings = (
+  client: Tx,
+  roomId: string,
+  start: Date,
+  end: Date | null,
+  statuses: BookingStatus[],
+  excludeBookingIds: string[] = []
+) =>
+  client.booking.findMany({
+    where: {
+      roomId,
+      status: { in: statuses },
+      ...(excludeBookingIds.length > 0 && { id: { notIn: excludeBookingIds } }),
+      ...(end && { checkIn: { lt: end } }),
+      OR: [{ checkOut: null }, { checkOut: { gt: start } }],
+    },
+    select: {
+      checkIn: true,
+      checkOut: true,
+      seatsSelected: true,
+      beds: { select: { id: true } },
+    },
+  });
+
+const findOverlappingBlocks = (client: Tx, roomId: string, start: Date, end: Date | null) =>
+  client.maintenanceBlock.findMany({
+    where: {
+      roomId,
+      ...(end && { startDate: { lt: end } }),
+      endDate: { gt: start },
+    },
+    select: {
+      startDate: true,
+      endDate: true,
+      wholeRoom: true,
+      beds: { select: { id: true } },
+    },
+  });
+
+/**
+ * Ids of the given bookable beds that any of the blocks take out.
+ */
+const collectBlockedBedIds = (
+  blocks: { wholeRoom: boolean; beds: { id: string }[] }[],
+  beds: { id: string }[]
+) => {
+  const bookable = new Set(beds.map((bed) => bed.id));
+  const blocked = new Set<string>();
+
+  for (const block of blocks) {
+    for (const bed of block.wholeRoom ? beds : block.beds) {
+      if (bookable.has(bed.id)) blocked.add(bed.id);
+    }
+  }
+
+  return blocked;
+};
+
+export const compareBedLabels = (a: { label: string }, b: { label: string }) =>
+  a.label.localeCompare(b.label, undefined, { numeric: true });
+
+/**
+ * Beds that can be booked, in label order ("Bed 2" before "Bed 10").
+ */
+const findBookableBeds = async (client: Tx, roomId: string) => {
+  const beds = await client.bed.findMany({
+    where: { roomId, status: BedStatus.AVAILABLE },
+    select: { id: true, label: true },
+  });
+
+  return beds.sort(compareBedLabels);
+};
+
+/**
+ * Filter for bookings that hold a bed today or later.
+ */
+export const liveBookingWhere = (): Prisma.BookingWhereInput => ({
+  status: { in: SEAT_HOLDING_STATUSES },
+  OR: [{ checkOut: null }, { checkOut: { gt: startOfUtcDay(new Date()) } }],
+});
+
+/**
+ * Per-day seat availability of a room between `from` (inclusive) and `to` (exclusive).
+ */
+export const getRoomAvailability = async ({
+  tx,
+  roomId,
+  from,
+  to,
+  excludeBookingIds = [],
+}: {
+  tx?: Tx;
+  roomId: string;
+  from: Date;
+  to: Date;
+  excludeBookingIds?: string[];
+}): Promise<RoomAvailability> => {
+  const client = tx ?? prisma;
+  const { start, end } = toStayWindow(from, to);
+  const rangeEnd = end!;
+
+  const totalDays = Math.round((rangeEnd.getTime() - start.getTime()) / DAY_MS);
+  if (totalDays > MAX_AVAILABILITY_RANGE_DAYS) {
+    throw new ApiError(400, `Date range cannot exceed ${MAX_AVAILABILITY_RANGE_DAYS} days`);
+  }
+
+  const room = await client.room.findUnique({
+    where: { id: roomId },
+    select: { id: true },
+  });
+
+  if (!room) {
+    throw new ApiError(404, "Room not found");
+  }
+
+  // Out-of-service beds cannot be booked, so they do not count as capacity
+  const beds = await findBookableBeds(client, roomId);
+  const capacity = beds.length;
+
+  const [bookings, blocks] = await Promise.all([
+    findOverlappingBookings(client, roomId, start, rangeEnd, SEAT_HOLDING_STATUSES, excludeBookingIds),
+    findOverlappingBlocks(client, roomId, start, rangeEnd),
+  ]);
+
+  const days: DayAvailability[] = [];
+  for (let i = 0; i < totalDays; i++) {
+    const dayStart = addUtcDays(start, i);
+    const dayEnd = addUtcDays(dayStart, 1);
+
+    const bookedSeats = bookings.reduce((sum, booking) => {
+      const bookingStart = startOfUtcDay(booking.checkIn);
+      const bookingEnd = booking.checkOut ? startOfUtcDay(booking.checkOut) : null;
+      const overlaps = bookingStart < dayEnd && (!bookingEnd || bookingEnd > dayStart);
+      return overlaps ? sum + booking.seatsSelected : sum;
+    }, 0);
+
+    const blockedSeats = collectBlockedBedIds(
+      blocks.filter((block) => block.startDate < dayEnd && block.endDate > dayStart),
+      beds
+    ).size;
+
+    days.push({
+      date: toDateKey(dayStart),
+      bookedSeats,
+      blockedSeats,
+      availableSeats: Math.max(capacity - blockedSeats - bookedSeats, 0),
+    });
+  }
+
+  return {
+    roomId: room.id,
+    beds: capacity,
+    from: toDateKey(start),
+    to: toDateKey(rangeEnd),
+    availableSeats: days.reduce(
+      (min, day) => Math.min(min, day.availableSeats),
+      capacity
+    ),
+    days,
+  };
+};
+
+/**
+ * The room's bookable beds split by whether a maintenance block takes them
+ * out during the window. Throws when blocks take out all of them.
+ */
+const findUnblockedBeds = async (client: Tx, roomId: string, start: Date, end: Date | null) => {
+  const [bookableBeds, blocks] = await Promise.all([
+    findBookableBeds(client, roomId),
+    findOverlappingBlocks(client, roomId, start, end),
+  ]);
+
+  const blockedBedIds = collectBlockedBedIds(blocks, bookableBeds);
+  const beds = bookableBeds.filter((bed) => !blockedBedIds.has(bed.id));
+
+  if (bookableBeds.length > 0 && beds.length === 0) {
+    throw new ApiError(409, "Room is under maintenance for the selected dates");
+  }
+
+  return { bookableBeds, blockedBedIds, beds };
+};
+
+/**
+ * Throws when maintenance takes the whole room out at some point of the
+ * stay, as booking would. Does not lock or look at other bookings; returns
+ * how many beds stay open for the whole stay.
+ */
+export const assertRoomOpenForStay = async (
+  client: Tx,
+  roomId: string,
+  checkIn: Date,
+  checkOut?: Date | null
+) => {
+  const { start, end } = toStayWindow(checkIn, checkOut);
+  const { beds } = await findUnblockedBeds(client, roomId, start, end);
+  return beds.length;
+};
+
+/**
+ * Throws when a room cannot take `seats` more guests for the whole stay, and
+ * otherwise returns the beds to give them: the requested `bedIds`, or else
+ * free beds in label order, keeping `preferBedIds` (a booking's current beds)
+ * where they are still free.
+ * Locks the room row so concurrent bookings for the same room are serialized.
+ * Open-ended stays are checked against every booking that starts after check-in.
+ * Beds under maintenance at any point of the stay are not offered.
+ */
+export const assertSeatsAvailable = async ({
+  tx,
+  roomId,
+  seats,
+  checkIn,
+  checkOut,
+  bedIds,
+  preferBedIds = [],
+  excludeBookingIds = [],
+}: {
+  tx: Tx;
+  roomId: string;
+  seats: number;
+  checkIn: Date;
+  checkOut?: Date | null;
+  bedIds?: string[];
+  preferBedIds?: string[];
+  excludeBookingIds?: string[];
+}): Promise<string[]> => {
+  await tx.$queryRaw`SELECT id FROM "Room" WHERE id = ${roomId} FOR UPDATE`;
+
+  const room = await tx.room.findUnique({
+    where: { id: roomId },
+    select: { id: true },
+  });
+
+  if (!room) {
+    throw new ApiError(404, "Room not found");
+  }
+
+  const { start, end } = toStayWindow(checkIn, checkOut);
+
+  const [{ bookableBeds, blockedBedIds, beds }, bookings] = await Promise.all([
+    findUnblockedBeds(tx, roomId, start, end),
+    findOverlappingBookings(tx, roomId, start, end, SEAT_HOLDING_STATUSES, excludeBookingIds),
+  ]);
+
+  // Occupancy only changes on booking boundaries, so checking each boundary
+  // inside the stay window gives the peak occupancy.
+  const checkpoints = new Set<number>([start.getTime()]);
+  for (const booking of bookings) {
+    const bookingStart = startOfUtcDay(booking.checkIn).getTime();
+    if (bookingStart > start.getTime()) {
+      checkpoints.add(bookingStart);
+    }
+  }
+
+  let peak = 0;
+  for (const point of checkpoints) {
+    const occupied = bookings.reduce((sum, booking) => {
+      const bookingStart = startOfUtcDay(booking.checkIn).getTime();
+      const bookingEnd = booking.checkOut ? startOfUtcDay(booking.checkOut).getTime() : null;
+      const active = bookingStart <= point && (bookingEnd === null || bookingEnd > point);
+      return active ? sum + booking.seatsSelected : sum;
+    }, 0);
+    peak = Math.max(peak, occupied);
+  }
+
+  const free = Math.max(beds.length - peak, 0);
+  if (free < seats) {
+    throw new ApiError(
+      409,
+      free === 0
+        ? "Room is fully booked for the selected dates"
+        : `Only ${free} seat(s) available for the selected dates`
+    );
+  }
+
+  // A guest keeps one bed for the whole stay, so a bed is free only if no
+  // overlapping booking holds it at any point
+  const takenBedIds = new Set(bookings.flatMap((booking) => booking.beds.map((bed) => bed.id)));
+  const freeBeds = beds.filter((bed) => !takenBedIds.has(bed.id));
+
+  if (bedIds) {
+    if (new Set(bedIds).size !== seats) {
+      throw new ApiError(400, `Select exactly ${seats} different bed(s)`);
+    }
+
+    for (const bedId of bedIds) {
+      if (blockedBedIds.has(bedId)) {
+        const bed = bookableBeds.find((bookable) => bookable.id === bedId);
+        throw new ApiError(409, `${bed?.label ?? "Bed"} is under maintenance for the selected dates`);
+      }
+      if (!freeBeds.some((bed) => bed.id === bedId)) {
+        const bed = await tx.bed.findFirst({ where: { id: bedId, roomId }, select: { label: true } });
+        throw bed
+          ? new ApiError(409, `${bed.label} is not available for the selected dates`)
+          : new ApiError(400, "Selected bed does not belong to this room");
+      }
+    }
+
+    return bedIds;
+  }
+
+  if (freeBeds.length < seats) {
+    throw new ApiError(409, "Not enough beds are free for the whole stay, try fewer seats or other dates");
+  }
+
+  const preferred = freeBeds.filter((bed) => preferBedIds.includes(bed.id));
+  const others = freeBeds.filter((bed) => !preferBedIds.includes(bed.id));
+
+  return [...preferred, ...others].slice(0, seats).map((bed) => bed.id);
+};
+
+/**
+ * Recomputes Room.bookedSeats / availableSeats / status from the paid bookings
+ * that occupy the room today. Safe to call repeatedly.
+ */
+export const refreshRoomSeatCounters = async (tx: Tx, roomId: string) => {
+  const room = await tx.room.findUnique({
+    where: { id: roomId },
+    select: { id: true },
+  });
+
+  if (!room) throw new ApiError(404, "Room not found");
+
+  const beds = await findBookableBeds(tx, roomId);
+
+  const today = startOfUtcDay(new Date());
+  const tomorrow = addUtcDays(today, 1);
+  const [bookings, blocks] = await Promise.all([
+    findOverlappingBookings(tx, roomId, today, tomorrow, SEAT_CONFIRMED_STATUSES),
+    findOverlappingBlocks(tx, roomId, today, tomorrow),
+  ]);
+
+  // Beds under maintenance today are not sellable today
+  const capacity = beds.length - collectBlockedBedIds(blocks, beds).size;
+  const bookedSeats = Math.min(
+    bookings.reduce((sum, booking) => sum + booking.seatsSelected, 0),
+    capacity
+  );
+  const availableSeats = capacity - bookedSeats;
+
+  let status: RoomStatus = RoomStatus.AVAILABLE;
+  if (availableSeats === 0) {
+    status = bookedSeats === 0 && blocks.length > 0 ? RoomStatus.MAINTENANCE : RoomStatus.BOOKED;
+  }
+
+  return tx.room.update({
+    where: { id: roomId },
+    data: {
+      bookedSeats,
+      availableSeats,
+      status,
+    },
+  });
+};
+
+/**
+ * Every bed of a room with what it is doing today.
+ */
+export const getRoomBedMap = async (roomId: string, client: Tx = prisma): Promise<BedMapEntry[]> => {
+  const today = startOfUtcDay(new Date());
+
+  const blocks = await findOverlappingBlocks(client, roomId, today, addUtcDays(today, 1));
+  const beds = await client.bed.findMany({
+    where: { roomId },
+    include: {
+      bookings: {
+        where: {
+          status: { in: SEAT_HOLDING_STATUSES },
+          checkIn: { lt: addUtcDays(today, 1) },
+          OR: [{ checkOut: null }, { checkOut: { gt: today } }],
+        },
+        select: { status: true, checkOut: true },
+      },
+    },
+  });
+
+  const blockedBedIds = collectBlockedBedIds(blocks, beds);
+
+  return beds.sort(compareBedLabels).map((bed) => {
+    const [current] = bed.bookings;
+
+    let state: BedState = "AVAILABLE";
+    if (bed.status === BedStatus.OUT_OF_SERVICE) state = "OUT_OF_SERVICE";
+    else if (blockedBedIds.has(bed.id)) state = "MAINTENANCE";
+    else if (current) {
+      state = SEAT_CONFIRMED_STATUSES.includes(current.status) ? "OCCUPIED" : "RESERVED";
+    }
+
+    return {
+      id: bed.id,
+      label: bed.label,
+      position: bed.position,
+      attributes: bed.attributes,
+      state,
+      occupiedUntil: current?.checkOut ?? null,
+      isReady: bed.isReady,
+    };
+  });
+};
+
+/**
+ * Throws when a bed still has a stay today or later, e.g. before it is
+ * removed or taken out of service.
+ */
+export const assertBedHasNoLiveBookings = async (tx: Tx, bedId: string) => {
+  const booking = await tx.booking.findFirst({
+    where: { ...liveBookingWhere(), beds: { some: { id: bedId } } },
+    select: { id: true },
+  });
+
+  if (booking) {
+    throw new ApiError(409, "Bed has current or upcoming bookings, move them to another bed first");
+  }
+};
+
+/**
+ * Facet counts for a room listing. Room types are counted as if no type
+ * were selected, so the other types still show how many rooms they have;
+ * everything else is counted over the rooms matching the full filter.
+ */
+export const getRoomFacets = async ({
+  where,
+  priceField,
+}: {
+  where: Prisma.RoomWhereInput;
+  priceField: "shortTermPrice" | "longTermPrice";
+}): Promise<RoomFacets> => {
+  const { type: _type, ...whereWithoutType } = where;
+
+  const [typeGroups, tagGroups, prices, amenities] = await Promise.all([
+    prisma.room.groupBy({
+      by: ["type"],
+      where: whereWithoutType,
+      _count: { _all: true },
+    }),
+    // One group per distinct tag list, split into single tags below
+    prisma.room.groupBy({
+      by: ["tags"],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.room.aggregate({
+      where,
+      _min: { shortTermPrice: true, longTermPrice: true },
+      _max: { shortTermPrice: true, longTermPrice: true },
+    }),
+    prisma.amenity.findMany({
+      orderBy: { name: "asc" },
+      include: { _count: { select: { rooms: { where } } } },
+    }),
+  ]);
+
+  const typeCounts = new Map(typeGroups.map((group) => [group.type, group._count._all]));
+  const tagCounts = new Map<string, number>();
+
+  for (const group of tagGroups) {
+    for (const tag of new Set(group.tags)) {
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + group._count._all);
+    }
+  }
+
+  return {
+    types: Object.values(RoomType).map((roomType) => ({
+      type: roomType,
+      count: typeCounts.get(roomType) ?? 0,
+    })),
+    amenities: amenities.map((amenity) => ({
+      id: amenity.id,
+      code: amenity.code,
+      name: amenity.name,
+      icon: amenity.icon,
+      count: amenity._count.rooms,
+    })),
+    tags: [...tagCounts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag)),
+    price: {
+      min: prices._min[priceField],
+      max: prices._max[priceField],
+    },
+  };
+};
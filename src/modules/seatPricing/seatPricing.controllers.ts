@@ -3,16 +3,52 @@ import prisma from "../../config/prismaClient";
 import { asyncHandler } from "../../utils/asyncHandler";
 import { ApiError } from "../../utils/ApiError";
 import { logger } from "../../utils/logger";
+import { BookingType, Prisma, RoomType } from "@prisma/client";
+import { assertPropertySettingAccess, resolveSettingScope } from "../properties/property.service";
+
+/**
+ * Copies a seat price onto the matching rooms: the property's rooms for a
+ * property price, else rooms at properties without a price of their own.
+ */
+const syncRoomPrices = async (
+  tx: Prisma.TransactionClient,
+  {
+    roomType,
+    stayType,
+    price,
+    propertyId,
+  }: { roomType: RoomType; stayType: BookingType; price: number; propertyId: string | null }
+) => {
+  const overridden = propertyId
+    ? []
+    : await tx.seatPricing.findMany({
+        where: { roomType, stayType, isActive: true, propertyId: { not: null } },
+        select: { propertyId: true },
+      });
+
+  await tx.room.updateMany({
+    where: {
+      type: roomType,
+      ...(propertyId
+        ? { propertyId }
+        : { propertyId: { notIn: overridden.map((pricing) => pricing.propertyId as string) } }),
+    },
+    data: stayType === "SHORT_TERM" ? { shortTermPrice: price } : { longTermPrice: price },
+  });
+};
 
 export const createSeatPricing = asyncHandler(
   async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-    const { roomType, stayType, price, isActive } = req.body;
+    const { roomType, stayType, price, isActive, propertyId = null } = req.body;
+
+    await assertPropertySettingAccess(req.user, propertyId);
 
     const result = await prisma.$transaction(async (tx) => {
       await tx.seatPricing.updateMany({
         where: {
           roomType,
           stayType,
+          propertyId,
           isActive: true,
         },
         data: { isActive: false },
@@ -22,20 +58,13 @@ export const createSeatPricing = asyncHandler(
         data: {
           roomType,
           stayType,
+          propertyId,
           price,
           isActive: true,
         },
       });
 
-      const updateData =
-        stayType === "SHORT_TERM"
-          ? { shortTermPrice: price }
-          : { longTermPrice: price };
-
-      await tx.room.updateMany({
-        where: { type: roomType },
-        data: updateData,
-      });
+      await syncRoomPrices(tx, { roomType, stayType, price, propertyId });
 
       return newPricing;
     });
@@ -60,7 +89,8 @@ export const getAllSeatPricing = asyncHandler(
       sort = "createdAt_desc",
     } = req.query;
 
-    const where: any = {};
+    // "default" lists the prices used by properties without their own
+    const where: any = await resolveSettingScope(req);
 
     if (roomType) {
       where.roomType = roomType;
@@ -120,6 +150,8 @@ export const getSeatPricingById = asyncHandler(
       throw new ApiError(404, "Seat pricing not found");
     }
 
+    await assertPropertySettingAccess(req.user, seatPricing.propertyId);
+
     res.status(200).json({
       success: true,
       message: "Seat pricing fetched successfully",
@@ -142,11 +174,14 @@ export const updateSeatPricing = asyncHandler(
         throw new ApiError(404, "Seat pricing not found");
       }
 
+      await assertPropertySettingAccess(req.user, seatPricing.propertyId);
+
       if (isActive) {
         await tx.seatPricing.updateMany({
           where: {
             roomType: seatPricing.roomType,
             stayType: seatPricing.stayType,
+            propertyId: seatPricing.propertyId,
             isActive: true,
             NOT: { id },
           },
@@ -154,15 +189,14 @@ export const updateSeatPricing = asyncHandler(
         });
       }
 
-      const updateData =
-        stayType === "SHORT_TERM"
-          ? { shortTermPrice: price }
-          : { longTermPrice: price };
-
-      await tx.room.updateMany({
-        where: { type: seatPricing.roomType },
-        data: updateData,
-      });
+      if (price !== undefined) {
+        await syncRoomPrices(tx, {
+          roomType: seatPricing.roomType,
+          stayType: stayType ?? seatPricing.stayType,
+          price,
+          propertyId: seatPricing.propertyId,
+        });
+      }
 
       return await tx.seatPricing.update({
         where: { id },
@@ -193,6 +227,8 @@ export const deleteSeatPricing = asyncHandler(
       throw new ApiError(404, "Seat pricing not found");
     }
 
+    await assertPropertySettingAccess(req.user, seatPricing.propertyId);
+
     await prisma.seatPricing.delete({ where: { id } });
 
     res.status(200).json({
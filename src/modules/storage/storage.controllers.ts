@@ -0,0 +1,69 @@
+import { createReadStream } from "fs";
+import fs from "fs/promises";
+import { NextFunction, Request, Response } from "express";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { contentTypeForKey } from "../../utils/storage/storage.driver";
+import { getStorage, isStoreName } from "../../utils/storage/storage.factory";
+import { verifyLocalDownload, verifyLocalUpload } from "../../utils/storage/storage.local";
+
+/**
+ * Resolves a store named in a signed link; only local stores are served
+ * here, S3 stores hand out their own links.
+ */
+const getLocalStore = (name: string) => {
+  if (!isStoreName(name) || getStorage(name).kind !== "local") {
+    throw new ApiError(404, "Not found");
+  }
+  return getStorage(name);
+};
+
+/**
+ * GET /storage/files?store=&key=&expires=&name=&signature=
+ * The signature is the only credential, the same as an S3 presigned link.
+ */
+export const downloadStoredFile = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { store, key, fileName } = verifyLocalDownload(req.query as Record<string, string>);
+    const file = await getLocalStore(store).read(key);
+
+    res.setHeader("Content-Type", contentTypeForKey(key));
+    res.setHeader("Cache-Control", "private, no-store");
+    if (fileName) {
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName.replace(/"/g, "")}"`);
+    }
+    res.status(200).send(file);
+  }
+);
+
+/**
+ * POST /storage/uploads
+ * Multipart form built from a presigned upload: the signed fields, then
+ * the `file`. Answers 204 like S3 does.
+ */
+export const receiveDirectUpload = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const file = req.file;
+
+    try {
+      const { store, key, contentType, maxBytes } = verifyLocalUpload(req.body);
+
+      if (!file) {
+        throw new ApiError(400, "No file uploaded");
+      }
+
+      if (file.size === 0 || file.size > maxBytes) {
+        throw new ApiError(400, `File must be between 1 and ${maxBytes} bytes`);
+      }
+
+      // uploadDirect has refused any other type; the signed one is stored
+      await getLocalStore(store).put(key, createReadStream(file.path), { contentType });
+    } finally {
+      if (file?.path) {
+        await fs.rm(file.path, { force: true });
+      }
+    }
+
+    res.status(204).send();
+  }
+);
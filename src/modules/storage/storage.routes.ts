@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { downloadStoredFile, receiveDirectUpload } from "./storage.controllers";
+import { uploadDirect } from "../../config/multer";
+
+const router = Router();
+
+/**
+ * Local Storage Routes
+ * Stand in for S3 when a store uses the local driver. Access is granted by
+ * the signed fields, not by a login.
+ */
+
+// Signed download - anyone holding the link
+router.get("/files", downloadStoredFile);
+
+// Presigned form upload - anyone holding the signed fields
+router.post("/uploads", uploadDirect.single("file"), receiveDirectUpload);
+
+export default router;
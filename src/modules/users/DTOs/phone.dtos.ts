@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+const otpCode = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "Code must be the 6 digits we sent you");
+
+const phone = z.string().trim().min(8, "Invalid phone number").max(20, "Invalid phone number");
+
+const channel = z.enum(["console", "whatsapp", "sms"]);
+
+export const sendPhoneCodeSchema = z.object({
+  // Omitted: the number already on the account
+  phone: phone.optional(),
+  channel: channel.optional(),
+});
+
+export const verifyPhoneSchema = z.object({
+  phone: phone.optional(),
+  code: otpCode,
+});
+
+export const sendLoginCodeSchema = z.object({
+  phone,
+  channel: channel.optional(),
+});
+
+export const otpLoginSchema = z.object({
+  phone,
+  code: otpCode,
+});
+
+export type SendPhoneCodeDTO = z.infer<typeof sendPhoneCodeSchema>;
+export type VerifyPhoneDTO = z.infer<typeof verifyPhoneSchema>;
+export type SendLoginCodeDTO = z.infer<typeof sendLoginCodeSchema>;
+export type OtpLoginDTO = z.infer<typeof otpLoginSchema>;
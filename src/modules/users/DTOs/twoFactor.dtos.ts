@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+const totpCode = z
+  .string()
+  .trim()
+  .regex(/^\d{6}$/, "Code must be the 6 digits shown in your authenticator app");
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCode,
+});
+
+export const twoFactorChallengeSchema = z.object({
+  challengeId: z.string().min(1, "challengeId is required"),
+});
+
+export const completeTwoFactorLoginSchema = z
+  .object({
+    challengeId: z.string().min(1, "challengeId is required"),
+    code: totpCode.optional(),
+    recoveryCode: z.string().trim().min(1).max(20).optional(),
+  })
+  .refine((data) => Boolean(data.code) !== Boolean(data.recoveryCode), {
+    path: ["code"],
+    message: "Send either a code or a recovery code",
+  });
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: totpCode,
+});
+
+export type TwoFactorCodeDTO = z.infer<typeof twoFactorCodeSchema>;
+export type TwoFactorChallengeDTO = z.infer<typeof twoFactorChallengeSchema>;
+export type CompleteTwoFactorLoginDTO = z.infer<typeof completeTwoFactorLoginSchema>;
+export type DisableTwoFactorDTO = z.infer<typeof disableTwoFactorSchema>;
@@ -0,0 +1,127 @@
+import { NextFunction, Request, Response } from "express";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { startSession, toLoginResponse } from "./session.service";
+import { createLoginChallenge, isTwoFactorEnabled } from "./twoFactor.service";
+import {
+  completeLoginWithCode,
+  confirmPhoneVerification,
+  getPhoneStatus as loadPhoneStatus,
+  requestLoginCode,
+  sendPhoneVerificationCode,
+} from "./phoneVerification.service";
+import { OtpLoginDTO, SendLoginCodeDTO, SendPhoneCodeDTO, VerifyPhoneDTO } from "./DTOs/phone.dtos";
+
+/**
+ * GET /users/me/phone
+ */
+export const getPhoneStatus = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const status = await loadPhoneStatus(userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Phone status fetched successfully",
+      data: status,
+    });
+  }
+);
+
+/**
+ * POST /users/me/phone/send-code
+ */
+export const sendPhoneCode = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+    const { phone, channel } = req.body as SendPhoneCodeDTO;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const sent = await sendPhoneVerificationCode(userId, phone, channel);
+
+    res.status(200).json({
+      success: true,
+      message: "Verification code sent",
+      data: sent,
+    });
+  }
+);
+
+/**
+ * POST /users/me/phone/verify
+ */
+export const verifyPhone = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+    const { phone, code } = req.body as VerifyPhoneDTO;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const status = await confirmPhoneVerification(userId, code, phone);
+
+    res.status(200).json({
+      success: true,
+      message: "Phone number verified",
+      data: status,
+    });
+  }
+);
+
+/**
+ * POST /users/login/otp/send
+ * Passwordless sign-in for residents with a verified phone
+ */
+export const sendLoginCode = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { phone, channel } = req.body as SendLoginCodeDTO;
+
+    const sent = await requestLoginCode(phone, channel);
+
+    res.status(200).json({
+      success: true,
+      message: "If this number is registered, a sign-in code has been sent",
+      data: sent,
+    });
+  }
+);
+
+/**
+ * POST /users/login/otp/verify
+ */
+export const loginWithCode = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { phone, code } = req.body as OtpLoginDTO;
+
+    const user = await completeLoginWithCode(phone, code);
+
+    // The phone stands in for the password only; 2FA still applies
+    if (isTwoFactorEnabled(user)) {
+      const challenge = await createLoginChallenge(user);
+
+      res.status(200).json({
+        success: true,
+        message: "Enter the code from your authenticator app",
+        data: { twoFactorRequired: true, ...challenge },
+      });
+      return;
+    }
+
+    await startSession(req, res, user);
+
+    res.status(200).json({
+      success: true,
+      message: "You are now logged-in",
+      data: toLoginResponse(user),
+    });
+  }
+);
@@ -0,0 +1,125 @@
+import assert from "node:assert/strict";
+import { after, afterEach, beforeEach, describe, it, mock } from "node:test";
+import { Role, User } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import redis from "../../config/redis";
+import { ApiError } from "../../utils/ApiError";
+import { getOtpChannel } from "../../utils/otp/otp.factory";
+import { completeLoginWithCode, requestLoginCode } from "./phoneVerification.service";
+
+// The clients would keep the process alive
+after(async () => {
+  await prisma.$disconnect();
+  redis.disconnect();
+});
+
+const PHONE = "+923001234567";
+const resident = { id: "user-1", phone: PHONE, role: Role.USER } as User;
+
+const rejectsWith = (promise: Promise<unknown>, statusCode: number, message?: RegExp) =>
+  assert.rejects(
+    promise,
+    (error) =>
+      error instanceof ApiError && error.statusCode === statusCode && (!message || message.test(error.message))
+  );
+
+describe("phone sign-in codes", () => {
+  // Just enough of Redis for codes and send limits; expiry is not modelled
+  let store: Map<string, string>;
+  let sent: string[];
+  let residents: User[];
+  const userModel = prisma.user;
+
+  beforeEach(() => {
+    process.env.OTP_CHANNELS = "console";
+    store = new Map();
+    sent = [];
+    residents = [resident];
+
+    mock.method(redis, "set", async (key: string, value: string, ...options: string[]) => {
+      if (options.includes("NX") && store.has(key)) return null;
+      store.set(key, value);
+      return "OK";
+    });
+    mock.method(redis, "setex", async (key: string, _ttl: number, value: string) => {
+      store.set(key, value);
+      return "OK";
+    });
+    mock.method(redis, "get", async (key: string) => store.get(key) ?? null);
+    mock.method(redis, "incr", async (key: string) => {
+      const count = Number(store.get(key) ?? 0) + 1;
+      store.set(key, String(count));
+      return count;
+    });
+    mock.method(redis, "expire", async () => 1);
+    mock.method(redis, "del", async (...keys: string[]) => keys.filter((key) => store.delete(key)).length);
+
+    mock.method(getOtpChannel("console"), "sendCode", async (_to: string, code: string) => {
+      sent.push(code);
+    });
+
+    // Prisma's model delegates cannot be spied on; swap in a stand-in
+    Object.defineProperty(prisma, "user", {
+      value: { findFirst: async () => residents.find((user) => user.phone === PHONE) ?? null },
+      configurable: true,
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    Object.defineProperty(prisma, "user", { value: userModel, configurable: true, writable: true });
+    delete process.env.OTP_CHANNELS;
+  });
+
+  // A wrong code that is still six digits
+  const wrong = (code: string) => String((Number(code) + 1) % 1_000_000).padStart(6, "0");
+
+  it("signs a resident in with the code sent to their phone", async () => {
+    await requestLoginCode("0300 1234567");
+    assert.equal(sent.length, 1);
+    assert.match(sent[0], /^\d{6}$/);
+
+    const user = await completeLoginWithCode(PHONE, sent[0]);
+    assert.equal(user.id, resident.id);
+  });
+
+  it("accepts a code only once", async () => {
+    await requestLoginCode(PHONE);
+    await completeLoginWithCode(PHONE, sent[0]);
+
+    await rejectsWith(completeLoginWithCode(PHONE, sent[0]), 400, /expired/);
+  });
+
+  it("throws the code away after five wrong guesses", async () => {
+    await requestLoginCode(PHONE);
+    const code = sent[0];
+
+    for (let guess = 1; guess < 5; guess++) {
+      await rejectsWith(completeLoginWithCode(PHONE, wrong(code)), 400, /Invalid code/);
+    }
+    await rejectsWith(completeLoginWithCode(PHONE, wrong(code)), 400, /Too many invalid codes/);
+
+    // Even the right code is no good now
+    await rejectsWith(completeLoginWithCode(PHONE, code), 400, /expired/);
+  });
+
+  it("makes the number wait before another code", async () => {
+    await requestLoginCode(PHONE);
+
+    await rejectsWith(requestLoginCode(PHONE), 429);
+    assert.equal(sent.length, 1);
+  });
+
+  it("answers the same for numbers that cannot sign in, without sending a code", async () => {
+    residents = [];
+
+    const response = await requestLoginCode(PHONE);
+    assert.deepEqual(response, { expiresIn: 600 });
+    assert.equal(sent.length, 0);
+  });
+
+  it("refuses numbers it cannot read", async () => {
+    await rejectsWith(requestLoginCode("12"), 400);
+  });
+});
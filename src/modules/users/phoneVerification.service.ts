@@ -0,0 +1,250 @@
+import crypto from "crypto";
+import { Role, User } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import redis from "../../config/redis";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+import { normalizePhone } from "../../utils/phone";
+import { OtpChannelKind } from "../../utils/otp/otp.channel";
+import { getEnabledOtpChannels, getOtpChannel } from "../../utils/otp/otp.factory";
+
+// A code must be entered within this
+const CODE_TTL_SECONDS = 10 * 60;
+
+// Wrong guesses allowed per code before a new one must be requested
+const MAX_CODE_ATTEMPTS = 5;
+
+// Per number, whoever asks: one code per cooldown, at most HOURLY_SEND_LIMIT an hour
+const RESEND_COOLDOWN_SECONDS = 60;
+const HOURLY_SEND_LIMIT = 5;
+
+type CodePurpose = "verify" | "login";
+
+interface StoredCode {
+  codeHash: string;
+  attempts: number;
+}
+
+// Verification codes are tied to the account that asked, so nobody else can
+// confirm a number with them
+const codeKey = (purpose: CodePurpose, phone: string, userId?: string) =>
+  purpose === "verify" ? `phoneOtp:verify:${userId}:${phone}` : `phoneOtp:login:${phone}`;
+const cooldownKey = (phone: string) => `phoneOtpCooldown:${phone}`;
+const hourlyCountKey = (phone: string) => `phoneOtpCount:${phone}`;
+
+const hashCode = (key: string, code: string) => crypto.createHash("sha256").update(`${key}:${code}`).digest("hex");
+
+const toE164 = (input: string) => {
+  const phone = normalizePhone(input);
+  if (!phone) {
+    throw new ApiError(400, "Enter a valid phone number");
+  }
+  return phone;
+};
+
+const assertChannelEnabled = (channel?: OtpChannelKind) => {
+  if (channel && !getEnabledOtpChannels().includes(channel)) {
+    throw new ApiError(400, `Codes cannot be sent by ${channel}`);
+  }
+};
+
+/**
+ * Counts a send against the number's limits, or refuses it.
+ */
+const takeSendAllowance = async (phone: string) => {
+  const free = await redis.set(cooldownKey(phone), "1", "EX", RESEND_COOLDOWN_SECONDS, "NX");
+  if (!free) {
+    throw new ApiError(429, "Please wait a minute before requesting another code");
+  }
+
+  const sent = await redis.incr(hourlyCountKey(phone));
+  if (sent === 1) {
+    await redis.expire(hourlyCountKey(phone), 60 * 60);
+  }
+  if (sent > HOURLY_SEND_LIMIT) {
+    throw new ApiError(429, "Too many codes requested for this number, please try again later");
+  }
+};
+
+/**
+ * Stores a fresh code under `key` (replacing any earlier one) and sends it.
+ */
+const issueCode = async (key: string, phone: string, channelKind?: OtpChannelKind) => {
+  const channel = getOtpChannel(channelKind);
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+  const stored: StoredCode = { codeHash: hashCode(key, code), attempts: 0 };
+
+  await redis.setex(key, CODE_TTL_SECONDS, JSON.stringify(stored));
+
+  try {
+    await channel.sendCode(phone, code, { expiresInMinutes: CODE_TTL_SECONDS / 60 });
+  } catch (error: any) {
+    logger.error("OTP delivery failed", { channel: channel.kind, error: error.message });
+    await redis.del(key, cooldownKey(phone));
+    throw new ApiError(502, "Could not send the code, please try again");
+  }
+
+  return channel.kind;
+};
+
+/**
+ * Checks a code; the code is used up once it matches, or after too many
+ * wrong guesses.
+ */
+const consumeCode = async (key: string, code: string) => {
+  const raw = await redis.get(key);
+  if (!raw) {
+    throw new ApiError(400, "Code has expired, please request a new one");
+  }
+
+  const stored = JSON.parse(raw) as StoredCode;
+  const matches = crypto.timingSafeEqual(Buffer.from(stored.codeHash), Buffer.from(hashCode(key, code)));
+
+  if (!matches) {
+    stored.attempts += 1;
+    if (stored.attempts >= MAX_CODE_ATTEMPTS) {
+      await redis.del(key);
+      throw new ApiError(400, "Too many invalid codes, please request a new one");
+    }
+
+    await redis.set(key, JSON.stringify(stored), "KEEPTTL");
+    throw new ApiError(400, "Invalid code");
+  }
+
+  // A code is good once, even when two requests pass at once
+  if ((await redis.del(key)) === 0) {
+    throw new ApiError(400, "Code has expired, please request a new one");
+  }
+};
+
+const findUserOrThrow = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+  return user;
+};
+
+// A verified number belongs to one account, since it can sign in with it
+const assertPhoneAvailable = async (userId: string, phone: string) => {
+  const owner = await prisma.user.findFirst({
+    where: { phone, phoneVerifiedAt: { not: null }, id: { not: userId } },
+    select: { id: true },
+  });
+  if (owner) {
+    throw new ApiError(409, "This phone number is already verified on another account");
+  }
+};
+
+export const isPhoneVerified = (user: Pick<User, "phoneVerifiedAt">) => Boolean(user.phoneVerifiedAt);
+
+/* ================= VERIFICATION ================= */
+
+export const getPhoneStatus = async (userId: string) => {
+  const user = await findUserOrThrow(userId);
+
+  return {
+    phone: user.phone,
+    verified: isPhoneVerified(user),
+    verifiedAt: user.phoneVerifiedAt,
+    channels: getEnabledOtpChannels(),
+  };
+};
+
+/**
+ * Sends a code to the user's phone, or to `phoneInput` if they are
+ * switching numbers. The number only changes once the code is confirmed.
+ */
+export const sendPhoneVerificationCode = async (userId: string, phoneInput?: string, channel?: OtpChannelKind) => {
+  const user = await findUserOrThrow(userId);
+  const phone = toE164(phoneInput ?? user.phone);
+
+  if (isPhoneVerified(user) && phone === user.phone) {
+    throw new ApiError(409, "Phone number is already verified");
+  }
+
+  assertChannelEnabled(channel);
+  await assertPhoneAvailable(userId, phone);
+  await takeSendAllowance(phone);
+
+  const sentBy = await issueCode(codeKey("verify", phone, userId), phone, channel);
+
+  return { phone, channel: sentBy, expiresIn: CODE_TTL_SECONDS };
+};
+
+/**
+ * Confirms the code and marks the number verified, storing it in E.164.
+ */
+export const confirmPhoneVerification = async (userId: string, code: string, phoneInput?: string) => {
+  const user = await findUserOrThrow(userId);
+  const phone = toE164(phoneInput ?? user.phone);
+
+  await consumeCode(codeKey("verify", phone, userId), code);
+  await assertPhoneAvailable(userId, phone);
+
+  const updated = await prisma.user.update({
+    where: { id: userId },
+    data: { phone, phoneVerifiedAt: new Date() },
+  });
+
+  return { phone: updated.phone, verified: true, verifiedAt: updated.phoneVerifiedAt };
+};
+
+/**
+ * Bookings are only confirmed for residents who can be reached by phone.
+ */
+export const assertPhoneVerified = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { phoneVerifiedAt: true },
+  });
+
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+  if (!isPhoneVerified(user)) {
+    throw new ApiError(403, "Verify your phone number before booking");
+  }
+};
+
+/* ================= PASSWORDLESS SIGN-IN ================= */
+
+// Only residents; staff always sign in with password and authenticator
+const findLoginUser = (phone: string) =>
+  prisma.user.findFirst({
+    where: { phone, phoneVerifiedAt: { not: null }, role: Role.USER, isVerified: true },
+  });
+
+/**
+ * Sends a sign-in code if the number belongs to an eligible resident. The
+ * caller answers the same either way, so numbers cannot be probed.
+ */
+export const requestLoginCode = async (phoneInput: string, channel?: OtpChannelKind) => {
+  const phone = toE164(phoneInput);
+
+  assertChannelEnabled(channel);
+  await takeSendAllowance(phone);
+
+  const user = await findLoginUser(phone);
+  if (user) {
+    await issueCode(codeKey("login", phone), phone, channel);
+  }
+
+  return { expiresIn: CODE_TTL_SECONDS };
+};
+
+/**
+ * Checks a sign-in code and returns the user to sign in.
+ */
+export const completeLoginWithCode = async (phoneInput: string, code: string) => {
+  const phone = toE164(phoneInput);
+
+  await consumeCode(codeKey("login", phone), code);
+
+  // The account may have changed since the code was sent
+  const user = await findLoginUser(phone);
+  if (!user) {
+    throw new ApiError(401, "This number cannot be used to sign in");
+  }
+  return user;
+};
@@ -0,0 +1,95 @@
+import { NextFunction, Request, Response } from "express";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { listSessions, revokeSession, revokeUserSessions } from "./session.service";
+
+/**
+ * GET /users/me/sessions
+ */
+export const getMySessions = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const sessions = await listSessions(userId, req.user?.sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: "Sessions fetched successfully",
+      data: sessions,
+    });
+  }
+);
+
+/**
+ * DELETE /users/me/sessions/:sessionId
+ */
+export const revokeMySession = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    // Someone else's session is reported as missing, not forbidden
+    if (!(await revokeSession(req.params.sessionId, userId))) {
+      throw new ApiError(404, "Session not found");
+    }
+
+    res.status(200).json({
+      success: true,
+      message: "Session signed out",
+    });
+  }
+);
+
+/**
+ * DELETE /users/me/sessions
+ * Signs out every other device; this one stays signed in
+ */
+export const revokeMyOtherSessions = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const revoked = await revokeUserSessions(userId, req.user?.sessionId);
+
+    res.status(200).json({
+      success: true,
+      message: "Other sessions signed out",
+      data: { revoked },
+    });
+  }
+);
+
+/**
+ * DELETE /users/:id/sessions
+ * Forced logout of every device the user is signed in on
+ */
+export const revokeAllUserSessions = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+
+    if (!user) {
+      throw new ApiError(404, "User not found");
+    }
+
+    const revoked = await revokeUserSessions(id);
+
+    res.status(200).json({
+      success: true,
+      message: "User signed out of every session",
+      data: { revoked },
+    });
+  }
+);
@@ -0,0 +1,168 @@
+import assert from "node:assert/strict";
+import { after, afterEach, beforeEach, describe, it, mock } from "node:test";
+import { Request, Response } from "express";
+import { Role, User } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import redis from "../../config/redis";
+import { ApiError } from "../../utils/ApiError";
+import { listSessions, rotateSession, startSession } from "./session.service";
+
+// The clients would keep the process alive
+after(async () => {
+  await prisma.$disconnect();
+  redis.disconnect();
+});
+
+const user = { id: "user-1", name: "Ayesha", email: "ayesha@example.com", role: Role.USER } as User;
+
+const req = {
+  get: () => "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/124.0 Safari/537.36",
+  ip: "203.0.113.7",
+} as unknown as Request;
+
+// Collects the cookies a call sets
+const fakeResponse = () => {
+  const cookies: Record<string, string> = {};
+  const res = {
+    cookie: (name: string, value: string) => {
+      cookies[name] = value;
+    },
+    clearCookie: (name: string) => {
+      delete cookies[name];
+    },
+  } as unknown as Response;
+  return { res, cookies };
+};
+
+const rejectsWith = (promise: Promise<unknown>, statusCode: number) =>
+  assert.rejects(promise, (error) => error instanceof ApiError && error.statusCode === statusCode);
+
+describe("session rotation", () => {
+  // Just enough of Redis for sessions: hashes, sets and the two scripts
+  let hashes: Map<string, Record<string, string>>;
+  let sets: Map<string, Set<string>>;
+  const userModel = prisma.user;
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = "test-secret";
+    hashes = new Map();
+    sets = new Map();
+
+    // multi(): records the steps and runs them on exec()
+    const pipeline = () => {
+      const steps: (() => unknown)[] = [];
+      const queue = (step: () => unknown): typeof chain => {
+        steps.push(step);
+        return chain;
+      };
+
+      const chain = {
+        hset: (key: string, fields: Record<string, string>) =>
+          queue(() => hashes.set(key, { ...hashes.get(key), ...fields })),
+        expire: () => chain,
+        sadd: (key: string, member: string) =>
+          queue(() => sets.set(key, new Set([...(sets.get(key) ?? []), member]))),
+        del: (key: string) => queue(() => hashes.delete(key)),
+        srem: (key: string, member: string) => queue(() => sets.get(key)?.delete(member)),
+        exec: async () => steps.map((step) => step()),
+      };
+      return chain;
+    };
+
+    mock.method(redis, "multi", pipeline);
+    mock.method(redis, "hgetall", async (key: string) => ({ ...hashes.get(key) }));
+    mock.method(redis, "smembers", async (key: string) => [...(sets.get(key) ?? [])]);
+    mock.method(redis, "srem", async (key: string, member: string) => Number(sets.get(key)?.delete(member)));
+    mock.method(redis, "eval", async (script: string, _keys: number, key: string, ...args: string[]) => {
+      const session = hashes.get(key);
+      if (!script.includes("refreshGeneration")) return 1;
+
+      const [generation, nextGeneration, tokenHash, now, ip] = args;
+      if (session?.refreshGeneration !== generation) return 0;
+
+      hashes.set(key, {
+        ...session,
+        refreshGeneration: nextGeneration,
+        refreshTokenHash: tokenHash,
+        previousTokenHash: session.refreshTokenHash,
+        rotatedAt: now,
+        lastSeenAt: now,
+        ip,
+      });
+      return 1;
+    });
+
+    // Prisma's model delegates cannot be spied on; swap in a stand-in
+    Object.defineProperty(prisma, "user", {
+      value: { findUnique: async () => user },
+      configurable: true,
+      writable: true,
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    Object.defineProperty(prisma, "user", { value: userModel, configurable: true, writable: true });
+  });
+
+  const signIn = async () => {
+    const { res, cookies } = fakeResponse();
+    const sessionId = await startSession(req, res, user);
+    return { sessionId, refreshToken: cookies.refreshToken };
+  };
+
+  const refresh = async (refreshToken: string) => {
+    const { res, cookies } = fakeResponse();
+    await rotateSession(req, res, refreshToken);
+    return cookies.refreshToken;
+  };
+
+  it("opens a session for the device", async () => {
+    const { sessionId } = await signIn();
+
+    const [session] = await listSessions(user.id, sessionId);
+    assert.equal(session.id, sessionId);
+    assert.equal(session.device, "Chrome on Windows");
+    assert.equal(session.current, true);
+  });
+
+  it("swaps a refresh token for a new one", async () => {
+    const { refreshToken } = await signIn();
+
+    const next = await refresh(refreshToken);
+    assert.ok(next);
+    assert.notEqual(next, refreshToken);
+
+    // And the new one keeps working
+    assert.ok(await refresh(next));
+  });
+
+  it("asks for a retry when the old token comes back right after a rotation", async () => {
+    const { sessionId, refreshToken } = await signIn();
+    await refresh(refreshToken);
+
+    await rejectsWith(refresh(refreshToken), 409);
+    assert.equal((await listSessions(user.id)).length, 1, "session stays open");
+    assert.ok(hashes.has(`session:${sessionId}`));
+  });
+
+  it("ends the session when a rotated-out token is reused later", async () => {
+    const { sessionId, refreshToken } = await signIn();
+    const next = await refresh(refreshToken);
+
+    // Past the grace period for concurrent refreshes
+    const key = `session:${sessionId}`;
+    hashes.set(key, { ...hashes.get(key), rotatedAt: new Date(Date.now() - 60_000).toISOString() });
+
+    await rejectsWith(refresh(refreshToken), 401);
+    assert.equal(hashes.has(key), false);
+    assert.deepEqual(await listSessions(user.id), []);
+
+    // The thief's copy and the owner's current token both stop working
+    await rejectsWith(refresh(next), 401);
+  });
+
+  it("refuses tokens that were not signed by us", async () => {
+    await rejectsWith(refresh("not-a-token"), 401);
+  });
+});
@@ -0,0 +1,351 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import jwt from "jsonwebtoken";
+import { User } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import redis from "../../config/redis";
+import { io } from "../../config/socket.server";
+import { ApiError } from "../../utils/ApiError";
+import { logger } from "../../utils/logger";
+import { CustomJwtPayload } from "../../types/jwt";
+
+/**
+ * Sign-in sessions, one per device. Each lives in Redis as `session:<id>`
+ * with the hash of its current refresh token; `userSessions:<userId>`
+ * indexes them. Tokens carry the session id, so ending the session ends
+ * every token issued for it.
+ */
+
+const ACCESS_TTL_SECONDS = 60 * 60;
+const REFRESH_TTL_SECONDS = 24 * 60 * 60;
+
+// lastSeenAt is written at most this often per session
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+// The token just rotated out still gets a retry, not a revoke, this long:
+// two tabs sharing the cookie jar can refresh at the same moment
+const ROTATION_GRACE_MS = 30 * 1000;
+
+interface StoredSession {
+  userId: string;
+  // Bumped on every refresh; a refresh token from an older generation is a reuse
+  refreshGeneration: string;
+  refreshTokenHash: string;
+  previousTokenHash?: string;
+  rotatedAt?: string;
+  device: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+const userSessionsKey = (userId: string) => `userSessions:${userId}`;
+
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+// Rotates only if nobody rotated since the token was read
+const ROTATE_SCRIPT = `
+if redis.call("HGET", KEYS[1], "refreshGeneration") ~= ARGV[1] then
+  return 0
+end
+local previous = redis.call("HGET", KEYS[1], "refreshTokenHash")
+redis.call("HSET", KEYS[1], "refreshGeneration", ARGV[2], "refreshTokenHash", ARGV[3], "previousTokenHash", previous,
+  "rotatedAt", ARGV[4], "lastSeenAt", ARGV[4], "ip", ARGV[5])
+redis.call("EXPIRE", KEYS[1], ARGV[6])
+return 1
+`;
+
+// Never recreates a session revoked in the meantime
+const TOUCH_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 1 then
+  redis.call("HSET", KEYS[1], "lastSeenAt", ARGV[1], "ip", ARGV[2])
+end
+return 1
+`;
+
+const getJwtSecret = () => {
+  if (!process.env.JWT_SECRET) {
+    throw new ApiError(500, "JWT_SECRET is missing");
+  }
+  return process.env.JWT_SECRET;
+};
+
+// First match wins, so Edge / Opera come before the Chrome they claim to be
+const BROWSERS: [string, RegExp][] = [
+  ["Edge", /Edg\//],
+  ["Opera", /OPR\//],
+  ["Chrome", /Chrome\//],
+  ["Firefox", /Firefox\//],
+  ["Safari", /Safari\//],
+];
+
+const OPERATING_SYSTEMS: [string, RegExp][] = [
+  ["Android", /Android/],
+  ["iOS", /iPhone|iPad|iPod/],
+  ["Windows", /Windows/],
+  ["macOS", /Mac OS X|Macintosh/],
+  ["Linux", /Linux/],
+];
+
+/**
+ * "Chrome on Windows"-style label for the sessions list.
+ */
+const describeDevice = (userAgent: string) => {
+  const browser = BROWSERS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+  const os = OPERATING_SYSTEMS.find(([, pattern]) => pattern.test(userAgent))?.[0];
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? "Unknown device";
+};
+
+const signTokens = (user: User, sessionId: string, generation: number) => {
+  const secret = getJwtSecret();
+
+  const accessToken = jwt.sign(
+    {
+      userId: user.id,
+      username: user.name,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+    },
+    secret,
+    { expiresIn: ACCESS_TTL_SECONDS }
+  );
+
+  const refreshToken = jwt.sign(
+    {
+      userId: user.id,
+      email: user.email,
+      role: user.role,
+      sid: sessionId,
+      gen: generation,
+    },
+    secret,
+    { expiresIn: REFRESH_TTL_SECONDS }
+  );
+
+  return { accessToken, refreshToken };
+};
+
+const setAuthCookies = (res: Response, accessToken: string, refreshToken: string) => {
+  // Set Access Token in HTTP-only cookie (1 hour)
+  res.cookie("accessToken", accessToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
+    maxAge: ACCESS_TTL_SECONDS * 1000,
+  });
+
+  // Set Refresh Token in HTTP-only cookie (1 day)
+  res.cookie("refreshToken", refreshToken, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
+    maxAge: REFRESH_TTL_SECONDS * 1000,
+  });
+};
+
+export const clearAuthCookies = (res: Response) => {
+  res.clearCookie("accessToken");
+  res.clearCookie("refreshToken");
+};
+
+const readSession = async (sessionId: string) => {
+  const session = await redis.hgetall(sessionKey(sessionId));
+  return session.userId ? (session as unknown as StoredSession) : null;
+};
+
+/**
+ * Opens a session for this device, signs its tokens and sets them as
+ * cookies. Call only once every login step has passed.
+ */
+export const startSession = async (req: Request, res: Response, user: User) => {
+  const sessionId = crypto.randomUUID();
+  const { accessToken, refreshToken } = signTokens(user, sessionId, 0);
+  const userAgent = req.get("user-agent") ?? "";
+  const now = new Date().toISOString();
+
+  const session: StoredSession = {
+    userId: user.id,
+    refreshGeneration: "0",
+    refreshTokenHash: hashToken(refreshToken),
+    device: describeDevice(userAgent),
+    userAgent,
+    ip: req.ip ?? "",
+    createdAt: now,
+    lastSeenAt: now,
+  };
+
+  await redis
+    .multi()
+    .hset(sessionKey(sessionId), session as unknown as Record<string, string>)
+    .expire(sessionKey(sessionId), REFRESH_TTL_SECONDS)
+    .sadd(userSessionsKey(user.id), sessionId)
+    .exec();
+
+  setAuthCookies(res, accessToken, refreshToken);
+  return sessionId;
+};
+
+/**
+ * Swaps a refresh token for a new access / refresh pair. A refresh token
+ * that was already swapped means it was copied, so the session is ended
+ * for whoever holds it.
+ */
+export const rotateSession = async (req: Request, res: Response, refreshToken: string) => {
+  let decoded: CustomJwtPayload;
+  try {
+    decoded = jwt.verify(refreshToken, getJwtSecret()) as CustomJwtPayload;
+  } catch (error: any) {
+    clearAuthCookies(res);
+    if (error.name === "TokenExpiredError") {
+      const expired = jwt.decode(refreshToken) as CustomJwtPayload | null;
+      if (expired?.sid) await revokeSession(expired.sid);
+      throw new ApiError(401, "Session expired. Please login again.");
+    }
+    throw new ApiError(401, "Invalid refresh token");
+  }
+
+  const session = decoded.sid ? await readSession(decoded.sid) : null;
+  if (!decoded.sid || !session || session.userId !== decoded.userId) {
+    clearAuthCookies(res);
+    throw new ApiError(401, "Invalid or expired refresh token. Please login again.");
+  }
+
+  const tokenHash = hashToken(refreshToken);
+  const justRotated =
+    tokenHash === session.previousTokenHash &&
+    Date.now() - new Date(session.rotatedAt ?? 0).getTime() < ROTATION_GRACE_MS;
+
+  if (justRotated) {
+    throw new ApiError(409, "Session was refreshed by another request, please retry");
+  }
+
+  if (String(decoded.gen) !== session.refreshGeneration || tokenHash !== session.refreshTokenHash) {
+    logger.warn("Refresh token reuse detected, ending session", { userId: session.userId, sessionId: decoded.sid });
+    await revokeSession(decoded.sid);
+    clearAuthCookies(res);
+    throw new ApiError(401, "Invalid or expired refresh token. Please login again.");
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: decoded.userId } });
+  if (!user) {
+    await revokeSession(decoded.sid);
+    clearAuthCookies(res);
+    throw new ApiError(404, "User not found");
+  }
+
+  const generation = Number(session.refreshGeneration) + 1;
+  const tokens = signTokens(user, decoded.sid, generation);
+
+  const rotated = await redis.eval(
+    ROTATE_SCRIPT,
+    1,
+    sessionKey(decoded.sid),
+    session.refreshGeneration,
+    String(generation),
+    hashToken(tokens.refreshToken),
+    new Date().toISOString(),
+    req.ip ?? "",
+    String(REFRESH_TTL_SECONDS)
+  );
+
+  // Two tabs refreshed with the same cookie; the other one won
+  if (rotated !== 1) {
+    throw new ApiError(409, "Session was refreshed by another request, please retry");
+  }
+
+  setAuthCookies(res, tokens.accessToken, tokens.refreshToken);
+  return { user, expiresIn: ACCESS_TTL_SECONDS };
+};
+
+/**
+ * Whether the token's session is still open. Tokens from before sessions
+ * carry no session id and are refused. Refreshes lastSeenAt on the way.
+ */
+export const isSessionActive = async (decoded: CustomJwtPayload, ip?: string) => {
+  if (!decoded.sid) return false;
+
+  const session = await readSession(decoded.sid);
+  if (!session || session.userId !== decoded.userId) return false;
+
+  const now = Date.now();
+  if (now - new Date(session.lastSeenAt).getTime() > LAST_SEEN_INTERVAL_MS) {
+    await redis.eval(TOUCH_SCRIPT, 1, sessionKey(decoded.sid), new Date(now).toISOString(), ip ?? session.ip);
+  }
+  return true;
+};
+
+/**
+ * The user's open sessions, most recently used first.
+ */
+export const listSessions = async (userId: string, currentSessionId?: string) => {
+  const sessionIds = await redis.smembers(userSessionsKey(userId));
+  const sessions = [];
+
+  for (const sessionId of sessionIds) {
+    const session = await readSession(sessionId);
+    if (!session) {
+      // Expired on its own; drop it from the index
+      await redis.srem(userSessionsKey(userId), sessionId);
+      continue;
+    }
+
+    sessions.push({
+      id: sessionId,
+      device: session.device,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      current: sessionId === currentSessionId,
+    });
+  }
+
+  return sessions.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+};
+
+/**
+ * Ends a session: its tokens stop working and its sockets are dropped.
+ * With `userId`, only ends it if it belongs to that user.
+ */
+export const revokeSession = async (sessionId: string, userId?: string) => {
+  const session = await readSession(sessionId);
+  if (!session || (userId && session.userId !== userId)) return false;
+
+  await redis.multi().del(sessionKey(sessionId)).srem(userSessionsKey(session.userId), sessionId).exec();
+
+  // Not set up in workers
+  io?.in(`session:${sessionId}`).disconnectSockets(true);
+  return true;
+};
+
+/**
+ * Ends every session of the user, except `exceptSessionId` if given.
+ * Returns how many ended.
+ */
+export const revokeUserSessions = async (userId: string, exceptSessionId?: string) => {
+  const sessionIds = await redis.smembers(userSessionsKey(userId));
+
+  let revoked = 0;
+  for (const sessionId of sessionIds) {
+    if (sessionId === exceptSessionId) continue;
+    if (await revokeSession(sessionId, userId)) revoked += 1;
+    else await redis.srem(userSessionsKey(userId), sessionId);
+  }
+  return revoked;
+};
+
+/**
+ * What the login endpoints return about the signed-in user.
+ */
+export const toLoginResponse = (user: User) => ({
+  userId: user.id,
+  name: user.name,
+  email: user.email,
+  address: user.address,
+  role: user.role,
+});
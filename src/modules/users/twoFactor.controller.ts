@@ -0,0 +1,192 @@
+import { NextFunction, Request, Response } from "express";
+import prisma from "../../config/prismaClient";
+import { asyncHandler } from "../../utils/asyncHandler";
+import { ApiError } from "../../utils/ApiError";
+import { startSession, toLoginResponse } from "./session.service";
+import {
+  beginChallengeSetup,
+  beginTwoFactorSetup,
+  completeLoginChallenge,
+  confirmTwoFactorSetup,
+  disableTwoFactor as turnOffTwoFactor,
+  getTwoFactorStatus as loadTwoFactorStatus,
+  regenerateRecoveryCodes as replaceRecoveryCodes,
+  resetTwoFactor as clearTwoFactor,
+} from "./twoFactor.service";
+import {
+  CompleteTwoFactorLoginDTO,
+  DisableTwoFactorDTO,
+  TwoFactorChallengeDTO,
+  TwoFactorCodeDTO,
+} from "./DTOs/twoFactor.dtos";
+
+/**
+ * POST /users/login/2fa
+ * Second sign-in step: a code from the app, or a recovery code
+ */
+export const completeTwoFactorLogin = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { challengeId, code, recoveryCode } = req.body as CompleteTwoFactorLoginDTO;
+
+    const { user, recoveryCodes } = await completeLoginChallenge(challengeId, { code, recoveryCode });
+
+    await startSession(req, res, user);
+
+    res.status(200).json({
+      success: true,
+      message: recoveryCodes
+        ? "Two-factor authentication enabled. Store your recovery codes somewhere safe."
+        : "You are now logged-in",
+      data: { ...toLoginResponse(user), ...(recoveryCodes && { recoveryCodes }) },
+    });
+  }
+);
+
+/**
+ * POST /users/login/2fa/setup
+ * Enrollment for staff who must have 2FA but have not set it up yet
+ */
+export const setupTwoFactorLogin = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { challengeId } = req.body as TwoFactorChallengeDTO;
+
+    const setup = await beginChallengeSetup(challengeId);
+
+    res.status(200).json({
+      success: true,
+      message: "Scan the QR code, then sign in with a code from the app",
+      data: setup,
+    });
+  }
+);
+
+/**
+ * GET /users/me/2fa
+ */
+export const getTwoFactorStatus = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const status = await loadTwoFactorStatus(userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor status fetched successfully",
+      data: status,
+    });
+  }
+);
+
+/**
+ * POST /users/me/2fa/setup
+ */
+export const setupTwoFactor = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const setup = await beginTwoFactorSetup(userId);
+
+    res.status(200).json({
+      success: true,
+      message: "Scan the QR code, then confirm with a code from the app",
+      data: setup,
+    });
+  }
+);
+
+/**
+ * POST /users/me/2fa/enable
+ */
+export const enableTwoFactor = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+    const { code } = req.body as TwoFactorCodeDTO;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const recoveryCodes = await confirmTwoFactorSetup(userId, code);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication enabled. Store your recovery codes somewhere safe.",
+      data: { recoveryCodes },
+    });
+  }
+);
+
+/**
+ * POST /users/me/2fa/disable
+ */
+export const disableTwoFactor = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+    const { password, code } = req.body as DisableTwoFactorDTO;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    await turnOffTwoFactor(userId, password, code);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication disabled",
+    });
+  }
+);
+
+/**
+ * POST /users/me/2fa/recovery-codes
+ * Replaces every recovery code; the old ones stop working
+ */
+export const regenerateRecoveryCodes = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const userId = req.user?.userId;
+    const { code } = req.body as TwoFactorCodeDTO;
+
+    if (!userId) {
+      throw new ApiError(401, "Unauthorized");
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(userId, code);
+
+    res.status(200).json({
+      success: true,
+      message: "New recovery codes generated",
+      data: { recoveryCodes },
+    });
+  }
+);
+
+/**
+ * DELETE /users/:id/2fa
+ * For a user who lost both their authenticator and recovery codes
+ */
+export const resetUserTwoFactor = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+
+    if (!user) {
+      throw new ApiError(404, "User not found");
+    }
+
+    await clearTwoFactor(id);
+
+    res.status(200).json({
+      success: true,
+      message: "Two-factor authentication reset",
+    });
+  }
+);
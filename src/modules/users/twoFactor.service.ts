@@ -0,0 +1,357 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { Prisma, Role, User } from "@prisma/client";
+import prisma from "../../config/prismaClient";
+import redis from "../../config/redis";
+import { ApiError } from "../../utils/ApiError";
+import { base32Encode, buildOtpauthUri, generateTotpSecret, verifyTotp } from "../../utils/totp";
+
+// A sign-in must finish its second step within this
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+
+// A started enrollment must be confirmed within this
+const SETUP_TTL_SECONDS = 10 * 60;
+
+// Wrong codes allowed per challenge before the password is asked for again
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+const RECOVERY_CODE_COUNT = 10;
+
+interface LoginChallenge {
+  userId: string;
+  attempts: number;
+  // Secret being enrolled by an account that must have 2FA but has none yet
+  setupSecret?: string;
+}
+
+const challengeKey = (challengeId: string) => `twoFactorChallenge:${challengeId}`;
+const setupKey = (userId: string) => `twoFactorSetup:${userId}`;
+
+const getIssuer = () => process.env.TWO_FACTOR_ISSUER || "NeckRest";
+
+/**
+ * ADMIN and COORDINATOR accounts must use 2FA; for residents it is optional.
+ */
+export const isTwoFactorRequired = (role: Role) => role === Role.ADMIN || role === Role.COORDINATOR;
+
+export const isTwoFactorEnabled = (user: Pick<User, "twoFactorEnabledAt">) => Boolean(user.twoFactorEnabledAt);
+
+/* ================= SECRETS ================= */
+
+const getEncryptionKey = () => {
+  const secret = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new ApiError(500, "TWO_FACTOR_ENCRYPTION_KEY is missing");
+  }
+  return crypto.createHash("sha256").update(secret).digest();
+};
+
+// Stored as iv.tag.ciphertext, each base64
+const encryptSecret = (secret: string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), data].map((part) => part.toString("base64")).join(".");
+};
+
+const decryptSecret = (stored: string) => {
+  const [iv, tag, data] = stored.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+};
+
+/* ================= RECOVERY CODES ================= */
+
+const normalizeRecoveryCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+const hashRecoveryCode = (userId: string, code: string) =>
+  crypto.createHash("sha256").update(`${userId}:${normalizeRecoveryCode(code)}`).digest("hex");
+
+/**
+ * Replaces the user's recovery codes and returns the new ones. They are
+ * shown once; only hashes are kept.
+ */
+const replaceRecoveryCodes = async (tx: Prisma.TransactionClient, userId: string) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(5));
+    return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+  });
+
+  await tx.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+  await tx.twoFactorRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(userId, code) })),
+  });
+
+  return codes;
+};
+
+const redeemRecoveryCode = async (userId: string, code: string) => {
+  const claimed = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(userId, code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return claimed.count > 0;
+};
+
+/* ================= CODES ================= */
+
+/**
+ * Checks a code against the user's enrolled secret and records its step,
+ * so the same code cannot be used again.
+ */
+const acceptTotp = async (user: User, code: string) => {
+  if (!user.twoFactorSecret) return false;
+
+  const step = verifyTotp(decryptSecret(user.twoFactorSecret), code);
+  if (step === null) return false;
+
+  // Claimed atomically; a replayed or concurrent code loses
+  const claimed = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+    },
+    data: { twoFactorLastStep: step },
+  });
+  return claimed.count > 0;
+};
+
+const enableTwoFactor = async (userId: string, secret: string, step: number) =>
+  prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorSecret: encryptSecret(secret),
+        twoFactorEnabledAt: new Date(),
+        twoFactorLastStep: step,
+      },
+    });
+    return replaceRecoveryCodes(tx, userId);
+  });
+
+const findUserOrThrow = async (userId: string) => {
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    throw new ApiError(404, "User not found");
+  }
+  return user;
+};
+
+/* ================= ENROLLMENT ================= */
+
+export const getTwoFactorStatus = async (userId: string) => {
+  const user = await findUserOrThrow(userId);
+  const recoveryCodesRemaining = await prisma.twoFactorRecoveryCode.count({
+    where: { userId, usedAt: null },
+  });
+
+  return {
+    enabled: isTwoFactorEnabled(user),
+    enabledAt: user.twoFactorEnabledAt,
+    required: isTwoFactorRequired(user.role),
+    recoveryCodesRemaining,
+  };
+};
+
+/**
+ * Starts enrollment: a new secret and the otpauth:// URI to show as a QR
+ * code. Nothing changes until the first code is confirmed.
+ */
+export const beginTwoFactorSetup = async (userId: string) => {
+  const user = await findUserOrThrow(userId);
+
+  if (isTwoFactorEnabled(user)) {
+    throw new ApiError(409, "Two-factor authentication is already enabled");
+  }
+
+  const secret = generateTotpSecret();
+  await redis.setex(setupKey(userId), SETUP_TTL_SECONDS, secret);
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri({ secret, accountName: user.email, issuer: getIssuer() }),
+    expiresIn: SETUP_TTL_SECONDS,
+  };
+};
+
+/**
+ * Confirms enrollment with a code from the app. Returns the recovery codes.
+ */
+export const confirmTwoFactorSetup = async (userId: string, code: string) => {
+  const secret = await redis.get(setupKey(userId));
+  if (!secret) {
+    throw new ApiError(400, "Two-factor setup has expired, please start again");
+  }
+
+  const step = verifyTotp(secret, code);
+  if (step === null) {
+    throw new ApiError(400, "Invalid authentication code");
+  }
+
+  const recoveryCodes = await enableTwoFactor(userId, secret, step);
+  await redis.del(setupKey(userId));
+
+  return recoveryCodes;
+};
+
+/**
+ * Turns 2FA off for accounts the policy leaves it optional for.
+ */
+export const disableTwoFactor = async (userId: string, password: string, code: string) => {
+  const user = await findUserOrThrow(userId);
+
+  if (isTwoFactorRequired(user.role)) {
+    throw new ApiError(403, "Two-factor authentication is mandatory for staff accounts");
+  }
+
+  if (!isTwoFactorEnabled(user)) {
+    throw new ApiError(409, "Two-factor authentication is not enabled");
+  }
+
+  if (!(await bcrypt.compare(password, user.password))) {
+    throw new ApiError(400, "Invalid credentials, Wrong Password");
+  }
+
+  if (!(await acceptTotp(user, code))) {
+    throw new ApiError(400, "Invalid authentication code");
+  }
+
+  await resetTwoFactor(userId);
+};
+
+export const regenerateRecoveryCodes = async (userId: string, code: string) => {
+  const user = await findUserOrThrow(userId);
+
+  if (!isTwoFactorEnabled(user)) {
+    throw new ApiError(409, "Two-factor authentication is not enabled");
+  }
+
+  if (!(await acceptTotp(user, code))) {
+    throw new ApiError(400, "Invalid authentication code");
+  }
+
+  return prisma.$transaction((tx) => replaceRecoveryCodes(tx, userId));
+};
+
+/**
+ * Removes the secret and recovery codes. Staff accounts enroll again at
+ * their next sign-in.
+ */
+export const resetTwoFactor = async (userId: string) => {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: null, twoFactorEnabledAt: null, twoFactorLastStep: null },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+};
+
+/* ================= SIGN-IN CHALLENGE ================= */
+
+/**
+ * Parks a sign-in that passed the password check until the second step.
+ */
+export const createLoginChallenge = async (user: User) => {
+  const challengeId = crypto.randomBytes(32).toString("hex");
+  const challenge: LoginChallenge = { userId: user.id, attempts: 0 };
+
+  await redis.setex(challengeKey(challengeId), CHALLENGE_TTL_SECONDS, JSON.stringify(challenge));
+
+  return {
+    challengeId,
+    // Staff without 2FA must enroll before they get a session
+    enrollmentRequired: !isTwoFactorEnabled(user),
+    expiresIn: CHALLENGE_TTL_SECONDS,
+  };
+};
+
+const loadChallenge = async (challengeId: string) => {
+  const raw = await redis.get(challengeKey(challengeId));
+  if (!raw) {
+    throw new ApiError(401, "Sign-in has expired, please log in again");
+  }
+  return JSON.parse(raw) as LoginChallenge;
+};
+
+const saveChallenge = async (challengeId: string, challenge: LoginChallenge) => {
+  await redis.set(challengeKey(challengeId), JSON.stringify(challenge), "KEEPTTL");
+};
+
+/**
+ * Enrollment during sign-in, for staff who have no 2FA yet.
+ */
+export const beginChallengeSetup = async (challengeId: string) => {
+  const challenge = await loadChallenge(challengeId);
+  const user = await findUserOrThrow(challenge.userId);
+
+  if (isTwoFactorEnabled(user)) {
+    throw new ApiError(409, "Two-factor authentication is already enabled");
+  }
+
+  challenge.setupSecret ??= generateTotpSecret();
+  await saveChallenge(challengeId, challenge);
+
+  return {
+    secret: challenge.setupSecret,
+    otpauthUri: buildOtpauthUri({ secret: challenge.setupSecret, accountName: user.email, issuer: getIssuer() }),
+  };
+};
+
+/**
+ * Finishes a sign-in with an authenticator or recovery code. Returns the
+ * user to start a session for, plus recovery codes when this sign-in
+ * enrolled the account.
+ */
+export const completeLoginChallenge = async (
+  challengeId: string,
+  { code, recoveryCode }: { code?: string; recoveryCode?: string }
+) => {
+  const challenge = await loadChallenge(challengeId);
+  const user = await prisma.user.findUnique({ where: { id: challenge.userId } });
+
+  if (!user) {
+    await redis.del(challengeKey(challengeId));
+    throw new ApiError(401, "Sign-in has expired, please log in again");
+  }
+
+  let passed = false;
+  let recoveryCodes: string[] | undefined;
+
+  if (!isTwoFactorEnabled(user)) {
+    if (!challenge.setupSecret || !code) {
+      throw new ApiError(400, "Set up an authenticator app to continue");
+    }
+
+    const step = verifyTotp(challenge.setupSecret, code);
+    if (step !== null) {
+      recoveryCodes = await enableTwoFactor(user.id, challenge.setupSecret, step);
+      passed = true;
+    }
+  } else if (code) {
+    passed = await acceptTotp(user, code);
+  } else if (recoveryCode) {
+    passed = await redeemRecoveryCode(user.id, recoveryCode);
+  }
+
+  if (!passed) {
+    challenge.attempts += 1;
+    if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+      await redis.del(challengeKey(challengeId));
+      throw new ApiError(401, "Too many invalid codes, please log in again");
+    }
+
+    await saveChallenge(challengeId, challenge);
+    throw new ApiError(400, "Invalid authentication code");
+  }
+
+  // A challenge gets one session, even when two requests pass at once
+  if ((await redis.del(challengeKey(challengeId))) === 0) {
+    throw new ApiError(401, "Sign-in has expired, please log in again");
+  }
+
+  return { user, recoveryCodes };
+};
@@ -12,6 +12,9 @@ import { asyncHandler } from "../../utils/asyncHandler";
 import { ApiError } from "../../utils/ApiError";
 import { tr } from "zod/v4/locales";
 import { publishToQueue } from "../../utils/rabit/rabit.publisher";
+import { clearAuthCookies, revokeSession, revokeUserSessions, rotateSession, startSession, toLoginResponse } from "./session.service";
+import { createLoginChallenge, isTwoFactorEnabled, isTwoFactorRequired } from "./twoFactor.service";
+import { normalizePhone } from "../../utils/phone";
 
 const adminEmails = process.env.ADMIN_EMAILS?.split(",") || [];
 const coordinatorEmails = process.env.COORDINATOR_EMAILS?.split(",") || [];
@@ -233,66 +236,26 @@ export const loginUser = asyncHandler(async (
     throw new ApiError(400, "Invalid credentials, Wrong Password");
   }
 
-  // Generate JWT Tokens
-  if (!process.env.JWT_SECRET) {
-    throw new ApiError(500, "JWT_SECRET is missing");
-  }
+  // Second step before any token is issued; mandatory for staff
+  if (isTwoFactorEnabled(user) || isTwoFactorRequired(user.role)) {
+    const challenge = await createLoginChallenge(user);
 
-  // Access Token (1 hour expiration)
-  const accessToken = jwt.sign(
-    {
-      userId: user.id,
-    username: user.name,
-    email: user.email,
-    role: user.role,
-  },
-  process.env.JWT_SECRET!,
-  { expiresIn: "1hr" }
-);
-
-    // Refresh Token (1 day expiration)
-    const refreshToken = jwt.sign(
-  {
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-  },
-  process.env.JWT_SECRET!,
-  { expiresIn: "1d" }
-);
-
-    console.log("✅ Access Token generated:", accessToken.substring(0, 20) + "...");
-    console.log("✅ Refresh Token generated:", refreshToken.substring(0, 20) + "...");
-
-    // Set Access Token in HTTP-only cookie (1 hour)
-    res.cookie("accessToken", accessToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
-      maxAge: 60 * 60 * 1000 , // 1 hour
+    res.status(200).json({
+      success: true,
+      message: challenge.enrollmentRequired
+        ? "Set up two-factor authentication to continue"
+        : "Enter the code from your authenticator app",
+      data: { twoFactorRequired: true, ...challenge },
     });
+    return;
+  }
 
-    // Set Refresh Token in HTTP-only cookie (1 day)
-    res.cookie("refreshToken", refreshToken, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
-      maxAge: 24 * 60 * 60 * 1000, // 1 day
-    });
+  await startSession(req, res, user);
 
-  // Also store refresh token in Redis for validation (1 day)
-  await redis.setex(`refreshToken:${user.id}`, 24 * 60 * 60, refreshToken);
-  console.log("✅ Cookies set successfully");
   res.status(200).json({
     success: true,
     message: "You are now logged-in",
-    data: {
-      userId: user.id,
-      name: user.name,
-      email: user.email,
-      address: user.address,
-      role: user.role,
-    },
+    data: toLoginResponse(user),
   });
 });
 
@@ -396,6 +359,7 @@ export const getSingleUser = asyncHandler(async (
       name: true,
       email: true,
       phone: true,
+      phoneVerifiedAt: true,
       role: true,
       address: true,
       isVerified: true,
@@ -432,7 +396,15 @@ export const updateUser = asyncHandler(async (
   const updateData: any = {};
 
   if (name !== undefined) updateData.name = name;
-  if (phone !== undefined) updateData.phone = phone;
+  if (phone !== undefined) {
+    const current = await prisma.user.findUnique({ where: { id }, select: { phone: true } });
+
+    // A new number has to be verified again; the same one in another format is left alone
+    if (normalizePhone(phone) !== normalizePhone(current?.phone ?? "")) {
+      updateData.phone = phone;
+      updateData.phoneVerifiedAt = null;
+    }
+  }
   if (address !== undefined) updateData.address = address;
 
   // 🔥 Only ADMIN can change these
@@ -449,6 +421,7 @@ export const updateUser = asyncHandler(async (
       name: true,
       email: true,
       phone: true,
+      phoneVerifiedAt: true,
       address: true,
       role: true,
       isVerified: true,
@@ -484,10 +457,21 @@ export const deleteUser = asyncHandler(async (
     throw new ApiError(404, "User not found");
   }
 
+  // Their orders go with them, and issued invoices and receipts must be kept
+  const billingDocuments = await prisma.billingDocument.count({
+    where: { bookingOrder: { userId: id } },
+  });
+  if (billingDocuments > 0) {
+    throw new ApiError(409, "Users with issued invoices or receipts cannot be deleted");
+  }
+
   await prisma.user.delete({
     where: { id },
   });
 
+  // Tokens already handed out would otherwise work until they expire
+  await revokeUserSessions(id);
+
   res.status(200).json({
     success: true,
     message: "User deleted successfully",
@@ -635,6 +619,9 @@ export const resetPassword = asyncHandler(async (
   // Delete reset token from Redis
   await redis.del(`reset:${email}`);
 
+  // Whoever knew the old password is signed out everywhere
+  await revokeUserSessions(user.id);
+
   res.status(200).json({
     success: true,
     message: "Password has been reset successfully. Please login with your new password.",
@@ -655,60 +642,13 @@ export const refreshAccessToken = asyncHandler(async (
     throw new ApiError(401, "Refresh token is required");
   }
 
-  if (!process.env.JWT_SECRET) {
-    throw new ApiError(500, "JWT_SECRET is missing");
-  }
-
-  let decoded: any;
-  try {
-    decoded = jwt.verify(refreshToken, process.env.JWT_SECRET);
-  } catch (error: any) {
-    if (error.name === "TokenExpiredError") {
-      res.clearCookie("accessToken");
-      res.clearCookie("refreshToken");
-      await redis.del(`refreshToken:${error.decoded?.userId}`);
-      throw new ApiError(401, "Session expired. Please login again.");
-    }
-    throw new ApiError(401, "Invalid refresh token");
-  }
-
-  const user = await prisma.user.findUnique({
-    where: { id: decoded.userId },
-  });
-
-  if (!user) {
-    throw new ApiError(404, "User not found");
-  }
-
-  const storedRefreshToken = await redis.get(`refreshToken:${user.id}`);
-  if (!storedRefreshToken || storedRefreshToken !== refreshToken) {
-    res.clearCookie("accessToken");
-    res.clearCookie("refreshToken");
-    throw new ApiError(401, "Invalid or expired refresh token. Please login again.");
-  }
-
-  const newAccessToken = jwt.sign(
-    {
-      userId: user.id,
-      username: user.name,
-      email: user.email,
-      role: user.role,
-    },
-    process.env.JWT_SECRET,
-    { expiresIn: "1h" }
-  );
-
-  res.cookie("accessToken", newAccessToken, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === "production",
-    sameSite: process.env.NODE_ENV === "production" ? "strict" : "lax",
-    maxAge: 60 * 60 * 1000,
-  });
+  // Issues a new refresh token too; the one sent can not be used again
+  const { user, expiresIn } = await rotateSession(req, res, refreshToken);
 
   res.status(200).json({
     success: true,
     message: "Access token refreshed successfully",
-    data: { userId: user.id, expiresIn: 3600 },
+    data: { userId: user.id, expiresIn },
   });
 });
 
@@ -721,16 +661,15 @@ export const logoutUser = asyncHandler(async (
   res: Response,
   next: NextFunction
 ): Promise<void> => {
-  const userId = req.user?.userId;
+  const sessionId = req.user?.sessionId;
 
-  if (userId) {
-    // Delete refresh token from Redis
-    await redis.del(`refreshToken:${userId}`);
+  if (sessionId) {
+    // Ends this device's session only; other devices stay signed in
+    await revokeSession(sessionId);
   }
 
   // Clear cookies
-  res.clearCookie("accessToken");
-  res.clearCookie("refreshToken");
+  clearAuthCookies(res);
   res.clearCookie("token"); // Clear old token cookie if exists
 
   res.status(200).json({
@@ -4,6 +4,25 @@ import authenticateUser from "../../middlewares/auth.middleware"
 import authenticateUserWithRole from "../../middlewares/role.middleware"
 import { validate } from "../../middlewares/validate.middleware"
 import { RegisterUserSchema, LoginSchema, updateSchema } from "./DTOs/userRegister.dtos"
+import {
+  completeTwoFactorLogin,
+  setupTwoFactorLogin,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  resetUserTwoFactor,
+} from "./twoFactor.controller"
+import { getPhoneStatus, sendPhoneCode, verifyPhone, sendLoginCode, loginWithCode } from "./phoneVerification.controller"
+import { getMySessions, revokeMySession, revokeMyOtherSessions, revokeAllUserSessions } from "./session.controller"
+import {
+  completeTwoFactorLoginSchema,
+  disableTwoFactorSchema,
+  twoFactorChallengeSchema,
+  twoFactorCodeSchema,
+} from "./DTOs/twoFactor.dtos"
+import { otpLoginSchema, sendLoginCodeSchema, sendPhoneCodeSchema, verifyPhoneSchema } from "./DTOs/phone.dtos"
 
 const router = express.Router();
 
@@ -14,6 +33,10 @@ const router = express.Router();
 // Public routes - no authentication required
 router.post("/register", validate(RegisterUserSchema), registerUser);
 router.post("/login", validate(LoginSchema), loginUser);
+router.post("/login/2fa", validate(completeTwoFactorLoginSchema), completeTwoFactorLogin);
+router.post("/login/2fa/setup", validate(twoFactorChallengeSchema), setupTwoFactorLogin);
+router.post("/login/otp/send", validate(sendLoginCodeSchema), sendLoginCode);
+router.post("/login/otp/verify", validate(otpLoginSchema), loginWithCode);
 router.post("/refresh-token", refreshAccessToken);
 router.post("/resendEmail", resendVerifyEmail);
 router.post("/forgotPassword", forgotPassword);
@@ -21,6 +44,41 @@ router.post("/resetPassword", resetPassword);
 router.get("/verifyEmail", verifyEmail);
 router.get("/verifyResetToken", verifyResetToken);
 
+/**
+ * Session Routes
+ */
+
+// Own sessions - authenticated users
+router.get("/me/sessions", authenticateUser, getMySessions);
+router.delete("/me/sessions", authenticateUser, revokeMyOtherSessions);
+router.delete("/me/sessions/:sessionId", authenticateUser, revokeMySession);
+
+// Forced logout - ADMIN only
+router.delete("/:id/sessions", authenticateUserWithRole(["ADMIN"]), revokeAllUserSessions);
+
+/**
+ * Phone Verification Routes
+ */
+
+// Own phone - authenticated users
+router.get("/me/phone", authenticateUser, getPhoneStatus);
+router.post("/me/phone/send-code", authenticateUser, validate(sendPhoneCodeSchema), sendPhoneCode);
+router.post("/me/phone/verify", authenticateUser, validate(verifyPhoneSchema), verifyPhone);
+
+/**
+ * Two-Factor Authentication Routes
+ */
+
+// Own 2FA settings - authenticated users
+router.get("/me/2fa", authenticateUser, getTwoFactorStatus);
+router.post("/me/2fa/setup", authenticateUser, setupTwoFactor);
+router.post("/me/2fa/enable", authenticateUser, validate(twoFactorCodeSchema), enableTwoFactor);
+router.post("/me/2fa/disable", authenticateUser, validate(disableTwoFactorSchema), disableTwoFactor);
+router.post("/me/2fa/recovery-codes", authenticateUser, validate(twoFactorCodeSchema), regenerateRecoveryCodes);
+
+// Reset a locked-out user's 2FA - ADMIN only
+router.delete("/:id/2fa", authenticateUserWithRole(["ADMIN"]), resetUserTwoFactor);
+
 /**
  * User Management Routes
  */
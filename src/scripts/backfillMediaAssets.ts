@@ -0,0 +1,95 @@
+import "dotenv/config";
+import prisma from "../config/prismaClient";
+import { legacyUrlToKey } from "../modules/media/media.service";
+import { logger } from "../utils/logger";
+import { contentTypeForKey } from "../utils/storage/storage.driver";
+import { getMediaStorage } from "../utils/storage/storage.factory";
+
+/**
+ * Links room images and videos uploaded before MediaAsset to an asset for
+ * the file behind their old URL. A row is only linked once storage confirms
+ * the file is there; the rest are logged and left as they are. Safe to run
+ * again: linked rows are skipped.
+ *
+ *   npm run build && npm run media:backfill
+ */
+type MediaKind = "RoomImage" | "RoomVideo";
+
+const findUnlinked = (kind: MediaKind) => {
+  const query = {
+    where: { assetId: null, url: { not: null } },
+    select: { id: true, url: true, createdAt: true },
+    orderBy: { createdAt: "asc" as const },
+  };
+  return kind === "RoomImage" ? prisma.roomImage.findMany(query) : prisma.roomVideo.findMany(query);
+};
+
+const backfill = async (kind: MediaKind) => {
+  const storage = getMediaStorage();
+  const rows = await findUnlinked(kind);
+  let linked = 0;
+  let unresolved = 0;
+
+  for (const row of rows) {
+    const key = legacyUrlToKey(row.url!);
+    const stored = key ? await storage.head(key) : null;
+
+    if (!key || !stored) {
+      logger.warn("Legacy media file not found in storage, left unlinked", {
+        kind,
+        id: row.id,
+        url: row.url,
+        // The logger hides fields named like "key"
+        storagePath: key,
+      });
+      unresolved += 1;
+      continue;
+    }
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        const asset = await tx.mediaAsset.create({
+          data: {
+            key,
+            mimeType: stored.contentType ?? contentTypeForKey(key),
+            size: stored.size,
+            // Multipart ETags ("<hash>-<parts>") are not an MD5 of the content
+            checksum: stored.etag && !stored.etag.includes("-") ? stored.etag : null,
+            createdAt: row.createdAt,
+          },
+        });
+
+        if (kind === "RoomImage") {
+          await tx.roomImage.update({ where: { id: row.id }, data: { assetId: asset.id } });
+        } else {
+          await tx.roomVideo.update({ where: { id: row.id }, data: { assetId: asset.id } });
+        }
+      });
+      linked += 1;
+    } catch (error) {
+      // e.g. two rows pointing at the same file
+      logger.error("Failed to link legacy media", {
+        kind,
+        id: row.id,
+        storagePath: key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      unresolved += 1;
+    }
+  }
+
+  return { found: rows.length, linked, unresolved };
+};
+
+const main = async () => {
+  const images = await backfill("RoomImage");
+  const videos = await backfill("RoomVideo");
+  logger.info("Legacy media backfill finished", { images, videos });
+};
+
+main()
+  .catch((error) => {
+    logger.error("Legacy media backfill failed", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -2,6 +2,15 @@ import http from "http";
 import app from "./app";
 import { initSocketServer } from "./config/socket.server";
 import { startNotificationWorker } from "./utils/notificationWorker";
+import { startOrderExpiryWorker } from "./utils/orderExpiryWorker";
+import { startReconciliationWorker } from "./utils/reconciliationWorker";
+import { startInstallmentWorker } from "./utils/installmentWorker";
+import { startRentInvoiceWorker } from "./utils/rentInvoiceWorker";
+import { startMaintenanceWorker } from "./utils/maintenanceWorker";
+import { startNoShowWorker } from "./utils/noShowWorker";
+import { startKycExpiryWorker } from "./utils/kycExpiryWorker";
+import { startMediaProcessingWorker } from "./utils/mediaProcessingWorker";
+import { startMediaGcWorker } from "./utils/mediaGcWorker";
 import { logger } from "./utils/logger";
 import { connectRabbit } from "./config/rabitmq";
 
@@ -21,6 +30,33 @@ const server = http.createServer(app);
     await initSocketServer(server);
     logger.success("Socket server initialized");
 
+    startOrderExpiryWorker();
+    logger.success("Order expiry worker started");
+
+    startReconciliationWorker();
+    logger.success("Payment reconciliation worker started");
+
+    startInstallmentWorker();
+    logger.success("Installment worker started");
+
+    startRentInvoiceWorker();
+    logger.success("Rent invoice worker started");
+
+    startMaintenanceWorker();
+    logger.success("Maintenance worker started");
+
+    startNoShowWorker();
+    logger.success("No-show worker started");
+
+    startKycExpiryWorker();
+    logger.success("KYC expiry worker started");
+
+    startMediaProcessingWorker();
+    logger.success("Media processing sweep started");
+
+    startMediaGcWorker();
+    logger.success("Media GC worker started");
+
     const PORT = process.env.PORT || 3000;
 
     server.listen(PORT, () => {
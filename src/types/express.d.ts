@@ -9,6 +9,7 @@ declare global {
         userId: string;
         role: Role;
         email: string;
+        sessionId?: string;
       };
     }
   }
@@ -5,5 +5,9 @@ export interface CustomJwtPayload extends JwtPayload {
   userId: string,
   email: string,
   role:Role
+  // Session the token was issued for
+  sid?: string
+  // Refresh tokens only: rotation count within the session
+  gen?: number
 
 }
\ No newline at end of file
@@ -1,4 +1,10 @@
 import { BookingStatus } from "@prisma/client";
+import {
+  SEAT_CONFIRMED_STATUSES,
+  SEAT_HOLDING_STATUSES,
+  assertSeatsAvailable,
+  refreshRoomSeatCounters,
+} from "../modules/rooms/room.service";
 
 export const syncRoomSeats = async ({
   tx,
@@ -6,65 +12,54 @@ export const syncRoomSeats = async ({
   seats,
   previousStatus,
   newStatus,
+  bookingId,
+  checkIn,
+  checkOut,
 }: {
   tx: any;
   roomId: string;
   seats: number;
   previousStatus: BookingStatus;
   newStatus: BookingStatus;
+  bookingId?: string;
+  checkIn?: Date;
+  checkOut?: Date | null;
 }) => {
-  const room = await tx.room.findUnique({
-    where: { id: roomId },
-    select: {
-      beds: true,
-      bookedSeats: true,
-      availableSeats: true,
-    },
-  });
-
-  if (!room) throw new Error("ROOM_NOT_FOUND");
-
-  const wasConfirmed =
-    previousStatus === "CONFIRMED" || previousStatus === "COMPLETED";
-
-  const isConfirmed =
-    newStatus === "CONFIRMED" || newStatus === "COMPLETED";
+  const wasHolding = SEAT_HOLDING_STATUSES.includes(previousStatus);
+  const isHolding = SEAT_HOLDING_STATUSES.includes(newStatus);
 
   /* =========================
-     LOCK SEATS (ON CONFIRM)
+     RE-CHECK CALENDAR (ON REACTIVATE)
+     A cancelled booking gave its seats back, so they may be taken by now.
   ========================== */
-  if (!wasConfirmed && isConfirmed) {
-    if (room.availableSeats < seats) {
-      throw new Error("ALL_SEATS_BOOKED");
-    }
-
-    const newBooked = room.bookedSeats + seats;
-    const newAvailable = room.beds - newBooked;
-
-    await tx.room.update({
-      where: { id: roomId },
-      data: {
-        bookedSeats: newBooked,
-        availableSeats: newAvailable,
-        status: newAvailable === 0 ? "BOOKED" : "AVAILABLE",
-      },
+  if (!wasHolding && isHolding && checkIn) {
+    const bedIds = await assertSeatsAvailable({
+      tx,
+      roomId,
+      seats,
+      checkIn,
+      checkOut,
+      excludeBookingIds: bookingId ? [bookingId] : [],
     });
+
+    // Its old beds may have gone to someone else meanwhile
+    if (bookingId) {
+      await tx.booking.update({
+        where: { id: bookingId },
+        data: { beds: { set: bedIds.map((id: string) => ({ id })) } },
+      });
+    }
   }
 
+  const wasConfirmed = SEAT_CONFIRMED_STATUSES.includes(previousStatus);
+  const isConfirmed = SEAT_CONFIRMED_STATUSES.includes(newStatus);
+
   /* =========================
-     RELEASE SEATS (ON CANCEL)
+     REFRESH COUNTERS (ON CONFIRM / CANCEL)
+     Counters are derived from today's paid bookings, so this must run
+     after the booking row itself has been updated.
   ========================== */
-  if (wasConfirmed && newStatus === "CANCELLED") {
-    const newBooked = Math.max(room.bookedSeats - seats, 0);
-    const newAvailable = room.beds - newBooked;
-
-    await tx.room.update({
-      where: { id: roomId },
-      data: {
-        bookedSeats: newBooked,
-        availableSeats: newAvailable,
-        status: "AVAILABLE",
-      },
-    });
+  if (wasConfirmed !== isConfirmed) {
+    await refreshRoomSeatCounters(tx, roomId);
   }
 };
@@ -0,0 +1,85 @@
+import { spawn } from "child_process";
+
+/**
+ * Thin wrappers over the ffmpeg / ffprobe binaries. Point FFMPEG_PATH and
+ * FFPROBE_PATH at them when they are not on the PATH.
+ */
+
+/**
+ * ffmpeg or ffprobe ran but could not handle the input (or was killed for
+ * taking too long). Running it again on the same file will not help.
+ */
+export class FfmpegError extends Error {}
+
+// A stuck encode is killed after this. Override with FFMPEG_TIMEOUT_MS.
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+
+const run = (command: string, args: string[]) =>
+  new Promise<string>((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    const timeoutMs = Number(process.env.FFMPEG_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+
+    let stdout = "";
+    let stderr = "";
+    child.stdout.on("data", (chunk) => (stdout += chunk));
+    // ffmpeg logs progress to stderr; keep the tail for error messages
+    child.stderr.on("data", (chunk) => (stderr = (stderr + chunk).slice(-4000)));
+
+    const timer = setTimeout(() => child.kill("SIGKILL"), timeoutMs);
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new FfmpegError(`${command} exited with ${signal ?? code}: ${stderr.trim().split("\n").pop()}`));
+      }
+    });
+  });
+
+export const runFfmpeg = (args: string[]) =>
+  run(process.env.FFMPEG_PATH || "ffmpeg", ["-hide_banner", "-loglevel", "error", "-y", ...args]);
+
+export interface VideoProbe {
+  durationSeconds: number;
+  width: number;
+  height: number;
+  hasAudio: boolean;
+}
+
+export const probeVideo = async (filePath: string): Promise<VideoProbe> => {
+  const output = await run(process.env.FFPROBE_PATH || "ffprobe", [
+    "-v",
+    "error",
+    "-print_format",
+    "json",
+    "-show_format",
+    "-show_streams",
+    filePath,
+  ]);
+
+  const { format, streams = [] } = JSON.parse(output);
+  const video = streams.find((stream: any) => stream.codec_type === "video");
+
+  if (!video) {
+    throw new FfmpegError("File has no video stream");
+  }
+
+  // Phones record portrait video as landscape plus a rotation flag
+  const rotation = Math.abs(
+    Number(video.tags?.rotate ?? video.side_data_list?.find((data: any) => data.rotation !== undefined)?.rotation ?? 0)
+  );
+  const sideways = rotation === 90 || rotation === 270;
+
+  return {
+    durationSeconds: Number(format?.duration ?? video.duration ?? 0),
+    width: sideways ? video.height : video.width,
+    height: sideways ? video.width : video.height,
+    hasAudio: streams.some((stream: any) => stream.codec_type === "audio"),
+  };
+};
@@ -0,0 +1,19 @@
+import {
+  markOverdueInstallments,
+  sendInstallmentReminders,
+} from "../modules/payments/services/payment-plan.service";
+import { createIntervalWorker } from "./intervalWorker";
+import { logger } from "./logger";
+
+export const { start: startInstallmentWorker, stop: stopInstallmentWorker } = createIntervalWorker({
+  name: "Installment",
+  intervalEnv: "INSTALLMENT_INTERVAL_MS",
+  defaultMs: 60 * 60 * 1000,
+  run: async () => {
+    const overdue = await markOverdueInstallments();
+    const reminded = await sendInstallmentReminders();
+    if (overdue > 0 || reminded > 0) {
+      logger.info("Installment run finished", { overdue, reminded });
+    }
+  },
+});
@@ -0,0 +1,51 @@
+import { logger } from "./logger";
+
+/**
+ * A background job run on a fixed interval inside the API process. The
+ * interval comes from `intervalEnv` (milliseconds), else `defaultMs`. It
+ * runs once on start, a tick is skipped instead of overlapping a slow run,
+ * and failures are logged, never thrown.
+ */
+export const createIntervalWorker = ({
+  name,
+  intervalEnv,
+  defaultMs,
+  run,
+}: {
+  name: string;
+  intervalEnv: string;
+  defaultMs: number;
+  run: () => Promise<void>;
+}) => {
+  let timer: NodeJS.Timeout | null = null;
+  let running = false;
+
+  const runOnce = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await run();
+    } catch (error) {
+      logger.error(`${name} run failed`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const start = () => {
+    if (timer) return;
+
+    const intervalMs = Number(process.env[intervalEnv]) || defaultMs;
+
+    timer = setInterval(runOnce, intervalMs);
+    void runOnce();
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  return { start, stop, runOnce };
+};
@@ -0,0 +1,15 @@
+import { expireKycDocuments } from "../modules/kyc/kyc.service";
+import { createIntervalWorker } from "./intervalWorker";
+import { logger } from "./logger";
+
+export const { start: startKycExpiryWorker, stop: stopKycExpiryWorker } = createIntervalWorker({
+  name: "KYC expiry",
+  intervalEnv: "KYC_EXPIRY_INTERVAL_MS",
+  defaultMs: 60 * 60 * 1000,
+  run: async () => {
+    const expired = await expireKycDocuments();
+    if (expired > 0) {
+      logger.info("KYC expiry run finished", { expired });
+    }
+  },
+});
@@ -0,0 +1,15 @@
+import { refreshRoomsForMaintenance } from "../modules/maintenance/maintenance.service";
+import { createIntervalWorker } from "./intervalWorker";
+import { logger } from "./logger";
+
+export const { start: startMaintenanceWorker, stop: stopMaintenanceWorker } = createIntervalWorker({
+  name: "Maintenance seat refresh",
+  intervalEnv: "MAINTENANCE_REFRESH_INTERVAL_MS",
+  defaultMs: 60 * 60 * 1000,
+  run: async () => {
+    const refreshed = await refreshRoomsForMaintenance();
+    if (refreshed > 0) {
+      logger.info("Maintenance seat refresh finished", { refreshed });
+    }
+  },
+});
@@ -0,0 +1,16 @@
+import { collectOrphanedMedia } from "../modules/media/mediaGc.service";
+import { createIntervalWorker } from "./intervalWorker";
+import { logger } from "./logger";
+
+export const { start: startMediaGcWorker, stop: stopMediaGcWorker } = createIntervalWorker({
+  name: "Media GC",
+  intervalEnv: "MEDIA_GC_INTERVAL_MS",
+  defaultMs: 6 * 60 * 60 * 1000,
+  run: async () => {
+    // MEDIA_GC_MODE decides how far it goes; by default it only reports
+    const { mode, scannedFiles, quarantined, released, due, deleted } = await collectOrphanedMedia();
+    if (quarantined > 0 || released > 0 || due > 0 || deleted > 0) {
+      logger.info("Media GC run finished", { mode, scannedFiles, quarantined, released, due, deleted });
+    }
+  },
+});
@@ -0,0 +1,17 @@
+import { requeueStalePendingImages } from "../modules/media/imageProcessing.service";
+import { requeueStalePendingVideos } from "../modules/media/videoProcessing.service";
+import { createIntervalWorker } from "./intervalWorker";
+import { logger } from "./logger";
+
+export const { start: startMediaProcessingWorker, stop: stopMediaProcessingWorker } = createIntervalWorker({
+  name: "Media processing sweep",
+  intervalEnv: "MEDIA_SWEEP_INTERVAL_MS",
+  defaultMs: 5 * 60 * 1000,
+  run: async () => {
+    const images = await requeueStalePendingImages();
+    const videos = await requeueStalePendingVideos();
+    if (images > 0 || videos > 0) {
+      logger.info("Requeued pending room media", { images, videos });
+    }
+  },
+});
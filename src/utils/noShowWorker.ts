@@ -0,0 +1,15 @@
+import { flagNoShows } from "../modules/bookings/booking.service";
+import { createIntervalWorker } from "./intervalWorker";
+import { logger } from "./logger";
+
+export const { start: startNoShowWorker, stop: stopNoShowWorker } = createIntervalWorker({
+  name: "No-show",
+  intervalEnv: "NO_SHOW_INTERVAL_MS",
+  defaultMs: 15 * 60 * 1000,
+  run: async () => {
+    const flagged = await flagNoShows();
+    if (flagged > 0) {
+      logger.info("No-show run finished", { flagged });
+    }
+  },
+});
@@ -1,8 +1,29 @@
 import { handleNotificationEvent } from "../modules/notifications/notification.service";
+import { handleReceiptEmailEvent } from "../modules/billing/billing.service";
+import { IMAGE_PROCESS_QUEUE, handleImageProcessingEvent } from "../modules/media/imageProcessing.service";
+import { VIDEO_TRANSCODE_QUEUE, handleVideoTranscodeEvent } from "../modules/media/videoProcessing.service";
 import { subscribeWithRetry } from "./rabit/rabbit.consumer";
 
 export const startNotificationWorker = async () => {
 
   await subscribeWithRetry("USER.EMAIL_VERIFIED", handleNotificationEvent);
   await subscribeWithRetry("ORDER.CREATED", handleNotificationEvent);
+  await subscribeWithRetry("ORDER.EXPIRED", handleNotificationEvent);
+  await subscribeWithRetry("ORDER.LATE_PAYMENT", handleNotificationEvent);
+  await subscribeWithRetry("REFUND.REQUESTED", handleNotificationEvent);
+  await subscribeWithRetry("REFUND.PROCESSED", handleNotificationEvent);
+  await subscribeWithRetry("REFUND.FAILED", handleNotificationEvent);
+  await subscribeWithRetry("REFUND.REJECTED", handleNotificationEvent);
+  await subscribeWithRetry("PAYMENT.RECONCILIATION_MISMATCH", handleNotificationEvent);
+  await subscribeWithRetry("PAYMENT.INSTALLMENT_REMINDER", handleNotificationEvent);
+  await subscribeWithRetry("PAYMENT.INSTALLMENT_OVERDUE", handleNotificationEvent);
+  await subscribeWithRetry("RENT.INVOICE_ISSUED", handleNotificationEvent);
+  await subscribeWithRetry("RENT.OVERDUE", handleNotificationEvent);
+  await subscribeWithRetry("BOOKING.NO_SHOW", handleNotificationEvent);
+  await subscribeWithRetry("KYC.REVIEWED", handleNotificationEvent);
+  await subscribeWithRetry("KYC.EXPIRED", handleNotificationEvent);
+  await subscribeWithRetry("PAYMENT.RECEIPT", handleReceiptEmailEvent);
+  await subscribeWithRetry(IMAGE_PROCESS_QUEUE, handleImageProcessingEvent);
+  // One encode at a time per worker; each can take minutes of CPU
+  await subscribeWithRetry(VIDEO_TRANSCODE_QUEUE, handleVideoTranscodeEvent, { prefetch: 1 });
 };
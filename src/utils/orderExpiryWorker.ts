@@ -0,0 +1,17 @@
+import { expireStaleOrders } from "../modules/bookings/booking.service";
+import { pruneExpiredPriceQuotes } from "../modules/pricing/pricing.service";
+import { createIntervalWorker } from "./intervalWorker";
+import { logger } from "./logger";
+
+export const { start: startOrderExpiryWorker, stop: stopOrderExpiryWorker } = createIntervalWorker({
+  name: "Order expiry",
+  intervalEnv: "ORDER_EXPIRY_INTERVAL_MS",
+  defaultMs: 60 * 1000,
+  run: async () => {
+    const expired = await expireStaleOrders();
+    const prunedQuotes = await pruneExpiredPriceQuotes();
+    if (expired > 0 || prunedQuotes > 0) {
+      logger.info("Order expiry run finished", { expired, prunedQuotes });
+    }
+  },
+});
@@ -0,0 +1,12 @@
+/**
+ * A way of getting a one-time code to a phone. Drivers only deliver; the
+ * code, its expiry and attempt limits are handled by the caller.
+ */
+export type OtpChannelKind = "console" | "whatsapp" | "sms";
+
+export interface OtpChannel {
+  readonly kind: OtpChannelKind;
+
+  // `to` is E.164, e.g. +923001234567
+  sendCode(to: string, code: string, options: { expiresInMinutes: number }): Promise<void>;
+}
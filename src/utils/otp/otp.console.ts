@@ -0,0 +1,13 @@
+import { logger } from "../logger";
+import { OtpChannel } from "./otp.channel";
+
+/**
+ * Writes codes to the log instead of sending them, for development.
+ */
+export const createConsoleChannel = (): OtpChannel => ({
+  kind: "console",
+
+  async sendCode(to, code, { expiresInMinutes }) {
+    logger.info(`OTP for ${to}: ${code} (valid ${expiresInMinutes} min)`);
+  },
+});
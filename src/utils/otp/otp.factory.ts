@@ -0,0 +1,51 @@
+import { OtpChannel, OtpChannelKind } from "./otp.channel";
+import { createConsoleChannel } from "./otp.console";
+import { createSmsChannel } from "./otp.sms";
+import { createWhatsAppChannel } from "./otp.whatsapp";
+
+/**
+ * OTP_CHANNELS lists the enabled channels, first one the default, e.g.
+ * "whatsapp,sms". Outside production it defaults to "console"; production
+ * must set it, so codes are never only logged by accident.
+ */
+const FACTORIES: Record<OtpChannelKind, () => OtpChannel> = {
+  console: createConsoleChannel,
+  whatsapp: createWhatsAppChannel,
+  sms: createSmsChannel,
+};
+
+const isChannelKind = (value: string): value is OtpChannelKind => value in FACTORIES;
+
+export const getEnabledOtpChannels = (): OtpChannelKind[] => {
+  const configured = process.env.OTP_CHANNELS ?? (process.env.NODE_ENV === "production" ? "" : "console");
+  const kinds = configured
+    .split(",")
+    .map((kind) => kind.trim())
+    .filter(Boolean);
+
+  const unknown = kinds.find((kind) => !isChannelKind(kind));
+  if (unknown) {
+    throw new Error(`Unknown OTP channel "${unknown}"`);
+  }
+  if (kinds.length === 0) {
+    throw new Error("OTP_CHANNELS is missing");
+  }
+  return kinds as OtpChannelKind[];
+};
+
+const channels = new Map<OtpChannelKind, OtpChannel>();
+
+/**
+ * The requested channel if it is enabled, else the default one.
+ */
+export const getOtpChannel = (preferred?: OtpChannelKind) => {
+  const enabled = getEnabledOtpChannels();
+  const kind = preferred && enabled.includes(preferred) ? preferred : enabled[0];
+
+  let channel = channels.get(kind);
+  if (!channel) {
+    channel = FACTORIES[kind]();
+    channels.set(kind, channel);
+  }
+  return channel;
+};
@@ -0,0 +1,11 @@
+import { sendSms } from "../../modules/notifications/sms.service";
+import { OtpChannel } from "./otp.channel";
+
+export const createSmsChannel = (): OtpChannel => ({
+  kind: "sms",
+
+  async sendCode(to, code, { expiresInMinutes }) {
+    const brand = process.env.OTP_BRAND_NAME || "NeckRest";
+    await sendSms(to, `${code} is your ${brand} verification code. It expires in ${expiresInMinutes} minutes.`);
+  },
+});
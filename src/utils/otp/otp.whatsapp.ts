@@ -0,0 +1,22 @@
+import { sendWhatsAppTemplate } from "../../modules/notifications/whatsapp.service";
+import { OtpChannel } from "./otp.channel";
+
+/**
+ * Codes through an approved WhatsApp authentication template
+ * (WHATSAPP_OTP_TEMPLATE). Such templates take the code in the body and
+ * again for their copy-code button.
+ */
+export const createWhatsAppChannel = (): OtpChannel => ({
+  kind: "whatsapp",
+
+  async sendCode(to, code) {
+    await sendWhatsAppTemplate({
+      to,
+      template: process.env.WHATSAPP_OTP_TEMPLATE || "otp_code",
+      components: [
+        { type: "body", parameters: [{ type: "text", text: code }] },
+        { type: "button", sub_type: "url", index: "0", parameters: [{ type: "text", text: code }] },
+      ],
+    });
+  },
+});
@@ -0,0 +1,16 @@
+/**
+ * Phone numbers are stored in E.164 (+923001234567) once verified.
+ * National numbers with a leading 0 take PHONE_DEFAULT_COUNTRY_CODE.
+ */
+const getDefaultCountryCode = () => process.env.PHONE_DEFAULT_COUNTRY_CODE || "92";
+
+export const normalizePhone = (input: string) => {
+  const phone = input.replace(/[\s().-]/g, "");
+
+  if (/^\+[1-9]\d{7,14}$/.test(phone)) return phone;
+  if (/^00[1-9]\d{7,14}$/.test(phone)) return `+${phone.slice(2)}`;
+  if (/^0\d{9,10}$/.test(phone)) return `+${getDefaultCountryCode()}${phone.slice(1)}`;
+  if (/^[1-9]\d{9,14}$/.test(phone)) return `+${phone}`;
+
+  return null;
+};
@@ -4,14 +4,16 @@ import { RETRY_DELAYS, setupQueue } from "./rabit.setupQueue";
 
 
 
+// prefetch: messages handed to this consumer at once; 1 for heavy jobs
 export async function subscribeWithRetry(
   queue: string,
-  handler: (data: any) => Promise<void>
+  handler: (data: any) => Promise<void>,
+  { prefetch = 5 }: { prefetch?: number } = {}
 ) {
   const ch = await connectRabbit();
   await setupQueue(queue);
 
-  ch.prefetch(5);
+  ch.prefetch(prefetch);
 
   ch.consume(queue, async (msg:any) => {
     if (!msg) return;
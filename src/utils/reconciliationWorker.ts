@@ -0,0 +1,21 @@
+import prisma from "../config/prismaClient";
+import { runReconciliation, toReportDate } from "../modules/reconciliation/reconciliation.service";
+import { createIntervalWorker } from "./intervalWorker";
+
+// Builds yesterday's report once; later ticks see it exists and do nothing
+export const { start: startReconciliationWorker, stop: stopReconciliationWorker } = createIntervalWorker({
+  name: "Payment reconciliation",
+  intervalEnv: "RECONCILIATION_INTERVAL_MS",
+  defaultMs: 60 * 60 * 1000,
+  run: async () => {
+    const reportDate = toReportDate();
+    const existing = await prisma.reconciliationReport.findUnique({
+      where: { reportDate },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      await runReconciliation(reportDate);
+    }
+  },
+});
@@ -0,0 +1,16 @@
+import { applyLateFees, generateRentInvoices } from "../modules/residents/resident.service";
+import { createIntervalWorker } from "./intervalWorker";
+import { logger } from "./logger";
+
+export const { start: startRentInvoiceWorker, stop: stopRentInvoiceWorker } = createIntervalWorker({
+  name: "Rent invoice",
+  intervalEnv: "RENT_INVOICE_INTERVAL_MS",
+  defaultMs: 60 * 60 * 1000,
+  run: async () => {
+    const issued = await generateRentInvoices();
+    const lateFees = await applyLateFees();
+    if (issued > 0 || lateFees > 0) {
+      logger.info("Rent invoice run finished", { issued, lateFees });
+    }
+  },
+});
@@ -1,4 +1,6 @@
-import prisma from "../config/prismaClient";
+import { Prisma } from "@prisma/client";
+import { ApiError } from "./ApiError";
+import { compareBedLabels, liveBookingWhere } from "../modules/rooms/room.service";
 
 export const calculateRoomSeats = ({
   beds,
@@ -18,22 +20,48 @@ export const calculateRoomSeats = ({
   };
 };
 
+/**
+ * Checks a room can go to `newBeds` beds and works out which beds to add (as
+ * new labels) and remove (free ones, highest label first). Beds with a stay
+ * today or later are never removed.
+ */
 export const validateBedsUpdate = async (
+  tx: Prisma.TransactionClient,
   roomId: string,
   newBeds: number
 ) => {
-  const room = await prisma.room.findUnique({
-    where: { id: roomId },
-    select: { bookedSeats: true },
+  const beds = await tx.bed.findMany({
+    where: { roomId },
+    select: {
+      id: true,
+      label: true,
+      bookings: { where: liveBookingWhere(), select: { id: true }, take: 1 },
+    },
   });
 
-  if (!room) {
-    throw new Error("ROOM_NOT_FOUND");
+  const bookedBeds = beds.filter((bed) => bed.bookings.length > 0).length;
+  if (newBeds < bookedBeds) {
+    throw new ApiError(
+      409,
+      `Room has ${bookedBeds} bed(s) with current or upcoming bookings, it cannot have fewer beds than that`
+    );
   }
 
-  if (newBeds < room.bookedSeats) {
-    throw new Error("BEDS_LESS_THAN_BOOKED");
+  const labels = new Set(beds.map((bed) => bed.label));
+  const labelsToAdd: string[] = [];
+  for (let n = 1; labelsToAdd.length < newBeds - beds.length; n++) {
+    if (!labels.has(`Bed ${n}`)) labelsToAdd.push(`Bed ${n}`);
   }
 
-  return room.bookedSeats;
+  const bedIdsToRemove = beds
+    .filter((bed) => bed.bookings.length === 0)
+    .sort(compareBedLabels)
+    .reverse()
+    .slice(0, Math.max(beds.length - newBeds, 0))
+    .map((bed) => bed.id);
+
+  return { labelsToAdd, bedIdsToRemove };
 };
+
+export const defaultBedLabels = (beds: number) =>
+  Array.from({ length: beds }, (_, i) => `Bed ${i + 1}`);
@@ -22,7 +22,12 @@ const getActiveRefreshToken = async () => {
   return savedToken || process.env.REFRESH_TOKEN;
 };
 
-const sendEmail = async (to: string, subject: string, html: string): Promise<void> => {
+const sendEmail = async (
+  to: string,
+  subject: string,
+  html: string,
+  attachments?: nodemailer.SendMailOptions["attachments"]
+): Promise<void> => {
   try {
     const currentRefreshToken = await getActiveRefreshToken();
     
@@ -50,6 +55,7 @@ const sendEmail = async (to: string, subject: string, html: string): Promise<voi
       to,
       subject,
       html,
+      attachments,
     });
 
     console.log(`📧 Email sent to ${to}`);
@@ -0,0 +1,77 @@
+import path from "path";
+import { Readable } from "stream";
+
+/**
+ * A place files are kept: S3, an S3-compatible server such as MinIO, or a
+ * folder on local disk for development. Callers only ever deal in keys;
+ * URLs are worked out by the driver.
+ */
+export interface StorageDriver {
+  readonly kind: "s3" | "local";
+
+  put(key: string, body: Buffer | Readable, options: { contentType: string }): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  // For files too large to hold in memory
+  readStream(key: string): Readable;
+  // null when nothing is stored under the key
+  head(key: string): Promise<StoredObjectInfo | null>;
+  remove(key: string): Promise<void>;
+  // Every object whose key starts with the prefix, fetched page by page
+  list(prefix: string): AsyncIterable<ListedObject>;
+
+  // Permanent URL for publicly readable storage
+  publicUrl(key: string): string;
+  presignDownload(key: string, options: { expiresInSeconds: number; fileName?: string }): Promise<string>;
+  presignUpload(key: string, options: PresignUploadOptions): Promise<PresignedUpload>;
+}
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType?: string;
+  // MD5 hex of the content for single-request uploads
+  etag?: string;
+}
+
+export interface ListedObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface PresignUploadOptions {
+  contentType: string;
+  maxBytes: number;
+  expiresInSeconds: number;
+}
+
+/**
+ * Browser form upload: POST multipart to `url` with every field, then the
+ * file last as `file`. Storage rejects bodies over the size limit.
+ */
+export interface PresignedUpload {
+  url: string;
+  method: "POST";
+  fields: Record<string, string>;
+  expiresAt: Date;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".avif": "image/avif",
+  ".gif": "image/gif",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/mp2t",
+};
+
+export const contentTypeForKey = (key: string) =>
+  CONTENT_TYPES[path.extname(key).toLowerCase()] ?? "application/octet-stream";
+
+// Extensions come from the checked content type, never the uploaded name
+export const extensionForContentType = (contentType: string) =>
+  Object.keys(CONTENT_TYPES).find((extension) => CONTENT_TYPES[extension] === contentType) ?? "";
@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import path from "path";
+import { StorageDriver, extensionForContentType } from "./storage.driver";
+import { createLocalDriver } from "./storage.local";
+import { createS3Driver } from "./storage.s3";
+
+/**
+ * Two stores: "media" for public room photos and videos, "private" for
+ * identity documents. Each picks its driver from the environment:
+ *
+ *   MEDIA_STORAGE_DRIVER    s3 (default) | minio | local
+ *   PRIVATE_STORAGE_DRIVER  local (default outside production) | s3 | minio
+ *
+ * Production must name the private driver, so identity documents never end
+ * up on the app server's disk by default.
+ * s3 and minio use AWS_BUCKET_NAME / PRIVATE_S3_BUCKET, minio also needs
+ * S3_ENDPOINT. local keeps files under MEDIA_STORAGE_DIR /
+ * PRIVATE_STORAGE_DIR; local media is served from /media.
+ */
+export type StoreName = "media" | "private";
+
+export const LOCAL_MEDIA_ROUTE = "/media";
+
+const getLocalRoot = (name: StoreName) =>
+  path.resolve(
+    (name === "media" ? process.env.MEDIA_STORAGE_DIR : process.env.PRIVATE_STORAGE_DIR) || `storage/${name}`
+  );
+
+const getDriverName = (name: StoreName) => {
+  const configured = name === "media" ? process.env.MEDIA_STORAGE_DRIVER : process.env.PRIVATE_STORAGE_DRIVER;
+  if (configured) return configured;
+
+  if (name === "private" && process.env.NODE_ENV === "production") {
+    throw new Error("PRIVATE_STORAGE_DRIVER must be set in production");
+  }
+  return name === "media" ? "s3" : "local";
+};
+
+// Folder app.ts serves under LOCAL_MEDIA_ROUTE, or null when media is not on local disk
+export const getLocalMediaRoot = () => (getDriverName("media") === "local" ? getLocalRoot("media") : null);
+
+// Whether app.ts needs the /api/storage routes that stand in for S3
+export const hasLocalStore = () => getDriverName("media") === "local" || getDriverName("private") === "local";
+
+const createStore = (name: StoreName): StorageDriver => {
+  const isMedia = name === "media";
+  const driver = getDriverName(name);
+
+  if (driver === "local") {
+    return createLocalDriver({
+      name,
+      root: getLocalRoot(name),
+      ...(isMedia && { publicBaseUrl: `${process.env.API_BASE_URL ?? ""}${LOCAL_MEDIA_ROUTE}` }),
+    });
+  }
+
+  if (driver !== "s3" && driver !== "minio") {
+    throw new Error(`Unknown storage driver "${driver}" for ${name} storage`);
+  }
+
+  const bucket = isMedia ? process.env.AWS_BUCKET_NAME : process.env.PRIVATE_S3_BUCKET;
+  if (!bucket) {
+    throw new Error(`${isMedia ? "AWS_BUCKET_NAME" : "PRIVATE_S3_BUCKET"} is missing`);
+  }
+
+  if (driver === "minio" && !process.env.S3_ENDPOINT) {
+    throw new Error("S3_ENDPOINT is missing");
+  }
+
+  return createS3Driver({
+    bucket,
+    endpoint: driver === "minio" ? process.env.S3_ENDPOINT : undefined,
+    publicBaseUrl: isMedia ? process.env.MEDIA_PUBLIC_BASE_URL : undefined,
+    private: !isMedia,
+  });
+};
+
+const stores: Partial<Record<StoreName, StorageDriver>> = {};
+
+export const getStorage = (name: StoreName): StorageDriver => {
+  if (!stores[name]) {
+    stores[name] = createStore(name);
+  }
+  return stores[name]!;
+};
+
+export const getMediaStorage = () => getStorage("media");
+export const getPrivateStorage = () => getStorage("private");
+
+export const isStoreName = (name: string): name is StoreName => name === "media" || name === "private";
+
+/**
+ * Random key under the folder. Uploaded file names often carry a person's
+ * name or ID number, so they stay out of keys.
+ */
+export const buildStorageKey = (folder: string, contentType: string) =>
+  `${folder}/${crypto.randomUUID()}${extensionForContentType(contentType)}`;
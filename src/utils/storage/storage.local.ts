@@ -0,0 +1,217 @@
+import crypto from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { ApiError } from "../ApiError";
+import { ListedObject, StorageDriver, contentTypeForKey } from "./storage.driver";
+
+/**
+ * Files in a folder on this machine, for development. Signed links point
+ * at /api/storage, which checks the signature the way S3 would.
+ */
+export interface LocalDriverOptions {
+  // Store name, signed into links so they only open files of this store
+  name: string;
+  root: string;
+  // Where public files are served from; unset for private stores
+  publicBaseUrl?: string;
+}
+
+const LOCAL_STORAGE_PATH = "/api/storage";
+
+const getSigningSecret = () => {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("STORAGE_SIGNING_SECRET is missing");
+  }
+  return secret;
+};
+
+const sign = (...parts: (string | number)[]) =>
+  crypto.createHmac("sha256", getSigningSecret()).update(parts.join("\n")).digest("hex");
+
+const assertSignature = (expected: string, received?: string) => {
+  const a = Buffer.from(expected, "hex");
+  const b = Buffer.from(received ?? "", "hex");
+
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) {
+    throw new ApiError(403, "Invalid storage signature");
+  }
+};
+
+const assertNotExpired = (expires?: string) => {
+  if (!expires || Number(expires) * 1000 < Date.now()) {
+    throw new ApiError(410, "Link has expired");
+  }
+};
+
+/**
+ * Checks a signed download link and returns what it grants.
+ */
+export const verifyLocalDownload = (query: Record<string, string | undefined>) => {
+  const { store = "", key = "", expires, name = "", signature } = query;
+
+  assertNotExpired(expires);
+  assertSignature(sign("download", store, key, expires!, name), signature);
+
+  return { store, key, fileName: name };
+};
+
+/**
+ * Checks the fields of a presigned upload form and returns what it grants.
+ */
+export const verifyLocalUpload = (fields: Record<string, string | undefined>) => {
+  const { store = "", key = "", expires, maxBytes = "", signature } = fields;
+  const contentType = fields["Content-Type"] ?? "";
+
+  assertNotExpired(expires);
+  assertSignature(sign("upload", store, key, expires!, contentType, maxBytes), signature);
+
+  return { store, key, contentType, maxBytes: Number(maxBytes) };
+};
+
+const md5File = async (filePath: string) => {
+  const hash = crypto.createHash("md5");
+  await pipeline(createReadStream(filePath), hash);
+  return hash.digest("hex");
+};
+
+export const createLocalDriver = (options: LocalDriverOptions): StorageDriver => {
+  const root = path.resolve(options.root);
+  const baseUrl = process.env.API_BASE_URL ?? "";
+
+  // Keys come from our own code, but never let one escape the root
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new ApiError(400, "Invalid storage key");
+    }
+    return filePath;
+  };
+
+  return {
+    kind: "local",
+
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      const tempPath = `${filePath}.${crypto.randomUUID()}.part`;
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write aside and rename, so readers never see half a file
+      try {
+        if (Buffer.isBuffer(body)) {
+          await fs.writeFile(tempPath, body, { mode: 0o600 });
+        } else {
+          await pipeline(body as Readable, createWriteStream(tempPath, { mode: 0o600 }));
+        }
+        await fs.rename(tempPath, filePath);
+      } catch (error) {
+        await fs.rm(tempPath, { force: true });
+        throw error;
+      }
+    },
+
+    async read(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error: any) {
+        if (error?.code === "ENOENT") {
+          throw new ApiError(404, "File not found");
+        }
+        throw error;
+      }
+    },
+
+    readStream(key) {
+      return createReadStream(resolveKey(key));
+    },
+
+    async head(key) {
+      const filePath = resolveKey(key);
+      try {
+        const stats = await fs.stat(filePath);
+        return {
+          size: stats.size,
+          contentType: contentTypeForKey(key),
+          etag: await md5File(filePath),
+        };
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async remove(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+
+    async *list(prefix): AsyncIterable<ListedObject> {
+      // Walk the deepest folder the prefix names, then filter on the full key
+      const walk = async function* (dir: string): AsyncIterable<ListedObject> {
+        let entries;
+        try {
+          entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch (error: any) {
+          if (error?.code === "ENOENT") return;
+          throw error;
+        }
+
+        for (const entry of entries) {
+          const filePath = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            yield* walk(filePath);
+            continue;
+          }
+
+          const key = path.relative(root, filePath).split(path.sep).join("/");
+          if (!key.startsWith(prefix)) continue;
+
+          const stats = await fs.stat(filePath);
+          yield { key, size: stats.size, lastModified: stats.mtime };
+        }
+      };
+
+      yield* walk(path.join(root, prefix.slice(0, prefix.lastIndexOf("/") + 1)));
+    },
+
+    publicUrl(key) {
+      if (!options.publicBaseUrl) {
+        throw new Error(`Storage "${options.name}" has no public URLs`);
+      }
+      return `${options.publicBaseUrl.replace(/\/$/, "")}/${key.split("/").map(encodeURIComponent).join("/")}`;
+    },
+
+    async presignDownload(key, { expiresInSeconds, fileName = "" }) {
+      const expires = String(Math.floor(Date.now() / 1000) + expiresInSeconds);
+      const query = new URLSearchParams({
+        store: options.name,
+        key,
+        expires,
+        name: fileName,
+        signature: sign("download", options.name, key, expires, fileName),
+      });
+
+      return `${baseUrl}${LOCAL_STORAGE_PATH}/files?${query}`;
+    },
+
+    async presignUpload(key, { contentType, maxBytes, expiresInSeconds }) {
+      const expires = String(Math.floor(Date.now() / 1000) + expiresInSeconds);
+
+      return {
+        url: `${baseUrl}${LOCAL_STORAGE_PATH}/uploads`,
+        method: "POST",
+        fields: {
+          store: options.name,
+          key,
+          "Content-Type": contentType,
+          expires,
+          maxBytes: String(maxBytes),
+          signature: sign("upload", options.name, key, expires, contentType, maxBytes),
+        },
+        expiresAt: new Date(Number(expires) * 1000),
+      };
+    },
+  };
+};
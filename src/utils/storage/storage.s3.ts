@@ -0,0 +1,123 @@
+import AWS from "aws-sdk";
+import { Readable } from "stream";
+import { ListedObject, StorageDriver } from "./storage.driver";
+
+export interface S3DriverOptions {
+  bucket: string;
+  // Set for S3-compatible servers such as MinIO
+  endpoint?: string;
+  // Base URL public objects are served from; defaults to the bucket URL
+  publicBaseUrl?: string;
+  // Encrypt objects at rest and never make them public
+  private?: boolean;
+}
+
+export const createS3Driver = (options: S3DriverOptions): StorageDriver => {
+  const { bucket, endpoint } = options;
+
+  const s3 = new AWS.S3({
+    accessKeyId: process.env.AWS_ACCESS_KEY!,
+    secretAccessKey: process.env.AWS_SECRET_KEY!,
+    region: process.env.AWS_REGION!,
+    signatureVersion: "v4",
+    // MinIO serves buckets as paths, not subdomains
+    ...(endpoint && { endpoint, s3ForcePathStyle: true }),
+  });
+
+  const publicBaseUrl = (
+    options.publicBaseUrl ??
+    (endpoint
+      ? `${endpoint}/${bucket}`
+      : `https://${bucket}.s3.${process.env.AWS_REGION}.amazonaws.com`)
+  ).replace(/\/$/, "");
+
+  return {
+    kind: "s3",
+
+    async put(key, body: Buffer | Readable, { contentType }) {
+      // upload() switches to multipart for large streams
+      await s3
+        .upload({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          ...(options.private && { ACL: "private", ServerSideEncryption: "AES256" }),
+        })
+        .promise();
+    },
+
+    async read(key) {
+      const object = await s3.getObject({ Bucket: bucket, Key: key }).promise();
+      return object.Body as Buffer;
+    },
+
+    readStream(key) {
+      return s3.getObject({ Bucket: bucket, Key: key }).createReadStream();
+    },
+
+    async head(key) {
+      try {
+        const object = await s3.headObject({ Bucket: bucket, Key: key }).promise();
+        return {
+          size: object.ContentLength ?? 0,
+          contentType: object.ContentType,
+          etag: object.ETag?.replace(/"/g, ""),
+        };
+      } catch (error: any) {
+        if (error?.code === "NotFound" || error?.statusCode === 404) return null;
+        throw error;
+      }
+    },
+
+    async remove(key) {
+      await s3.deleteObject({ Bucket: bucket, Key: key }).promise();
+    },
+
+    async *list(prefix): AsyncIterable<ListedObject> {
+      let continuationToken: string | undefined;
+      do {
+        const page = await s3
+          .listObjectsV2({ Bucket: bucket, Prefix: prefix, ContinuationToken: continuationToken })
+          .promise();
+
+        for (const object of page.Contents ?? []) {
+          yield { key: object.Key!, size: object.Size ?? 0, lastModified: object.LastModified ?? new Date(0) };
+        }
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+    },
+
+    publicUrl(key) {
+      if (options.private) {
+        throw new Error(`Bucket "${bucket}" is private and has no public URLs`);
+      }
+      return `${publicBaseUrl}/${key.split("/").map(encodeURIComponent).join("/")}`;
+    },
+
+    async presignDownload(key, { expiresInSeconds, fileName }) {
+      return s3.getSignedUrlPromise("getObject", {
+        Bucket: bucket,
+        Key: key,
+        Expires: expiresInSeconds,
+        ...(fileName && { ResponseContentDisposition: `attachment; filename="${fileName.replace(/"/g, "")}"` }),
+      });
+    },
+
+    async presignUpload(key, { contentType, maxBytes, expiresInSeconds }) {
+      const post = s3.createPresignedPost({
+        Bucket: bucket,
+        Expires: expiresInSeconds,
+        Fields: { key, "Content-Type": contentType },
+        Conditions: [["content-length-range", 1, maxBytes]],
+      });
+
+      return {
+        url: post.url,
+        method: "POST",
+        fields: post.fields,
+        expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+      };
+    },
+  };
+};
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  totpStep,
+  verifyTotp,
+} from "./totp";
+
+// The SHA-1 key of the RFC 6238 test vectors, "12345678901234567890"
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+describe("base32", () => {
+  it("round-trips bytes", () => {
+    const bytes = Buffer.from("12345678901234567890");
+    assert.equal(base32Encode(bytes), RFC_SECRET);
+    assert.deepEqual(base32Decode(RFC_SECRET), bytes);
+  });
+
+  it("ignores case, spaces and padding", () => {
+    assert.deepEqual(base32Decode("gezd gnbv===="), base32Decode("GEZDGNBV"));
+  });
+
+  it("rejects characters outside the alphabet", () => {
+    assert.throws(() => base32Decode("GEZD1"), /Invalid base32 character/);
+  });
+
+  it("makes 160 bit secrets", () => {
+    assert.equal(base32Decode(generateTotpSecret()).length, 20);
+  });
+});
+
+describe("generateTotp", () => {
+  it("matches the RFC 6238 test vectors", () => {
+    const at = (seconds: number) => generateTotp(RFC_SECRET, totpStep(new Date(seconds * 1000)));
+
+    assert.equal(at(59), "287082");
+    assert.equal(at(1111111109), "081804");
+    assert.equal(at(1234567890), "005924");
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = new Date("2026-03-01T12:00:00Z");
+  const step = totpStep(now);
+
+  it("returns the step of a current code", () => {
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), now), step);
+  });
+
+  it("allows one step of clock drift either way", () => {
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), now), step - 1);
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), now), step + 1);
+  });
+
+  it("rejects older codes and malformed input", () => {
+    assert.equal(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), now), null);
+    assert.equal(verifyTotp(RFC_SECRET, "12345", now), null);
+    assert.equal(verifyTotp(RFC_SECRET, "abcdef", now), null);
+  });
+});
+
+describe("buildOtpauthUri", () => {
+  it("names the issuer and account", () => {
+    const uri = new URL(buildOtpauthUri({ secret: RFC_SECRET, accountName: "admin@example.com", issuer: "Hostel" }));
+
+    assert.equal(uri.protocol, "otpauth:");
+    assert.equal(uri.searchParams.get("secret"), RFC_SECRET);
+    assert.equal(uri.searchParams.get("issuer"), "Hostel");
+  });
+});